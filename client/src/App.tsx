@@ -15,6 +15,9 @@ import Campaigns from "@/pages/campaigns";
 import CampaignDetail from "@/pages/campaign-detail";
 import AiAgents from "@/pages/ai-agents";
 import Settings from "@/pages/settings";
+import DoNotCall from "@/pages/dnc";
+import Imports from "@/pages/imports";
+import LiveCalls from "@/pages/live-calls";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -22,10 +25,13 @@ function Router() {
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/contacts" component={Dashboard} />
+      <Route path="/imports" component={Imports} />
       <Route path="/analytics" component={Analytics} />
       <Route path="/campaigns" component={Campaigns} />
       <Route path="/campaigns/:id" component={CampaignDetail} />
+      <Route path="/live" component={LiveCalls} />
       <Route path="/agents" component={AiAgents} />
+      <Route path="/dnc" component={DoNotCall} />
       <Route path="/settings" component={Settings} />
       <Route component={NotFound} />
     </Switch>
@@ -1,4 +1,5 @@
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import {
   Sheet,
   SheetContent,
@@ -7,12 +8,27 @@ import {
   SheetTitle,
 } from "@/components/ui/sheet";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { Phone, Clock, User, MessageSquare, TrendingUp, Calendar, CheckCircle2, AlertCircle } from "lucide-react";
-import type { ConversationTranscript, CallInteraction } from "@shared/schema";
-import { formatDate } from "@/lib/utils";
+import { Phone, Clock, User, MessageSquare, TrendingUp, Calendar, CheckCircle2, AlertCircle, Sparkles, AudioLines } from "lucide-react";
+import type { ConversationTranscript, CallInteraction, CallRecording } from "@shared/schema";
+import { RecordingPlayer } from "@/components/recording-player";
+import { formatDate, getErrorMessage } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+function formatOffset(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+const RECORDING_DELETION_REASONS: Record<string, string> = {
+  retention_period: "retention period passed",
+  disposition: "disposition not kept",
+  opt_out: "contact opted out",
+};
 
 interface CallDetailsSheetProps {
   callId: string | null;
@@ -45,6 +61,51 @@ export function CallDetailsSheet({ callId, open, onOpenChange }: CallDetailsShee
     },
   });
 
+  const { data: recording } = useQuery<CallRecording | null>({
+    queryKey: ["/api/calls", callId, "recording"],
+    enabled: !!callId && open,
+  });
+
+  // Playback position, to highlight the transcript turn being heard
+  const [playbackSeconds, setPlaybackSeconds] = useState<number | null>(null);
+  const activeTurnRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setPlaybackSeconds(null);
+  }, [callId]);
+
+  const recordingStart = recording?.startedAt ? new Date(recording.startedAt).getTime() : null;
+  // Turns saved with offsets line up with the recording exactly; older ones fall back to their timestamp
+  const getTurnSeconds = (t: ConversationTranscript) =>
+    t.startMs !== null ? t.startMs / 1000 : (new Date(t.timestamp).getTime() - (recordingStart ?? 0)) / 1000;
+  const activeTurnIndex = recordingStart !== null && playbackSeconds !== null && transcripts
+    ? transcripts.findLastIndex((t) => getTurnSeconds(t) <= playbackSeconds)
+    : -1;
+
+  useEffect(() => {
+    activeTurnRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [activeTurnIndex]);
+
+  const { toast } = useToast();
+
+  const extractMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/calls/${callId}/interactions/extract`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calls", callId, "interactions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Extraction failed",
+        description: getErrorMessage(error, "Could not extract insights from the transcript."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasExtractedInsights = interactions?.some(i => i.extractedBy) ?? false;
+
   const getInteractionValue = (field: string): string | null => {
     return interactions?.find(i => i.field === field)?.value || null;
   };
@@ -152,13 +213,48 @@ export function CallDetailsSheet({ callId, open, onOpenChange }: CallDetailsShee
             </Card>
           )}
 
+          {/* Recording Section */}
+          {recording && callId && (
+            <Card data-testid="card-recording">
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <AudioLines className="h-4 w-4" />
+                  Recording
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {recording.deletedAt ? (
+                  <p className="text-sm text-muted-foreground" data-testid="text-recording-deleted">
+                    Deleted by the recording retention policy
+                    {recording.deletionReason ? ` (${RECORDING_DELETION_REASONS[recording.deletionReason] ?? recording.deletionReason})` : ""}
+                    {" · "}{formatDate(recording.deletedAt)}
+                  </p>
+                ) : (
+                  <RecordingPlayer callId={callId} onTimeUpdate={setPlaybackSeconds} />
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Conversation Transcript Section */}
           <Card data-testid="card-transcript">
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle className="text-base flex items-center gap-2">
                 <MessageSquare className="h-4 w-4" />
                 Conversation
               </CardTitle>
+              {transcripts && transcripts.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => extractMutation.mutate()}
+                  disabled={extractMutation.isPending}
+                  data-testid="button-extract-insights"
+                >
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  {extractMutation.isPending ? "Extracting..." : hasExtractedInsights ? "Re-extract insights" : "Extract insights"}
+                </Button>
+              )}
             </CardHeader>
             <CardContent>
               {isLoadingTranscripts ? (
@@ -169,6 +265,7 @@ export function CallDetailsSheet({ callId, open, onOpenChange }: CallDetailsShee
                     {transcripts.map((transcript, index) => (
                       <div 
                         key={transcript.id} 
+                        ref={index === activeTurnIndex ? activeTurnRef : undefined}
                         className={`flex gap-3 ${transcript.speaker === 'agent' ? 'flex-row' : 'flex-row-reverse'}`}
                         data-testid={`message-${index}`}
                       >
@@ -187,14 +284,25 @@ export function CallDetailsSheet({ callId, open, onOpenChange }: CallDetailsShee
                           <div className="flex items-center gap-2 text-xs text-muted-foreground">
                             <span>{transcript.speaker === 'agent' ? 'AI Agent' : 'Caller'}</span>
                             <Clock className="h-3 w-3" />
-                            <span>{new Date(transcript.timestamp).toLocaleTimeString()}</span>
+                            <span>
+                              {transcript.startMs !== null
+                                ? formatOffset(transcript.startMs)
+                                : new Date(transcript.timestamp).toLocaleTimeString()}
+                            </span>
+                            {transcript.status === 'interrupted' && (
+                              <Badge variant="outline" className="text-xs" data-testid={`badge-interrupted-${index}`}>
+                                Interrupted
+                              </Badge>
+                            )}
                           </div>
                           <div className={`rounded-lg px-4 py-2 text-sm ${
                             transcript.speaker === 'agent'
                               ? 'bg-primary/10 text-foreground'
                               : 'bg-secondary text-secondary-foreground'
+                          } ${index === activeTurnIndex ? 'ring-2 ring-primary' : ''} ${
+                            transcript.status === 'tentative' ? 'italic opacity-70' : ''
                           }`}>
-                            {transcript.message}
+                            {transcript.message}{transcript.status === 'tentative' ? '…' : ''}
                           </div>
                         </div>
                       </div>
@@ -0,0 +1,194 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatDuration } from "@/lib/utils";
+import type { CampaignMetrics, CampaignReport } from "@shared/schema";
+
+const OUTCOME_LABELS: Record<string, string> = {
+  completed: "Connected",
+  no_answer: "No answer",
+  busy: "Busy",
+  voicemail: "Voicemail",
+  failed_to_connect: "Failed to connect",
+  failed: "Failed",
+};
+
+const INTEREST_LABELS: Record<string, string> = {
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+};
+
+function percent(part: number, whole: number): string {
+  return whole > 0 ? `${((part / whole) * 100).toFixed(0)}%` : "—";
+}
+
+function BarList({ items, total, testId }: { items: { label: string; count: number }[]; total: number; testId: string }) {
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">No data yet</p>;
+  }
+
+  return (
+    <div className="space-y-2" data-testid={testId}>
+      {items.map((item) => (
+        <div key={item.label} className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span>{item.label}</span>
+            <span className="text-muted-foreground">
+              {item.count} ({percent(item.count, total)})
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-muted">
+            <div
+              className="h-2 rounded-full bg-primary"
+              style={{ width: total > 0 ? `${(item.count / total) * 100}%` : 0 }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function funnelSteps(metrics: CampaignMetrics) {
+  return [
+    { label: "Contacts", count: metrics.contacts },
+    { label: "Dialed", count: metrics.dialedContacts },
+    { label: "Connected", count: metrics.connectedContacts },
+    { label: "Interested", count: metrics.interestedContacts },
+  ];
+}
+
+const COMPARISON_ROWS: { label: string; value: (m: CampaignMetrics) => string }[] = [
+  { label: "Dials", value: (m) => String(m.dials) },
+  { label: "Connect rate", value: (m) => `${m.connectRate.toFixed(1)}%` },
+  { label: "Contacts connected", value: (m) => `${m.connectedContacts} (${percent(m.connectedContacts, m.contacts)})` },
+  { label: "Contacts interested", value: (m) => `${m.interestedContacts} (${percent(m.interestedContacts, m.contacts)})` },
+  { label: "Avg talk time", value: (m) => formatDuration(m.averageTalkTimeSeconds) },
+  { label: "Total talk time", value: (m) => formatDuration(m.talkTimeSeconds) },
+];
+
+interface CampaignReportCardProps {
+  campaignId: string;
+  isActive: boolean; // Refresh while the campaign is dialing
+}
+
+export function CampaignReportCard({ campaignId, isActive }: CampaignReportCardProps) {
+  const { data: report, isLoading } = useQuery<CampaignReport>({
+    queryKey: ["/api/campaigns", campaignId, "report"],
+    enabled: !!campaignId,
+    refetchInterval: isActive ? 30000 : false,
+  });
+
+  if (isLoading || !report) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Performance Report</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">Loading report...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { metrics } = report;
+  const outcomes = metrics.outcomes.map((o) => ({ label: OUTCOME_LABELS[o.outcome] ?? o.outcome, count: o.count }));
+  const interestTotal = metrics.interestLevels.reduce((sum, i) => sum + i.contacts, 0);
+  const interest = ['high', 'medium', 'low']
+    .map((level) => ({
+      label: INTEREST_LABELS[level],
+      count: metrics.interestLevels.find((i) => i.level === level)?.contacts ?? 0,
+    }))
+    .filter((item) => item.count > 0);
+
+  return (
+    <Card data-testid="card-campaign-report">
+      <CardHeader>
+        <CardTitle>Performance Report</CardTitle>
+        <CardDescription>
+          {report.agentName ? `Agent: ${report.agentName}` : "No AI agent"} · counts every dial attempt
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Connect rate</p>
+            <p className="text-2xl font-bold" data-testid="text-connect-rate">{metrics.connectRate.toFixed(1)}%</p>
+            <p className="text-xs text-muted-foreground">{metrics.connects} of {metrics.dials} dials</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Contacts reached</p>
+            <p className="text-2xl font-bold">{metrics.connectedContacts}</p>
+            <p className="text-xs text-muted-foreground">{percent(metrics.connectedContacts, metrics.contacts)} of contacts</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Total talk time</p>
+            <p className="text-2xl font-bold" data-testid="text-total-talk-time">{formatDuration(metrics.talkTimeSeconds)}</p>
+            <p className="text-xs text-muted-foreground">{metrics.timedCalls} timed calls</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Avg talk time</p>
+            <p className="text-2xl font-bold" data-testid="text-avg-talk-time">{formatDuration(metrics.averageTalkTimeSeconds)}</p>
+            <p className="text-xs text-muted-foreground">Per connected call</p>
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-3">
+          <div className="space-y-2">
+            <p className="font-medium">Conversion funnel</p>
+            <BarList items={funnelSteps(metrics)} total={metrics.contacts} testId="list-funnel" />
+          </div>
+          <div className="space-y-2">
+            <p className="font-medium">Dial outcomes</p>
+            <BarList items={outcomes} total={metrics.dials} testId="list-outcomes" />
+          </div>
+          <div className="space-y-2">
+            <p className="font-medium">Interest level</p>
+            <BarList items={interest} total={interestTotal} testId="list-interest" />
+          </div>
+        </div>
+
+        {report.comparisons.length > 0 && (
+          <div className="space-y-4">
+            <div>
+              <p className="font-medium">Agent comparison</p>
+              <p className="text-sm text-muted-foreground">
+                Campaigns with a different agent, measured on the contacts both campaigns share
+              </p>
+            </div>
+            {report.comparisons.map((comparison) => (
+              <div key={comparison.campaignId} className="border rounded-md" data-testid={`comparison-${comparison.campaignId}`}>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{comparison.sharedContacts} shared contacts</TableHead>
+                      <TableHead>This campaign ({report.agentName ?? "no agent"})</TableHead>
+                      <TableHead>
+                        <Link href={`/campaigns/${comparison.campaignId}`}>
+                          <span className="hover:underline cursor-pointer">{comparison.campaignName}</span>
+                        </Link>{" "}
+                        ({comparison.agentName ?? "no agent"})
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {COMPARISON_ROWS.map((row) => (
+                      <TableRow key={row.label}>
+                        <TableCell className="text-muted-foreground">{row.label}</TableCell>
+                        <TableCell>{row.value(comparison.thisCampaign)}</TableCell>
+                        <TableCell>{row.value(comparison.otherCampaign)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -18,11 +18,13 @@ import {
   XCircle,
   Voicemail,
   AlertCircle,
+  Ban,
   Tag as TagIcon,
   Plus,
 } from "lucide-react";
 import { getInitials, getAvatarColor, formatPhoneNumber, formatDate, getGoogleVoiceDialUrl } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { DispositionSelect } from "@/components/disposition-select";
 import type { Contact, CallHistory, InsertCallHistory, Tag } from "@shared/schema";
 import {
   Select,
@@ -43,12 +45,14 @@ const statusConfig = {
   missed: { icon: XCircle, color: "text-red-500", label: "Missed" },
   voicemail: { icon: Voicemail, color: "text-blue-500", label: "Voicemail" },
   busy: { icon: AlertCircle, color: "text-orange-500", label: "Busy" },
+  skipped: { icon: Ban, color: "text-muted-foreground", label: "Skipped" },
 };
 
 export function ContactDetail({ contact, onClose, onEdit }: ContactDetailProps) {
   const { toast } = useToast();
   const [callNotes, setCallNotes] = useState("");
   const [callStatus, setCallStatus] = useState<InsertCallHistory['status']>("completed");
+  const [callDisposition, setCallDisposition] = useState<string | null>(null);
   const [showCallLog, setShowCallLog] = useState(false);
 
   const { data: callHistory, isLoading: isLoadingCalls } = useQuery<CallHistory[]>({
@@ -119,6 +123,7 @@ export function ContactDetail({ contact, onClose, onEdit }: ContactDetailProps)
         description: "Call has been recorded successfully.",
       });
       setCallNotes("");
+      setCallDisposition(null);
       setShowCallLog(false);
     },
     onError: () => {
@@ -130,6 +135,27 @@ export function ContactDetail({ contact, onClose, onEdit }: ContactDetailProps)
     },
   });
 
+  const dispositionMutation = useMutation({
+    mutationFn: async ({ callId, disposition }: { callId: string; disposition: string | null }) => {
+      return apiRequest("PATCH", `/api/calls/${callId}/disposition`, { disposition });
+    },
+    onSuccess: (_data, { callId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts", contact.id, "calls"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/calls"] });
+      // Campaign calls carry their disposition over to the campaign contact
+      if (callHistory?.find((call) => call.id === callId)?.campaignId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update disposition.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleCall = () => {
     automatedDialMutation.mutate();
   };
@@ -139,6 +165,7 @@ export function ContactDetail({ contact, onClose, onEdit }: ContactDetailProps)
       contactId: contact.id,
       notes: callNotes || undefined,
       status: callStatus,
+      disposition: callDisposition,
     });
   };
 
@@ -264,6 +291,12 @@ export function ContactDetail({ contact, onClose, onEdit }: ContactDetailProps)
                 </SelectContent>
               </Select>
 
+              <DispositionSelect
+                value={callDisposition}
+                onChange={setCallDisposition}
+                testId="select-call-disposition"
+              />
+
               <Textarea
                 placeholder="Add notes about this call..."
                 value={callNotes}
@@ -321,6 +354,13 @@ export function ContactDetail({ contact, onClose, onEdit }: ContactDetailProps)
                 <p className="text-sm whitespace-pre-wrap" data-testid="text-detail-notes">{contact.notes}</p>
               </div>
             )}
+
+            {contact.customFields && Object.entries(contact.customFields).map(([field, value]) => (
+              <div key={field}>
+                <p className="text-xs text-muted-foreground">{field}</p>
+                <p className="text-sm truncate" data-testid={`text-detail-custom-${field}`}>{value}</p>
+              </div>
+            ))}
           </div>
 
           <Separator />
@@ -371,6 +411,13 @@ export function ContactDetail({ contact, onClose, onEdit }: ContactDetailProps)
                         {call.notes && (
                           <p className="text-sm text-muted-foreground" data-testid={`text-call-notes-${call.id}`}>{call.notes}</p>
                         )}
+                        <DispositionSelect
+                          value={call.disposition}
+                          onChange={(disposition) => dispositionMutation.mutate({ callId: call.id, disposition })}
+                          disabled={dispositionMutation.isPending}
+                          className="h-8 mt-2 text-xs"
+                          testId={`select-disposition-${call.id}`}
+                        />
                       </div>
                     </div>
                   );
@@ -3,6 +3,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/utils";
 import { insertContactSchema, type Contact, type InsertContact } from "@shared/schema";
 import {
   Dialog,
@@ -42,6 +43,7 @@ export function ContactDialog({ open, onOpenChange, contact }: ContactDialogProp
       email: "",
       company: "",
       notes: "",
+      timezone: "",
     },
   });
 
@@ -53,6 +55,7 @@ export function ContactDialog({ open, onOpenChange, contact }: ContactDialogProp
         email: contact.email ?? "",
         company: contact.company ?? "",
         notes: contact.notes ?? "",
+        timezone: contact.timezone ?? "",
       });
     } else {
       form.reset({
@@ -61,27 +64,37 @@ export function ContactDialog({ open, onOpenChange, contact }: ContactDialogProp
         email: "",
         company: "",
         notes: "",
+        timezone: "",
       });
     }
   }, [contact, form]);
 
   const createMutation = useMutation({
-    mutationFn: async (data: InsertContact) => {
-      return apiRequest("POST", "/api/contacts", data);
+    mutationFn: async ({ data, merge }: { data: InsertContact; merge?: boolean }) => {
+      return apiRequest("POST", "/api/contacts", merge ? { ...data, merge: true } : data);
     },
-    onSuccess: () => {
+    onSuccess: (_response, { merge }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
       toast({
-        title: "Contact created",
-        description: "Contact has been added successfully.",
+        title: merge ? "Contact merged" : "Contact created",
+        description: merge
+          ? "Details were merged into the existing contact with this number."
+          : "Contact has been added successfully.",
       });
       onOpenChange(false);
       form.reset();
     },
-    onError: () => {
+    onError: (error: Error, { data, merge }) => {
+      // 409: another contact already has this (normalized) number
+      if (!merge && error.message.startsWith("409:")) {
+        if (window.confirm("A contact with this phone number already exists. Merge these details into it?")) {
+          createMutation.mutate({ data, merge: true });
+        }
+        return;
+      }
       toast({
         title: "Error",
-        description: "Failed to create contact.",
+        description: getErrorMessage(error, "Failed to create contact."),
         variant: "destructive",
       });
     },
@@ -100,10 +113,10 @@ export function ContactDialog({ open, onOpenChange, contact }: ContactDialogProp
       });
       onOpenChange(false);
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update contact.",
+        description: getErrorMessage(error, "Failed to update contact."),
         variant: "destructive",
       });
     },
@@ -113,7 +126,7 @@ export function ContactDialog({ open, onOpenChange, contact }: ContactDialogProp
     if (isEditing) {
       updateMutation.mutate(data);
     } else {
-      createMutation.mutate(data);
+      createMutation.mutate({ data });
     }
   };
 
@@ -153,7 +166,7 @@ export function ContactDialog({ open, onOpenChange, contact }: ContactDialogProp
                   <FormLabel>Phone Number</FormLabel>
                   <FormControl>
                     <Input
-                      placeholder="(555) 123-4567"
+                      placeholder="(555) 234-5678"
                       {...field}
                       data-testid="input-phone"
                     />
@@ -200,6 +213,25 @@ export function ContactDialog({ open, onOpenChange, contact }: ContactDialogProp
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="timezone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Timezone (Optional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Inferred from area code, e.g. America/Chicago"
+                      {...field}
+                      value={field.value ?? ""}
+                      data-testid="input-timezone"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="notes"
@@ -1,6 +1,7 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
-import { Upload, FileText, CheckCircle, XCircle, AlertCircle } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Upload, FileText, CheckCircle, XCircle, AlertCircle, GitMerge } from "lucide-react";
+import { Link } from "wouter";
 import {
   Dialog,
   DialogContent,
@@ -9,80 +10,164 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import type {
+  Campaign,
+  ImportColumnTarget,
+  ImportJob,
+  ImportRowError,
+  InsertContact,
+  Tag,
+} from "@shared/schema";
 
 interface CSVImportDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
-interface ImportResult {
-  imported: number;
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+
+type UploadedImport = Omit<ImportJob, 'csv'> & { sampleRows: string[][] };
+
+interface ImportPreview {
+  toCreate: number;
+  toMerge: number;
   failed: number;
-  errors: Array<{ lineNumber?: number; data: any; error: string }>;
+  rows: Array<{
+    lineNumber: number;
+    action: 'create' | 'merge' | 'error';
+    contact: InsertContact | null;
+    errors: string[];
+  }>;
+  errors: ImportRowError[];
+}
+
+const FIELD_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: "ignore", label: "Don't import" },
+  { value: "name", label: "Name" },
+  { value: "first_name", label: "First name" },
+  { value: "last_name", label: "Last name" },
+  { value: "phone", label: "Phone" },
+  { value: "email", label: "Email" },
+  { value: "company", label: "Company" },
+  { value: "notes", label: "Notes" },
+  { value: "timezone", label: "Timezone" },
+  { value: "custom", label: "Custom field" },
+];
+
+const NO_CAMPAIGN = "none";
+
+const ACTION_BADGES = {
+  create: { variant: "secondary" as const, text: "New" },
+  merge: { variant: "outline" as const, text: "Merge" },
+  error: { variant: "destructive" as const, text: "Error" },
+};
+
+function ErrorList({ errors }: { errors: ImportRowError[] }) {
+  return (
+    <ScrollArea className="h-32 w-full rounded-md border p-2">
+      {errors.map((err) => (
+        <div key={err.lineNumber} className="text-xs text-muted-foreground mb-1">
+          Line {err.lineNumber}: {err.errors.join("; ")}
+        </div>
+      ))}
+    </ScrollArea>
+  );
 }
 
 export function CSVImportDialog({ open, onOpenChange }: CSVImportDialogProps) {
+  const [step, setStep] = useState<ImportStep>('upload');
   const [file, setFile] = useState<File | null>(null);
-  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [upload, setUpload] = useState<UploadedImport | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnTarget[]>([]);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [campaignId, setCampaignId] = useState<string>(NO_CAMPAIGN);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportJob | null>(null);
   const { toast } = useToast();
 
-  const importMutation = useMutation({
-    mutationFn: async (contacts: any[]) => {
-      const response = await apiRequest("POST", "/api/contacts/bulk", { contacts });
-      return await response.json() as ImportResult;
+  const { data: tags } = useQuery<Tag[]>({
+    queryKey: ["/api/tags"],
+    enabled: open,
+  });
+
+  const { data: campaigns } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+    enabled: open,
+  });
+
+  const importOptions = () => ({
+    mapping,
+    tagIds,
+    campaignId: campaignId === NO_CAMPAIGN ? null : campaignId,
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    let description = error.message;
+    try {
+      description = JSON.parse(error.message.replace(/^\d+: /, "")).error || description;
+    } catch {
+      // Not a JSON error body - show it as-is
+    }
+    toast({ variant: "destructive", title, description });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (selectedFile: File) => {
+      const csv = await selectedFile.text();
+      const response = await apiRequest("POST", "/api/imports", { fileName: selectedFile.name, csv });
+      return await response.json() as UploadedImport;
     },
-    onSuccess: (data: ImportResult) => {
-      setImportResult(data);
+    onSuccess: (data: UploadedImport) => {
+      setUpload(data);
+      setMapping(data.mapping);
+      setStep('map');
+    },
+    onError: showError("Could not read CSV"),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/imports/${upload!.id}/preview`, importOptions());
+      return await response.json() as ImportPreview;
+    },
+    onSuccess: (data: ImportPreview) => {
+      setPreview(data);
+      setStep('preview');
+    },
+    onError: showError("Preview Failed"),
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/imports/${upload!.id}/commit`, importOptions());
+      return await response.json() as ImportJob;
+    },
+    onSuccess: (data: ImportJob) => {
+      setResult(data);
+      setStep('done');
       queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
-      
-      if (data.imported > 0) {
-        toast({
-          title: "Import Successful",
-          description: `${data.imported} contact${data.imported > 1 ? 's' : ''} imported successfully${data.failed > 0 ? `, ${data.failed} failed` : ''}`,
-        });
+      queryClient.invalidateQueries({ queryKey: ["/api/imports"] });
+      if (data.campaignId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/campaigns", data.campaignId, "contacts"] });
       }
-    },
-    onError: () => {
       toast({
-        variant: "destructive",
-        title: "Import Failed",
-        description: "Failed to import contacts. Please check your CSV format.",
+        title: "Import Successful",
+        description: `${data.importedCount} contact${data.importedCount !== 1 ? 's' : ''} imported${data.mergedCount > 0 ? `, ${data.mergedCount} merged into existing contacts` : ''}${data.failedCount > 0 ? `, ${data.failedCount} failed` : ''}`,
       });
     },
+    onError: showError("Import Failed"),
   });
 
-  const parseCSV = (text: string): any[] => {
-    const lines = text.trim().split('\n');
-    if (lines.length < 2) return [];
-
-    const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-    const contacts = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-      
-      const values = lines[i].split(',').map(v => v.trim());
-      const contact: any = {
-        _csvLineNumber: i + 1,
-      };
-
-      headers.forEach((header, index) => {
-        if (values[index]) {
-          contact[header] = values[index];
-        }
-      });
-
-      contacts.push(contact);
-    }
-
-    return contacts;
-  };
-
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
@@ -95,46 +180,50 @@ export function CSVImportDialog({ open, onOpenChange }: CSVImportDialogProps) {
         return;
       }
       setFile(selectedFile);
-      setImportResult(null);
     }
   };
 
-  const handleImport = async () => {
-    if (!file) return;
-
-    const text = await file.text();
-    const contacts = parseCSV(text);
+  const setColumnTarget = (index: number, value: string) => {
+    const header = upload?.headers[index] ?? "";
+    const target = (value === "custom" ? `custom:${header || `Column ${index + 1}`}` : value) as ImportColumnTarget;
+    setMapping((current) => current.map((t, i) => (i === index ? target : t)));
+  };
 
-    if (contacts.length === 0) {
-      toast({
-        variant: "destructive",
-        title: "No Data Found",
-        description: "The CSV file appears to be empty or only contains headers.",
-      });
-      return;
-    }
+  const setCustomFieldName = (index: number, name: string) => {
+    setMapping((current) => current.map((t, i) => (i === index ? `custom:${name}` as ImportColumnTarget : t)));
+  };
 
-    importMutation.mutate(contacts);
+  const toggleTag = (tagId: string, checked: boolean) => {
+    setTagIds((current) => (checked ? [...current, tagId] : current.filter((id) => id !== tagId)));
   };
 
   const handleClose = () => {
+    setStep('upload');
     setFile(null);
-    setImportResult(null);
+    setUpload(null);
+    setMapping([]);
+    setTagIds([]);
+    setCampaignId(NO_CAMPAIGN);
+    setPreview(null);
+    setResult(null);
     onOpenChange(false);
   };
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-[500px]" data-testid="dialog-csv-import">
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto" data-testid="dialog-csv-import">
         <DialogHeader>
           <DialogTitle>Import Contacts from CSV</DialogTitle>
           <DialogDescription>
-            Upload a CSV file with columns: name, phone, email, company, notes
+            {step === 'upload' && "Upload a CSV file with a header row. Columns are matched to contact fields automatically."}
+            {step === 'map' && `Choose where each column of ${upload?.fileName} goes (${upload?.totalRows} rows).`}
+            {step === 'preview' && "Review what will happen before anything is saved."}
+            {step === 'done' && "The import is recorded in the import history."}
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4">
-          {!importResult ? (
+          {step === 'upload' && (
             <>
               <div className="flex flex-col items-center justify-center border-2 border-dashed rounded-md p-8 hover-elevate">
                 <input
@@ -172,60 +261,255 @@ export function CSVImportDialog({ open, onOpenChange }: CSVImportDialogProps) {
               <Alert>
                 <AlertCircle className="h-4 w-4" />
                 <AlertDescription>
-                  CSV Format: First row should be headers (name, phone, email, company, notes). 
-                  Name and phone are required.
+                  Name and phone are required. Other columns can be mapped to email, company, notes,
+                  timezone or custom fields. Numbers already in your contacts are merged, not duplicated.
                 </AlertDescription>
               </Alert>
 
+              <div className="flex justify-between gap-2">
+                <Link href="/imports">
+                  <Button variant="ghost" data-testid="button-import-history">
+                    Import History
+                  </Button>
+                </Link>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={handleClose}
+                    data-testid="button-cancel-import"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={() => file && uploadMutation.mutate(file)}
+                    disabled={!file || uploadMutation.isPending}
+                    data-testid="button-upload-csv"
+                  >
+                    {uploadMutation.isPending ? "Reading..." : "Next"}
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+
+          {step === 'map' && upload && (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Sample</TableHead>
+                    <TableHead className="w-[220px]">Import as</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {upload.headers.map((header, index) => {
+                    const target = mapping[index] ?? 'ignore';
+                    const isCustom = target.startsWith("custom:");
+                    return (
+                      <TableRow key={index} data-testid={`row-mapping-${index}`}>
+                        <TableCell className="font-medium">{header || `Column ${index + 1}`}</TableCell>
+                        <TableCell className="text-muted-foreground text-xs max-w-[200px] truncate">
+                          {upload.sampleRows.map((row) => row[index]).filter(Boolean).slice(0, 2).join(", ")}
+                        </TableCell>
+                        <TableCell className="space-y-2">
+                          <Select
+                            value={isCustom ? "custom" : target}
+                            onValueChange={(value) => setColumnTarget(index, value)}
+                          >
+                            <SelectTrigger data-testid={`select-mapping-${index}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {FIELD_OPTIONS.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {isCustom && (
+                            <Input
+                              value={target.slice("custom:".length)}
+                              onChange={(e) => setCustomFieldName(index, e.target.value)}
+                              placeholder="Field name"
+                              data-testid={`input-custom-field-${index}`}
+                            />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Tag imported contacts</Label>
+                  {tags && tags.length > 0 ? (
+                    <div className="flex flex-wrap gap-3">
+                      {tags.map((tag) => (
+                        <label key={tag.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={tagIds.includes(tag.id)}
+                            onCheckedChange={(checked) => toggleTag(tag.id, checked === true)}
+                            data-testid={`checkbox-import-tag-${tag.id}`}
+                          />
+                          <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                          {tag.name}
+                        </label>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">No tags yet</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label>Add to campaign</Label>
+                  <Select value={campaignId} onValueChange={setCampaignId}>
+                    <SelectTrigger data-testid="select-import-campaign">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CAMPAIGN}>None</SelectItem>
+                      {campaigns?.map((campaign) => (
+                        <SelectItem key={campaign.id} value={campaign.id}>
+                          {campaign.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
               <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setStep('upload')} data-testid="button-back-to-upload">
+                  Back
+                </Button>
                 <Button
-                  variant="outline"
-                  onClick={handleClose}
-                  data-testid="button-cancel-import"
+                  onClick={() => previewMutation.mutate()}
+                  disabled={previewMutation.isPending}
+                  data-testid="button-preview-import"
                 >
-                  Cancel
+                  {previewMutation.isPending ? "Checking..." : "Preview"}
+                </Button>
+              </div>
+            </>
+          )}
+
+          {step === 'preview' && preview && (
+            <>
+              <div className="grid gap-2 sm:grid-cols-3">
+                <div className="flex items-center gap-2 p-3 rounded-md bg-success/10">
+                  <CheckCircle className="h-5 w-5 text-success" />
+                  <p className="text-sm font-medium" data-testid="text-preview-create">{preview.toCreate} new</p>
+                </div>
+                <div className="flex items-center gap-2 p-3 rounded-md bg-muted">
+                  <GitMerge className="h-5 w-5 text-muted-foreground" />
+                  <p className="text-sm font-medium" data-testid="text-preview-merge">{preview.toMerge} merged</p>
+                </div>
+                <div className="flex items-center gap-2 p-3 rounded-md bg-destructive/10">
+                  <XCircle className="h-5 w-5 text-destructive" />
+                  <p className="text-sm font-medium" data-testid="text-preview-failed">{preview.failed} with errors</p>
+                </div>
+              </div>
+
+              <ScrollArea className="h-64 w-full rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Phone</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row) => (
+                      <TableRow key={row.lineNumber} data-testid={`row-preview-${row.lineNumber}`}>
+                        <TableCell>{row.lineNumber}</TableCell>
+                        <TableCell>
+                          <Badge variant={ACTION_BADGES[row.action].variant}>{ACTION_BADGES[row.action].text}</Badge>
+                        </TableCell>
+                        <TableCell>{row.contact?.name ?? "-"}</TableCell>
+                        <TableCell>{row.contact?.phone ?? "-"}</TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {row.errors.length > 0
+                            ? row.errors.join("; ")
+                            : Object.entries(row.contact?.customFields ?? {}).map(([k, v]) => `${k}: ${v}`).join(", ")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+              {upload && upload.totalRows > preview.rows.length && (
+                <p className="text-xs text-muted-foreground">
+                  Showing the first {preview.rows.length} of {upload.totalRows} rows.
+                </p>
+              )}
+
+              {preview.errors.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Rows that will be skipped</p>
+                  <ErrorList errors={preview.errors} />
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setStep('map')} data-testid="button-back-to-mapping">
+                  Back
                 </Button>
                 <Button
-                  onClick={handleImport}
-                  disabled={!file || importMutation.isPending}
+                  onClick={() => commitMutation.mutate()}
+                  disabled={commitMutation.isPending || preview.toCreate + preview.toMerge === 0}
                   data-testid="button-start-import"
                 >
-                  {importMutation.isPending ? "Importing..." : "Import"}
+                  {commitMutation.isPending ? "Importing..." : `Import ${preview.toCreate + preview.toMerge} rows`}
                 </Button>
               </div>
             </>
-          ) : (
+          )}
+
+          {step === 'done' && result && (
             <>
               <div className="space-y-3">
                 <div className="flex items-center gap-2 p-3 rounded-md bg-success/10">
                   <CheckCircle className="h-5 w-5 text-success" />
-                  <div>
-                    <p className="text-sm font-medium" data-testid="text-imported-count">
-                      {importResult.imported} contact{importResult.imported !== 1 ? 's' : ''} imported successfully
+                  <p className="text-sm font-medium" data-testid="text-imported-count">
+                    {result.importedCount} contact{result.importedCount !== 1 ? 's' : ''} imported successfully
+                  </p>
+                </div>
+
+                {result.mergedCount > 0 && (
+                  <div className="flex items-center gap-2 p-3 rounded-md bg-muted">
+                    <GitMerge className="h-5 w-5 text-muted-foreground" />
+                    <p className="text-sm font-medium" data-testid="text-merged-count">
+                      {result.mergedCount} duplicate{result.mergedCount !== 1 ? 's' : ''} merged into existing contacts
                     </p>
                   </div>
-                </div>
+                )}
 
-                {importResult.failed > 0 && (
+                {result.failedCount > 0 && (
                   <div className="flex items-start gap-2 p-3 rounded-md bg-destructive/10">
                     <XCircle className="h-5 w-5 text-destructive mt-0.5" />
                     <div className="flex-1">
                       <p className="text-sm font-medium mb-2" data-testid="text-failed-count">
-                        {importResult.failed} contact{importResult.failed !== 1 ? 's' : ''} failed to import
+                        {result.failedCount} row{result.failedCount !== 1 ? 's' : ''} failed to import
                       </p>
-                      <ScrollArea className="h-32 w-full rounded-md border p-2">
-                        {importResult.errors.map((err, idx) => (
-                          <div key={idx} className="text-xs text-muted-foreground mb-1">
-                            {err.lineNumber ? `Line ${err.lineNumber}` : `Row ${idx + 2}`}: {err.error}
-                          </div>
-                        ))}
-                      </ScrollArea>
+                      <ErrorList errors={result.errors ?? []} />
                     </div>
                   </div>
                 )}
               </div>
 
-              <div className="flex justify-end">
+              <div className="flex justify-end gap-2">
+                <Link href="/imports">
+                  <Button variant="outline" data-testid="button-view-import-history">
+                    Import History
+                  </Button>
+                </Link>
                 <Button onClick={handleClose} data-testid="button-close-results">
                   Close
                 </Button>
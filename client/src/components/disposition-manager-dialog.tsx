@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { DispositionOption } from "@shared/schema";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+interface DispositionManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DISPOSITION_COLORS = [
+  "#10b981", // green
+  "#3b82f6", // blue
+  "#f59e0b", // amber
+  "#ef4444", // red
+  "#8b5cf6", // purple
+  "#ec4899", // pink
+  "#06b6d4", // cyan
+  "#84cc16", // lime
+];
+
+export function DispositionManagerDialog({ open, onOpenChange }: DispositionManagerDialogProps) {
+  const [newLabel, setNewLabel] = useState("");
+  const [selectedColor, setSelectedColor] = useState(DISPOSITION_COLORS[0]);
+  const { toast } = useToast();
+
+  const { data: options, isLoading } = useQuery<DispositionOption[]>({
+    queryKey: ["/api/dispositions"],
+  });
+  const system = options?.filter((o) => !o.id) ?? [];
+  const custom = options?.filter((o) => o.id) ?? [];
+
+  const createMutation = useMutation({
+    mutationFn: async (disposition: { label: string; color: string }) => {
+      return await apiRequest("POST", "/api/dispositions", disposition);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dispositions"] });
+      setNewLabel("");
+      setSelectedColor(DISPOSITION_COLORS[0]);
+      toast({
+        title: "Disposition Created",
+        description: "The disposition can now be set on calls",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to create disposition. It might already exist.",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/dispositions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dispositions"] });
+      toast({
+        title: "Disposition Deleted",
+        description: "Calls that already have it keep its code",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to delete disposition",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    if (!newLabel.trim()) return;
+    createMutation.mutate({ label: newLabel.trim(), color: selectedColor });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]" data-testid="dialog-disposition-manager">
+        <DialogHeader>
+          <DialogTitle>Manage Dispositions</DialogTitle>
+          <DialogDescription>
+            Add your own call results, like "Interested" or "Callback requested"
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="disposition-label">Create New Disposition</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="disposition-label"
+                  placeholder="Disposition name"
+                  value={newLabel}
+                  onChange={(e) => setNewLabel(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                  data-testid="input-disposition-label"
+                />
+                <Button
+                  size="icon"
+                  onClick={handleCreate}
+                  disabled={!newLabel.trim() || createMutation.isPending}
+                  data-testid="button-create-disposition"
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Color</Label>
+              <div className="flex gap-2 flex-wrap">
+                {DISPOSITION_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    onClick={() => setSelectedColor(color)}
+                    className={`h-8 w-8 rounded-md border-2 ${
+                      selectedColor === color ? "border-foreground" : "border-transparent"
+                    }`}
+                    style={{ backgroundColor: color }}
+                    data-testid={`button-disposition-color-${color}`}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Custom Dispositions</Label>
+            <ScrollArea className="h-40 w-full rounded-md border p-4">
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Loading dispositions...</p>
+              ) : custom.length > 0 ? (
+                <div className="space-y-2">
+                  {custom.map((option) => (
+                    <div
+                      key={option.code}
+                      className="flex items-center justify-between gap-2 p-2 rounded-md hover-elevate"
+                      data-testid={`disposition-item-${option.code}`}
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Badge style={{ backgroundColor: option.color ?? undefined, color: "#ffffff" }}>
+                          {option.label}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground font-mono truncate">{option.code}</span>
+                      </div>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => option.id && deleteMutation.mutate(option.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-disposition-${option.code}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No custom dispositions yet</p>
+              )}
+            </ScrollArea>
+          </div>
+
+          <div className="space-y-2">
+            <Label>System Dispositions</Label>
+            <p className="text-xs text-muted-foreground">Set automatically by the campaign dialer</p>
+            <div className="flex flex-wrap gap-2">
+              {system.map((option) => (
+                <Badge key={option.code} variant="secondary">
+                  {option.label}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
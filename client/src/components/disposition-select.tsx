@@ -0,0 +1,96 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { DispositionOption } from "@shared/schema";
+
+const NO_DISPOSITION = "none";
+
+function useDispositionOptions() {
+  return useQuery<DispositionOption[]>({
+    queryKey: ["/api/dispositions"],
+  });
+}
+
+export function DispositionBadge({ code, testId }: { code: string | null; testId?: string }) {
+  const { data: options } = useDispositionOptions();
+  if (!code) return null;
+
+  // Codes of deleted dispositions are shown as they are
+  const option = options?.find((o) => o.code === code);
+  return (
+    <Badge
+      variant={option?.color ? "default" : "secondary"}
+      className="text-xs"
+      style={option?.color ? { backgroundColor: option.color, color: "#ffffff" } : undefined}
+      data-testid={testId}
+    >
+      {option?.label ?? code}
+    </Badge>
+  );
+}
+
+interface DispositionSelectProps {
+  value: string | null;
+  onChange: (code: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+  testId?: string;
+}
+
+export function DispositionSelect({ value, onChange, disabled, className, testId }: DispositionSelectProps) {
+  const { data: options } = useDispositionOptions();
+  const system = options?.filter((o) => !o.id) ?? [];
+  const custom = options?.filter((o) => o.id) ?? [];
+
+  return (
+    <Select
+      value={value ?? NO_DISPOSITION}
+      onValueChange={(code) => onChange(code === NO_DISPOSITION ? null : code)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={className} data-testid={testId}>
+        <SelectValue placeholder="Disposition" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_DISPOSITION}>No disposition</SelectItem>
+        {custom.length > 0 && (
+          <>
+            <SelectSeparator />
+            <SelectGroup>
+              <SelectLabel>Custom</SelectLabel>
+              {custom.map((option) => (
+                <SelectItem key={option.code} value={option.code}>
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: option.color ?? undefined }} />
+                    {option.label}
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </>
+        )}
+        <SelectSeparator />
+        <SelectGroup>
+          <SelectLabel>System</SelectLabel>
+          {system.map((option) => (
+            <SelectItem key={option.code} value={option.code}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectGroup>
+        {value && !options?.some((o) => o.code === value) && (
+          <SelectItem value={value}>{value}</SelectItem>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,62 @@
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+export interface ExportOption {
+  label: string;
+  path: string; // An /api/exports endpoint
+  params?: Record<string, string | undefined>; // Filters to apply; empty values are left out
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+  size?: "default" | "sm";
+  className?: string;
+}
+
+function exportUrl(option: ExportOption, format: "csv" | "json"): string {
+  const params = new URLSearchParams({ format });
+  for (const [key, value] of Object.entries(option.params ?? {})) {
+    if (value) params.set(key, value);
+  }
+  return `${option.path}?${params.toString()}`;
+}
+
+export function ExportMenu({ options, size = "sm", className }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} className={className} data-testid="button-export">
+          <Download className="h-4 w-4 sm:mr-2" />
+          <span className="hidden sm:inline">Export</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {options.map((option, index) => (
+          <div key={option.path}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>{option.label}</DropdownMenuLabel>
+            {(["csv", "json"] as const).map((format) => (
+              <DropdownMenuItem key={format} asChild>
+                <a
+                  href={exportUrl(option, format)}
+                  download
+                  data-testid={`link-export-${option.path.split("/").pop()}-${format}`}
+                >
+                  {format.toUpperCase()}
+                </a>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
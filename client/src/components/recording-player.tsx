@@ -0,0 +1,134 @@
+import { useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Download, Pause, Play } from "lucide-react";
+
+interface RecordingWaveform {
+  durationSeconds: number;
+  channels: string[];
+  peaks: number[][];
+}
+
+interface RecordingPlayerProps {
+  callId: string;
+  onTimeUpdate?: (seconds: number) => void;
+}
+
+const CHANNEL_LABELS: Record<string, string> = {
+  caller: "Caller",
+  agent: "AI Agent",
+  mixed: "Call",
+};
+
+const WAVEFORM_HEIGHT = 40;
+
+function formatClock(totalSeconds: number): string {
+  const seconds = Math.floor(totalSeconds);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Player for a call recording: one waveform row per channel (click to seek) and downloads
+ */
+export function RecordingPlayer({ callId, onTimeUpdate }: RecordingPlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const { data: waveform } = useQuery<RecordingWaveform>({
+    queryKey: ["/api/calls", callId, "recording", "waveform"],
+  });
+
+  const audioUrl = `/api/calls/${callId}/recording/audio`;
+  const duration = waveform?.durationSeconds ?? 0;
+  const progress = duration > 0 ? Math.min(1, currentTime / duration) : 0;
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play();
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seek = (e: React.MouseEvent<SVGSVGElement>) => {
+    const audio = audioRef.current;
+    if (!audio || duration === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    audio.currentTime = ((e.clientX - rect.left) / rect.width) * duration;
+  };
+
+  const handleTimeUpdate = () => {
+    const seconds = audioRef.current?.currentTime ?? 0;
+    setCurrentTime(seconds);
+    onTimeUpdate?.(seconds);
+  };
+
+  return (
+    <div className="space-y-3" data-testid="recording-player">
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        preload="metadata"
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onTimeUpdate={handleTimeUpdate}
+      />
+
+      {waveform?.peaks.map((peaks, channel) => (
+        <div key={channel} className="space-y-1">
+          <div className="text-xs text-muted-foreground">{CHANNEL_LABELS[waveform.channels[channel]] ?? waveform.channels[channel]}</div>
+          <svg
+            className="w-full cursor-pointer"
+            height={WAVEFORM_HEIGHT}
+            viewBox={`0 0 ${peaks.length} ${WAVEFORM_HEIGHT}`}
+            preserveAspectRatio="none"
+            onClick={seek}
+            data-testid={`waveform-${waveform.channels[channel]}`}
+          >
+            {peaks.map((peak, i) => {
+              const height = Math.max(1, peak * WAVEFORM_HEIGHT);
+              return (
+                <rect
+                  key={i}
+                  x={i}
+                  y={(WAVEFORM_HEIGHT - height) / 2}
+                  width={0.8}
+                  height={height}
+                  className={i / peaks.length < progress ? "fill-primary" : "fill-muted-foreground/40"}
+                />
+              );
+            })}
+          </svg>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={togglePlayback} data-testid="button-play-recording">
+            {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <span className="text-sm text-muted-foreground tabular-nums" data-testid="text-playback-time">
+            {formatClock(currentTime)} / {formatClock(duration)}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" asChild>
+            <a href={`${audioUrl}?format=wav&download=1`} data-testid="link-download-wav">
+              <Download className="h-4 w-4 mr-1" />
+              WAV
+            </a>
+          </Button>
+          <Button variant="ghost" size="sm" asChild>
+            <a href={`${audioUrl}?format=mp3&download=1`} data-testid="link-download-mp3">
+              <Download className="h-4 w-4 mr-1" />
+              MP3
+            </a>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
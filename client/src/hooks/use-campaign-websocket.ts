@@ -1,5 +1,6 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { queryClient } from '@/lib/queryClient';
+import type { TranscriptTurnStatus, TranscriptWord } from '@shared/schema';
 
 interface CampaignStatusUpdate {
   type: 'campaign_status_update';
@@ -15,6 +16,92 @@ interface LoginRequiredAlert {
   timestamp: number;
 }
 
+export interface LiveCallTurn {
+  id: number;
+  speaker: 'agent' | 'contact';
+  message: string;
+  timestamp: string;
+  startMs: number | null;
+  endMs: number | null;
+  status: TranscriptTurnStatus;
+  words?: TranscriptWord[];
+}
+
+export interface LiveCallTransition {
+  state: string;
+  reason: string;
+  at: number;
+}
+
+export interface LiveCallInterruption {
+  offsetMs: number | null;
+  at: number;
+}
+
+/**
+ * A call a campaign is dialing right now (GET /api/live-calls)
+ */
+export interface LiveCall {
+  id: string;
+  campaignId: string;
+  campaignName: string;
+  contactId: string;
+  contactName: string;
+  phone: string;
+  callHistoryId: string | null;
+  state: string;
+  startedAt: number;
+  endedAt: number | null;
+  transitions: LiveCallTransition[];
+  turns: LiveCallTurn[];
+  interruptions: LiveCallInterruption[];
+  audioAvailable: boolean;
+}
+
+type LiveCallEvent =
+  | { type: 'live_call_started'; call: LiveCall }
+  | { type: 'live_call_updated'; callId: string; callHistoryId: string | null; audioAvailable: boolean }
+  | { type: 'live_call_state'; callId: string; transition: LiveCallTransition }
+  | { type: 'live_call_turn'; callId: string; turn: LiveCallTurn }
+  | { type: 'live_call_interruption'; callId: string; interruption: LiveCallInterruption }
+  | { type: 'live_call_ended'; callId: string; endedAt: number }
+  | { type: 'live_call_removed'; callId: string };
+
+/**
+ * Apply a live call update to the list of live calls
+ */
+function applyLiveCallEvent(calls: LiveCall[], event: LiveCallEvent): LiveCall[] {
+  if (event.type === 'live_call_started') {
+    return [...calls.filter((call) => call.id !== event.call.id), event.call];
+  }
+  if (event.type === 'live_call_removed') {
+    return calls.filter((call) => call.id !== event.callId);
+  }
+
+  return calls.map((call) => {
+    if (call.id !== event.callId) return call;
+
+    switch (event.type) {
+      case 'live_call_updated':
+        return { ...call, callHistoryId: event.callHistoryId, audioAvailable: event.audioAvailable };
+      case 'live_call_state':
+        return { ...call, state: event.transition.state, transitions: [...call.transitions, event.transition] };
+      case 'live_call_turn': {
+        // Updates to a turn (tentative → final, interrupted) replace it
+        const exists = call.turns.some((turn) => turn.id === event.turn.id);
+        const turns = exists
+          ? call.turns.map((turn) => (turn.id === event.turn.id ? event.turn : turn))
+          : [...call.turns, event.turn];
+        return { ...call, turns };
+      }
+      case 'live_call_interruption':
+        return { ...call, interruptions: [...call.interruptions, event.interruption] };
+      case 'live_call_ended':
+        return { ...call, endedAt: event.endedAt, audioAvailable: false };
+    }
+  });
+}
+
 interface UseCampaignWebSocketOptions {
   onLoginRequired?: (campaignId: string, campaignName: string) => void;
 }
@@ -116,8 +203,15 @@ export function useCampaignWebSocket(options?: UseCampaignWebSocketOptions) {
               }
               return oldData;
             });
+          } else if (typeof data.type === 'string' && data.type.startsWith('live_call_')) {
+            // Keep the live calls page current without refetching
+            queryClient.setQueryData<LiveCall[]>(['/api/live-calls'], (oldData) =>
+              oldData ? applyLiveCallEvent(oldData, data as LiveCallEvent) : oldData
+            );
           } else if (data.type === 'connected') {
             console.log('[WebSocket] Connection confirmed');
+            // Live call updates sent while disconnected were missed
+            queryClient.invalidateQueries({ queryKey: ['/api/live-calls'] });
           }
         } catch (error) {
           console.error('[WebSocket] Failed to parse message:', error);
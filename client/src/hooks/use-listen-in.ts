@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const SAMPLE_RATE = 16000;
+const CHANNELS = ['caller', 'agent'] as const; // Indexed by the first byte of each audio frame
+const START_DELAY_SECONDS = 0.2; // Absorbs network jitter
+const MAX_CALLER_LAG_SECONDS = 1; // Caller audio this far behind real time is dropped to catch up
+
+type ListenChannel = typeof CHANNELS[number];
+
+/**
+ * Listen in on a live call: plays its audio as it streams from /ws?listen=<call id>
+ * Caller audio arrives in real time and plays as it comes; AI audio arrives
+ * ahead of time and is queued, and dropped when the caller interrupts the AI
+ */
+export function useListenIn(callId: string | null) {
+  const [listening, setListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const wsRef = useRef<WebSocket | null>(null);
+  const contextRef = useRef<AudioContext | null>(null);
+  const cursorsRef = useRef<Record<ListenChannel, number>>({ caller: 0, agent: 0 }); // When each channel's queued audio ends
+  const agentSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+
+  const stop = useCallback(() => {
+    const ws = wsRef.current;
+    wsRef.current = null;
+    ws?.close();
+    contextRef.current?.close();
+    contextRef.current = null;
+    agentSourcesRef.current.clear();
+    setListening(false);
+  }, []);
+
+  const clearAgentAudio = useCallback(() => {
+    agentSourcesRef.current.forEach((source) => source.stop());
+    agentSourcesRef.current.clear();
+    cursorsRef.current.agent = 0;
+  }, []);
+
+  const playFrame = useCallback((frame: ArrayBuffer) => {
+    const context = contextRef.current;
+    const channel = CHANNELS[new Uint8Array(frame, 0, 1)[0]];
+    if (!context || !channel) return;
+
+    // 16-bit samples after the channel byte
+    const sampleCount = Math.floor((frame.byteLength - 1) / 2);
+    if (sampleCount === 0) return;
+    const samples = new Int16Array(frame.slice(1, 1 + sampleCount * 2));
+
+    const now = context.currentTime;
+    const startAt = Math.max(cursorsRef.current[channel], now + START_DELAY_SECONDS);
+    if (channel === 'caller' && startAt - now > MAX_CALLER_LAG_SECONDS) return;
+
+    const buffer = context.createBuffer(1, sampleCount, SAMPLE_RATE);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < sampleCount; i++) {
+      data[i] = samples[i] / 32768;
+    }
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.start(startAt);
+    cursorsRef.current[channel] = startAt + buffer.duration;
+
+    if (channel === 'agent') {
+      agentSourcesRef.current.add(source);
+      source.onended = () => agentSourcesRef.current.delete(source);
+    }
+  }, []);
+
+  const start = useCallback(() => {
+    if (!callId || wsRef.current) return;
+
+    // Created on a click, so the browser lets it play
+    contextRef.current = new AudioContext();
+    cursorsRef.current = { caller: 0, agent: 0 };
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const ws = new WebSocket(`${protocol}//${window.location.host}/ws?listen=${encodeURIComponent(callId)}`);
+    ws.binaryType = 'arraybuffer';
+
+    ws.onmessage = (event) => {
+      if (typeof event.data !== 'string') {
+        playFrame(event.data as ArrayBuffer);
+        return;
+      }
+      try {
+        if (JSON.parse(event.data).type === 'agent_audio_cleared') {
+          clearAgentAudio();
+        }
+      } catch (parseError) {
+        console.error('[ListenIn] Failed to parse message:', parseError);
+      }
+    };
+
+    ws.onclose = (event) => {
+      if (wsRef.current !== ws) return;
+      if (event.code === 4404) {
+        setError('This call is no longer live');
+      } else if (event.code !== 1000) {
+        setError('Lost the connection to the call audio');
+      }
+      stop();
+    };
+
+    wsRef.current = ws;
+    setError(null);
+    setListening(true);
+  }, [callId, playFrame, clearAgentAudio, stop]);
+
+  // Stop when switching to another call or leaving the page
+  useEffect(() => stop, [callId, stop]);
+
+  return { listening, error, start, stop };
+}
@@ -67,3 +67,24 @@ export function getGoogleVoiceDialUrl(phoneNumber: string): string {
   const cleaned = phoneNumber.replace(/\D/g, "");
   return `https://voice.google.com/u/0/calls?a=nc,%2B${cleaned}`;
 }
+
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.round(totalSeconds);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * The server's error message from an apiRequest failure ("400: {"error": ...}")
+ */
+export function getErrorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, "")).error || fallback;
+  } catch {
+    return fallback;
+  }
+}
@@ -11,10 +11,11 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertAiAgentSchema, type AiAgent, type InsertAiAgent } from "@shared/schema";
+import { endCallDetectionModes, insertAiAgentSchema, type AiAgent, type EndCallDetection, type InsertAiAgent } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
   Collapsible,
@@ -22,6 +23,12 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 
+const END_CALL_DETECTION_LABELS: Record<EndCallDetection, string> = {
+  tool: "end_call tool only",
+  classifier: "end_call tool + AI classifier",
+  keywords: "End-call phrases (agent without the tool)",
+};
+
 export default function AiAgents() {
   const { toast } = useToast();
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -43,6 +50,12 @@ export default function AiAgents() {
       greeting: "",
       objectionHandling: "",
       closingScript: "",
+      greetingWaitSeconds: 8,
+      maxTalkSeconds: 600,
+      maxSilenceSeconds: 30,
+      maxNoTranscriptSeconds: 90,
+      endCallDetection: "tool",
+      endCallKeywords: "",
       isActive: "true",
     },
   });
@@ -102,6 +115,12 @@ export default function AiAgents() {
       greeting: agent.greeting || "",
       objectionHandling: agent.objectionHandling || "",
       closingScript: agent.closingScript || "",
+      greetingWaitSeconds: agent.greetingWaitSeconds,
+      maxTalkSeconds: agent.maxTalkSeconds,
+      maxSilenceSeconds: agent.maxSilenceSeconds,
+      maxNoTranscriptSeconds: agent.maxNoTranscriptSeconds,
+      endCallDetection: agent.endCallDetection as EndCallDetection,
+      endCallKeywords: agent.endCallKeywords || "",
       isActive: agent.isActive as 'true' | 'false',
     });
     setDialogOpen(true);
@@ -313,6 +332,148 @@ export default function AiAgents() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="greetingWaitSeconds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Wait for "Hello" (seconds)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={30}
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 1)}
+                          data-testid="input-greeting-wait"
+                        />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        The agent speaks as soon as the callee says hello and pauses, or after this long if they stay silent
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="space-y-2">
+                  <div className="grid grid-cols-3 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="maxTalkSeconds"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Max talk time (s)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={30}
+                              max={3600}
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 30)}
+                              data-testid="input-max-talk"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="maxSilenceSeconds"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Max silence (s)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={5}
+                              max={300}
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 5)}
+                              data-testid="input-max-silence"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="maxNoTranscriptSeconds"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Max without transcript (s)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={10}
+                              max={600}
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 10)}
+                              data-testid="input-max-no-transcript"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    When a call runs too long, goes quiet, or nothing is transcribed for this long, the agent says goodbye and hangs up
+                  </p>
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="endCallDetection"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End-of-Call Detection</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-end-call-detection">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {endCallDetectionModes.map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {END_CALL_DETECTION_LABELS[value]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        The call is hung up after the goodbye when the agent calls its end_call client tool; the classifier (needs OPENAI_API_KEY or OPENAI_BASE_URL) also reads the last turns after each agent line. Agents without the tool can end calls on phrases instead
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="endCallKeywords"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End-Call Phrases (optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="goodbye, have a great day"
+                          {...field}
+                          value={field.value || ""}
+                          data-testid="input-end-call-keywords"
+                        />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Comma-separated; used only with End-call phrases detection. An agent line whose last sentence ends with one of them ends the call
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="isActive"
@@ -1,16 +1,28 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Phone, CheckCircle2, TrendingUp, Users, BarChart3, Eye } from "lucide-react";
+import { ArrowLeft, Phone, CheckCircle2, TrendingUp, Users, BarChart3, Eye, Clock } from "lucide-react";
 import { Link } from "wouter";
 import { Badge } from "@/components/ui/badge";
-import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { ExportMenu } from "@/components/export-menu";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { CallDetailsSheet } from "@/components/call-details-sheet";
-import type { CallHistory, Contact } from "@shared/schema";
-import { formatDate } from "@/lib/utils";
+import type {
+  AgentCallStats,
+  CallCounts,
+  CallSummary,
+  CallVolumePoint,
+  Campaign,
+  CampaignCallStats,
+  HourlyCallStats,
+  OutcomeCount,
+  RecentCall,
+  TopCalledContact,
+} from "@shared/schema";
+import { formatDate, formatDuration } from "@/lib/utils";
 import {
   BarChart,
   Bar,
@@ -27,21 +39,12 @@ import {
   Legend,
 } from "recharts";
 
-interface CallStats {
-  totalCalls: number;
-  completedCalls: number;
-  successRate: number;
-  activeContacts: number;
-  callsByStatus: { status: string; count: number; percentage: number }[];
-  callsByDate: { date: string; count: number }[];
-  topContacts: { contact: Contact; callCount: number }[];
-}
-
 const STATUS_COLORS = {
   completed: "#10b981",
   missed: "#ef4444",
   voicemail: "#3b82f6",
   busy: "#f59e0b",
+  skipped: "#6b7280",
 };
 
 const STATUS_LABELS = {
@@ -49,18 +52,92 @@ const STATUS_LABELS = {
   missed: "Missed",
   voicemail: "Voicemail",
   busy: "Busy",
+  skipped: "Skipped (DNC)",
+};
+
+const DATE_RANGES = {
+  "7": "Last 7 days",
+  "30": "Last 30 days",
+  "90": "Last 90 days",
+  all: "All time",
 };
 
+const TOOLTIP_STYLE = {
+  backgroundColor: "hsl(var(--card))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "6px",
+};
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? "am" : "pm";
+  return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`;
+}
+
+function successRate(counts: CallCounts): string {
+  return counts.total > 0 ? `${((counts.completed / counts.total) * 100).toFixed(0)}%` : "—";
+}
+
 export default function Analytics() {
   const [selectedCallId, setSelectedCallId] = useState<string | null>(null);
   const [isDetailsSheetOpen, setIsDetailsSheetOpen] = useState(false);
+  const [dateRange, setDateRange] = useState<keyof typeof DATE_RANGES>("30");
+  const [campaignId, setCampaignId] = useState("all");
+  const [volumeInterval, setVolumeInterval] = useState<"day" | "week">("day");
+
+  // Computed once per range change so query keys stay stable between renders
+  const from = useMemo(() => {
+    if (dateRange === "all") return undefined;
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() - Number(dateRange) + 1);
+    return start.toISOString();
+  }, [dateRange]);
+
+  const filters = {
+    from,
+    campaignId: campaignId === "all" ? undefined : campaignId,
+  };
+
+  const params = new URLSearchParams({ timezone: Intl.DateTimeFormat().resolvedOptions().timeZone });
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  const analyticsKey = (endpoint: string) => [`/api/analytics/${endpoint}?${params.toString()}`];
+
+  const { data: campaigns } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+  });
+
+  const { data: summary, isLoading: isLoadingSummary } = useQuery<CallSummary>({
+    queryKey: analyticsKey("summary"),
+  });
+
+  const { data: volume } = useQuery<CallVolumePoint[]>({
+    queryKey: [`/api/analytics/volume?${params.toString()}&interval=${volumeInterval}`],
+  });
+
+  const { data: outcomes } = useQuery<OutcomeCount[]>({
+    queryKey: analyticsKey("by-outcome"),
+  });
+
+  const { data: byHour } = useQuery<HourlyCallStats[]>({
+    queryKey: analyticsKey("by-hour"),
+  });
+
+  const { data: byCampaign } = useQuery<CampaignCallStats[]>({
+    queryKey: analyticsKey("by-campaign"),
+  });
+
+  const { data: byAgent } = useQuery<AgentCallStats[]>({
+    queryKey: analyticsKey("by-agent"),
+  });
 
-  const { data: allCalls, isLoading: isLoadingCalls } = useQuery<CallHistory[]>({
-    queryKey: ["/api/calls"],
+  const { data: topContacts } = useQuery<TopCalledContact[]>({
+    queryKey: analyticsKey("top-contacts"),
   });
 
-  const { data: contacts } = useQuery<Contact[]>({
-    queryKey: ["/api/contacts"],
+  const { data: recentCalls } = useQuery<RecentCall[]>({
+    queryKey: analyticsKey("recent-calls"),
   });
 
   const handleViewDetails = (callId: string) => {
@@ -68,67 +145,13 @@ export default function Analytics() {
     setIsDetailsSheetOpen(true);
   };
 
-  const stats: CallStats = {
-    totalCalls: 0,
-    completedCalls: 0,
-    successRate: 0,
-    activeContacts: 0,
-    callsByStatus: [],
-    callsByDate: [],
-    topContacts: [],
-  };
-
-  if (allCalls && contacts) {
-    stats.totalCalls = allCalls.length;
-    stats.completedCalls = allCalls.filter((c) => c.status === "completed").length;
-    stats.successRate = stats.totalCalls > 0 ? (stats.completedCalls / stats.totalCalls) * 100 : 0;
-
-    const statusCounts: Record<string, number> = {
-      completed: 0,
-      missed: 0,
-      voicemail: 0,
-      busy: 0,
-    };
-
-    allCalls.forEach((call) => {
-      statusCounts[call.status] = (statusCounts[call.status] || 0) + 1;
-    });
-
-    stats.callsByStatus = Object.entries(statusCounts)
-      .map(([status, count]) => ({
-        status: STATUS_LABELS[status as keyof typeof STATUS_LABELS],
-        count,
-        percentage: stats.totalCalls > 0 ? (count / stats.totalCalls) * 100 : 0,
-      }))
-      .filter((s) => s.count > 0);
-
-    const dateMap = new Map<string, number>();
-    allCalls.forEach((call) => {
-      const date = new Date(call.calledAt).toLocaleDateString();
-      dateMap.set(date, (dateMap.get(date) || 0) + 1);
-    });
-
-    stats.callsByDate = Array.from(dateMap.entries())
-      .map(([date, count]) => ({ date, count }))
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-      .slice(-14);
-
-    const contactCallCounts = new Map<string, number>();
-    allCalls.forEach((call) => {
-      contactCallCounts.set(call.contactId, (contactCallCounts.get(call.contactId) || 0) + 1);
-    });
-
-    stats.activeContacts = contactCallCounts.size;
-
-    stats.topContacts = Array.from(contactCallCounts.entries())
-      .map(([contactId, callCount]) => ({
-        contact: contacts.find((c) => c.id === contactId)!,
-        callCount,
-      }))
-      .filter((tc) => tc.contact)
-      .sort((a, b) => b.callCount - a.callCount)
-      .slice(0, 5);
-  }
+  const totalCalls = summary?.total || 0;
+  const callsByStatus = (outcomes ?? []).map((outcome) => ({
+    ...outcome,
+    label: STATUS_LABELS[outcome.status as keyof typeof STATUS_LABELS] ?? outcome.status,
+    percentage: totalCalls > 0 ? (outcome.count / totalCalls) * 100 : 0,
+  }));
+  const rangeLabel = DATE_RANGES[dateRange];
 
   return (
     <div className="flex h-screen flex-col bg-background">
@@ -148,18 +171,51 @@ export default function Analytics() {
           </div>
         </div>
         
-        <ThemeToggle />
+        <div className="flex items-center gap-2">
+          <ExportMenu
+            options={[
+              { label: "Call history", path: "/api/exports/calls", params: filters },
+              { label: "Call interactions", path: "/api/exports/interactions", params: { campaignId: filters.campaignId } },
+            ]}
+          />
+          <ThemeToggle />
+        </div>
       </header>
 
       <main className="flex-1 overflow-auto p-4 sm:p-6">
-        {isLoadingCalls ? (
+        <div className="max-w-7xl mx-auto space-y-6">
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={dateRange} onValueChange={(value) => setDateRange(value as keyof typeof DATE_RANGES)}>
+            <SelectTrigger className="w-40" data-testid="select-date-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(DATE_RANGES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={campaignId} onValueChange={setCampaignId}>
+            <SelectTrigger className="w-56" data-testid="select-campaign">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All calls</SelectItem>
+              {campaigns?.map((campaign) => (
+                <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoadingSummary ? (
           <div className="flex items-center justify-center h-64">
             <p className="text-muted-foreground">Loading analytics...</p>
           </div>
         ) : (
-          <div className="max-w-7xl mx-auto space-y-6">
-
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <>
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total Calls</CardTitle>
@@ -167,9 +223,9 @@ export default function Analytics() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold" data-testid="stat-total-calls">
-                {stats.totalCalls}
+                {totalCalls}
               </div>
-              <p className="text-xs text-muted-foreground">All time</p>
+              <p className="text-xs text-muted-foreground">{rangeLabel}</p>
             </CardContent>
           </Card>
 
@@ -180,7 +236,7 @@ export default function Analytics() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold" data-testid="stat-completed-calls">
-                {stats.completedCalls}
+                {summary?.completed || 0}
               </div>
               <p className="text-xs text-muted-foreground">Successful connections</p>
             </CardContent>
@@ -193,7 +249,7 @@ export default function Analytics() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold" data-testid="stat-success-rate">
-                {stats.successRate.toFixed(1)}%
+                {(summary?.successRate || 0).toFixed(1)}%
               </div>
               <p className="text-xs text-muted-foreground">Completion percentage</p>
             </CardContent>
@@ -206,40 +262,70 @@ export default function Analytics() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold" data-testid="stat-active-contacts">
-                {stats.activeContacts}
+                {summary?.contactsCalled || 0}
               </div>
               <p className="text-xs text-muted-foreground">With call history</p>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Avg Talk Time</CardTitle>
+              <Clock className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold" data-testid="stat-avg-talk-time">
+                {formatDuration(summary?.averageTalkTimeSeconds || 0)}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {formatDuration(summary?.talkTimeSeconds || 0)} total · {formatDuration(summary?.averageRingSeconds || 0)} avg ring
+              </p>
+            </CardContent>
+          </Card>
         </div>
 
         <div className="grid gap-4 md:grid-cols-2">
           <Card>
-            <CardHeader>
-              <CardTitle>Call Volume Over Time</CardTitle>
-              <CardDescription>Last 14 days of calling activity</CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Call Volume Over Time</CardTitle>
+                <CardDescription>Calls per {volumeInterval}, {rangeLabel.toLowerCase()}</CardDescription>
+              </div>
+              <Select value={volumeInterval} onValueChange={(value) => setVolumeInterval(value as "day" | "week")}>
+                <SelectTrigger className="w-28" data-testid="select-interval">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Daily</SelectItem>
+                  <SelectItem value="week">Weekly</SelectItem>
+                </SelectContent>
+              </Select>
             </CardHeader>
             <CardContent>
-              {stats.callsByDate.length > 0 ? (
+              {volume && volume.length > 0 ? (
                 <ResponsiveContainer width="100%" height={300}>
-                  <LineChart data={stats.callsByDate}>
+                  <LineChart data={volume}>
                     <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
-                    <XAxis dataKey="date" className="text-xs" />
-                    <YAxis className="text-xs" />
-                    <Tooltip
-                      contentStyle={{
-                        backgroundColor: "hsl(var(--card))",
-                        border: "1px solid hsl(var(--border))",
-                        borderRadius: "6px",
-                      }}
-                    />
+                    <XAxis dataKey="period" className="text-xs" />
+                    <YAxis className="text-xs" allowDecimals={false} />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} />
+                    <Legend />
                     <Line
                       type="monotone"
-                      dataKey="count"
+                      dataKey="total"
+                      name="Calls"
                       stroke="hsl(var(--primary))"
                       strokeWidth={2}
                       dot={{ fill: "hsl(var(--primary))" }}
                     />
+                    <Line
+                      type="monotone"
+                      dataKey="completed"
+                      name="Completed"
+                      stroke={STATUS_COLORS.completed}
+                      strokeWidth={2}
+                      dot={{ fill: STATUS_COLORS.completed }}
+                    />
                   </LineChart>
                 </ResponsiveContainer>
               ) : (
@@ -256,38 +342,28 @@ export default function Analytics() {
               <CardDescription>Breakdown by call outcome</CardDescription>
             </CardHeader>
             <CardContent>
-              {stats.callsByStatus.length > 0 ? (
+              {callsByStatus.length > 0 ? (
                 <ResponsiveContainer width="100%" height={300}>
                   <PieChart>
                     <Pie
-                      data={stats.callsByStatus}
+                      data={callsByStatus}
                       cx="50%"
                       cy="50%"
                       labelLine={false}
-                      label={({ status, percentage }) => `${status} (${percentage.toFixed(0)}%)`}
+                      label={({ label, percentage }) => `${label} (${percentage.toFixed(0)}%)`}
                       outerRadius={80}
                       fill="#8884d8"
                       dataKey="count"
+                      nameKey="label"
                     >
-                      {stats.callsByStatus.map((entry) => {
-                        const statusKey = Object.keys(STATUS_LABELS).find(
-                          (k) => STATUS_LABELS[k as keyof typeof STATUS_LABELS] === entry.status
-                        );
-                        return (
-                          <Cell
-                            key={`cell-${entry.status}`}
-                            fill={STATUS_COLORS[statusKey as keyof typeof STATUS_COLORS]}
-                          />
-                        );
-                      })}
+                      {callsByStatus.map((entry) => (
+                        <Cell
+                          key={`cell-${entry.status}`}
+                          fill={STATUS_COLORS[entry.status as keyof typeof STATUS_COLORS] ?? "#6b7280"}
+                        />
+                      ))}
                     </Pie>
-                    <Tooltip
-                      contentStyle={{
-                        backgroundColor: "hsl(var(--card))",
-                        border: "1px solid hsl(var(--border))",
-                        borderRadius: "6px",
-                      }}
-                    />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} />
                   </PieChart>
                 </ResponsiveContainer>
               ) : (
@@ -299,25 +375,137 @@ export default function Analytics() {
           </Card>
         </div>
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Calls by Hour of Day</CardTitle>
+            <CardDescription>When calls are placed and answered, in your local time</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {totalCalls > 0 && byHour ? (
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={byHour}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="hour" tickFormatter={formatHour} className="text-xs" />
+                  <YAxis className="text-xs" allowDecimals={false} />
+                  <Tooltip contentStyle={TOOLTIP_STYLE} labelFormatter={(hour) => formatHour(Number(hour))} />
+                  <Legend />
+                  <Bar dataKey="total" name="Calls" fill="hsl(var(--primary))" />
+                  <Bar dataKey="completed" name="Completed" fill={STATUS_COLORS.completed} />
+                </BarChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-[250px] flex items-center justify-center text-muted-foreground">
+                No call data available
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Calls by Campaign</CardTitle>
+              <CardDescription>Volume and success rate per campaign</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {byCampaign && byCampaign.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Campaign</TableHead>
+                      <TableHead className="text-right">Calls</TableHead>
+                      <TableHead className="text-right">Completed</TableHead>
+                      <TableHead className="text-right">Success</TableHead>
+                      <TableHead className="text-right">Talk time</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {byCampaign.map((row) => (
+                      <TableRow key={row.campaignId ?? "none"} data-testid={`row-campaign-stats-${row.campaignId ?? "none"}`}>
+                        <TableCell className="font-medium">
+                          {row.campaignId ? (
+                            <Link href={`/campaigns/${row.campaignId}`}>
+                              <span className="hover:underline cursor-pointer">{row.campaignName ?? "Deleted campaign"}</span>
+                            </Link>
+                          ) : (
+                            <span className="text-muted-foreground">Outside campaigns</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{row.total}</TableCell>
+                        <TableCell className="text-right">{row.completed}</TableCell>
+                        <TableCell className="text-right">{successRate(row)}</TableCell>
+                        <TableCell className="text-right">{formatDuration(row.talkTimeSeconds)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="py-8 text-center text-muted-foreground">
+                  No call history available yet
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Calls by Agent</CardTitle>
+              <CardDescription>Based on the AI agent each campaign uses</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {byAgent && byAgent.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Agent</TableHead>
+                      <TableHead className="text-right">Calls</TableHead>
+                      <TableHead className="text-right">Completed</TableHead>
+                      <TableHead className="text-right">Success</TableHead>
+                      <TableHead className="text-right">Talk time</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {byAgent.map((row) => (
+                      <TableRow key={row.agentId ?? "none"} data-testid={`row-agent-stats-${row.agentId ?? "none"}`}>
+                        <TableCell className="font-medium">
+                          {row.agentName ?? <span className="text-muted-foreground">No agent</span>}
+                        </TableCell>
+                        <TableCell className="text-right">{row.total}</TableCell>
+                        <TableCell className="text-right">{row.completed}</TableCell>
+                        <TableCell className="text-right">{successRate(row)}</TableCell>
+                        <TableCell className="text-right">{formatDuration(row.talkTimeSeconds)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="py-8 text-center text-muted-foreground">
+                  No call history available yet
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
         <Card>
           <CardHeader>
             <CardTitle>Top Contacts by Call Volume</CardTitle>
             <CardDescription>Your most frequently called contacts</CardDescription>
           </CardHeader>
           <CardContent>
-            {stats.topContacts.length > 0 ? (
+            {topContacts && topContacts.length > 0 ? (
               <div className="space-y-4">
-                {stats.topContacts.map((tc, index) => (
-                  <div key={tc.contact.id} className="flex items-center justify-between">
+                {topContacts.map((tc, index) => (
+                  <div key={tc.contactId} className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
                       <Badge variant="outline" className="w-8 h-8 flex items-center justify-center">
                         {index + 1}
                       </Badge>
                       <div>
                         <p className="font-medium" data-testid={`top-contact-name-${index}`}>
-                          {tc.contact.name}
+                          {tc.name}
                         </p>
-                        <p className="text-sm text-muted-foreground">{tc.contact.phone}</p>
+                        <p className="text-sm text-muted-foreground">{tc.phone}</p>
                       </div>
                     </div>
                     <div className="text-right">
@@ -339,10 +527,10 @@ export default function Analytics() {
         <Card>
           <CardHeader>
             <CardTitle>Recent Call History</CardTitle>
-            <CardDescription>All calls with conversation details</CardDescription>
+            <CardDescription>Latest calls with conversation details - export for the full history</CardDescription>
           </CardHeader>
           <CardContent>
-            {allCalls && allCalls.length > 0 ? (
+            {recentCalls && recentCalls.length > 0 ? (
               <div className="border rounded-md">
                 <Table>
                   <TableHeader>
@@ -356,44 +544,41 @@ export default function Analytics() {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {allCalls.map((call) => {
-                      const contact = contacts?.find(c => c.id === call.contactId);
-                      return (
-                        <TableRow key={call.id} data-testid={`row-call-${call.id}`}>
-                          <TableCell className="font-medium">
-                            {contact?.name || 'Unknown'}
-                          </TableCell>
-                          <TableCell className="font-mono text-sm">
-                            {contact?.phone || '—'}
-                          </TableCell>
-                          <TableCell>
-                            <Badge 
-                              variant={call.status === 'completed' ? 'default' : 'secondary'}
-                              data-testid={`badge-status-${call.id}`}
-                            >
-                              {call.status}
-                            </Badge>
-                          </TableCell>
-                          <TableCell className="text-muted-foreground">
-                            {formatDate(call.calledAt)}
-                          </TableCell>
-                          <TableCell className="text-muted-foreground text-sm max-w-xs truncate">
-                            {call.notes || '—'}
-                          </TableCell>
-                          <TableCell className="text-right">
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={() => handleViewDetails(call.id)}
-                              data-testid={`button-view-details-${call.id}`}
-                            >
-                              <Eye className="h-4 w-4 mr-2" />
-                              View Details
-                            </Button>
-                          </TableCell>
-                        </TableRow>
-                      );
-                    })}
+                    {recentCalls.map((call) => (
+                      <TableRow key={call.id} data-testid={`row-call-${call.id}`}>
+                        <TableCell className="font-medium">
+                          {call.contactName}
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">
+                          {call.contactPhone}
+                        </TableCell>
+                        <TableCell>
+                          <Badge 
+                            variant={call.status === 'completed' ? 'default' : 'secondary'}
+                            data-testid={`badge-status-${call.id}`}
+                          >
+                            {call.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {formatDate(call.calledAt)}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground text-sm max-w-xs truncate">
+                          {call.notes || '—'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            onClick={() => handleViewDetails(call.id)}
+                            data-testid={`button-view-details-${call.id}`}
+                          >
+                            <Eye className="h-4 w-4 mr-2" />
+                            View Details
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
                   </TableBody>
                 </Table>
               </div>
@@ -404,8 +589,9 @@ export default function Analytics() {
             )}
           </CardContent>
         </Card>
-      </div>
+          </>
         )}
+        </div>
       </main>
 
       <CallDetailsSheet 
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { ArrowLeft, Play, Plus, X, Loader2, Phone, AlertCircle } from "lucide-react";
+import { ArrowLeft, Play, Pause, Plus, X, Loader2, Phone, AlertCircle, Clock, Timer, RotateCcw, Voicemail, Upload, Radio } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,12 +9,19 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import type { Campaign, Contact, CampaignContact } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { callingDays, retryableOutcomes, voicemailActions, DEFAULT_VOICEMAIL_MESSAGE, type Campaign, type Contact, type CampaignContact } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Toaster } from "@/components/ui/toaster";
 import { Link, useRoute } from "wouter";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ExportMenu } from "@/components/export-menu";
+import { CampaignReportCard } from "@/components/campaign-report";
+import { DispositionBadge } from "@/components/disposition-select";
 
 function AddContactsDialog({ 
   campaignId, 
@@ -159,12 +166,667 @@ function AddContactsDialog({
   );
 }
 
+function CallingWindowCard({ campaign }: { campaign: Campaign }) {
+  const { toast } = useToast();
+  const [start, setStart] = useState(campaign.callingHoursStart);
+  const [end, setEnd] = useState(campaign.callingHoursEnd);
+  const [days, setDays] = useState<string[]>(campaign.callingDays.split(",").filter(Boolean));
+  const [timezone, setTimezone] = useState(campaign.timezone);
+
+  // Re-sync when the campaign is updated elsewhere
+  useEffect(() => {
+    setStart(campaign.callingHoursStart);
+    setEnd(campaign.callingHoursEnd);
+    setDays(campaign.callingDays.split(",").filter(Boolean));
+    setTimezone(campaign.timezone);
+  }, [campaign.callingHoursStart, campaign.callingHoursEnd, campaign.callingDays, campaign.timezone]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PATCH", `/api/campaigns/${campaign.id}`, {
+        callingHoursStart: start,
+        callingHoursEnd: end,
+        callingDays: callingDays.filter((day) => days.includes(day)).join(","),
+        timezone,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns", campaign.id] });
+      toast({
+        title: "Calling window saved",
+        description: "Contacts will only be dialed during these local hours.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save calling window. Check the times and timezone.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleToggleDay = (day: string) => {
+    setDays(prev => 
+      prev.includes(day) 
+        ? prev.filter(d => d !== day)
+        : [...prev, day]
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Calling Window
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Hours are in each contact's local time. Contacts without a timezone use their area code, then the fallback timezone below.
+        </p>
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="calling-hours-start">From</Label>
+            <Input
+              id="calling-hours-start"
+              type="time"
+              value={start}
+              onChange={(e) => setStart(e.target.value)}
+              data-testid="input-calling-hours-start"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="calling-hours-end">Until</Label>
+            <Input
+              id="calling-hours-end"
+              type="time"
+              value={end}
+              onChange={(e) => setEnd(e.target.value)}
+              data-testid="input-calling-hours-end"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="calling-timezone">Fallback Timezone</Label>
+            <Input
+              id="calling-timezone"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              placeholder="America/New_York"
+              data-testid="input-calling-timezone"
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          {callingDays.map((day) => (
+            <label key={day} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={days.includes(day)}
+                onCheckedChange={() => handleToggleDay(day)}
+                data-testid={`checkbox-calling-day-${day}`}
+              />
+              {day.charAt(0).toUpperCase() + day.slice(1)}
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || days.length === 0 || start >= end}
+            data-testid="button-save-calling-window"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Calling Window"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+type PacingSettings = Pick<
+  Campaign,
+  | "delayAfterCompletedMin"
+  | "delayAfterCompletedMax"
+  | "delayAfterFailedMin"
+  | "delayAfterFailedMax"
+  | "maxCallsPerHour"
+  | "maxCallsPerDay"
+  | "pacingJitter"
+>;
+
+const PACING_PRESETS: Record<string, { label: string; settings: PacingSettings }> = {
+  default: {
+    label: "Default (3–6 min between calls)",
+    settings: {
+      delayAfterCompletedMin: 180,
+      delayAfterCompletedMax: 360,
+      delayAfterFailedMin: 180,
+      delayAfterFailedMax: 360,
+      maxCallsPerHour: null,
+      maxCallsPerDay: null,
+      pacingJitter: "uniform",
+    },
+  },
+  fast: {
+    label: "Fast (30–90 s, quicker after failures)",
+    settings: {
+      delayAfterCompletedMin: 30,
+      delayAfterCompletedMax: 90,
+      delayAfterFailedMin: 15,
+      delayAfterFailedMax: 45,
+      maxCallsPerHour: null,
+      maxCallsPerDay: null,
+      pacingJitter: "uniform",
+    },
+  },
+  conservative: {
+    label: "Conservative (5–10 min, capped)",
+    settings: {
+      delayAfterCompletedMin: 300,
+      delayAfterCompletedMax: 600,
+      delayAfterFailedMin: 600,
+      delayAfterFailedMax: 900,
+      maxCallsPerHour: 8,
+      maxCallsPerDay: 60,
+      pacingJitter: "normal",
+    },
+  },
+};
+
+function pacingFromCampaign(campaign: Campaign): PacingSettings {
+  return {
+    delayAfterCompletedMin: campaign.delayAfterCompletedMin,
+    delayAfterCompletedMax: campaign.delayAfterCompletedMax,
+    delayAfterFailedMin: campaign.delayAfterFailedMin,
+    delayAfterFailedMax: campaign.delayAfterFailedMax,
+    maxCallsPerHour: campaign.maxCallsPerHour,
+    maxCallsPerDay: campaign.maxCallsPerDay,
+    pacingJitter: campaign.pacingJitter,
+  };
+}
+
+function PacingCard({ campaign }: { campaign: Campaign }) {
+  const { toast } = useToast();
+  const [pacing, setPacing] = useState<PacingSettings>(pacingFromCampaign(campaign));
+
+  // Re-sync when the campaign is updated elsewhere
+  useEffect(() => {
+    setPacing(pacingFromCampaign(campaign));
+  }, [
+    campaign.delayAfterCompletedMin,
+    campaign.delayAfterCompletedMax,
+    campaign.delayAfterFailedMin,
+    campaign.delayAfterFailedMax,
+    campaign.maxCallsPerHour,
+    campaign.maxCallsPerDay,
+    campaign.pacingJitter,
+  ]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PATCH", `/api/campaigns/${campaign.id}`, pacing);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns", campaign.id] });
+      toast({
+        title: "Pacing saved",
+        description: "The new pacing applies from the next call.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save pacing.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const matchingPreset = Object.entries(PACING_PRESETS).find(([, preset]) =>
+    (Object.keys(preset.settings) as (keyof PacingSettings)[]).every((key) => preset.settings[key] === pacing[key]),
+  )?.[0];
+
+  const setSeconds = (key: keyof PacingSettings, value: string) => {
+    setPacing((prev) => ({ ...prev, [key]: Math.max(0, parseInt(value, 10) || 0) }));
+  };
+
+  const setCap = (key: "maxCallsPerHour" | "maxCallsPerDay", value: string) => {
+    const parsed = parseInt(value, 10);
+    setPacing((prev) => ({ ...prev, [key]: parsed > 0 ? parsed : null }));
+  };
+
+  const isValid =
+    pacing.delayAfterCompletedMin <= pacing.delayAfterCompletedMax &&
+    pacing.delayAfterFailedMin <= pacing.delayAfterFailedMax;
+
+  const delayFields: Array<{ key: keyof PacingSettings; label: string }> = [
+    { key: "delayAfterCompletedMin", label: "After completed: min (s)" },
+    { key: "delayAfterCompletedMax", label: "After completed: max (s)" },
+    { key: "delayAfterFailedMin", label: "After failed: min (s)" },
+    { key: "delayAfterFailedMax", label: "After failed: max (s)" },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Pacing
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Preset</Label>
+            <Select
+              value={matchingPreset ?? "custom"}
+              onValueChange={(value) => {
+                const preset = PACING_PRESETS[value];
+                if (preset) setPacing(preset.settings);
+              }}
+            >
+              <SelectTrigger data-testid="select-pacing-preset">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PACING_PRESETS).map(([key, preset]) => (
+                  <SelectItem key={key} value={key} data-testid={`option-pacing-${key}`}>
+                    {preset.label}
+                  </SelectItem>
+                ))}
+                <SelectItem value="custom" disabled>
+                  Custom
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Delay Distribution</Label>
+            <Select
+              value={pacing.pacingJitter}
+              onValueChange={(value) => setPacing((prev) => ({ ...prev, pacingJitter: value }))}
+            >
+              <SelectTrigger data-testid="select-pacing-jitter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="uniform">Uniform (any value in range)</SelectItem>
+                <SelectItem value="normal">Normal (clustered around the middle)</SelectItem>
+                <SelectItem value="none">None (always the minimum)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="grid gap-4 sm:grid-cols-4">
+          {delayFields.map(({ key, label }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`pacing-${key}`}>{label}</Label>
+              <Input
+                id={`pacing-${key}`}
+                type="number"
+                min={0}
+                value={pacing[key] as number}
+                onChange={(e) => setSeconds(key, e.target.value)}
+                data-testid={`input-pacing-${key}`}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="pacing-max-per-hour">Max calls per hour</Label>
+            <Input
+              id="pacing-max-per-hour"
+              type="number"
+              min={0}
+              placeholder="Unlimited"
+              value={pacing.maxCallsPerHour ?? ""}
+              onChange={(e) => setCap("maxCallsPerHour", e.target.value)}
+              data-testid="input-pacing-max-per-hour"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pacing-max-per-day">Max calls per day</Label>
+            <Input
+              id="pacing-max-per-day"
+              type="number"
+              min={0}
+              placeholder="Unlimited"
+              value={pacing.maxCallsPerDay ?? ""}
+              onChange={(e) => setCap("maxCallsPerDay", e.target.value)}
+              data-testid="input-pacing-max-per-day"
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {isValid ? "Caps count calls over a rolling hour / 24 hours." : "Each minimum must not exceed its maximum."}
+          </p>
+          <Button
+            size="sm"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !isValid}
+            data-testid="button-save-pacing"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Pacing"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const RETRY_OUTCOME_LABELS: Record<typeof retryableOutcomes[number], string> = {
+  no_answer: "No answer",
+  busy: "Busy",
+  voicemail: "Voicemail",
+  failed_to_connect: "Failed to connect",
+};
+
+function RetryCard({ campaign }: { campaign: Campaign }) {
+  const { toast } = useToast();
+  const [maxAttempts, setMaxAttempts] = useState(campaign.maxAttempts);
+  const [delayMinutes, setDelayMinutes] = useState(campaign.retryDelayMinutes);
+  const [backoff, setBackoff] = useState(campaign.retryBackoff);
+  const [outcomes, setOutcomes] = useState<string[]>(campaign.retryOutcomes.split(",").filter(Boolean));
+
+  // Re-sync when the campaign is updated elsewhere
+  useEffect(() => {
+    setMaxAttempts(campaign.maxAttempts);
+    setDelayMinutes(campaign.retryDelayMinutes);
+    setBackoff(campaign.retryBackoff);
+    setOutcomes(campaign.retryOutcomes.split(",").filter(Boolean));
+  }, [campaign.maxAttempts, campaign.retryDelayMinutes, campaign.retryBackoff, campaign.retryOutcomes]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PATCH", `/api/campaigns/${campaign.id}`, {
+        maxAttempts,
+        retryDelayMinutes: delayMinutes,
+        retryBackoff: backoff,
+        retryOutcomes: retryableOutcomes.filter((outcome) => outcomes.includes(outcome)).join(","),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns", campaign.id] });
+      toast({
+        title: "Retry rules saved",
+        description: "New rules apply to calls made from now on.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save retry rules.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleToggleOutcome = (outcome: string) => {
+    setOutcomes(prev => 
+      prev.includes(outcome) 
+        ? prev.filter(o => o !== outcome)
+        : [...prev, outcome]
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RotateCcw className="h-5 w-5" />
+          Retries
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="retry-max-attempts">Max attempts</Label>
+            <Input
+              id="retry-max-attempts"
+              type="number"
+              min={1}
+              max={20}
+              value={maxAttempts}
+              onChange={(e) => setMaxAttempts(Math.min(20, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+              data-testid="input-retry-max-attempts"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="retry-delay">Delay (minutes)</Label>
+            <Input
+              id="retry-delay"
+              type="number"
+              min={1}
+              value={delayMinutes}
+              onChange={(e) => setDelayMinutes(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              data-testid="input-retry-delay"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Backoff</Label>
+            <Select value={backoff} onValueChange={setBackoff}>
+              <SelectTrigger data-testid="select-retry-backoff">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fixed">Fixed</SelectItem>
+                <SelectItem value="exponential">Exponential (doubles each time)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Retry after</Label>
+          <div className="flex flex-wrap items-center gap-4">
+            {retryableOutcomes.map((outcome) => (
+              <label key={outcome} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={outcomes.includes(outcome)}
+                  onCheckedChange={() => handleToggleOutcome(outcome)}
+                  data-testid={`checkbox-retry-${outcome}`}
+                />
+                {RETRY_OUTCOME_LABELS[outcome]}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {maxAttempts === 1 ? "Each contact is dialed once." : `Each contact is dialed up to ${maxAttempts} times.`}
+          </p>
+          <Button
+            size="sm"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-retries"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Retry Rules"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const VOICEMAIL_ACTION_LABELS: Record<typeof voicemailActions[number], string> = {
+  off: "Off (no detection)",
+  hang_up: "Hang up",
+  audio_file: "Play a recording",
+  tts: "Speak a message",
+};
+
+function VoicemailCard({ campaign }: { campaign: Campaign }) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [action, setAction] = useState(campaign.voicemailAction);
+  const [message, setMessage] = useState(campaign.voicemailMessage ?? "");
+
+  // Re-sync when the campaign is updated elsewhere
+  useEffect(() => {
+    setAction(campaign.voicemailAction);
+    setMessage(campaign.voicemailMessage ?? "");
+  }, [campaign.voicemailAction, campaign.voicemailMessage]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PATCH", `/api/campaigns/${campaign.id}`, {
+        voicemailAction: action,
+        voicemailMessage: message.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns", campaign.id] });
+      toast({
+        title: "Voicemail settings saved",
+        description: "They apply to calls made from now on.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save voicemail settings.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      let binary = "";
+      for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+      }
+      return await apiRequest("POST", `/api/campaigns/${campaign.id}/voicemail-audio`, {
+        fileName: file.name,
+        data: btoa(binary),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns", campaign.id] });
+      toast({
+        title: "Recording uploaded",
+        description: "It will be played to answering machines after the beep.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Upload failed",
+        description: "The file could not be read as audio.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) uploadMutation.mutate(file);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Voicemail className="h-5 w-5" />
+          Voicemail
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>When an answering machine picks up</Label>
+          <Select value={action} onValueChange={setAction}>
+            <SelectTrigger data-testid="select-voicemail-action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {voicemailActions.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {VOICEMAIL_ACTION_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {action === "audio_file" && (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground truncate" data-testid="text-voicemail-file">
+              {campaign.voicemailAudioFile ? (
+                <a href={`/api/campaigns/${campaign.id}/voicemail-audio`} target="_blank" rel="noreferrer" className="underline">
+                  {campaign.voicemailAudioFile}
+                </a>
+              ) : (
+                "No recording uploaded yet"
+              )}
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="audio/*"
+              onChange={handleFileChange}
+              className="hidden"
+              data-testid="input-voicemail-file"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadMutation.isPending}
+              data-testid="button-upload-voicemail"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {uploadMutation.isPending ? "Uploading..." : "Upload"}
+            </Button>
+          </div>
+        )}
+        {action === "tts" && (
+          <div className="space-y-2">
+            <Label htmlFor="voicemail-message">Message</Label>
+            <Textarea
+              id="voicemail-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder={DEFAULT_VOICEMAIL_MESSAGE}
+              maxLength={1000}
+              rows={3}
+              data-testid="input-voicemail-message"
+            />
+            <p className="text-xs text-muted-foreground">
+              Spoken in the AI agent's voice. {"{{contactName}}"} and {"{{agentName}}"} are filled in.
+            </p>
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {action === "off"
+              ? "Answered calls go straight to the AI agent."
+              : "Answered calls are screened first; only people reach the AI agent."}
+          </p>
+          <Button
+            size="sm"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-voicemail"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Voicemail"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function CampaignDetailPage() {
   const [, params] = useRoute("/campaigns/:id");
   const campaignId = params?.id || "";
   const { toast } = useToast();
   const [isAddContactsDialogOpen, setIsAddContactsDialogOpen] = useState(false);
   const [isRestartDialogOpen, setIsRestartDialogOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useState("all");
   const previousStatusRef = useRef<string | null>(null);
 
   const { data: campaign } = useQuery<Campaign>({
@@ -176,7 +838,7 @@ export default function CampaignDetailPage() {
       // Poll every 20 seconds as fallback when campaign is active
       // This ensures login notifications appear even if WebSocket fails
       const data = query.state.data as Campaign | undefined;
-      const isActiveCampaign = data?.status === 'active' || data?.status === 'waiting_for_login';
+      const isActiveCampaign = data?.status === 'active' || data?.status === 'waiting_for_login' || data?.status === 'waiting_for_window' || data?.status === 'waiting_for_retry';
       
       if (!isActiveCampaign) return false;
       
@@ -204,7 +866,7 @@ export default function CampaignDetailPage() {
     refetchInterval: (query) => {
       // Poll every 20 seconds as fallback when campaign is active
       // This ensures UI updates even if WebSocket fails
-      const isActiveCampaign = campaign?.status === 'active' || campaign?.status === 'waiting_for_login';
+      const isActiveCampaign = campaign?.status === 'active' || campaign?.status === 'waiting_for_login' || campaign?.status === 'waiting_for_window' || campaign?.status === 'waiting_for_retry';
       
       if (!isActiveCampaign) return false;
       
@@ -285,6 +947,45 @@ export default function CampaignDetailPage() {
     },
   });
 
+  const pauseCampaignMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/campaigns/${campaignId}/pause`, {});
+    },
+    onSuccess: () => {
+      toast({
+        title: "Campaign paused",
+        description: "Dialing will hold after the current call finishes.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to pause campaign.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resumeCampaignMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/campaigns/${campaignId}/resume`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns", campaignId, "contacts"] });
+      toast({
+        title: "Campaign resumed",
+        description: "Dialing has resumed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to resume campaign.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleStopCampaign = () => {
     if (window.confirm("Are you sure you want to stop this campaign?")) {
       stopCampaignMutation.mutate();
@@ -297,6 +998,7 @@ export default function CampaignDetailPage() {
       calling: { variant: "default" as const, text: "Calling..." },
       completed: { variant: "secondary" as const, text: "Completed" },
       failed: { variant: "destructive" as const, text: "Failed" },
+      skipped: { variant: "outline" as const, text: "Skipped (DNC)" },
     };
     
     const statusConfig = config[status as keyof typeof config] || config.pending;
@@ -312,6 +1014,8 @@ export default function CampaignDetailPage() {
   const completedCount = campaignContacts?.filter(cc => cc.status === 'completed').length || 0;
   const failedCount = campaignContacts?.filter(cc => cc.status === 'failed').length || 0;
   const totalContacts = campaignContacts?.length || 0;
+  const visibleContacts = campaignContacts?.filter(cc => statusFilter === 'all' || cc.status === statusFilter) || [];
+  const exportStatus = statusFilter === 'all' ? undefined : statusFilter;
   
   // Show restart button if there are contacts that can be dialed (pending or failed)
   const hasRetryableContacts = pendingCount > 0 || failedCount > 0;
@@ -367,8 +1071,8 @@ export default function CampaignDetailPage() {
               )}
             </Button>
           )}
-          {/* Show Restart button for completed/paused/waiting_for_login/failed campaigns with pending/failed contacts */}
-          {(campaign.status === 'completed' || campaign.status === 'paused' || campaign.status === 'waiting_for_login' || campaign.status === 'failed') && hasRetryableContacts && (
+          {/* Show Restart button for completed/stopped/waiting_for_login/failed campaigns with pending/failed contacts */}
+          {(campaign.status === 'completed' || campaign.status === 'stopped' || campaign.status === 'waiting_for_login' || campaign.status === 'failed') && hasRetryableContacts && (
             <Button 
               onClick={handleStartCampaign}
               disabled={startCampaignMutation.isPending}
@@ -409,7 +1113,46 @@ export default function CampaignDetailPage() {
               )}
             </Button>
           )}
-          {(campaign.status === 'active' || campaign.status === 'waiting_for_login') && (
+          {campaign.status === 'active' && (
+            <Link href="/live">
+              <Button variant="outline" size="sm" data-testid="button-live-calls">
+                <Radio className="h-4 w-4 sm:mr-2" />
+                <span className="hidden sm:inline">Live Calls</span>
+              </Button>
+            </Link>
+          )}
+          {(campaign.status === 'active' || campaign.status === 'waiting_for_window' || campaign.status === 'waiting_for_retry') && (
+            <Button 
+              onClick={() => pauseCampaignMutation.mutate()}
+              disabled={pauseCampaignMutation.isPending}
+              variant="outline"
+              data-testid="button-pause-campaign"
+              size="sm"
+            >
+              {pauseCampaignMutation.isPending ? (
+                <Loader2 className="h-4 w-4 sm:mr-2 animate-spin" />
+              ) : (
+                <Pause className="h-4 w-4 sm:mr-2" />
+              )}
+              <span className="hidden sm:inline">Pause</span>
+            </Button>
+          )}
+          {campaign.status === 'paused' && (
+            <Button 
+              onClick={() => resumeCampaignMutation.mutate()}
+              disabled={resumeCampaignMutation.isPending}
+              data-testid="button-resume-campaign"
+              size="sm"
+            >
+              {resumeCampaignMutation.isPending ? (
+                <Loader2 className="h-4 w-4 sm:mr-2 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4 sm:mr-2" />
+              )}
+              <span className="hidden sm:inline">Resume</span>
+            </Button>
+          )}
+          {(campaign.status === 'active' || campaign.status === 'paused' || campaign.status === 'waiting_for_login' || campaign.status === 'waiting_for_window' || campaign.status === 'waiting_for_retry') && (
             <Button 
               onClick={handleStopCampaign}
               disabled={stopCampaignMutation.isPending}
@@ -439,6 +1182,13 @@ export default function CampaignDetailPage() {
             <Plus className="h-4 w-4 sm:mr-2" />
             <span className="hidden sm:inline">Add Contacts</span>
           </Button>
+          <ExportMenu
+            options={[
+              { label: "Campaign results", path: `/api/exports/campaigns/${campaignId}`, params: { status: exportStatus } },
+              { label: "Call history", path: "/api/exports/calls", params: { campaignId } },
+              { label: "Call interactions", path: "/api/exports/interactions", params: { campaignId } },
+            ]}
+          />
           <ThemeToggle />
         </div>
       </header>
@@ -452,6 +1202,22 @@ export default function CampaignDetailPage() {
             </AlertDescription>
           </Alert>
         )}
+        {campaign.status === 'waiting_for_window' && (
+          <Alert data-testid="alert-waiting-for-window">
+            <Clock className="h-5 w-5" />
+            <AlertDescription className="ml-2">
+              No pending contacts are inside their calling window right now. Dialing will resume automatically when the next window opens.
+            </AlertDescription>
+          </Alert>
+        )}
+        {campaign.status === 'waiting_for_retry' && (
+          <Alert data-testid="alert-waiting-for-retry">
+            <RotateCcw className="h-5 w-5" />
+            <AlertDescription className="ml-2">
+              All remaining contacts are waiting for a scheduled retry. Dialing will resume automatically when the next one is due.
+            </AlertDescription>
+          </Alert>
+        )}
         <div className="grid gap-4 md:grid-cols-4">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
@@ -461,6 +1227,10 @@ export default function CampaignDetailPage() {
               <div className="text-2xl font-bold" data-testid="text-status">
                 {campaign.status === 'waiting_for_login' 
                   ? 'Login Required' 
+                  : campaign.status === 'waiting_for_window'
+                  ? 'Outside Calling Hours'
+                  : campaign.status === 'waiting_for_retry'
+                  ? 'Retries Scheduled'
                   : campaign.status.charAt(0).toUpperCase() + campaign.status.slice(1)}
               </div>
             </CardContent>
@@ -497,9 +1267,34 @@ export default function CampaignDetailPage() {
           </Card>
         </div>
 
+        <div className="grid gap-4 lg:grid-cols-2">
+          <CallingWindowCard campaign={campaign} />
+          <PacingCard campaign={campaign} />
+          <RetryCard campaign={campaign} />
+          <VoicemailCard campaign={campaign} />
+        </div>
+
+        <CampaignReportCard
+          campaignId={campaignId}
+          isActive={campaign.status === 'active' || campaign.status === 'waiting_for_window' || campaign.status === 'waiting_for_retry'}
+        />
+
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Campaign Contacts</CardTitle>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40" data-testid="select-status-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="calling">Calling</SelectItem>
+                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="skipped">Skipped (DNC)</SelectItem>
+              </SelectContent>
+            </Select>
           </CardHeader>
           <CardContent>
             {isLoading ? (
@@ -513,12 +1308,14 @@ export default function CampaignDetailPage() {
                       <TableHead>Phone</TableHead>
                       <TableHead>Company</TableHead>
                       <TableHead>Status</TableHead>
+                      <TableHead>Disposition</TableHead>
+                      <TableHead>Attempts</TableHead>
                       <TableHead>Called At</TableHead>
                       <TableHead>Notes</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {campaignContacts.map((cc) => (
+                    {visibleContacts.map((cc) => (
                       <TableRow key={cc.contactId} data-testid={`row-campaign-contact-${cc.contactId}`}>
                         <TableCell className="font-medium" data-testid={`text-name-${cc.contactId}`}>
                           {cc.contact.name}
@@ -532,6 +1329,21 @@ export default function CampaignDetailPage() {
                         <TableCell data-testid={`text-status-${cc.contactId}`}>
                           {getStatusBadge(cc.status)}
                         </TableCell>
+                        <TableCell>
+                          {cc.disposition ? (
+                            <DispositionBadge code={cc.disposition} testId={`badge-disposition-${cc.contactId}`} />
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground" data-testid={`text-attempts-${cc.contactId}`}>
+                          {cc.attempts}/{campaign.maxAttempts}
+                          {cc.status === 'pending' && cc.nextAttemptAt && (
+                            <div className="text-xs">
+                              Next: {new Date(cc.nextAttemptAt).toLocaleString()}
+                            </div>
+                          )}
+                        </TableCell>
                         <TableCell className="text-muted-foreground">
                           {cc.calledAt ? new Date(cc.calledAt).toLocaleString() : "—"}
                         </TableCell>
@@ -540,6 +1352,13 @@ export default function CampaignDetailPage() {
                         </TableCell>
                       </TableRow>
                     ))}
+                    {visibleContacts.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                          No contacts with this status
+                        </TableCell>
+                      </TableRow>
+                    )}
                   </TableBody>
                 </Table>
               </div>
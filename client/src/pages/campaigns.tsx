@@ -63,7 +63,10 @@ function CampaignCard({ campaign, onSelect }: { campaign: Campaign; onSelect: (i
       active: { variant: "default" as const, color: "text-primary-foreground" },
       completed: { variant: "secondary" as const, color: "" },
       paused: { variant: "outline" as const, color: "text-warning" },
+      stopped: { variant: "outline" as const, color: "text-muted-foreground" },
       waiting_for_login: { variant: "destructive" as const, color: "" },
+      waiting_for_window: { variant: "outline" as const, color: "text-primary" },
+      waiting_for_retry: { variant: "outline" as const, color: "text-primary" },
     };
     
     const config = variants[status as keyof typeof variants] || variants.draft;
@@ -71,6 +74,10 @@ function CampaignCard({ campaign, onSelect }: { campaign: Campaign; onSelect: (i
     // Format status text nicely
     const statusText = status === 'waiting_for_login' 
       ? 'Login Required' 
+      : status === 'waiting_for_window'
+      ? 'Outside Calling Hours'
+      : status === 'waiting_for_retry'
+      ? 'Retries Scheduled'
       : status.charAt(0).toUpperCase() + status.slice(1);
     
     return (
@@ -133,6 +140,7 @@ function CreateCampaignDialog({ open, onOpenChange }: { open: boolean; onOpenCha
       name: "",
       description: "",
       status: "draft",
+      telephonyProvider: "google_voice",
     },
   });
 
@@ -237,6 +245,34 @@ function CreateCampaignDialog({ open, onOpenChange }: { open: boolean; onOpenCha
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="telephonyProvider"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Phone Line</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-telephony-provider">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="google_voice" data-testid="option-provider-google_voice">
+                        Google Voice
+                      </SelectItem>
+                      <SelectItem value="simulated" data-testid="option-provider-simulated">
+                        Simulated (no real calls)
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Simulated lines connect instantly and need no browser or audio devices
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             <DialogFooter>
               <Button type="submit" disabled={createMutation.isPending} data-testid="button-submit-campaign">
                 {createMutation.isPending ? "Creating..." : "Create Campaign"}
@@ -259,7 +295,7 @@ export default function CampaignsPage() {
     refetchInterval: (query) => {
       // Poll every 30 seconds if any campaign is active (WebSocket handles real-time updates)
       const data = query.state.data as Campaign[] | undefined;
-      const hasActiveCampaign = data?.some(c => c.status === 'active' || c.status === 'waiting_for_login');
+      const hasActiveCampaign = data?.some(c => c.status === 'active' || c.status === 'waiting_for_login' || c.status === 'waiting_for_window' || c.status === 'waiting_for_retry');
       return hasActiveCampaign ? 30000 : false;
     },
   });
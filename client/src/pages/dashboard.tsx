@@ -9,6 +9,7 @@ import { ContactDialog } from "@/components/contact-dialog";
 import { ContactDetail } from "@/components/contact-detail";
 import { CSVImportDialog } from "@/components/csv-import-dialog";
 import { TagManagerDialog } from "@/components/tag-manager-dialog";
+import { ExportMenu } from "@/components/export-menu";
 import type { Contact } from "@shared/schema";
 import { Link } from "wouter";
 
@@ -95,6 +96,11 @@ export default function Dashboard() {
             <span className="hidden sm:inline">Import</span>
           </Button>
 
+          <ExportMenu
+            className="hidden sm:flex"
+            options={[{ label: "Contacts", path: "/api/exports/contacts", params: { q: searchQuery } }]}
+          />
+
           <Button 
             variant="outline" 
             size="sm"
@@ -0,0 +1,285 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ArrowLeft, Ban, Download, Trash2, Upload } from "lucide-react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatPhoneNumber } from "@/lib/utils";
+import type { DncEntry, DncImportFailure, DncImportRow } from "@shared/schema";
+
+interface DncImportResult {
+  imported: number;
+  alreadyListed: number;
+  failed: number;
+  errors: DncImportFailure[];
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "Manual",
+  import: "Import",
+  transcript: "Opted out on call",
+  api: "API",
+};
+
+/**
+ * Parse a DNC CSV with a "phone" column and an optional "reason" column
+ * Accepts the file produced by the export (quoted values, extra columns)
+ */
+function parseDncCSV(text: string): DncImportRow[] {
+  const lines = text.trim().split('\n');
+  if (lines.length < 2) return [];
+
+  const unquote = (value: string) => value.trim().replace(/^"(.*)"$/, '$1').replace(/""/g, '"');
+  const headers = lines[0].split(',').map(h => unquote(h).toLowerCase());
+  const entries: DncImportRow[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const values = line.split(',').map(unquote);
+    const reason = values[headers.indexOf('reason')];
+    entries.push({
+      row: i + 1,
+      phone: values[headers.indexOf('phone')] ?? '',
+      ...(reason ? { reason } : {}),
+    });
+  }
+
+  return entries;
+}
+
+export default function DoNotCall() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [phone, setPhone] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: entries, isLoading } = useQuery<DncEntry[]>({
+    queryKey: ["/api/dnc"],
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/dnc", { phone, reason: reason || null, source: "manual" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dnc"] });
+      setPhone("");
+      setReason("");
+      toast({ title: "Number added to Do-Not-Call list" });
+    },
+    onError: () => {
+      toast({ title: "Failed to add number", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/dnc/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dnc"] });
+      toast({ title: "Number removed from Do-Not-Call list" });
+    },
+    onError: () => {
+      toast({ title: "Failed to remove number", variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (importEntries: DncImportRow[]) => {
+      const response = await apiRequest("POST", "/api/dnc/import", { entries: importEntries });
+      return await response.json() as DncImportResult;
+    },
+    onSuccess: (data: DncImportResult) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dnc"] });
+      toast({
+        title: "Import complete",
+        description: `${data.imported} added, ${data.alreadyListed} already listed${data.failed > 0 ? `, ${data.failed} failed` : ''}`,
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Import Failed",
+        description: "Failed to import the Do-Not-Call list. Please check your CSV format.",
+      });
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const importEntries = parseDncCSV(await file.text());
+    if (importEntries.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "No Data Found",
+        description: "The CSV file needs a header row with a \"phone\" column.",
+      });
+      return;
+    }
+
+    importMutation.mutate(importEntries);
+  };
+
+  const handleDelete = (entry: DncEntry) => {
+    if (window.confirm(`Remove ${formatPhoneNumber(entry.phone)} from the Do-Not-Call list? It may be dialed again.`)) {
+      deleteMutation.mutate(entry.id);
+    }
+  };
+
+  return (
+    <div className="flex h-screen flex-col bg-background">
+      <header className="sticky top-0 z-50 flex h-16 items-center justify-between border-b px-4 sm:px-6 backdrop-blur supports-[backdrop-filter]:bg-background/95">
+        <div className="flex items-center gap-2 sm:gap-3 min-w-0">
+          <Link href="/">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10 border-2 border-primary/20">
+            <Ban className="h-5 w-5 text-primary" />
+          </div>
+          <div className="hidden sm:block min-w-0">
+            <h1 className="text-lg font-semibold truncate">Do Not Call</h1>
+            <p className="text-xs text-muted-foreground truncate">Numbers that are never dialed</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv"
+            onChange={handleFileChange}
+            className="hidden"
+            data-testid="input-dnc-csv"
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+            data-testid="button-import-dnc"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {importMutation.isPending ? "Importing..." : "Import CSV"}
+          </Button>
+          <a href="/api/dnc/export" download>
+            <Button variant="outline" data-testid="button-export-dnc">
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </a>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-auto p-4 sm:p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Number</CardTitle>
+            <CardDescription>
+              Listed numbers are skipped by campaigns and refused by automated dialing. Contacts who ask
+              not to be called again during a call are added automatically.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-[1fr_2fr_auto] sm:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="dnc-phone">Phone</Label>
+                <Input
+                  id="dnc-phone"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  placeholder="(555) 234-5678"
+                  data-testid="input-dnc-phone"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="dnc-reason">Reason</Label>
+                <Input
+                  id="dnc-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Optional"
+                  data-testid="input-dnc-reason"
+                />
+              </div>
+              <Button
+                onClick={() => addMutation.mutate()}
+                disabled={addMutation.isPending || !phone.trim()}
+                data-testid="button-add-dnc"
+              >
+                {addMutation.isPending ? "Adding..." : "Add to List"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Do-Not-Call List</CardTitle>
+            <CardDescription>{entries?.length || 0} numbers</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-muted-foreground">Loading...</p>
+            ) : !entries || entries.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8" data-testid="text-no-dnc">
+                No numbers on the Do-Not-Call list
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Added</TableHead>
+                    <TableHead className="w-12"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id} data-testid={`row-dnc-${entry.id}`}>
+                      <TableCell className="font-medium">{formatPhoneNumber(entry.phone)}</TableCell>
+                      <TableCell className="text-muted-foreground">{entry.reason || "-"}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{SOURCE_LABELS[entry.source] || entry.source}</Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(entry)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-dnc-${entry.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Phone, Users, BarChart3, PhoneCall, TrendingUp, Bot, Settings as SettingsIcon, Menu, X } from "lucide-react";
+import { Phone, Users, BarChart3, PhoneCall, TrendingUp, Bot, Ban, Radio, Settings as SettingsIcon, Menu, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -33,8 +33,10 @@ export default function Home() {
   const navigationItems = [
     { href: "/contacts", icon: Users, label: "Contacts", testId: "button-contacts" },
     { href: "/campaigns", icon: PhoneCall, label: "Campaigns", testId: "button-campaigns" },
+    { href: "/live", icon: Radio, label: "Live Calls", testId: "button-live-calls" },
     { href: "/agents", icon: Bot, label: "AI Agents", testId: "button-agents" },
     { href: "/analytics", icon: BarChart3, label: "Analytics", testId: "button-analytics" },
+    { href: "/dnc", icon: Ban, label: "Do Not Call", testId: "button-dnc" },
     { href: "/settings", icon: SettingsIcon, label: "Settings", testId: "button-settings" },
   ];
 
@@ -214,6 +216,7 @@ export default function Home() {
                         call.status === 'completed' ? 'bg-green-500/10 text-green-600' :
                         call.status === 'missed' ? 'bg-red-500/10 text-red-600' :
                         call.status === 'voicemail' ? 'bg-blue-500/10 text-blue-600' :
+                        call.status === 'skipped' ? 'bg-muted text-muted-foreground' :
                         'bg-yellow-500/10 text-yellow-600'
                       }`}>
                         {call.status}
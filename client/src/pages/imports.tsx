@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, ChevronDown, ChevronUp, FileUp } from "lucide-react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { Campaign, ImportJob, Tag } from "@shared/schema";
+
+const STATUS_BADGES = {
+  draft: { variant: "outline" as const, text: "Not imported" },
+  completed: { variant: "secondary" as const, text: "Completed" },
+  failed: { variant: "destructive" as const, text: "Failed" },
+};
+
+function ImportJobCard({ job, tags, campaigns }: { job: Omit<ImportJob, 'csv'>; tags: Tag[]; campaigns: Campaign[] }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const status = STATUS_BADGES[job.status as keyof typeof STATUS_BADGES] ?? STATUS_BADGES.draft;
+  const tagNames = (job.tagIds ?? "")
+    .split(",")
+    .filter(Boolean)
+    .map((id) => tags.find((t) => t.id === id)?.name ?? "deleted tag");
+  const campaign = campaigns.find((c) => c.id === job.campaignId);
+  const mapped = job.mapping
+    .map((target, index) => (target === 'ignore' ? null : `${job.headers[index]} → ${target.replace(/^custom:/, "custom: ")}`))
+    .filter(Boolean);
+
+  return (
+    <Card data-testid={`card-import-${job.id}`}>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="min-w-0">
+            <CardTitle className="text-base truncate">{job.fileName}</CardTitle>
+            <CardDescription>
+              {new Date(job.createdAt).toLocaleString()} · {job.totalRows} rows
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant={status.variant}>{status.text}</Badge>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="icon" data-testid={`button-toggle-import-${job.id}`}>
+                {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              </Button>
+            </CollapsibleTrigger>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {job.status === 'completed' && (
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span className="text-green-600">{job.importedCount} imported</span>
+              <span className="text-muted-foreground">{job.mergedCount} merged</span>
+              <span className="text-destructive">{job.failedCount} failed</span>
+            </div>
+          )}
+          <CollapsibleContent className="space-y-3 text-sm">
+            <div>
+              <p className="font-medium">Column mapping</p>
+              <p className="text-muted-foreground">{mapped.join(", ") || "No columns imported"}</p>
+            </div>
+            {tagNames.length > 0 && (
+              <div>
+                <p className="font-medium">Tags</p>
+                <p className="text-muted-foreground">{tagNames.join(", ")}</p>
+              </div>
+            )}
+            {job.campaignId && (
+              <div>
+                <p className="font-medium">Added to campaign</p>
+                <Link href={`/campaigns/${job.campaignId}`}>
+                  <span className="text-primary hover:underline cursor-pointer">{campaign?.name ?? "Campaign"}</span>
+                </Link>
+              </div>
+            )}
+            {job.errors && job.errors.length > 0 && (
+              <div>
+                <p className="font-medium">Rows not imported</p>
+                <div className="max-h-48 overflow-auto rounded-md border p-2">
+                  {job.errors.map((err) => (
+                    <div key={err.lineNumber} className="text-xs text-muted-foreground mb-1">
+                      Line {err.lineNumber}: {err.errors.join("; ")}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CollapsibleContent>
+        </CardContent>
+      </Collapsible>
+    </Card>
+  );
+}
+
+export default function Imports() {
+  const { data: jobs, isLoading } = useQuery<Omit<ImportJob, 'csv'>[]>({
+    queryKey: ["/api/imports"],
+  });
+
+  const { data: tags } = useQuery<Tag[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const { data: campaigns } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+  });
+
+  return (
+    <div className="flex h-screen flex-col bg-background">
+      <header className="sticky top-0 z-50 flex h-16 items-center justify-between border-b px-4 sm:px-6 backdrop-blur supports-[backdrop-filter]:bg-background/95">
+        <div className="flex items-center gap-2 sm:gap-3 min-w-0">
+          <Link href="/contacts">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10 border-2 border-primary/20">
+            <FileUp className="h-5 w-5 text-primary" />
+          </div>
+          <div className="hidden sm:block min-w-0">
+            <h1 className="text-lg font-semibold truncate">Import History</h1>
+            <p className="text-xs text-muted-foreground truncate">Contact CSV imports and their results</p>
+          </div>
+        </div>
+
+        <ThemeToggle />
+      </header>
+
+      <main className="flex-1 overflow-auto p-4 sm:p-6 space-y-4">
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : !jobs || jobs.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8" data-testid="text-no-imports">
+            No imports yet
+          </p>
+        ) : (
+          jobs.map((job) => (
+            <ImportJobCard key={job.id} job={job} tags={tags ?? []} campaigns={campaigns ?? []} />
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
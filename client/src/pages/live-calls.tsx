@@ -0,0 +1,295 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Headphones, MessageSquare, Radio, Square, User, Zap } from "lucide-react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CallDetailsSheet } from "@/components/call-details-sheet";
+import { useListenIn } from "@/hooks/use-listen-in";
+import type { LiveCall, LiveCallInterruption, LiveCallTurn } from "@/hooks/use-campaign-websocket";
+import { formatDuration, formatPhoneNumber } from "@/lib/utils";
+
+const CALL_STATES: Record<string, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  dialing: { label: "Dialing", variant: "outline" },
+  ringing: { label: "Ringing", variant: "outline" },
+  connected: { label: "Connected", variant: "default" },
+  voicemail: { label: "Voicemail", variant: "secondary" },
+  no_answer: { label: "No Answer", variant: "secondary" },
+  busy: { label: "Busy", variant: "secondary" },
+  failed: { label: "Failed", variant: "destructive" },
+  ended: { label: "Ended", variant: "secondary" },
+};
+
+type FeedItem =
+  | { kind: "turn"; at: number; turn: LiveCallTurn }
+  | { kind: "interruption"; at: number; interruption: LiveCallInterruption };
+
+function CallStateBadge({ call }: { call: LiveCall }) {
+  const state = CALL_STATES[call.state] ?? { label: call.state, variant: "outline" as const };
+  return (
+    <Badge variant={state.variant} data-testid={`badge-live-state-${call.id}`}>
+      {state.label}
+    </Badge>
+  );
+}
+
+function formatOffset(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Transcript turns and interruptions in the order they happened
+ */
+function getFeed(call: LiveCall): FeedItem[] {
+  const items: FeedItem[] = [
+    ...call.turns.map((turn) => ({ kind: "turn" as const, at: new Date(turn.timestamp).getTime(), turn })),
+    ...call.interruptions.map((interruption) => ({ kind: "interruption" as const, at: interruption.at, interruption })),
+  ];
+  return items.sort((a, b) => a.at - b.at);
+}
+
+export default function LiveCalls() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detailsOpen, setDetailsOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const feedEndRef = useRef<HTMLDivElement>(null);
+
+  // Kept current by the live_call_* messages the app's WebSocket receives
+  const { data: calls, isLoading } = useQuery<LiveCall[]>({
+    queryKey: ["/api/live-calls"],
+  });
+
+  // The first call still in progress, unless one was picked
+  const selected = calls?.find((call) => call.id === selectedId)
+    ?? calls?.find((call) => call.endedAt === null)
+    ?? calls?.[0]
+    ?? null;
+  const listenIn = useListenIn(selected?.id ?? null);
+  const feed = selected ? getFeed(selected) : [];
+
+  // Elapsed times tick while the page is open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    feedEndRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [feed.length, selected?.id]);
+
+  const getElapsedSeconds = (call: LiveCall) => ((call.endedAt ?? now) - call.startedAt) / 1000;
+
+  return (
+    <div className="flex h-screen flex-col bg-background">
+      <header className="sticky top-0 z-50 flex h-16 items-center justify-between border-b px-4 sm:px-6 backdrop-blur supports-[backdrop-filter]:bg-background/95">
+        <div className="flex items-center gap-2 sm:gap-3 min-w-0">
+          <Link href="/">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10 border-2 border-primary/20">
+            <Radio className="h-5 w-5 text-primary" />
+          </div>
+          <div className="hidden sm:block min-w-0">
+            <h1 className="text-lg font-semibold truncate">Live Calls</h1>
+            <p className="text-xs text-muted-foreground truncate">Follow campaign calls as they happen</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-auto p-4 sm:p-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading live calls...</p>
+        ) : !calls || calls.length === 0 || !selected ? (
+          <Card>
+            <CardContent className="py-12 text-center space-y-2">
+              <Radio className="h-8 w-8 mx-auto text-muted-foreground" />
+              <p className="font-medium">No calls in progress</p>
+              <p className="text-sm text-muted-foreground">
+                Calls show up here as soon as a running campaign dials them.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+            <Card>
+              <CardHeader>
+                <CardTitle>Calls</CardTitle>
+                <CardDescription>Ended calls stay listed for a minute</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {calls.map((call) => (
+                  <button
+                    key={call.id}
+                    type="button"
+                    onClick={() => setSelectedId(call.id)}
+                    className={`w-full rounded-lg border p-3 text-left hover-elevate ${
+                      call.id === selected.id ? "border-primary bg-primary/5" : ""
+                    } ${call.endedAt !== null ? "opacity-60" : ""}`}
+                    data-testid={`button-live-call-${call.id}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium truncate">{call.contactName}</span>
+                      <CallStateBadge call={call} />
+                    </div>
+                    <div className="mt-1 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                      <span className="truncate">{call.campaignName}</span>
+                      <span className="tabular-nums">{formatDuration(getElapsedSeconds(call))}</span>
+                    </div>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+
+            <div className="space-y-6 min-w-0">
+              <Card>
+                <CardHeader>
+                  <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <CardTitle className="flex items-center gap-2">
+                        {selected.contactName}
+                        <CallStateBadge call={selected} />
+                      </CardTitle>
+                      <CardDescription>
+                        {formatPhoneNumber(selected.phone)} · {selected.campaignName} ·{" "}
+                        <span className="tabular-nums">{formatDuration(getElapsedSeconds(selected))}</span>
+                        {selected.endedAt !== null && " · call ended"}
+                      </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {listenIn.listening ? (
+                        <Button variant="outline" onClick={listenIn.stop} data-testid="button-stop-listening">
+                          <Square className="h-4 w-4 mr-2" />
+                          Stop Listening
+                        </Button>
+                      ) : (
+                        <Button
+                          onClick={listenIn.start}
+                          disabled={!selected.audioAvailable}
+                          data-testid="button-listen-in"
+                        >
+                          <Headphones className="h-4 w-4 mr-2" />
+                          Listen In
+                        </Button>
+                      )}
+                      {selected.endedAt !== null && selected.callHistoryId && (
+                        <Button variant="outline" onClick={() => setDetailsOpen(true)} data-testid="button-live-call-details">
+                          Call Details
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {listenIn.error && (
+                    <p className="text-sm text-destructive" data-testid="text-listen-error">{listenIn.error}</p>
+                  )}
+                  {!selected.audioAvailable && selected.endedAt === null && (
+                    <p className="text-xs text-muted-foreground">Listen-in is available once the call connects.</p>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  <ol className="space-y-1 text-sm" data-testid="list-live-call-states">
+                    {selected.transitions.map((transition, index) => (
+                      <li key={index} className="flex gap-3">
+                        <span className="w-12 shrink-0 text-muted-foreground tabular-nums">
+                          {formatOffset(transition.at - selected.startedAt)}
+                        </span>
+                        <span className="font-medium">{CALL_STATES[transition.state]?.label ?? transition.state}</span>
+                        <span className="text-muted-foreground truncate">{transition.reason}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <MessageSquare className="h-5 w-5" />
+                    Conversation
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {feed.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">
+                      {selected.endedAt === null ? "Waiting for the conversation to start..." : "Nothing was said on this call."}
+                    </p>
+                  ) : (
+                    <ScrollArea className="h-96 pr-4">
+                      <div className="space-y-4">
+                        {feed.map((item) =>
+                          item.kind === "interruption" ? (
+                            <div
+                              key={`interruption-${item.at}`}
+                              className="flex items-center justify-center gap-2 text-xs text-muted-foreground"
+                              data-testid="live-interruption"
+                            >
+                              <Zap className="h-3 w-3" />
+                              Caller interrupted the AI
+                              {item.interruption.offsetMs !== null && ` at ${formatOffset(item.interruption.offsetMs)}`}
+                            </div>
+                          ) : (
+                            <div
+                              key={`turn-${item.turn.id}`}
+                              className={`flex gap-3 ${item.turn.speaker === "agent" ? "flex-row" : "flex-row-reverse"}`}
+                              data-testid={`live-turn-${item.turn.id}`}
+                            >
+                              <div className={`flex h-8 w-8 shrink-0 items-center justify-center rounded-full ${
+                                item.turn.speaker === "agent"
+                                  ? "bg-primary/10 text-primary"
+                                  : "bg-secondary text-secondary-foreground"
+                              }`}>
+                                {item.turn.speaker === "agent" ? (
+                                  <MessageSquare className="h-4 w-4" />
+                                ) : (
+                                  <User className="h-4 w-4" />
+                                )}
+                              </div>
+                              <div className={`flex-1 space-y-1 ${item.turn.speaker === "contact" ? "text-right" : ""}`}>
+                                <div className={`flex items-center gap-2 text-xs text-muted-foreground ${
+                                  item.turn.speaker === "contact" ? "justify-end" : ""
+                                }`}>
+                                  <span>{item.turn.speaker === "agent" ? "AI Agent" : "Caller"}</span>
+                                  {item.turn.startMs !== null && <span className="tabular-nums">{formatOffset(item.turn.startMs)}</span>}
+                                  {item.turn.status === "interrupted" && (
+                                    <Badge variant="outline" className="text-xs">Interrupted</Badge>
+                                  )}
+                                </div>
+                                <div className={`inline-block rounded-lg px-4 py-2 text-sm ${
+                                  item.turn.speaker === "agent"
+                                    ? "bg-primary/10 text-foreground"
+                                    : "bg-secondary text-secondary-foreground"
+                                } ${item.turn.status === "tentative" ? "italic opacity-70" : ""}`}>
+                                  {item.turn.message}{item.turn.status === "tentative" ? "…" : ""}
+                                </div>
+                              </div>
+                            </div>
+                          )
+                        )}
+                        <div ref={feedEndRef} />
+                      </div>
+                    </ScrollArea>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </main>
+
+      <CallDetailsSheet
+        callId={selected?.callHistoryId ?? null}
+        open={detailsOpen}
+        onOpenChange={setDetailsOpen}
+      />
+    </div>
+  );
+}
@@ -1,16 +1,75 @@
 import { useState } from "react";
-import { Settings as SettingsIcon, ArrowLeft, Chrome, FileText } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Settings as SettingsIcon, ArrowLeft, Chrome, FileText, ListChecks, Trash2 } from "lucide-react";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDate, getErrorMessage } from "@/lib/utils";
+import { DispositionManagerDialog } from "@/components/disposition-manager-dialog";
+
+interface RetentionRunSummary {
+  finishedAt: string;
+  checked: number;
+  deleted: { retention_period: number; disposition: number; opt_out: number };
+  failed: number;
+}
+
+interface RetentionStatus {
+  policy: {
+    retentionDays: number | null;
+    keepDispositions: string[] | null;
+    redactOnOptOut: boolean;
+  } | null;
+  policyError: string | null;
+  storageBackend: "local" | "s3" | null;
+  running: boolean;
+  lastRun: RetentionRunSummary | null;
+  lastError: string | null;
+}
+
+const STORAGE_BACKEND_LABELS: Record<string, string> = {
+  local: "Local disk (recordings/)",
+  s3: "S3-compatible bucket",
+};
+
+function countDeleted(summary: RetentionRunSummary): number {
+  return summary.deleted.retention_period + summary.deleted.disposition + summary.deleted.opt_out;
+}
 
 export default function Settings() {
   const { toast } = useToast();
   const [isOpeningBrowser, setIsOpeningBrowser] = useState(false);
   const [isOpeningFile, setIsOpeningFile] = useState(false);
+  const [showDispositionManager, setShowDispositionManager] = useState(false);
+
+  const { data: retention } = useQuery<RetentionStatus>({
+    queryKey: ["/api/recordings/retention"],
+  });
+
+  const runRetentionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/recordings/retention/run");
+      return await response.json() as RetentionRunSummary;
+    },
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recordings/retention"] });
+      toast({
+        title: "Recording cleanup finished",
+        description: `Deleted ${countDeleted(summary)} of ${summary.checked} recordings`,
+      });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recordings/retention"] });
+      toast({
+        title: "Recording cleanup failed",
+        description: getErrorMessage(error, "Could not delete recordings"),
+        variant: "destructive",
+      });
+    },
+  });
 
   const handleOpenGoogleVoice = async () => {
     setIsOpeningBrowser(true);
@@ -120,6 +179,80 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Call Dispositions</CardTitle>
+            <CardDescription>
+              Results you can put on a call from the contact's call history
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              The campaign dialer sets a disposition like "No answer" or "Hung up early" on every call.
+              Add your own, such as "Interested" or "Callback requested", to record what came of the conversation.
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => setShowDispositionManager(true)}
+              data-testid="button-manage-dispositions"
+              className="w-full sm:w-auto"
+            >
+              <ListChecks className="h-4 w-4 mr-2" />
+              Manage Dispositions
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Call Recordings</CardTitle>
+            <CardDescription>
+              Where recordings are stored and how long they are kept
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Storage and retention are set in the .env file (RECORDING_STORAGE, RECORDING_RETENTION_DAYS,
+              RECORDING_KEEP_DISPOSITIONS, RECORDING_REDACT_ON_OPT_OUT). Recordings the policy no longer allows
+              are deleted every hour; the call keeps a note that it was recorded.
+            </p>
+            {retention && (
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm" data-testid="list-retention-policy">
+                <dt className="text-muted-foreground">Storage</dt>
+                <dd>{retention.storageBackend ? STORAGE_BACKEND_LABELS[retention.storageBackend] : "Not configured"}</dd>
+                <dt className="text-muted-foreground">Keep recordings for</dt>
+                <dd>{retention.policy?.retentionDays ? `${retention.policy.retentionDays} days` : "Forever"}</dd>
+                <dt className="text-muted-foreground">Keep only dispositions</dt>
+                <dd>{retention.policy?.keepDispositions?.join(", ") ?? "All"}</dd>
+                <dt className="text-muted-foreground">Delete on opt-out</dt>
+                <dd>{retention.policy?.redactOnOptOut ? "Yes" : "No"}</dd>
+                <dt className="text-muted-foreground">Last cleanup</dt>
+                <dd data-testid="text-retention-last-run">
+                  {retention.lastRun
+                    ? `${formatDate(retention.lastRun.finishedAt)} - deleted ${countDeleted(retention.lastRun)} of ${retention.lastRun.checked}`
+                      + (retention.lastRun.failed > 0 ? `, ${retention.lastRun.failed} failed` : "")
+                    : "Not run yet"}
+                </dd>
+              </dl>
+            )}
+            {(retention?.policyError || retention?.lastError) && (
+              <p className="text-sm text-destructive" data-testid="text-retention-error">
+                {retention.policyError ?? retention.lastError}
+              </p>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => runRetentionMutation.mutate()}
+              disabled={runRetentionMutation.isPending || !!retention?.policyError}
+              data-testid="button-run-retention"
+              className="w-full sm:w-auto"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              {runRetentionMutation.isPending ? "Cleaning up..." : "Run Cleanup Now"}
+            </Button>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Setup Guide</CardTitle>
@@ -159,6 +292,11 @@ export default function Settings() {
           </CardContent>
         </Card>
       </main>
+
+      <DispositionManagerDialog
+        open={showDispositionManager}
+        onOpenChange={setShowDispositionManager}
+      />
     </div>
   );
 }
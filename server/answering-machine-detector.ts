@@ -0,0 +1,299 @@
+/**
+ * Answering-Machine Detection (AMD)
+ *
+ * Classifies who picked up from the first seconds of inbound audio, in the
+ * spirit of Asterisk's AMD():
+ * - a short "hello?" followed by silence → human
+ * - a long greeting, many words, or a long silence before anyone speaks → machine
+ * - a beep (a steady tone) → machine
+ * - no decision within the analysis window → unknown
+ *
+ * Once a machine is detected the detector keeps listening for the end of the
+ * greeting - the beep, or a long pause - so a voicemail can be left after it.
+ *
+ * Audio is raw 16kHz, 16-bit signed, mono PCM (see CallAudioStream) and is
+ * analysed in 20ms frames: loudness is the frame's RMS, pitch is estimated
+ * from zero crossings.
+ */
+
+import { EventEmitter } from "events";
+
+export type AmdResult = 'human' | 'machine' | 'unknown';
+
+export interface AmdDecision {
+  result: AmdResult;
+  reason: string;
+  afterMs: number; // Audio analysed before deciding
+}
+
+export interface AmdConfig {
+  silenceThreshold: number; // Frame RMS below this is silence (int16 scale)
+  initialSilenceMs: number; // Silence before anyone speaks → machine
+  greetingMs: number; // Speaking this long without a pause → machine
+  afterGreetingSilenceMs: number; // Silence after a short greeting → human
+  totalAnalysisMs: number; // Give up (unknown) after this much audio
+  minWordMs: number; // Shorter bursts of sound are not words
+  betweenWordsSilenceMs: number; // Pause that separates two words
+  maximumWords: number; // More words than this → machine
+  beepMinMs: number; // A steady tone at least this long is a beep
+  beepMinHz: number;
+  beepMaxHz: number;
+  endOfGreetingSilenceMs: number; // Without a beep, this much silence ends a machine greeting
+}
+
+export const DEFAULT_AMD_CONFIG: AmdConfig = {
+  silenceThreshold: 500,
+  initialSilenceMs: 2500,
+  greetingMs: 1500,
+  afterGreetingSilenceMs: 800,
+  totalAnalysisMs: 5000,
+  minWordMs: 100,
+  betweenWordsSilenceMs: 50,
+  maximumWords: 3,
+  beepMinMs: 160,
+  beepMinHz: 500,
+  beepMaxHz: 2500,
+  endOfGreetingSilenceMs: 2000,
+};
+
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 20;
+const FRAME_BYTES = (SAMPLE_RATE / 1000) * FRAME_MS * 2;
+const TONE_TOLERANCE = 0.1; // Pitch may drift by 10% between frames of one tone
+
+/**
+ * Root-mean-square level of a frame of 16-bit PCM
+ */
+export function frameRms(frame: Buffer): number {
+  const samples = frame.length / 2;
+  if (samples === 0) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = frame.readInt16LE(i * 2);
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+/**
+ * Dominant frequency of a frame of 16-bit PCM, estimated from zero crossings
+ */
+function framePitchHz(frame: Buffer): number {
+  const samples = frame.length / 2;
+  let crossings = 0;
+  let previous = frame.readInt16LE(0);
+  for (let i = 1; i < samples; i++) {
+    const sample = frame.readInt16LE(i * 2);
+    if ((previous < 0 && sample >= 0) || (previous >= 0 && sample < 0)) crossings++;
+    previous = sample;
+  }
+  return (crossings / 2) * (SAMPLE_RATE / samples);
+}
+
+/**
+ * Feed inbound audio with push(); the detector emits:
+ * - 'decision' (AmdDecision): once, when it knows who answered
+ * - 'greeting_end' (reason: string): after a machine decision, when the greeting is over
+ */
+export class AnsweringMachineDetector extends EventEmitter {
+  private config: AmdConfig;
+  private pending: Buffer = Buffer.alloc(0);
+  private elapsedMs: number = 0;
+  private decision: AmdDecision | null = null;
+  private greetingEnded: boolean = false;
+
+  // Speech tracking
+  private heardVoice: boolean = false;
+  private voiceRunMs: number = 0; // Current stretch of speech, bridging pauses between words
+  private silenceMs: number = 0;
+  private wordMs: number = 0;
+  private words: number = 0;
+
+  // Beep tracking
+  private toneHz: number = 0;
+  private toneMs: number = 0;
+  private beepHeard: boolean = false;
+
+  constructor(config?: Partial<AmdConfig>) {
+    super();
+    this.config = { ...DEFAULT_AMD_CONFIG, ...config };
+  }
+
+  getDecision(): AmdDecision | null {
+    return this.decision;
+  }
+
+  /**
+   * Take a machine decision from elsewhere (e.g. the provider showed a voicemail prompt)
+   * and only listen for the end of the greeting
+   */
+  assumeMachine(reason: string): AmdDecision {
+    return this.decide('machine', reason);
+  }
+
+  /**
+   * Analyse a chunk of inbound audio (any length - it is split into 20ms frames)
+   */
+  push(chunk: Buffer): void {
+    if (this.greetingEnded) return;
+
+    let buffer = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+    while (buffer.length >= FRAME_BYTES) {
+      this.analyseFrame(buffer.subarray(0, FRAME_BYTES));
+      buffer = buffer.subarray(FRAME_BYTES);
+      if (this.greetingEnded) return;
+    }
+    this.pending = Buffer.from(buffer);
+  }
+
+  /**
+   * Resolve with the decision, or 'unknown' if none is made within timeoutMs of wall time
+   * (e.g. the provider delivers no audio at all)
+   */
+  waitForDecision(timeoutMs: number): Promise<AmdDecision> {
+    if (this.decision) return Promise.resolve(this.decision);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.removeListener('decision', onDecision);
+        resolve(this.decide('unknown', `No decision after ${timeoutMs}ms`));
+      }, timeoutMs);
+      const onDecision = (decision: AmdDecision) => {
+        clearTimeout(timer);
+        resolve(decision);
+      };
+      this.once('decision', onDecision);
+    });
+  }
+
+  /**
+   * Resolve when a machine greeting is over, or after timeoutMs of wall time
+   */
+  waitForGreetingEnd(timeoutMs: number): Promise<string> {
+    if (this.greetingEnded) return Promise.resolve("Greeting already over");
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.removeListener('greeting_end', onEnd);
+        this.greetingEnded = true;
+        resolve(`No beep or pause after ${timeoutMs}ms`);
+      }, timeoutMs);
+      const onEnd = (reason: string) => {
+        clearTimeout(timer);
+        resolve(reason);
+      };
+      this.once('greeting_end', onEnd);
+    });
+  }
+
+  private analyseFrame(frame: Buffer): void {
+    this.elapsedMs += FRAME_MS;
+    const voiced = frameRms(frame) >= this.config.silenceThreshold;
+
+    const beepEnded = this.trackTone(frame, voiced);
+    if (this.decision?.result === 'machine') {
+      this.trackGreetingEnd(voiced, beepEnded);
+      return;
+    }
+    if (this.decision) return;
+
+    if (this.beepHeard) {
+      this.decide('machine', "Beep detected");
+      return;
+    }
+
+    if (voiced) {
+      this.trackVoice();
+    } else {
+      this.trackSilence();
+    }
+
+    if (!this.decision && this.elapsedMs >= this.config.totalAnalysisMs) {
+      this.decide('unknown', `No decision within ${this.config.totalAnalysisMs}ms`);
+    }
+  }
+
+  private trackVoice(): void {
+    // A pause long enough to separate words ends the previous word
+    if (this.silenceMs >= this.config.betweenWordsSilenceMs) {
+      this.wordMs = 0;
+    }
+
+    this.heardVoice = true;
+    this.voiceRunMs += FRAME_MS + (this.silenceMs < this.config.afterGreetingSilenceMs ? this.silenceMs : 0);
+    this.silenceMs = 0;
+    this.wordMs += FRAME_MS;
+
+    // Count the word once, on the frame it becomes long enough
+    if (this.wordMs >= this.config.minWordMs && this.wordMs - FRAME_MS < this.config.minWordMs) {
+      this.words++;
+      if (this.words > this.config.maximumWords) {
+        this.decide('machine', `${this.words} words in greeting`);
+        return;
+      }
+    }
+
+    if (this.voiceRunMs >= this.config.greetingMs) {
+      this.decide('machine', `Greeting longer than ${this.config.greetingMs}ms`);
+    }
+  }
+
+  private trackSilence(): void {
+    this.silenceMs += FRAME_MS;
+
+    if (!this.heardVoice && this.silenceMs >= this.config.initialSilenceMs) {
+      this.decide('machine', `No greeting within ${this.config.initialSilenceMs}ms`);
+    } else if (this.heardVoice && this.silenceMs >= this.config.afterGreetingSilenceMs) {
+      this.decide('human', `Short greeting (${this.voiceRunMs}ms) followed by silence`);
+    }
+  }
+
+  /**
+   * Follow steady tones; returns true on the frame a beep finishes
+   */
+  private trackTone(frame: Buffer, voiced: boolean): boolean {
+    const pitch = voiced ? framePitchHz(frame) : 0;
+    const inBand = pitch >= this.config.beepMinHz && pitch <= this.config.beepMaxHz;
+    const steady = inBand && this.toneHz > 0 && Math.abs(pitch - this.toneHz) <= this.toneHz * TONE_TOLERANCE;
+
+    if (steady) {
+      this.toneMs += FRAME_MS;
+      if (this.toneMs >= this.config.beepMinMs) this.beepHeard = true;
+      return false;
+    }
+
+    const wasBeep = this.toneMs >= this.config.beepMinMs;
+    this.toneHz = inBand ? pitch : 0;
+    this.toneMs = inBand ? FRAME_MS : 0;
+    return wasBeep;
+  }
+
+  private trackGreetingEnd(voiced: boolean, beepEnded: boolean): void {
+    if (beepEnded) {
+      this.endGreeting("Beep finished");
+      return;
+    }
+
+    this.silenceMs = voiced ? 0 : this.silenceMs + FRAME_MS;
+    if (!this.beepHeard && this.silenceMs >= this.config.endOfGreetingSilenceMs) {
+      this.endGreeting(`Silence for ${this.config.endOfGreetingSilenceMs}ms after greeting`);
+    }
+  }
+
+  private endGreeting(reason: string): void {
+    this.greetingEnded = true;
+    this.emit('greeting_end', reason);
+  }
+
+  private decide(result: AmdResult, reason: string): AmdDecision {
+    if (this.decision) return this.decision;
+
+    this.decision = { result, reason, afterMs: this.elapsedMs };
+    // Keep listening for the end of the greeting; silence counted so far belongs to the greeting
+    this.silenceMs = 0;
+    if (result !== 'machine') this.greetingEnded = true;
+    this.emit('decision', this.decision);
+    return this.decision;
+  }
+}
@@ -3,6 +3,27 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { randomUUID } from 'crypto';
 
+/**
+ * 44-byte header of a 16-bit PCM WAV file holding dataSize bytes of samples
+ */
+export function createWavHeader(dataSize: number, sampleRate: number = 16000, channels: number = 1): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // Subchunk1Size (16 for PCM)
+  header.writeUInt16LE(1, 20); // AudioFormat (1 for PCM)
+  header.writeUInt16LE(channels, 22); // NumChannels
+  header.writeUInt32LE(sampleRate, 24); // SampleRate
+  header.writeUInt32LE(sampleRate * channels * 2, 28); // ByteRate
+  header.writeUInt16LE(channels * 2, 32); // BlockAlign
+  header.writeUInt16LE(16, 34); // BitsPerSample
+  header.write('data', 36);
+  header.writeUInt32LE(dataSize, 40);
+  return header;
+}
+
 export class AudioTranscoder {
   private tempDir: string;
 
@@ -19,65 +40,12 @@ export class AudioTranscoder {
   }
 
   /**
-   * Convert raw PCM audio buffer to WAV format
-   * @param pcmBuffer Int16 PCM audio data
-   * @param sampleRate Sample rate (e.g., 16000)
-   * @param channels Number of channels (1 for mono, 2 for stereo)
-   * @returns WAV file buffer
-   */
-  pcmToWav(pcmBuffer: Buffer, sampleRate: number = 16000, channels: number = 1): Buffer {
-    const dataSize = pcmBuffer.length;
-    const headerSize = 44;
-    const wavBuffer = Buffer.alloc(headerSize + dataSize);
-    
-    // WAV header
-    wavBuffer.write('RIFF', 0);
-    wavBuffer.writeUInt32LE(36 + dataSize, 4);
-    wavBuffer.write('WAVE', 8);
-    wavBuffer.write('fmt ', 12);
-    wavBuffer.writeUInt32LE(16, 16); // Subchunk1Size (16 for PCM)
-    wavBuffer.writeUInt16LE(1, 20); // AudioFormat (1 for PCM)
-    wavBuffer.writeUInt16LE(channels, 22); // NumChannels
-    wavBuffer.writeUInt32LE(sampleRate, 24); // SampleRate
-    wavBuffer.writeUInt32LE(sampleRate * channels * 2, 28); // ByteRate
-    wavBuffer.writeUInt16LE(channels * 2, 32); // BlockAlign
-    wavBuffer.writeUInt16LE(16, 34); // BitsPerSample
-    wavBuffer.write('data', 36);
-    wavBuffer.writeUInt32LE(dataSize, 40);
-    
-    // Copy PCM data
-    pcmBuffer.copy(wavBuffer, headerSize);
-    
-    return wavBuffer;
-  }
-
-  /**
-   * Save raw PCM buffer as WAV file
+   * Convert an audio file in any format ffmpeg reads to 16kHz mono WAV
    */
-  async savePcmAsWav(pcmBuffer: Buffer, sampleRate: number = 16000, channels: number = 1): Promise<string> {
+  async convertToWav(inputBuffer: Buffer, outputPath: string): Promise<void> {
     await this.ensureTempDir();
-    
-    const wavBuffer = this.pcmToWav(pcmBuffer, sampleRate, channels);
-    const outputId = randomUUID();
-    const outputPath = path.join(this.tempDir, `pcm_${outputId}.wav`);
-    
-    await fs.writeFile(outputPath, wavBuffer);
-    return outputPath;
-  }
-
-  async transcodeToWav(inputBuffer: Buffer, sourceFormat: 'webm' | 'mp3' | 'pcm'): Promise<string> {
-    await this.ensureTempDir();
-
-    // PCM format doesn't need ffmpeg conversion - just add WAV header
-    if (sourceFormat === 'pcm') {
-      return await this.savePcmAsWav(inputBuffer, 16000, 1);
-    }
-
-    // For webm and mp3, use ffmpeg
-    const inputId = randomUUID();
-    const inputPath = path.join(this.tempDir, `input_${inputId}.${sourceFormat}`);
-    const outputPath = path.join(this.tempDir, `output_${inputId}.wav`);
 
+    const inputPath = path.join(this.tempDir, `input_${randomUUID()}`);
     try {
       await fs.writeFile(inputPath, inputBuffer);
 
@@ -91,39 +59,91 @@ export class AudioTranscoder {
           .on('error', (err) => reject(err))
           .save(outputPath);
       });
-
-      return outputPath;
     } finally {
-      try {
-        await fs.unlink(inputPath);
-      } catch (error) {
-        console.error('[Transcoder] Failed to clean up input file:', error);
-      }
+      await this.cleanupTempFile(inputPath);
     }
   }
 
-  async concatenateWavFiles(wavPaths: string[], outputPath: string): Promise<void> {
-    if (wavPaths.length === 0) {
-      throw new Error('No WAV files to concatenate');
-    }
+  /**
+   * Encode a WAV file as MP3, or as Opus in an Ogg container, keeping its channels
+   */
+  async encodeWav(inputPath: string, outputPath: string, format: 'mp3' | 'opus'): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(inputPath)
+        .toFormat(format === 'mp3' ? 'mp3' : 'ogg')
+        .audioCodec(format === 'mp3' ? 'libmp3lame' : 'libopus')
+        .audioBitrate(format === 'mp3' ? '64k' : '32k')
+        .on('end', () => resolve())
+        .on('error', (err) => reject(err))
+        .save(outputPath);
+    });
+  }
 
-    if (wavPaths.length === 1) {
-      await fs.copyFile(wavPaths[0], outputPath);
-      return;
+  /**
+   * Find the fmt byte rate and the data chunk of a WAV buffer
+   */
+  private findWavData(buffer: Buffer): { channels: number; byteRate: number; dataOffset: number; dataSize: number } | null {
+    if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+      return null;
     }
 
-    const command = ffmpeg();
+    let channels = 1;
+    let byteRate = 0;
+    let offset = 12;
+    while (offset + 8 <= buffer.length) {
+      const chunkId = buffer.toString('ascii', offset, offset + 4);
+      const chunkSize = buffer.readUInt32LE(offset + 4);
+      if (chunkId === 'fmt ') {
+        channels = buffer.readUInt16LE(offset + 10);
+        byteRate = buffer.readUInt32LE(offset + 16);
+      } else if (chunkId === 'data') {
+        // ffmpeg can leave the data size unset; fall back to the bytes actually present
+        const dataSize = Math.min(chunkSize, buffer.length - offset - 8);
+        return { channels, byteRate, dataOffset: offset + 8, dataSize };
+      }
+      offset += 8 + chunkSize + (chunkSize % 2);
+    }
+    return null;
+  }
 
-    for (const wavPath of wavPaths) {
-      command.input(wavPath);
+  /**
+   * Length of a WAV file in seconds, read from its fmt and data chunks
+   * Returns null when the file is not a readable WAV
+   */
+  async getWavDurationSeconds(wavPath: string): Promise<number | null> {
+    try {
+      const wav = this.findWavData(await fs.readFile(wavPath));
+      return wav && wav.byteRate > 0 ? wav.dataSize / wav.byteRate : null;
+    } catch (error) {
+      console.error('[Transcoder] Failed to read WAV duration:', wavPath, error);
+      return null;
     }
+  }
 
-    await new Promise<void>((resolve, reject) => {
-      command
-        .on('end', () => resolve())
-        .on('error', (err) => reject(err))
-        .mergeToFile(outputPath, this.tempDir);
-    });
+  /**
+   * The raw PCM samples of a WAV file, or null when it is not a readable WAV
+   */
+  async readWavPcm(wavPath: string): Promise<Buffer | null> {
+    return (await this.readWav(wavPath))?.pcm ?? null;
+  }
+
+  /**
+   * The interleaved PCM samples of a WAV file with its layout, or null when it is not a readable WAV
+   */
+  async readWav(wavPath: string): Promise<{ pcm: Buffer; channels: number; byteRate: number } | null> {
+    try {
+      const buffer = await fs.readFile(wavPath);
+      const wav = this.findWavData(buffer);
+      if (!wav) return null;
+      return {
+        pcm: buffer.subarray(wav.dataOffset, wav.dataOffset + wav.dataSize),
+        channels: wav.channels,
+        byteRate: wav.byteRate,
+      };
+    } catch (error) {
+      console.error('[Transcoder] Failed to read WAV file:', wavPath, error);
+      return null;
+    }
   }
 
   async cleanupTempFile(filePath: string): Promise<void> {
@@ -133,8 +153,4 @@ export class AudioTranscoder {
       console.error('[Transcoder] Failed to clean up temp file:', filePath, error);
     }
   }
-
-  async cleanupTempFiles(filePaths: string[]): Promise<void> {
-    await Promise.all(filePaths.map(fp => this.cleanupTempFile(fp)));
-  }
 }
@@ -0,0 +1,189 @@
+/**
+ * Streaming Call Recorder
+ *
+ * Writes a call to a stereo 16kHz, 16-bit WAV while it happens: the caller on
+ * the left channel, the AI agent on the right. Both sides share one wall-clock
+ * timeline that starts when recording starts:
+ * - caller audio arrives in real time, so a chunk ends when it arrives
+ * - agent audio arrives faster than it is played, so a chunk starts when the
+ *   previous one has finished playing, or now if playback was idle
+ * An interruption drops agent audio that was queued but never played.
+ *
+ * Both channels are mixed in memory; frames older than SETTLE_MS, which no
+ * later chunk can still land on, are interleaved and appended to the file once
+ * a second. The WAV header is written with empty sizes and patched on stop().
+ */
+
+import fs from "fs";
+import path from "path";
+import { createWavHeader } from "./audio-transcoder";
+
+const SAMPLE_RATE = 16000;
+const CHANNELS = 2;
+const BYTES_PER_SAMPLE = 2;
+const FLUSH_INTERVAL_MS = 1000;
+const SETTLE_MS = 1000; // Caller chunks may arrive up to this late
+
+type Channel = 'caller' | 'agent';
+
+export class CallRecorder {
+  private outputPath: string;
+  private file: fs.WriteStream | null = null;
+  private flushInterval: NodeJS.Timeout | null = null;
+  private startedAt: number = 0;
+
+  private flushedFrames: number = 0; // Frames already written to the file
+  private pending: Record<Channel, Buffer> = { caller: Buffer.alloc(0), agent: Buffer.alloc(0) }; // Mono samples from flushedFrames on
+  private cursor: Record<Channel, number> = { caller: 0, agent: 0 }; // Frame after each channel's last chunk
+
+  constructor(outputPath: string) {
+    this.outputPath = outputPath;
+  }
+
+  getOutputPath(): string {
+    return this.outputPath;
+  }
+
+  /**
+   * Wall-clock time of the recording's first frame, or null before start()
+   */
+  getStartedAt(): Date | null {
+    return this.startedAt ? new Date(this.startedAt) : null;
+  }
+
+  /**
+   * Current position on the recording's timeline in ms, or null while not recording
+   */
+  getOffsetMs(): number | null {
+    return this.file ? Date.now() - this.startedAt : null;
+  }
+
+  async start(): Promise<void> {
+    if (this.file) return;
+
+    await fs.promises.mkdir(path.dirname(this.outputPath), { recursive: true });
+    this.file = fs.createWriteStream(this.outputPath);
+    this.file.write(createWavHeader(0, SAMPLE_RATE, CHANNELS));
+    this.startedAt = Date.now();
+    this.flushInterval = setInterval(() => this.flush(this.nowFrame() - this.msToFrames(SETTLE_MS)), FLUSH_INTERVAL_MS);
+    console.log(`[Recorder] Recording to ${this.outputPath}`);
+  }
+
+  /**
+   * Audio heard from the caller, just received
+   */
+  writeCaller(pcm: Buffer): void {
+    if (!this.file) return;
+    const frames = Math.floor(pcm.length / BYTES_PER_SAMPLE);
+    this.place('caller', Math.max(this.cursor.caller, this.nowFrame() - frames), pcm);
+  }
+
+  /**
+   * Audio queued for playback to the caller
+   * Returns where on the timeline it starts playing, in ms (null while not recording)
+   */
+  writeAgent(pcm: Buffer): number | null {
+    if (!this.file) return null;
+    const startFrame = Math.max(this.cursor.agent, this.nowFrame());
+    this.place('agent', startFrame, pcm);
+    return Math.round((startFrame * 1000) / SAMPLE_RATE);
+  }
+
+  /**
+   * Agent playback was cleared: drop what was queued but not played yet
+   */
+  interruptAgent(): void {
+    if (!this.file) return;
+
+    const now = this.nowFrame();
+    if (this.cursor.agent <= now) return;
+    this.cursor.agent = now;
+    const keepBytes = Math.max(0, now - this.flushedFrames) * BYTES_PER_SAMPLE;
+    this.pending.agent = this.pending.agent.subarray(0, Math.min(keepBytes, this.pending.agent.length));
+  }
+
+  /**
+   * Write out everything up to now and finish the file
+   * Returns the recording's length in seconds, or null if recording never started
+   */
+  async stop(): Promise<number | null> {
+    const file = this.file;
+    if (!file) return null;
+
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    // Agent audio still queued at hangup was never played
+    this.flush(this.nowFrame());
+    this.file = null;
+    await new Promise<void>((resolve, reject) => {
+      file.once('error', reject);
+      file.end(resolve);
+    });
+
+    const dataSize = this.flushedFrames * CHANNELS * BYTES_PER_SAMPLE;
+    const handle = await fs.promises.open(this.outputPath, 'r+');
+    try {
+      await handle.write(createWavHeader(dataSize, SAMPLE_RATE, CHANNELS), 0, 44, 0);
+    } finally {
+      await handle.close();
+    }
+
+    const seconds = this.flushedFrames / SAMPLE_RATE;
+    console.log(`[Recorder] Saved ${seconds.toFixed(1)}s stereo recording to ${this.outputPath}`);
+    return seconds;
+  }
+
+  private place(channel: Channel, startFrame: number, pcm: Buffer): void {
+    let samples = pcm.subarray(0, pcm.length - (pcm.length % BYTES_PER_SAMPLE));
+    this.cursor[channel] = startFrame + samples.length / BYTES_PER_SAMPLE;
+
+    // Frames already in the file can't change - drop the part of the chunk that would land there
+    let offset = startFrame - this.flushedFrames;
+    if (offset < 0) {
+      samples = samples.subarray(-offset * BYTES_PER_SAMPLE);
+      offset = 0;
+    }
+
+    const end = offset * BYTES_PER_SAMPLE + samples.length;
+    let buffer = this.pending[channel];
+    if (buffer.length < end) {
+      const grown = Buffer.alloc(end);
+      buffer.copy(grown);
+      buffer = grown;
+    }
+    samples.copy(buffer, offset * BYTES_PER_SAMPLE);
+    this.pending[channel] = buffer;
+  }
+
+  /**
+   * Interleave both channels up to a frame and append them to the file
+   */
+  private flush(untilFrame: number): void {
+    const frames = untilFrame - this.flushedFrames;
+    if (!this.file || frames <= 0) return;
+
+    const { caller, agent } = this.pending;
+    const stereo = Buffer.alloc(frames * CHANNELS * BYTES_PER_SAMPLE);
+    for (let i = 0; i < frames; i++) {
+      const at = i * BYTES_PER_SAMPLE;
+      if (at < caller.length) stereo.writeInt16LE(caller.readInt16LE(at), i * 4);
+      if (at < agent.length) stereo.writeInt16LE(agent.readInt16LE(at), i * 4 + 2);
+    }
+    this.file.write(stereo);
+
+    const flushedBytes = frames * BYTES_PER_SAMPLE;
+    this.pending.caller = Buffer.from(caller.subarray(Math.min(flushedBytes, caller.length)));
+    this.pending.agent = Buffer.from(agent.subarray(Math.min(flushedBytes, agent.length)));
+    this.flushedFrames = untilFrame;
+  }
+
+  private nowFrame(): number {
+    return this.msToFrames(Date.now() - this.startedAt);
+  }
+
+  private msToFrames(ms: number): number {
+    return Math.floor((ms * SAMPLE_RATE) / 1000);
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Call state engine against a scripted fake page - one case per transition
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  CallState,
+  CallStateEngine,
+  type CallSignals,
+  type CallStateConfig,
+  type CallStatePage,
+  waitForCallEnd,
+} from "./call-state-engine";
+
+// Timeouts scaled down so every case runs in well under a second
+const FAST_CONFIG: Partial<CallStateConfig> = {
+  initialWaitTime: 50,
+  connectedCheckInterval: 5,
+  dialingTimeout: 1000,
+  ringingTimeout: 1000,
+  voicemailTimeout: 50,
+  inactivityTimeout: 1000,
+  maxCallDuration: 5000,
+};
+
+const NO_SIGNALS: CallSignals = {
+  endCallButton: false,
+  idleScreen: false,
+  statusText: "",
+  callTimer: "",
+  voicemailPrompt: false,
+  busy: false,
+  noAnswer: false,
+  errorMessage: null,
+};
+
+type ConsoleListener = (message: { text(): string }) => void;
+
+/**
+ * A page whose signals the test sets, and whose console the test writes to
+ */
+class FakePage implements CallStatePage {
+  signals: CallSignals = { ...NO_SIGNALS };
+  private consoleListeners = new Set<ConsoleListener>();
+
+  show(signals: Partial<CallSignals>): void {
+    this.signals = { ...NO_SIGNALS, ...signals };
+  }
+
+  log(text: string): void {
+    this.consoleListeners.forEach((listener) => listener({ text: () => text }));
+  }
+
+  async evaluate<T>(_script: string): Promise<T> {
+    return { ...this.signals } as T;
+  }
+
+  on(_event: "console", listener: ConsoleListener): void {
+    this.consoleListeners.add(listener);
+  }
+
+  off(_event: "console", listener: ConsoleListener): void {
+    this.consoleListeners.delete(listener);
+  }
+}
+
+interface Harness {
+  page: FakePage;
+  engine: CallStateEngine;
+  hangups: number;
+  waitFor(state: CallState, timeoutMs?: number): Promise<void>;
+}
+
+async function startEngine(config: Partial<CallStateConfig> = {}): Promise<Harness> {
+  const page = new FakePage();
+  const harness: Harness = {
+    page,
+    engine: null as unknown as CallStateEngine,
+    hangups: 0,
+    waitFor: async (state, timeoutMs = 2000) => {
+      const deadline = Date.now() + timeoutMs;
+      while (harness.engine.getState() !== state) {
+        if (Date.now() > deadline) {
+          const history = harness.engine.getHistory().map((t) => `${t.toState} (${t.reason})`).join(" → ");
+          assert.fail(`Expected ${state}, got ${harness.engine.getState()}: ${history}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+    },
+  };
+  harness.engine = new CallStateEngine(page, async () => { harness.hangups++; }, { ...FAST_CONFIG, ...config });
+  await harness.engine.start();
+  return harness;
+}
+
+const RINGING_UI: Partial<CallSignals> = { endCallButton: true, statusText: "ringing…" };
+const CONNECTED_UI: Partial<CallSignals> = { endCallButton: true, callTimer: "0:01" };
+
+async function connectedCall(config: Partial<CallStateConfig> = {}): Promise<Harness> {
+  const harness = await startEngine(config);
+  harness.page.show(CONNECTED_UI);
+  await harness.waitFor(CallState.CONNECTED);
+  return harness;
+}
+
+test("IDLE → DIALING when monitoring starts", async () => {
+  const { engine } = await startEngine();
+  assert.equal(engine.getState(), CallState.DIALING);
+  assert.equal(engine.getHistory()[0].fromState, CallState.IDLE);
+  await engine.stop();
+});
+
+test("DIALING → RINGING on a ringing status with the call UI up", async () => {
+  const { page, engine, waitFor } = await startEngine();
+  page.show(RINGING_UI);
+  await waitFor(CallState.RINGING);
+  await engine.stop();
+});
+
+test("RINGING → CONNECTED once the call timer runs", async () => {
+  const { page, engine, waitFor } = await startEngine();
+  page.show(RINGING_UI);
+  await waitFor(CallState.RINGING);
+  page.show(CONNECTED_UI);
+  await waitFor(CallState.CONNECTED);
+  await engine.stop();
+});
+
+test("RINGING → CONNECTED on a connected status", async () => {
+  const { page, engine, waitFor } = await startEngine();
+  page.show(RINGING_UI);
+  await waitFor(CallState.RINGING);
+  page.show({ endCallButton: true, statusText: "connected" });
+  await waitFor(CallState.CONNECTED);
+  await engine.stop();
+});
+
+test("RINGING → CONNECTED when the browser console reports it", async () => {
+  const { page, engine, waitFor } = await startEngine();
+  page.show(RINGING_UI);
+  await waitFor(CallState.RINGING);
+  page.log("Call connected");
+  await waitFor(CallState.CONNECTED);
+  await engine.stop();
+});
+
+test("DIALING → CONNECTED on the End call button alone once settled", async () => {
+  const { page, engine, waitFor } = await startEngine();
+  page.show({ endCallButton: true });
+  await waitFor(CallState.CONNECTED);
+  await engine.stop();
+});
+
+test("DIALING → CONNECTED on an unrecognised status with the End call button", async () => {
+  const { page, engine, waitFor } = await startEngine();
+  page.show({ endCallButton: true, statusText: "on hold with kim" });
+  await waitFor(CallState.CONNECTED);
+  assert.match(engine.getHistory().at(-1)!.reason, /unrecognised status/);
+  await engine.stop();
+});
+
+test("RINGING → VOICEMAIL on a voicemail prompt, kept while hangupOnVoicemail is off", async () => {
+  const harness = await startEngine({ hangupOnVoicemail: false });
+  harness.page.show(RINGING_UI);
+  await harness.waitFor(CallState.RINGING);
+  harness.page.show({ endCallButton: true, voicemailPrompt: true });
+  await harness.waitFor(CallState.VOICEMAIL);
+  await new Promise((resolve) => setTimeout(resolve, 150));
+  assert.equal(harness.engine.getState(), CallState.VOICEMAIL);
+  assert.equal(harness.hangups, 0);
+  await harness.engine.stop();
+});
+
+test("VOICEMAIL → ENDED after voicemailTimeout when hangupOnVoicemail is on", async () => {
+  const harness = await startEngine({ hangupOnVoicemail: true });
+  harness.page.show({ endCallButton: true, statusText: "leave a message" });
+  await harness.waitFor(CallState.VOICEMAIL);
+  await harness.waitFor(CallState.ENDED);
+  assert.equal(harness.hangups, 1);
+});
+
+test("CONNECTED → ENDED when the call UI disappears", async () => {
+  const { page, waitFor } = await connectedCall();
+  page.show({});
+  await waitFor(CallState.ENDED);
+});
+
+test("CONNECTED → ENDED when the browser console reports the call ended", async () => {
+  const { page, waitFor } = await connectedCall();
+  page.log("Call ended by remote party");
+  await waitFor(CallState.ENDED);
+});
+
+test("CONNECTED → ENDED after inactivityTimeout without signs of life", async () => {
+  const harness = await connectedCall({ inactivityTimeout: 100 });
+  // The timer stops ticking but the UI stays up
+  await harness.waitFor(CallState.ENDED);
+  assert.equal(harness.hangups, 1);
+  assert.match(harness.engine.getHistory().at(-1)!.reason, /No call activity/);
+});
+
+test("CONNECTED → ENDED at maxCallDuration", async () => {
+  const harness = await connectedCall({ maxCallDuration: 150 });
+  let seconds = 1;
+  const ticking = setInterval(() => harness.page.show({ endCallButton: true, callTimer: `0:${String(seconds++).padStart(2, "0")}` }), 10);
+  await harness.waitFor(CallState.ENDED);
+  clearInterval(ticking);
+  assert.equal(harness.hangups, 1);
+  assert.match(harness.engine.getHistory().at(-1)!.reason, /Maximum call duration/);
+});
+
+test("RINGING → BUSY on a busy indicator", async () => {
+  const { page, waitFor } = await startEngine();
+  page.show(RINGING_UI);
+  await waitFor(CallState.RINGING);
+  page.show({ endCallButton: true, busy: true });
+  await waitFor(CallState.BUSY);
+});
+
+test("RINGING → NO_ANSWER on a no-answer indicator", async () => {
+  const { page, waitFor } = await startEngine();
+  page.show(RINGING_UI);
+  await waitFor(CallState.RINGING);
+  page.show({ noAnswer: true });
+  await waitFor(CallState.NO_ANSWER);
+});
+
+test("RINGING → NO_ANSWER when the call UI disappears before pickup", async () => {
+  const { page, waitFor } = await startEngine();
+  page.show(RINGING_UI);
+  await waitFor(CallState.RINGING);
+  page.show({});
+  await waitFor(CallState.NO_ANSWER);
+});
+
+test("RINGING → NO_ANSWER after ringingTimeout", async () => {
+  const harness = await startEngine({ ringingTimeout: 150 });
+  harness.page.show(RINGING_UI);
+  await harness.waitFor(CallState.NO_ANSWER);
+  assert.equal(harness.hangups, 1);
+});
+
+test("DIALING → FAILED without any call UI once settled", async () => {
+  const { waitFor } = await startEngine();
+  await waitFor(CallState.FAILED);
+});
+
+test("DIALING → FAILED on a Google Voice error dialog", async () => {
+  const { page, waitFor, engine } = await startEngine();
+  page.show({ endCallButton: true, errorMessage: "mic not working" });
+  await waitFor(CallState.FAILED);
+  assert.match(engine.getHistory().at(-1)!.reason, /mic not working/);
+});
+
+test("RINGING → FAILED on a failed status", async () => {
+  const { page, waitFor } = await startEngine();
+  page.show(RINGING_UI);
+  await waitFor(CallState.RINGING);
+  page.show({ endCallButton: true, statusText: "call failed" });
+  await waitFor(CallState.FAILED);
+});
+
+test("DIALING → FAILED when the browser reports a media error", async () => {
+  const { page, waitFor } = await startEngine({ initialWaitTime: 1000 });
+  page.log("NotAllowedError: Permission denied");
+  await waitFor(CallState.FAILED);
+});
+
+test("DIALING → FAILED after dialingTimeout", async () => {
+  const harness = await startEngine({ initialWaitTime: 5000, dialingTimeout: 100 });
+  await harness.waitFor(CallState.FAILED);
+  assert.equal(harness.hangups, 1);
+});
+
+test("waitForCallEnd resolves with the terminal state when handling it rejects", async () => {
+  const { page, engine } = await startEngine();
+  const failingHangup = async () => { throw new Error("hangup failed"); };
+  const ended = waitForCallEnd(engine, async (transition) => {
+    if (transition.toState === CallState.BUSY) await failingHangup();
+  });
+
+  page.show({ endCallButton: true, busy: true });
+  assert.equal(await ended, CallState.BUSY);
+});
@@ -0,0 +1,478 @@
+/**
+ * Call State Engine for the Google Voice web client
+ *
+ * One state machine for a dialed call, fed by every signal we can get:
+ * - DOM: the "End call" button, status text, voicemail prompts, busy/no-answer
+ *   indicators, error dialogs and the idle screen GV returns to
+ * - the call timer text ("0:07") - proof the call was answered and is alive
+ * - browser console messages that announce the call connecting or ending
+ * - inbound audio reported by the audio stream (reportAudio)
+ *
+ * States: DIALING → RINGING → CONNECTED (or VOICEMAIL) → ENDED, or one of
+ * NO_ANSWER / BUSY / FAILED. Signals are sampled every connectedCheckInterval
+ * and each sample is reduced to at most one transition; timeouts are checked
+ * on the same tick:
+ * - dialingTimeout:    still dialing → FAILED
+ * - ringingTimeout:    never answered → NO_ANSWER
+ * - voicemailTimeout:  hang up this long after a voicemail prompt (hangupOnVoicemail)
+ * - inactivityTimeout: connected, but the timer stopped and no audio or console
+ *                      activity (armed once any such sign of life was seen)
+ * - maxCallDuration:   hang up, however the call is going
+ *
+ * The page is only used through CallStatePage, so the engine runs against a
+ * scripted fake page as easily as against Playwright.
+ */
+
+import { DEFAULT_AMD_CONFIG, frameRms } from "./answering-machine-detector";
+
+/**
+ * Enum representing all possible call states
+ */
+export enum CallState {
+  IDLE = "idle",
+  DIALING = "dialing",
+  RINGING = "ringing",
+  CONNECTED = "connected",
+  VOICEMAIL = "voicemail",
+  NO_ANSWER = "no_answer",
+  BUSY = "busy",
+  FAILED = "failed",
+  ENDED = "ended",
+}
+
+/**
+ * State transition event with logging information
+ */
+export interface StateTransition {
+  timestamp: number;
+  fromState: CallState;
+  toState: CallState;
+  reason: string;
+}
+
+export interface CallStateConfig {
+  initialWaitTime: number; // Grace period after dialing before a missing call UI means the call failed
+  connectedCheckInterval: number; // How often signals are sampled
+  dialingTimeout: number; // Max time in DIALING before giving up
+  ringingTimeout: number; // Max time from dialing to pickup
+  voicemailTimeout: number; // Time to stay on a voicemail prompt before hanging up
+  inactivityTimeout: number; // Max time connected without any sign of life
+  maxCallDuration: number; // Hang up after this long, however the call is going
+  hangupOnVoicemail: boolean; // Hang up voicemail prompts after voicemailTimeout
+  enableAudioFallback: boolean; // Count inbound audio as a sign of life
+}
+
+export const DEFAULT_CALL_STATE_CONFIG: CallStateConfig = {
+  initialWaitTime: 3000,
+  connectedCheckInterval: 500,
+  dialingTimeout: 30000,
+  ringingTimeout: 45000,
+  voicemailTimeout: 5000,
+  inactivityTimeout: 15000,
+  maxCallDuration: 600000, // 10 minutes
+  hangupOnVoicemail: true,
+  enableAudioFallback: true,
+};
+
+/**
+ * What one sample of the page shows
+ */
+export interface CallSignals {
+  endCallButton: boolean; // A visible "End call" / "Hang up" button - the call UI is up
+  idleScreen: boolean; // GV's idle screen ("You're all caught up") is visible
+  statusText: string; // Lower-cased call status, e.g. "calling…", "ringing"
+  callTimer: string; // Call timer text, e.g. "0:07" ('' when not shown)
+  voicemailPrompt: boolean;
+  busy: boolean;
+  noAnswer: boolean;
+  errorMessage: string | null; // A GV error dialog, e.g. "mic not working"
+}
+
+/**
+ * The parts of a Playwright Page the engine uses
+ */
+export interface CallStatePage {
+  evaluate<T>(script: string): Promise<T>;
+  on(event: "console", listener: (message: { text(): string }) => void): unknown;
+  off(event: "console", listener: (message: { text(): string }) => void): unknown;
+}
+
+type ConsoleHint = "connected" | "ended" | "failed";
+
+// Console messages the GV client logs around call events
+const CONSOLE_HINTS: Array<{ pattern: RegExp; hint: ConsoleHint }> = [
+  { pattern: /call (connected|answered)|iceconnectionstate.*connected/i, hint: "connected" },
+  { pattern: /call (ended|disconnected|terminated|hung up)/i, hint: "ended" },
+  { pattern: /notallowederror|notfounderror/i, hint: "failed" },
+];
+
+const TIMER_PATTERN = /\d+:\d{2}/;
+const RINGING_STATUS = ["calling", "dialing", "ringing", "connecting"];
+const VOICEMAIL_STATUS = ["leave a voicemail", "leave a message", "voicemail greeting"];
+const FAILED_STATUS = ["failed", "unavailable"];
+const TERMINAL_STATES = [CallState.NO_ANSWER, CallState.BUSY, CallState.FAILED, CallState.ENDED];
+
+/**
+ * Browser-side sampler - returns a CallSignals object
+ */
+const SAMPLE_SCRIPT = `
+  (function() {
+    function isVisible(el) {
+      if (!el) return false;
+      var style = window.getComputedStyle(el);
+      if (style.display === "none" || style.visibility === "hidden" || style.opacity === "0") return false;
+      var rect = el.getBoundingClientRect();
+      return rect.width > 0 && rect.height > 0;
+    }
+    function firstVisible(selector) {
+      var elements = document.querySelectorAll(selector);
+      for (var i = 0; i < elements.length; i++) {
+        if (isVisible(elements[i])) return elements[i];
+      }
+      return null;
+    }
+    function text(el) {
+      return el ? (el.textContent || "").trim().toLowerCase() : "";
+    }
+
+    // "End call" button - only whole phrases, to avoid matching e.g. "Send"
+    var endCallButton = !!firstVisible('button[aria-label*="End call" i], button[aria-label*="Hang up" i], [data-hangup-button]');
+    if (!endCallButton) {
+      var buttons = document.querySelectorAll("button");
+      for (var b = 0; b < buttons.length && !endCallButton; b++) {
+        if (!isVisible(buttons[b])) continue;
+        var label = (buttons[b].getAttribute("aria-label") || "").trim().toLowerCase();
+        var content = text(buttons[b]);
+        endCallButton = [label, content].some(function(value) {
+          return value === "end" || value === "hangup" || value.indexOf("end call") === 0 || value.indexOf("hang up") === 0;
+        });
+      }
+    }
+
+    // GV keeps hidden idle markup in the DOM - only a visible one counts
+    var idleScreen = false;
+    var candidates = document.querySelectorAll("div, span, p, h1, h2");
+    for (var c = 0; c < candidates.length && !idleScreen; c++) {
+      var value = candidates[c].textContent || "";
+      if (value.length < 50 && value.indexOf("all caught up") !== -1 && isVisible(candidates[c])) idleScreen = true;
+    }
+
+    var statusText = text(firstVisible('[aria-live="polite"], [aria-live="assertive"], .call-status, [data-call-status]'));
+    var timer = firstVisible('.call-timer, [data-call-duration], .call-duration, .elapsed-time');
+
+    var errorMessage = null;
+    var errorPatterns = ["mic not working", "microphone is not working", "no sound was detected", "microphone not detected",
+      "unable to access microphone", "microphone access denied", "audio device error", "unable to place call", "connection error"];
+    var dialogs = document.querySelectorAll('[role="dialog"], [role="alertdialog"]');
+    for (var d = 0; d < dialogs.length && !errorMessage; d++) {
+      if (!isVisible(dialogs[d])) continue;
+      var dialogText = text(dialogs[d]);
+      for (var p = 0; p < errorPatterns.length; p++) {
+        if (dialogText.indexOf(errorPatterns[p]) !== -1) {
+          errorMessage = errorPatterns[p];
+          break;
+        }
+      }
+    }
+
+    return {
+      endCallButton: endCallButton,
+      idleScreen: idleScreen,
+      statusText: statusText,
+      callTimer: timer ? (timer.textContent || "").trim() : "",
+      voicemailPrompt: !!firstVisible(".voicemail-prompt, [data-voicemail-prompt]"),
+      busy: !!firstVisible(".call-failed, [data-call-failed]"),
+      noAnswer: !!firstVisible(".no-answer, [data-no-answer]"),
+      errorMessage: errorMessage
+    };
+  })()
+`;
+
+/**
+ * Usage:
+ *   const engine = new CallStateEngine(page, () => dialer.hangup(), config);
+ *   engine.onStateChange((transition) => { ... });
+ *   await engine.start(); // right after clicking "Call"
+ *   ...
+ *   await engine.stop();
+ */
+export class CallStateEngine {
+  private page: CallStatePage;
+  private hangup: () => Promise<void>;
+  private config: CallStateConfig;
+  private currentState: CallState = CallState.IDLE;
+  private stateChangeCallbacks: Array<(transition: StateTransition) => void> = [];
+  private transitionHistory: StateTransition[] = [];
+
+  private pollTimer: NodeJS.Timeout | null = null;
+  private sampling: boolean = false;
+  private isMonitoring: boolean = false;
+  private hangingUp: boolean = false;
+
+  // What we have seen so far
+  private startedAt: number = 0;
+  private stateEnteredAt: number = 0;
+  private callUiSeen: boolean = false;
+  private lastCallTimer: string = "";
+  private lastSignOfLife: number | null = null; // Armed by the first timer tick, audio or console event
+  private consoleHint: ConsoleHint | null = null;
+
+  private consoleListener = (message: { text(): string }) => {
+    const text = message.text();
+    for (const { pattern, hint } of CONSOLE_HINTS) {
+      if (pattern.test(text)) {
+        console.log(`[CallState] Console signal (${hint}): ${text.slice(0, 120)}`);
+        this.consoleHint = hint;
+        this.markAlive();
+        return;
+      }
+    }
+  };
+
+  constructor(page: CallStatePage, hangup: () => Promise<void>, config?: Partial<CallStateConfig>) {
+    this.page = page;
+    this.hangup = hangup;
+    this.config = { ...DEFAULT_CALL_STATE_CONFIG, ...config };
+  }
+
+  /**
+   * Start monitoring - call right after the call was placed
+   */
+  async start(): Promise<void> {
+    if (this.isMonitoring) {
+      console.log("[CallState] Already monitoring");
+      return;
+    }
+
+    this.isMonitoring = true;
+    this.startedAt = Date.now();
+    this.page.on("console", this.consoleListener);
+    this.transitionTo(CallState.DIALING, "Call initiated");
+
+    this.pollTimer = setInterval(() => this.tick(), this.config.connectedCheckInterval);
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.isMonitoring) {
+      this.page.off("console", this.consoleListener);
+      this.isMonitoring = false;
+      console.log("[CallState] Stopped monitoring");
+    }
+  }
+
+  /**
+   * Feed inbound call audio - speech on the line is a sign the call is alive
+   */
+  reportAudio(chunk: Buffer): void {
+    if (this.config.enableAudioFallback && frameRms(chunk) >= DEFAULT_AMD_CONFIG.silenceThreshold) {
+      this.markAlive();
+    }
+  }
+
+  onStateChange(callback: (transition: StateTransition) => void): void {
+    this.stateChangeCallbacks.push(callback);
+  }
+
+  getState(): CallState {
+    return this.currentState;
+  }
+
+  getHistory(): StateTransition[] {
+    return [...this.transitionHistory];
+  }
+
+  private async tick(): Promise<void> {
+    if (this.sampling || !this.isMonitoring) return;
+    this.sampling = true;
+
+    try {
+      let signals: CallSignals | null = null;
+      try {
+        signals = await this.page.evaluate<CallSignals>(SAMPLE_SCRIPT);
+      } catch (error) {
+        console.error("[CallState] Error sampling call signals:", error);
+      }
+      if (!this.isMonitoring) return;
+
+      if (signals) {
+        this.applySignals(signals);
+      }
+      if (this.isMonitoring) {
+        await this.checkTimeouts();
+      }
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  /**
+   * Reduce one sample (plus any console hint) to at most one transition
+   */
+  private applySignals(signals: CallSignals): void {
+    const state = this.currentState;
+    const settled = Date.now() - this.startedAt >= this.config.initialWaitTime;
+    const hint = this.consoleHint;
+    this.consoleHint = null;
+
+    const hasTimer = TIMER_PATTERN.test(signals.callTimer);
+    if (hasTimer && signals.callTimer !== this.lastCallTimer) {
+      this.lastCallTimer = signals.callTimer;
+      this.markAlive();
+    }
+    if (signals.endCallButton || hasTimer) {
+      this.callUiSeen = true;
+    }
+    const wasAnswered = state === CallState.CONNECTED || state === CallState.VOICEMAIL;
+
+    // Failures first - they are unambiguous
+    if (signals.errorMessage) {
+      return this.finish(CallState.FAILED, `Google Voice error: "${signals.errorMessage}"`);
+    }
+    if (hint === "failed") {
+      return this.finish(CallState.FAILED, "Browser reported a media error");
+    }
+    if (signals.busy || (!wasAnswered && signals.statusText.includes("busy"))) {
+      return this.finish(CallState.BUSY, "Line busy");
+    }
+    if (!wasAnswered && FAILED_STATUS.some((s) => signals.statusText.includes(s))) {
+      return this.finish(CallState.FAILED, `Status: "${signals.statusText}"`);
+    }
+    if (signals.noAnswer) {
+      return this.finish(CallState.NO_ANSWER, "No-answer indicator shown");
+    }
+
+    // The call is over
+    if (hint === "ended" || (settled && (signals.idleScreen || (this.callUiSeen && !signals.endCallButton && !hasTimer)))) {
+      const why = hint === "ended" ? "Browser reported the call ended" : signals.idleScreen ? "Back on the idle screen" : "Call UI disappeared";
+      if (wasAnswered) return this.finish(CallState.ENDED, why);
+      if (this.callUiSeen) return this.finish(CallState.NO_ANSWER, `${why} before the call was answered`);
+      return this.finish(CallState.FAILED, `${why} - call was rejected`);
+    }
+    if (settled && !this.callUiSeen) {
+      return this.finish(CallState.FAILED, `No call UI after ${this.config.initialWaitTime / 1000} seconds`);
+    }
+
+    // Voicemail prompt
+    if (signals.voicemailPrompt || VOICEMAIL_STATUS.some((s) => signals.statusText.includes(s))) {
+      return this.transitionTo(CallState.VOICEMAIL, "Voicemail prompt detected");
+    }
+    if (wasAnswered) return;
+
+    // Answered?
+    if (hasTimer) {
+      return this.transitionTo(CallState.CONNECTED, `Call timer running (${signals.callTimer})`);
+    }
+    if (hint === "connected" || signals.statusText.includes("connected") || signals.statusText.includes("in call")) {
+      return this.transitionTo(CallState.CONNECTED, hint === "connected" ? "Browser reported the call connected" : `Status: "${signals.statusText}"`);
+    }
+    const ringing = RINGING_STATUS.some((s) => signals.statusText.includes(s));
+    if (signals.endCallButton && ringing) {
+      return this.transitionTo(CallState.RINGING, `Status: "${signals.statusText}"`);
+    }
+    // No status we recognise - the End call button alone counts as connected once the UI has settled
+    if (signals.endCallButton && settled && !ringing) {
+      const status = signals.statusText ? ` (unrecognised status "${signals.statusText}")` : '';
+      return this.transitionTo(CallState.CONNECTED, `End call button present after ${this.config.initialWaitTime / 1000} seconds${status}`);
+    }
+  }
+
+  private async checkTimeouts(): Promise<void> {
+    const now = Date.now();
+    const inState = now - this.stateEnteredAt;
+    const state = this.currentState;
+
+    if (now - this.startedAt >= this.config.maxCallDuration) {
+      const finalState = state === CallState.CONNECTED || state === CallState.VOICEMAIL ? CallState.ENDED : CallState.FAILED;
+      return this.hangupAndFinish(finalState, `Maximum call duration (${this.config.maxCallDuration / 1000}s) reached`);
+    }
+    if (state === CallState.DIALING && inState >= this.config.dialingTimeout) {
+      return this.hangupAndFinish(CallState.FAILED, "Dialing timeout - call never connected");
+    }
+    if ((state === CallState.DIALING || state === CallState.RINGING) && now - this.startedAt >= this.config.ringingTimeout) {
+      return this.hangupAndFinish(CallState.NO_ANSWER, `No answer within ${this.config.ringingTimeout / 1000}s`);
+    }
+    if (state === CallState.VOICEMAIL && this.config.hangupOnVoicemail && inState >= this.config.voicemailTimeout) {
+      return this.hangupAndFinish(CallState.ENDED, "Voicemail timeout - hanging up");
+    }
+    if (state === CallState.CONNECTED && this.lastSignOfLife !== null && now - this.lastSignOfLife >= this.config.inactivityTimeout) {
+      return this.hangupAndFinish(CallState.ENDED, `No call activity for ${this.config.inactivityTimeout / 1000}s - hanging up`);
+    }
+  }
+
+  private markAlive(): void {
+    this.lastSignOfLife = Date.now();
+  }
+
+  private async hangupAndFinish(state: CallState, reason: string): Promise<void> {
+    if (this.hangingUp) return;
+    this.hangingUp = true;
+    console.log(`[CallState] ${reason}`);
+
+    try {
+      await this.hangup();
+    } catch (error) {
+      console.error("[CallState] Error hanging up:", error);
+    }
+    this.finish(state, reason);
+  }
+
+  private finish(state: CallState, reason: string): void {
+    this.transitionTo(state, reason);
+    this.stop();
+  }
+
+  private transitionTo(newState: CallState, reason: string): void {
+    if (newState === this.currentState || TERMINAL_STATES.includes(this.currentState)) return;
+
+    const transition: StateTransition = {
+      timestamp: Date.now(),
+      fromState: this.currentState,
+      toState: newState,
+      reason,
+    };
+
+    this.transitionHistory.push(transition);
+
+    const timeInPreviousState = this.stateEnteredAt ? Date.now() - this.stateEnteredAt : 0;
+    console.log(`[CallState] ${this.currentState} → ${newState} (${reason}, after ${Math.round(timeInPreviousState / 1000)}s)`);
+
+    this.currentState = newState;
+    this.stateEnteredAt = Date.now();
+
+    for (const callback of this.stateChangeCallbacks) {
+      try {
+        callback(transition);
+      } catch (error) {
+        console.error("[CallState] Error in state change callback:", error);
+      }
+    }
+  }
+}
+
+/**
+ * Run a handler on each state change and resolve with the state that ended the
+ * call - also when the handler fails, so a failed cleanup (e.g. a hangup that
+ * rejects) never leaves the caller waiting on a finished call
+ */
+export function waitForCallEnd(
+  source: Pick<CallStateEngine, "onStateChange">,
+  handler: (transition: StateTransition) => Promise<void>,
+): Promise<CallState> {
+  return new Promise<CallState>((resolve) => {
+    source.onStateChange(async (transition) => {
+      try {
+        await handler(transition);
+      } catch (error) {
+        console.error(`[CallState] Error handling ${transition.toState}:`, error);
+      } finally {
+        if (TERMINAL_STATES.includes(transition.toState)) {
+          resolve(transition.toState);
+        }
+      }
+    });
+  });
+}
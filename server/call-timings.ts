@@ -0,0 +1,48 @@
+/**
+ * Call Timings
+ *
+ * Derives when a call was dialed, answered and ended from the state
+ * transitions its CallStateSource recorded:
+ * - dialed:   entered DIALING (monitoring starts as soon as the dial is placed)
+ * - answered: entered CONNECTED
+ * - ended:    entered a terminal state (ended, no answer, busy, failed)
+ *
+ * Ring time runs from dialed to answered (or to the end, for unanswered
+ * calls); talk time runs from answered to ended.
+ */
+
+import { CallState, type StateTransition } from "./call-state-engine";
+
+export interface CallTimings {
+  dialedAt: Date | null;
+  answeredAt: Date | null;
+  endedAt: Date | null;
+  ringSeconds: number | null;
+  talkSeconds: number | null;
+}
+
+const END_STATES = [CallState.ENDED, CallState.NO_ANSWER, CallState.BUSY, CallState.FAILED];
+
+function secondsBetween(start: Date | null, end: Date | null): number | null {
+  if (!start || !end) return null;
+  return Math.max(0, Math.round((end.getTime() - start.getTime()) / 1000));
+}
+
+export function getCallTimings(history: StateTransition[]): CallTimings {
+  const firstEntered = (states: CallState[]) => {
+    const transition = history.find((t) => states.includes(t.toState));
+    return transition ? new Date(transition.timestamp) : null;
+  };
+
+  const dialedAt = firstEntered([CallState.DIALING]);
+  const answeredAt = firstEntered([CallState.CONNECTED]);
+  const endedAt = firstEntered(END_STATES);
+
+  return {
+    dialedAt,
+    answeredAt,
+    endedAt,
+    ringSeconds: secondsBetween(dialedAt, answeredAt ?? endedAt),
+    talkSeconds: secondsBetween(answeredAt, endedAt),
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Calling windows - local hours and days, and when a closed window next opens
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Campaign, Contact } from "@shared/schema";
+import {
+  getCallingWindow,
+  getNextWindowOpening,
+  inferTimezoneFromPhone,
+  isWithinCallingWindow,
+  resolveContactTimezone,
+  type CallingWindow,
+} from "./calling-window";
+
+const NEW_YORK = "America/New_York";
+
+// 09:00-20:00 Monday to Saturday
+const WEEKDAYS_AND_SATURDAY: CallingWindow = {
+  start: "09:00",
+  end: "20:00",
+  days: ["mon", "tue", "wed", "thu", "fri", "sat"],
+};
+
+test("the window opens at its start and closes at its end, in local time", () => {
+  // Monday 19 October 2026, New York on EDT (UTC-4)
+  assert.equal(isWithinCallingWindow(WEEKDAYS_AND_SATURDAY, NEW_YORK, new Date("2026-10-19T12:59:00Z")), false);
+  assert.equal(isWithinCallingWindow(WEEKDAYS_AND_SATURDAY, NEW_YORK, new Date("2026-10-19T13:00:00Z")), true);
+  assert.equal(isWithinCallingWindow(WEEKDAYS_AND_SATURDAY, NEW_YORK, new Date("2026-10-19T23:59:00Z")), true);
+  assert.equal(isWithinCallingWindow(WEEKDAYS_AND_SATURDAY, NEW_YORK, new Date("2026-10-20T00:00:00Z")), false);
+});
+
+test("the same instant can be inside the window in one timezone and outside in another", () => {
+  const at = new Date("2026-10-19T14:00:00Z"); // 10:00 in New York, 07:00 in Los Angeles
+  assert.equal(isWithinCallingWindow(WEEKDAYS_AND_SATURDAY, NEW_YORK, at), true);
+  assert.equal(isWithinCallingWindow(WEEKDAYS_AND_SATURDAY, "America/Los_Angeles", at), false);
+});
+
+test("days outside the window are closed all day", () => {
+  // Sunday 18 October 2026, noon in New York
+  assert.equal(isWithinCallingWindow(WEEKDAYS_AND_SATURDAY, NEW_YORK, new Date("2026-10-18T16:00:00Z")), false);
+});
+
+test("the weekday is the contact's local day, not UTC's", () => {
+  // Saturday 19:30 in New York is already Sunday in UTC
+  assert.equal(isWithinCallingWindow(WEEKDAYS_AND_SATURDAY, NEW_YORK, new Date("2026-10-24T23:30:00Z")), true);
+});
+
+test("a window ending at 24:00 stays open until midnight", () => {
+  const allDay: CallingWindow = { start: "00:00", end: "24:00", days: ["sun"] };
+  assert.equal(isWithinCallingWindow(allDay, NEW_YORK, new Date("2026-10-19T03:59:00Z")), true); // Sunday 23:59
+});
+
+test("half-hour offsets are honoured", () => {
+  // 09:00 in St. John's (UTC-2:30) on Monday
+  const at = new Date("2026-10-19T11:30:00Z");
+  assert.equal(isWithinCallingWindow(WEEKDAYS_AND_SATURDAY, "America/St_Johns", at), true);
+  assert.equal(isWithinCallingWindow(WEEKDAYS_AND_SATURDAY, "America/St_Johns", new Date(at.getTime() - 60000)), false);
+});
+
+test("an open window opens now", () => {
+  const at = new Date("2026-10-19T15:00:00Z");
+  assert.equal(getNextWindowOpening(WEEKDAYS_AND_SATURDAY, NEW_YORK, at), at);
+});
+
+test("before the start the window opens later the same day, on the minute", () => {
+  const opening = getNextWindowOpening(WEEKDAYS_AND_SATURDAY, NEW_YORK, new Date("2026-10-19T12:59:30Z"));
+  assert.deepEqual(opening, new Date("2026-10-19T13:00:00Z"));
+});
+
+test("after the end on Saturday the window next opens on Monday", () => {
+  // Saturday 21:30 in New York
+  const opening = getNextWindowOpening(WEEKDAYS_AND_SATURDAY, NEW_YORK, new Date("2026-10-25T01:30:00Z"));
+  assert.deepEqual(opening, new Date("2026-10-26T13:00:00Z"));
+});
+
+test("a window with no days or no hours never opens", () => {
+  const at = new Date("2026-10-19T15:00:00Z");
+  assert.equal(getNextWindowOpening({ ...WEEKDAYS_AND_SATURDAY, days: [] }, NEW_YORK, at), undefined);
+  assert.equal(getNextWindowOpening({ start: "20:00", end: "09:00", days: ["mon"] }, NEW_YORK, at), undefined);
+});
+
+test("the campaign's calling days are read from its comma-separated list", () => {
+  const window = getCallingWindow({ callingHoursStart: "10:00", callingHoursEnd: "18:00", callingDays: "mon,wed," } as Campaign);
+  assert.deepEqual(window, { start: "10:00", end: "18:00", days: ["mon", "wed"] });
+});
+
+test("North American area codes give a timezone", () => {
+  assert.equal(inferTimezoneFromPhone("+12125550101"), NEW_YORK);
+  assert.equal(inferTimezoneFromPhone("(303) 555-0101"), "America/Denver");
+  assert.equal(inferTimezoneFromPhone("480-555-0101"), "America/Phoenix");
+  assert.equal(inferTimezoneFromPhone("+16045550101"), "America/Los_Angeles");
+  assert.equal(inferTimezoneFromPhone("+442079460958"), undefined);
+  assert.equal(inferTimezoneFromPhone("555-0101"), undefined);
+});
+
+test("a contact's own timezone wins over the area code, which wins over the campaign's", () => {
+  const campaign = { timezone: "America/Chicago" } as Campaign;
+  const contact = (timezone: string | null, phone: string) => ({ timezone, phone }) as Contact;
+
+  assert.equal(resolveContactTimezone(contact("Europe/London", "+12125550101"), campaign), "Europe/London");
+  assert.equal(resolveContactTimezone(contact(null, "+12125550101"), campaign), NEW_YORK);
+  assert.equal(resolveContactTimezone(contact(null, "+442079460958"), campaign), "America/Chicago");
+});
@@ -0,0 +1,179 @@
+/**
+ * Calling Windows
+ *
+ * Campaigns only dial contacts during allowed local hours and days
+ * (e.g. 09:00-20:00 Mon-Sat in the contact's timezone).
+ *
+ * A contact's timezone is resolved in this order:
+ * 1. contact.timezone (explicit, IANA name)
+ * 2. inferred from the phone number's North American area code
+ * 3. the campaign's default timezone
+ */
+
+import { callingDays, type Campaign, type CallingDay, type Contact } from "@shared/schema";
+
+export interface CallingWindow {
+  start: string; // "HH:MM" local time, inclusive
+  end: string; // "HH:MM" local time, exclusive
+  days: CallingDay[];
+}
+
+/**
+ * NANP area codes by timezone - states/provinces split across zones use the
+ * zone covering most of the area code
+ */
+const AREA_CODES_BY_TIMEZONE: Record<string, number[]> = {
+  "America/New_York": [
+    201, 202, 203, 207, 212, 215, 216, 220, 223, 227, 229, 231, 234, 239, 240, 248, 260, 267, 269, 272, 276,
+    301, 302, 304, 305, 315, 317, 321, 324, 326, 330, 332, 339, 347, 351, 352, 380, 386, 401, 404, 407, 410,
+    412, 413, 419, 426, 434, 440, 443, 445, 448, 463, 470, 475, 478, 484, 502, 508, 513, 516, 517, 518, 540,
+    551, 561, 567, 570, 571, 574, 585, 586, 603, 606, 607, 609, 610, 614, 616, 617, 631, 640, 646, 656, 667,
+    678, 680, 681, 686, 689, 703, 704, 706, 716, 717, 718, 724, 727, 732, 734, 740, 743, 754, 757, 762, 765,
+    770, 772, 774, 781, 786, 802, 803, 804, 810, 813, 814, 828, 835, 838, 839, 843, 845, 848, 854, 856, 857,
+    859, 860, 862, 863, 864, 865, 878, 904, 908, 910, 912, 914, 917, 919, 929, 934, 937, 941, 943, 947, 954,
+    959, 973, 978, 980, 984, 989,
+    // Canada (Eastern)
+    226, 249, 263, 289, 343, 354, 365, 367, 382, 418, 416, 437, 438, 450, 468, 514, 519, 548, 579, 581, 613,
+    647, 683, 705, 742, 753, 807, 819, 873, 905,
+  ],
+  "America/Chicago": [
+    205, 210, 214, 217, 218, 219, 224, 225, 228, 251, 254, 256, 262, 274, 281, 309, 312, 314, 316, 318, 319,
+    320, 325, 331, 334, 337, 346, 361, 363, 402, 405, 409, 414, 417, 430, 432, 447, 464, 469, 479, 501, 504,
+    507, 512, 515, 531, 534, 539, 557, 563, 573, 580, 601, 608, 612, 615, 618, 620, 629, 630, 636, 641, 651,
+    660, 662, 682, 708, 712, 713, 715, 726, 731, 737, 763, 769, 773, 779, 785, 806, 815, 816, 817, 830, 832,
+    847, 870, 872, 901, 903, 913, 918, 920, 931, 936, 938, 940, 945, 952, 956, 972, 979, 983, 985,
+    // Canada (Central)
+    204, 306, 431, 474, 584, 639,
+  ],
+  "America/Denver": [
+    303, 307, 385, 406, 435, 505, 575, 701, 719, 720, 801, 915, 970, 986,
+    // Canada (Mountain)
+    368, 403, 587, 780, 825,
+  ],
+  "America/Phoenix": [480, 520, 602, 623, 928],
+  "America/Los_Angeles": [
+    206, 209, 213, 253, 279, 310, 323, 341, 350, 360, 408, 415, 424, 425, 442, 458, 509, 510, 530, 541, 559,
+    562, 564, 619, 626, 628, 650, 657, 661, 669, 702, 707, 714, 725, 747, 760, 775, 805, 818, 820, 831, 840,
+    858, 909, 916, 925, 949, 951, 971,
+    // Canada (Pacific)
+    236, 250, 257, 604, 672, 778,
+  ],
+  "America/Anchorage": [907],
+  "Pacific/Honolulu": [808],
+  "America/Halifax": [782, 902],
+  "America/St_Johns": [709, 879],
+  "America/Puerto_Rico": [787, 939, 340],
+};
+
+const TIMEZONE_BY_AREA_CODE = new Map<number, string>(
+  Object.entries(AREA_CODES_BY_TIMEZONE).flatMap(([timezone, codes]) =>
+    codes.map((code) => [code, timezone] as [number, string]),
+  ),
+);
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Infer an IANA timezone from a North American phone number's area code
+ */
+export function inferTimezoneFromPhone(phone: string): string | undefined {
+  let digits = phone.replace(/\D/g, "");
+  if (digits.length === 11 && digits.startsWith("1")) {
+    digits = digits.slice(1);
+  }
+  if (digits.length !== 10) {
+    return undefined;
+  }
+  return TIMEZONE_BY_AREA_CODE.get(parseInt(digits.slice(0, 3), 10));
+}
+
+/**
+ * The timezone a contact should be called in
+ */
+export function resolveContactTimezone(contact: Contact, campaign: Campaign): string {
+  return contact.timezone || inferTimezoneFromPhone(contact.phone) || campaign.timezone;
+}
+
+/**
+ * The calling window configured on a campaign
+ */
+export function getCallingWindow(campaign: Campaign): CallingWindow {
+  return {
+    start: campaign.callingHoursStart,
+    end: campaign.callingHoursEnd,
+    days: campaign.callingDays.split(",").filter(Boolean) as CallingDay[],
+  };
+}
+
+function parseTime(time: string): number {
+  const [hours, minutes] = time.split(":").map((part) => parseInt(part, 10));
+  return hours * 60 + minutes;
+}
+
+/**
+ * Local weekday and minute-of-day for an instant in a timezone
+ */
+function getLocalTime(timezone: string, at: Date): { day: CallingDay; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    day: part("weekday").toLowerCase() as CallingDay,
+    minutes: parseInt(part("hour"), 10) * 60 + parseInt(part("minute"), 10),
+  };
+}
+
+/**
+ * Check whether an instant falls inside the calling window in the given timezone
+ */
+export function isWithinCallingWindow(window: CallingWindow, timezone: string, at: Date = new Date()): boolean {
+  const local = getLocalTime(timezone, at);
+  return (
+    window.days.includes(local.day) &&
+    local.minutes >= parseTime(window.start) &&
+    local.minutes < parseTime(window.end)
+  );
+}
+
+/**
+ * When the calling window next opens in the given timezone
+ * Returns `at` itself if the window is already open, undefined if it never opens
+ * (DST shifts can make this up to an hour off; callers re-check on wake)
+ */
+export function getNextWindowOpening(
+  window: CallingWindow,
+  timezone: string,
+  at: Date = new Date(),
+): Date | undefined {
+  if (isWithinCallingWindow(window, timezone, at)) {
+    return at;
+  }
+
+  const start = parseTime(window.start);
+  if (window.days.length === 0 || start >= parseTime(window.end)) {
+    return undefined;
+  }
+
+  const local = getLocalTime(timezone, at);
+  const todayIndex = callingDays.indexOf(local.day);
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = callingDays[(todayIndex + offset) % 7];
+    if (!window.days.includes(day)) continue;
+    if (offset === 0 && local.minutes >= start) continue;
+
+    const minutesUntil = offset * MINUTES_PER_DAY + start - local.minutes;
+    // Drop the seconds so the opening lands on the minute
+    const opening = new Date(at.getTime() + minutesUntil * 60000);
+    opening.setSeconds(0, 0);
+    return opening;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,73 @@
+/**
+ * Campaign Performance Report
+ *
+ * Connect rate, talk time and outcomes come from the campaign's call history
+ * (one row per dial attempt); interest levels come from call interactions.
+ *
+ * Campaigns that share contacts but use a different AI agent are compared on
+ * the shared contacts only, so both sides are measured on the same people.
+ */
+
+import type { AgentComparison, Campaign, CampaignMetrics, CampaignReport } from "@shared/schema";
+import { storage } from "./storage";
+
+const INTERESTED_LEVELS = ['high', 'medium'];
+
+async function getCampaignMetrics(campaignId: string, sharedWithCampaignId?: string): Promise<CampaignMetrics> {
+  const [dialStats, interestLevels] = await Promise.all([
+    storage.getCampaignDialStats(campaignId, sharedWithCampaignId),
+    storage.getCampaignInterestLevels(campaignId, sharedWithCampaignId),
+  ]);
+
+  const dials = dialStats.outcomes.reduce((sum, o) => sum + o.count, 0);
+  const connects = dialStats.outcomes.find((o) => o.outcome === 'completed')?.count ?? 0;
+
+  return {
+    ...dialStats,
+    dials,
+    connects,
+    connectRate: dials > 0 ? (connects / dials) * 100 : 0,
+    averageTalkTimeSeconds: dialStats.timedCalls > 0 ? dialStats.talkTimeSeconds / dialStats.timedCalls : 0,
+    interestLevels,
+    interestedContacts: interestLevels
+      .filter((i) => INTERESTED_LEVELS.includes(i.level))
+      .reduce((sum, i) => sum + i.contacts, 0),
+  };
+}
+
+export async function buildCampaignReport(campaign: Campaign): Promise<CampaignReport> {
+  const [metrics, overlaps, allCampaigns, agents] = await Promise.all([
+    getCampaignMetrics(campaign.id),
+    storage.getCampaignOverlaps(campaign.id),
+    storage.getAllCampaigns(),
+    storage.getAllAiAgents(),
+  ]);
+  const agentName = (agentId: string | null) => agents.find((a) => a.id === agentId)?.name ?? null;
+
+  const comparisons: AgentComparison[] = [];
+  for (const overlap of overlaps) {
+    const other = allCampaigns.find((c) => c.id === overlap.campaignId);
+    if (!other || other.agentId === campaign.agentId) continue;
+
+    const [thisCampaign, otherCampaign] = await Promise.all([
+      getCampaignMetrics(campaign.id, other.id),
+      getCampaignMetrics(other.id, campaign.id),
+    ]);
+    comparisons.push({
+      campaignId: other.id,
+      campaignName: other.name,
+      agentName: agentName(other.agentId),
+      sharedContacts: overlap.sharedContacts,
+      thisCampaign,
+      otherCampaign,
+    });
+  }
+  comparisons.sort((a, b) => b.sharedContacts - a.sharedContacts);
+
+  return {
+    campaignId: campaign.id,
+    agentName: agentName(campaign.agentId),
+    metrics,
+    comparisons,
+  };
+}
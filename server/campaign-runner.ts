@@ -0,0 +1,1190 @@
+/**
+ * Campaign Runner
+ *
+ * Owns the dial loop for every running campaign. Each campaign has at most one
+ * attached run; its progress is persisted in `campaign_runs` and the per-contact
+ * outcome in `campaign_contacts`, so a run can be re-attached after a restart.
+ *
+ * Lifecycle:
+ *   start  → draft/completed/stopped campaign begins dialing pending contacts
+ *   pause  → current call finishes, loop holds until resumed
+ *   resume → paused loop continues (or a fresh run is attached after a restart)
+ *   stop   → current call is hung up, contact returns to pending, run ends
+ */
+
+import { type Campaign, type CampaignContact, type Contact, type AiAgent, type CallOutcome, type DncEntry, type EndCallDetection } from "@shared/schema";
+import { storage } from "./storage";
+import { AudioStreamHandler } from "./audio-handler";
+import { CallState, waitForCallEnd, type StateTransition } from "./call-state-engine";
+import { campaignWebSocket } from "./websocket";
+import {
+  getCallingWindow,
+  getNextWindowOpening,
+  isWithinCallingWindow,
+  resolveContactTimezone,
+} from "./calling-window";
+import { getDelayAfterCall, getPacingPolicy, getRateLimitWait } from "./pacing";
+import { getNextAttemptAt, getRetryPolicy, isAttemptDue, shouldRetry } from "./retries";
+import { findDncEntry, recordOptOut } from "./dnc";
+import { confirmOptOut, findOptOut } from "./opt-out";
+import { getLlm } from "./llm";
+import { normalizePhoneNumber } from "./phone-numbers";
+import { getCallTimings } from "./call-timings";
+import { getAutomaticDisposition, type AttemptDetails } from "./dispositions";
+import { AnsweringMachineDetector, type AmdResult } from "./answering-machine-detector";
+import { playVoicemail, prepareVoicemailAudio } from "./voicemail";
+import { parseEndCallKeywords } from "./end-of-call";
+import { extractCallInteractions, getExtractionLlm } from "./interaction-extraction";
+import { storeRecording } from "./recording-storage";
+import { LiveTranscriptWriter } from "./live-transcript";
+import { liveCallMonitor } from "./live-calls";
+import {
+  getTelephonyProvider,
+  closeTelephonyProvider,
+  closeAllTelephonyProviders,
+  type CallAudioStream,
+  type InboundAudioInfo,
+  type TelephonyProvider,
+  type TelephonyProviderName,
+} from "./telephony";
+
+/**
+ * In-memory control state of a run
+ * - running: dialing contacts
+ * - paused: holding between calls until resumed
+ * - stopping: aborting the current call and ending the run
+ * - detached: server is shutting down, leave persisted state for recovery
+ */
+type RunState = 'running' | 'paused' | 'stopping' | 'detached';
+
+interface ActiveRun {
+  runId: string;
+  campaignId: string;
+  campaignName: string;
+  state: RunState;
+  wake: (() => void) | null; // Interrupts the current wait (delay or pause)
+  abortCall: (() => Promise<void>) | null; // Hangs up the call in progress
+  callsAttempted: number;
+  callsCompleted: number;
+  callsFailed: number;
+}
+
+interface RunContext {
+  campaign: Campaign;
+  aiAgent: AiAgent | undefined;
+  useAi: boolean; // Agent has an ElevenLabs agent ID and an API key is configured
+  provider: TelephonyProvider;
+}
+
+/**
+ * Outcome of dialing one contact - 'interrupted' when the campaign was stopped mid-call
+ */
+type DialOutcome = CallOutcome | 'interrupted';
+
+/**
+ * What is known about the call being dialed, filled in as it progresses
+ */
+interface ActiveCall extends AttemptDetails {
+  audioHandler: AudioStreamHandler | null;
+  transcriptWriter: LiveTranscriptWriter | null; // Saves the AI conversation's turns as they happen
+  callHistoryId: string | null;
+  screeningStream: CallAudioStream | null; // Audio listened to for answering-machine detection, until the AI takes it over
+  answeredBy: AmdResult | null;
+  voicemailLeft: boolean;
+  limitReached: string | null; // Why the watchdog wrapped the conversation up
+}
+
+/**
+ * Call history status shown for each attempt outcome
+ */
+const HISTORY_STATUS_BY_OUTCOME: Record<CallOutcome, 'completed' | 'missed' | 'voicemail' | 'busy' | 'skipped'> = {
+  completed: 'completed',
+  no_answer: 'missed',
+  busy: 'busy',
+  voicemail: 'voicemail',
+  failed_to_connect: 'missed',
+  failed: 'missed',
+  skipped_dnc: 'skipped',
+};
+
+export interface StartRunResult {
+  started: boolean;
+  message: string;
+  totalContacts: number;
+}
+
+/**
+ * Statuses from which a campaign may be (re)started with POST /dial
+ */
+const RESTARTABLE_STATUSES = ['completed', 'failed', 'paused', 'stopped', 'waiting_for_login'];
+
+/**
+ * Statuses that mean a run should be attached - used for recovery on boot
+ */
+const ATTACHED_STATUSES = ['active', 'waiting_for_login', 'waiting_for_window', 'waiting_for_retry'];
+
+/**
+ * Statuses an attached run holds while no pending contact can be dialed yet
+ */
+const WAITING_STATUSES = ['waiting_for_window', 'waiting_for_retry'];
+
+/**
+ * Longest single sleep while waiting for a calling window to open or a call cap to clear
+ */
+const WINDOW_RECHECK_MS = 15 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Wall-clock limits for answering-machine detection, in case the stream delivers no audio
+const AMD_DECISION_TIMEOUT_MS = 8000;
+const GREETING_END_TIMEOUT_MS = 30000;
+
+// Beyond the agent's talk limit, time for ringing, the callee's greeting and the goodbye
+// before the call engine hangs up regardless
+const CALL_DURATION_SLACK_MS = 2 * 60 * 1000;
+
+// Beyond the agent's silence limit, time for the AI to say goodbye (its wrap-up grace is 20s)
+// before the call engine treats a quiet call as dead
+const INACTIVITY_SLACK_MS = 30 * 1000;
+
+/**
+ * Call states after which the call is over
+ */
+const TERMINAL_CALL_STATES: CallState[] = [CallState.ENDED, CallState.FAILED, CallState.NO_ANSWER, CallState.BUSY];
+
+/**
+ * Format milliseconds to human-readable time
+ */
+function formatDelay(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes}m ${seconds}s`;
+}
+
+class CampaignRunner {
+  private runs: Map<string, ActiveRun> = new Map();
+
+  /**
+   * Check whether a campaign currently has an attached run
+   */
+  isRunning(campaignId: string): boolean {
+    return this.runs.has(campaignId);
+  }
+
+  /**
+   * Start dialing a campaign's pending contacts
+   * Restarting a finished or interrupted campaign re-queues its failed contacts
+   */
+  async start(campaign: Campaign): Promise<StartRunResult> {
+    if (this.runs.has(campaign.id)) {
+      return { started: false, message: "Campaign is already running", totalContacts: 0 };
+    }
+
+    if (RESTARTABLE_STATUSES.includes(campaign.status)) {
+      const resetCount = await storage.resetCampaignContactsByStatus(campaign.id, 'failed', 'pending', true);
+      if (resetCount > 0) {
+        console.log(
+          `[CampaignRunner] Resetting ${resetCount} failed contacts to pending for campaign restart`,
+        );
+      }
+    }
+
+    // A previous run may have died mid-call - those contacts were never dialed to completion
+    await storage.resetCampaignContactsByStatus(campaign.id, 'calling', 'pending');
+
+    const campaignContacts = await storage.getCampaignContacts(campaign.id);
+    const pendingCount = campaignContacts.filter((cc) => cc.status === 'pending').length;
+
+    if (pendingCount === 0) {
+      return { started: false, message: "No pending contacts to dial", totalContacts: 0 };
+    }
+
+    await this.attach(campaign);
+
+    return {
+      started: true,
+      message: `Started dialing ${pendingCount} contacts`,
+      totalContacts: pendingCount,
+    };
+  }
+
+  /**
+   * Pause a running campaign after its current call finishes
+   */
+  async pause(campaignId: string): Promise<boolean> {
+    const run = this.runs.get(campaignId);
+    if (!run || run.state !== 'running') {
+      return false;
+    }
+
+    run.state = 'paused';
+    await storage.updateCampaign(campaignId, { status: "paused" });
+    await storage.updateCampaignRun(run.runId, { status: "paused" });
+    campaignWebSocket.broadcastCampaignStatusUpdate(campaignId, "paused");
+    this.wake(run);
+
+    console.log(`[CampaignRunner] ${run.campaignName} paused`);
+    return true;
+  }
+
+  /**
+   * Resume a paused campaign
+   * If the run was lost (e.g. server restart while paused) a fresh run is attached
+   */
+  async resume(campaign: Campaign): Promise<boolean> {
+    const run = this.runs.get(campaign.id);
+
+    if (run) {
+      if (run.state !== 'paused') {
+        return false;
+      }
+
+      run.state = 'running';
+      await storage.updateCampaign(campaign.id, { status: "active" });
+      await storage.updateCampaignRun(run.runId, { status: "running" });
+      campaignWebSocket.broadcastCampaignStatusUpdate(campaign.id, "active");
+      this.wake(run);
+
+      console.log(`[CampaignRunner] ${run.campaignName} resumed`);
+      return true;
+    }
+
+    if (campaign.status !== 'paused') {
+      return false;
+    }
+
+    await storage.resetCampaignContactsByStatus(campaign.id, 'calling', 'pending');
+    await this.attach(campaign);
+    console.log(`[CampaignRunner] ${campaign.name} resumed with a new run`);
+    return true;
+  }
+
+  /**
+   * Stop a campaign - hangs up the call in progress and ends the run
+   */
+  async stop(campaign: Campaign): Promise<void> {
+    await storage.updateCampaign(campaign.id, { status: "stopped" });
+    campaignWebSocket.broadcastCampaignStatusUpdate(campaign.id, "stopped");
+
+    const run = this.runs.get(campaign.id);
+    if (run) {
+      run.state = 'stopping';
+      this.wake(run);
+      if (run.abortCall) {
+        await run.abortCall();
+      }
+      console.log(`[CampaignRunner] ${campaign.name} stopping - waiting for dial loop to exit`);
+      return;
+    }
+
+    // No attached run (e.g. stale status after a restart) - clean up directly
+    const resetCount = await storage.resetCampaignContactsByStatus(campaign.id, 'calling', 'pending');
+    if (resetCount > 0) {
+      console.log(`[CampaignRunner] Resetting ${resetCount} calling contacts to pending`);
+    }
+    await storage.closeOpenCampaignRuns(campaign.id, 'stopped');
+    await closeTelephonyProvider(campaign.telephonyProvider as TelephonyProviderName);
+    console.log(`[CampaignRunner] ${campaign.name} stopped (no attached run)`);
+  }
+
+  /**
+   * Re-attach runs for campaigns that were active when the server went down
+   * Contacts orphaned in 'calling' are returned to 'pending'
+   */
+  async recover(): Promise<void> {
+    const campaigns = await storage.getCampaignsByStatus([...ATTACHED_STATUSES, 'paused']);
+
+    for (const campaign of campaigns) {
+      try {
+        const resetCount = await storage.resetCampaignContactsByStatus(campaign.id, 'calling', 'pending');
+        await storage.closeOpenCampaignRuns(campaign.id, 'interrupted');
+
+        if (resetCount > 0) {
+          console.log(
+            `[CampaignRunner] Reset ${resetCount} orphaned calling contacts for ${campaign.name}`,
+          );
+        }
+
+        // Paused campaigns stay paused - resume attaches a fresh run
+        if (!ATTACHED_STATUSES.includes(campaign.status)) {
+          continue;
+        }
+
+        console.log(`[CampaignRunner] Re-attaching run for ${campaign.name}`);
+        await this.attach(campaign);
+      } catch (error) {
+        console.error(`[CampaignRunner] Failed to recover campaign ${campaign.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Detach all runs without touching their persisted state so they recover on next boot
+   */
+  async shutdown(): Promise<void> {
+    this.runs.forEach((run) => {
+      run.state = 'detached';
+      this.wake(run);
+    });
+    await closeAllTelephonyProviders();
+    console.log('[CampaignRunner] Shutdown complete');
+  }
+
+  /**
+   * Mark a campaign active, persist a new run and start its dial loop
+   */
+  private async attach(campaign: Campaign): Promise<void> {
+    await storage.closeOpenCampaignRuns(campaign.id, 'interrupted');
+    const runRecord = await storage.createCampaignRun({ campaignId: campaign.id, status: 'running' });
+
+    const run: ActiveRun = {
+      runId: runRecord.id,
+      campaignId: campaign.id,
+      campaignName: campaign.name,
+      state: 'running',
+      wake: null,
+      abortCall: null,
+      callsAttempted: 0,
+      callsCompleted: 0,
+      callsFailed: 0,
+    };
+    this.runs.set(campaign.id, run);
+
+    await storage.updateCampaign(campaign.id, { status: "active" });
+    campaignWebSocket.broadcastCampaignStatusUpdate(campaign.id, "active");
+
+    // Process calls in the background
+    void this.execute(run);
+  }
+
+  /**
+   * The dial loop - one contact at a time until none are pending or the run is stopped
+   */
+  private async execute(run: ActiveRun): Promise<void> {
+    let context: RunContext | null = null;
+
+    try {
+      context = await this.prepare(run);
+      if (!context) return;
+
+      while (await this.waitWhilePaused(run)) {
+        const pending = await storage.getPendingCampaignContacts(run.campaignId);
+        if (pending.length === 0) {
+          console.log(`[CampaignRunner] No pending contacts left for ${run.campaignName}`);
+          break;
+        }
+
+        // Reload so calling window, pacing and retry edits apply to an attached run
+        const campaign = (await storage.getCampaign(run.campaignId)) ?? context.campaign;
+        context.campaign = campaign;
+        const window = getCallingWindow(campaign);
+        const cc = pending.find((p) =>
+          isAttemptDue(p.nextAttemptAt) &&
+          isWithinCallingWindow(window, resolveContactTimezone(p.contact, campaign)),
+        );
+
+        if (!cc) {
+          await this.waitForNextEligibleContact(run, campaign, pending);
+          continue;
+        }
+
+        // Hard stop for opted-out numbers - not an attempt, no pacing delay
+        const dncEntry = await findDncEntry(cc.contact.phone);
+        if (dncEntry) {
+          await this.skipDncContact(run, cc, dncEntry);
+          continue;
+        }
+
+        const pacing = getPacingPolicy(campaign);
+        if (pacing.maxCallsPerHour || pacing.maxCallsPerDay) {
+          const callTimes = await storage.getCampaignCallTimes(run.campaignId, new Date(Date.now() - DAY_MS));
+          const rateLimitWait = getRateLimitWait(pacing, callTimes);
+          if (rateLimitWait > 0) {
+            console.log(
+              `[CampaignRunner] ${run.campaignName} reached its call cap - waiting ${formatDelay(rateLimitWait)}`,
+            );
+            await this.sleep(run, Math.min(rateLimitWait, WINDOW_RECHECK_MS));
+            continue;
+          }
+        }
+
+        if (WAITING_STATUSES.includes(campaign.status)) {
+          await storage.updateCampaign(run.campaignId, { status: "active" });
+          campaignWebSocket.broadcastCampaignStatusUpdate(run.campaignId, "active");
+          console.log(`[CampaignRunner] ${run.campaignName} has a contact to dial - resuming`);
+        }
+
+        await storage.updateCampaignRun(run.runId, { currentContactId: cc.contactId });
+        const outcome = await this.dialContact(run, context, cc);
+
+        run.callsAttempted++;
+        if (outcome === 'completed') run.callsCompleted++;
+        else if (outcome !== 'interrupted') run.callsFailed++;
+        await storage.updateCampaignRun(run.runId, {
+          currentContactId: null,
+          callsAttempted: run.callsAttempted,
+          callsCompleted: run.callsCompleted,
+          callsFailed: run.callsFailed,
+        });
+
+        if (run.state === 'stopping' || run.state === 'detached') {
+          break;
+        }
+
+        // Natural spacing between calls, per the campaign's pacing policy
+        const delayBeforeNext = getDelayAfterCall(pacing, outcome === 'completed' ? 'completed' : 'failed');
+        console.log(
+          `[Campaign] Waiting ${formatDelay(delayBeforeNext)} before next call...`,
+        );
+        await this.sleep(run, delayBeforeNext);
+      }
+    } catch (error) {
+      console.error(`[CampaignRunner] Run for ${run.campaignName} crashed:`, error);
+    } finally {
+      this.runs.delete(run.campaignId);
+
+      // Close the provider this run opened (e.g. the Google Voice browser)
+      if (context) {
+        await closeTelephonyProvider(context.provider.name);
+      }
+
+      await this.finish(run).catch((error) =>
+        console.error(`[CampaignRunner] Failed to finalize run ${run.runId}:`, error),
+      );
+    }
+  }
+
+  /**
+   * Load the campaign's agent and open its telephony provider for this run
+   */
+  private async prepare(run: ActiveRun): Promise<RunContext | null> {
+    const campaign = await storage.getCampaign(run.campaignId);
+    if (!campaign) {
+      console.error(`[CampaignRunner] Campaign ${run.campaignId} disappeared before dialing`);
+      return null;
+    }
+
+    let aiAgent: AiAgent | undefined;
+
+    // Check if campaign has AI agent assigned
+    if (campaign.agentId) {
+      aiAgent = await storage.getAiAgent(campaign.agentId);
+      console.log(`Campaign using AI Agent: ${aiAgent?.name}`);
+    }
+
+    const useAi = !!(aiAgent?.agentId && process.env.ELEVENLABS_API_KEY);
+    if (aiAgent && !useAi) {
+      console.warn(`[CampaignRunner] AI agent ${aiAgent.name} has no ElevenLabs agent ID or API key - dialing without AI`);
+    }
+
+    const providerName = campaign.telephonyProvider as TelephonyProviderName;
+    console.log(`[CampaignRunner] ${campaign.name} dialing via ${providerName}`);
+    const provider = await getTelephonyProvider(providerName, this.providerCallbacks(run));
+
+    return { campaign, aiAgent, useAi, provider };
+  }
+
+  /**
+   * Login and continuation callbacks wired to this run's control state
+   */
+  private providerCallbacks(run: ActiveRun) {
+    return {
+      loginRequiredCallback: async () => {
+        console.log(`[Campaign] Login required for: ${run.campaignName}`);
+        await storage.updateCampaign(run.campaignId, {
+          status: "waiting_for_login",
+        });
+        campaignWebSocket.broadcastLoginRequired(run.campaignId, run.campaignName);
+        campaignWebSocket.broadcastCampaignStatusUpdate(run.campaignId, "waiting_for_login");
+      },
+      loginSuccessCallback: async () => {
+        const status = run.state === 'paused' ? "paused" : "active";
+        await storage.updateCampaign(run.campaignId, { status });
+        console.log(`[Campaign] Login successful, status updated to ${status}`);
+        campaignWebSocket.broadcastCampaignStatusUpdate(run.campaignId, status);
+      },
+      shouldContinueCallback: async () => {
+        return run.state === 'running' || run.state === 'paused';
+      },
+    };
+  }
+
+  /**
+   * Dial one contact, run the AI conversation if configured and record the outcome
+   */
+  private async dialContact(
+    run: ActiveRun,
+    context: RunContext,
+    cc: CampaignContact & { contact: Contact },
+  ): Promise<DialOutcome> {
+    const { campaign, aiAgent, useAi, provider } = context;
+    const call: ActiveCall = {
+      audioHandler: null,
+      transcriptWriter: null,
+      callHistoryId: null,
+      screeningStream: null,
+      answeredBy: null,
+      voicemailLeft: false,
+      limitReached: null,
+      timings: null,
+      aiError: false,
+      invalidNumber: false,
+    };
+    const screenCalls = campaign.voicemailAction !== 'off';
+    const leavesVoicemail = campaign.voicemailAction === 'audio_file' || campaign.voicemailAction === 'tts';
+
+    const attempt = cc.attempts + 1;
+    const liveCallId = liveCallMonitor.begin({
+      campaignId: run.campaignId,
+      campaignName: run.campaignName,
+      contactId: cc.contactId,
+      contactName: cc.contact.name,
+      phone: cc.contact.phone,
+    });
+
+    try {
+      console.log(
+        `Dialing contact ${cc.contact.name} (${cc.contact.phone}) - attempt ${attempt}`,
+      );
+
+      // Update status to calling and count the attempt
+      await storage.updateCampaignContact(run.campaignId, cc.contactId, {
+        status: "calling",
+        calledAt: new Date(),
+        attempts: attempt,
+        nextAttemptAt: null,
+      });
+
+      run.abortCall = async () => {
+        await provider.hangup();
+      };
+
+      // Contacts saved before numbers were normalized may still hold free text
+      const phoneNumber = normalizePhoneNumber(cc.contact.phone);
+      if (!phoneNumber) {
+        call.invalidNumber = true;
+        throw new Error(`Invalid phone number "${cc.contact.phone}"`);
+      }
+
+      // Perform the dial
+      const success = await provider.dial(phoneNumber);
+
+      // Create call history record
+      let callConnected = false;
+      let callEndReason = "unknown";
+
+      if (success) {
+        const callHistory = await storage.createCallHistory({
+          contactId: cc.contactId,
+          campaignId: run.campaignId,
+          status: "completed",
+          notes: `Campaign: ${campaign.name}`,
+        });
+        call.callHistoryId = callHistory.id;
+        liveCallMonitor.setCallHistoryId(liveCallId, callHistory.id);
+
+        const callDetector = provider.createCallStateSource({
+          initialWaitTime: 3000, // Wait 3 seconds before checking End call button
+          connectedCheckInterval: 500, // Check every 500ms while connected
+          // A voicemail prompt is hung up on, unless the campaign leaves a message on it
+          hangupOnVoicemail: !leavesVoicemail,
+          // Backstop for the AI's own limits, in case the conversation never wraps up
+          ...(useAi && aiAgent ? {
+            maxCallDuration: aiAgent.maxTalkSeconds * 1000 + CALL_DURATION_SLACK_MS,
+            inactivityTimeout: aiAgent.maxSilenceSeconds * 1000 + INACTIVITY_SLACK_MS,
+          } : {}),
+        });
+
+        // Track call state changes
+        let audioStarted = false; // Flag to ensure we only start audio once
+        let cancelScreening: (() => void) | null = null; // Stops waiting on answering-machine detection
+        let isStillConnected = false; // Flag to track if call is still active
+
+        // Resolves once the call is over, even if handling its last state fails
+        const callEndPromise = waitForCallEnd(callDetector, async (transition: StateTransition) => {
+          console.log(
+            `[Campaign] Call state: ${transition.toState} - ${transition.reason}`,
+          );
+          liveCallMonitor.recordTransition(liveCallId, transition);
+
+          if (transition.toState === "connected") {
+            callConnected = true;
+            isStillConnected = true;
+
+            // ✅ START AUDIO ONLY AFTER CALL CONNECTS
+            const startAi = useAi && !!aiAgent?.agentId;
+            if (!audioStarted && (startAi || screenCalls)) {
+              audioStarted = true;
+              const callId = `call_${Date.now()}_${cc.contactId}`;
+              const audioStream = provider.createAudioStream(callId);
+              audioStream.on('inbound_audio', (chunk: Buffer) => callDetector.reportAudio?.(chunk));
+              liveCallMonitor.attachAudioStream(liveCallId, audioStream);
+              let streamStarted = false;
+
+              if (screenCalls) {
+                console.log(`[Campaign] Call connected! Listening for an answering machine...`);
+                // Resolves when the call ends while we are still listening
+                const cancelPromise = new Promise<null>((cancelResolve) => {
+                  cancelScreening = () => cancelResolve(null);
+                });
+                const detector = new AnsweringMachineDetector();
+                const onInbound = (chunk: Buffer, info: InboundAudioInfo) => {
+                  if (!info.gated) detector.push(chunk);
+                };
+                audioStream.on('inbound_audio', onInbound);
+
+                try {
+                  await audioStream.start();
+                  streamStarted = true;
+                  call.screeningStream = audioStream;
+                } catch (error) {
+                  console.error('[Campaign] Could not listen to the call - skipping answering-machine detection:', error);
+                }
+
+                if (streamStarted) {
+                  const decision = await Promise.race([detector.waitForDecision(AMD_DECISION_TIMEOUT_MS), cancelPromise]);
+                  if (!decision || !isStillConnected) {
+                    console.log(`[Campaign] ⚠️ Call ended during answering-machine detection`);
+                    return;
+                  }
+                  call.answeredBy = decision.result;
+                  console.log(`[Campaign] Answered by ${decision.result} after ${decision.afterMs}ms - ${decision.reason}`);
+
+                  if (decision.result === 'machine') {
+                    await this.handleAnsweringMachine(context, cc, call, audioStream, detector, cancelPromise, () => isStillConnected);
+                    audioStream.removeListener('inbound_audio', onInbound);
+                    return;
+                  }
+                }
+                audioStream.removeListener('inbound_audio', onInbound);
+
+                if (!startAi) {
+                  // A person answered but there is no AI to talk to them - release the audio
+                  if (call.screeningStream) {
+                    call.screeningStream = null;
+                    await audioStream.stop();
+                  }
+                  return;
+                }
+              } else {
+                console.log(`[Campaign] Call connected! The AI will speak once the callee has said hello`);
+              }
+
+              if (!aiAgent?.agentId) return;
+
+              // The AI takes over the stream used for screening
+              call.screeningStream = null;
+              const audioHandler = new AudioStreamHandler(
+                audioStream,
+                {
+                  agentId: aiAgent.agentId, // ElevenLabs Conversational AI agent ID
+                  elevenLabsApiKey: process.env.ELEVENLABS_API_KEY,
+                  voiceId: aiAgent.voiceId || undefined, // Legacy field
+                  agentPersonality: aiAgent.personality || undefined,
+                  conversationScript: aiAgent.conversationScript || undefined,
+                  greeting: aiAgent.greeting || undefined,
+                  objectionHandling: aiAgent.objectionHandling || undefined,
+                  closingScript: aiAgent.closingScript || undefined,
+                  agentName: aiAgent.name, // AI agent name for dynamic variables
+                  contactName: cc.contact.name, // Contact name for dynamic variables
+                  // Screening already heard the callee's greeting
+                  greetingWaitMs: call.answeredBy ? 0 : aiAgent.greetingWaitSeconds * 1000,
+                  limits: {
+                    maxTalkMs: aiAgent.maxTalkSeconds * 1000,
+                    maxSilenceMs: aiAgent.maxSilenceSeconds * 1000,
+                    maxNoTranscriptMs: aiAgent.maxNoTranscriptSeconds * 1000,
+                  },
+                  endCallDetection: aiAgent.endCallDetection as EndCallDetection,
+                  endCallKeywords: parseEndCallKeywords(aiAgent.endCallKeywords),
+                },
+                callId,
+              );
+              call.audioHandler = audioHandler;
+              if (call.callHistoryId) {
+                call.transcriptWriter = new LiveTranscriptWriter(call.callHistoryId);
+                call.transcriptWriter.attach(audioHandler);
+              }
+              liveCallMonitor.attachAudioHandler(liveCallId, audioHandler);
+
+              // Listen for auto-hangup request from AI when conversation ends
+              audioHandler.on('request_hangup', async () => {
+                console.log('[Campaign] 🎬 Auto-hangup requested by AI - ending call gracefully');
+                try {
+                  await provider.hangup();
+                  console.log('[Campaign] ✓ Call hung up successfully');
+                } catch (error) {
+                  console.error('[Campaign] Error hanging up call:', error);
+                }
+              });
+
+              // The watchdog is wrapping the call up; request_hangup follows
+              audioHandler.on('limit_reached', (reason: string) => {
+                call.limitReached = reason;
+                console.log(`[Campaign] ⏱ ${reason} - asking the AI to wrap up`);
+              });
+
+              // The AI gave up mid-call - nobody is left to talk to the contact
+              audioHandler.on('ai_error', async () => {
+                call.aiError = true;
+                console.log('[Campaign] AI conversation failed - hanging up');
+                await provider.hangup().catch((error) => console.error('[Campaign] Error hanging up call:', error));
+              });
+
+              try {
+                await audioHandler.startAudioCapture(streamStarted);
+                console.log(`AI audio processing started for call ${callId}`);
+              } catch (error) {
+                call.aiError = true;
+                console.error('[Campaign] AI audio failed to start - hanging up:', error);
+                await provider.hangup().catch((hangupError) => console.error('[Campaign] Error hanging up call:', hangupError));
+              }
+            }
+          } else if (transition.toState === CallState.VOICEMAIL) {
+            // The provider itself recognised a voicemail prompt
+            callConnected = true;
+            call.answeredBy = 'machine';
+
+            // Straight from ringing nothing listens to the call yet - leave the voicemail from here
+            if (!audioStarted && leavesVoicemail) {
+              audioStarted = true;
+              isStillConnected = true;
+              const audioStream = provider.createAudioStream(`call_${Date.now()}_${cc.contactId}`);
+              liveCallMonitor.attachAudioStream(liveCallId, audioStream);
+              const cancelPromise = new Promise<null>((cancelResolve) => {
+                cancelScreening = () => cancelResolve(null);
+              });
+              const detector = new AnsweringMachineDetector();
+              detector.assumeMachine(`Provider: ${transition.reason}`);
+              audioStream.on('inbound_audio', (chunk: Buffer, info: InboundAudioInfo) => {
+                callDetector.reportAudio?.(chunk);
+                if (!info.gated) detector.push(chunk);
+              });
+
+              try {
+                await audioStream.start();
+                call.screeningStream = audioStream;
+                await this.handleAnsweringMachine(context, cc, call, audioStream, detector, cancelPromise, () => isStillConnected);
+              } catch (error) {
+                console.error('[Campaign] Could not leave a voicemail:', error);
+                await provider.hangup().catch((hangupError) => console.error('[Campaign] Error hanging up call:', hangupError));
+              }
+            }
+          } else if (TERMINAL_CALL_STATES.includes(transition.toState)) {
+            console.log(`[Campaign] Call ${transition.toState} - stopping audio`);
+
+            // Mark call as disconnected to prevent AI from starting
+            isStillConnected = false;
+
+            // Cancel answering-machine detection if still listening
+            if (cancelScreening) {
+              cancelScreening();
+            }
+
+            // IMMEDIATELY stop audio processing
+            if (call.audioHandler) {
+              console.log("[Campaign] Stopping audio handler...");
+              await call.audioHandler.stopCapture();
+            } else if (call.screeningStream) {
+              await call.screeningStream.stop();
+              call.screeningStream = null;
+            }
+
+            if (transition.toState !== "ended") {
+              // Hang up to clean up the provider's call UI
+              await provider.hangup();
+            }
+          }
+        });
+
+        // Start monitoring - e.g. Google Voice samples the call UI every 500ms
+        await callDetector.start();
+
+        // Wait for call to end (or fail)
+        callEndReason = await callEndPromise;
+        console.log(
+          `[Campaign] Call ended with reason: ${callEndReason}`,
+        );
+
+        // Stop monitoring (sources auto-stop on terminal states, but call it anyway for cleanup)
+        await callDetector.stop();
+        call.timings = getCallTimings(callDetector.getHistory());
+      }
+
+      // Determine the outcome based on call end reason (not initial success)
+      let outcome: DialOutcome = "failed";
+      let statusMessage = "Call failed";
+
+      if (run.state === 'stopping') {
+        outcome = "interrupted";
+        statusMessage = "Call interrupted - campaign stopped";
+      } else if (!success) {
+        outcome = "failed_to_connect";
+        statusMessage = "Dial failed";
+      } else if (callConnected && call.answeredBy === 'machine') {
+        outcome = "voicemail";
+        statusMessage = call.voicemailLeft ? "Answering machine - voicemail left" : "Answering machine - hung up";
+      } else if (callEndReason === "ended" && callConnected) {
+        outcome = "completed";
+        statusMessage = call.limitReached ? `Call completed - ${call.limitReached}` : "Call completed successfully";
+      } else if (callEndReason === "failed") {
+        outcome = "failed_to_connect";
+        statusMessage = "Call failed to connect - no End call button detected";
+      } else if (callEndReason === "no_answer") {
+        outcome = "no_answer";
+        statusMessage = "No answer";
+      } else if (callEndReason === "busy") {
+        outcome = "busy";
+        statusMessage = "Line busy";
+      } else {
+        statusMessage = `Call ended: ${callEndReason}`;
+      }
+
+      const disposition = outcome === 'interrupted' ? null : getAutomaticDisposition(outcome, call);
+      await this.saveAttemptHistory(run, cc, call, outcome, disposition, statusMessage);
+      await this.recordOutcome(run, campaign, cc, attempt, outcome, disposition, statusMessage);
+      return outcome;
+    } catch (error) {
+      console.error(`Failed to dial contact ${cc.contactId}:`, error);
+      const outcome: DialOutcome = run.state === 'stopping' ? "interrupted" : "failed";
+      const disposition = outcome === 'interrupted' ? null : getAutomaticDisposition(outcome, call);
+      const statusMessage = error instanceof Error ? error.message : "Unknown error";
+      await this.saveAttemptHistory(run, cc, call, outcome, disposition, statusMessage);
+      await this.recordOutcome(run, campaign, cc, attempt, outcome, disposition, statusMessage);
+      return outcome;
+    } finally {
+      run.abortCall = null;
+      liveCallMonitor.end(liveCallId);
+      await this.saveCallArtifacts(call.audioHandler, call.transcriptWriter, call.callHistoryId, cc.contact);
+    }
+  }
+
+  /**
+   * An answering machine picked up: hang up, or leave the campaign's voicemail once the greeting is over
+   */
+  private async handleAnsweringMachine(
+    context: RunContext,
+    cc: CampaignContact & { contact: Contact },
+    call: ActiveCall,
+    stream: CallAudioStream,
+    detector: AnsweringMachineDetector,
+    callEnded: Promise<null>,
+    isConnected: () => boolean,
+  ): Promise<void> {
+    const { campaign, aiAgent, provider } = context;
+
+    if (campaign.voicemailAction !== 'hang_up') {
+      // Prepare the message while the greeting plays
+      const audioPromise = prepareVoicemailAudio(campaign, aiAgent, cc.contact);
+
+      const greetingEnd = await Promise.race([detector.waitForGreetingEnd(GREETING_END_TIMEOUT_MS), callEnded]);
+      const audio = await Promise.race([audioPromise, callEnded]);
+      if (!isConnected()) return;
+
+      if (audio) {
+        console.log(`[Campaign] 📼 ${greetingEnd} - leaving voicemail for ${cc.contact.name} (${Math.round(audio.length / 32000)}s)`);
+        await Promise.race([playVoicemail(stream, audio), callEnded]);
+        call.voicemailLeft = isConnected();
+      } else {
+        console.log(`[Campaign] No voicemail message available for ${cc.contact.name}`);
+      }
+    }
+
+    if (isConnected()) {
+      console.log(`[Campaign] Hanging up on answering machine`);
+      await provider.hangup().catch((error) => console.error('[Campaign] Error hanging up call:', error));
+    }
+  }
+
+  /**
+   * Mark a contact on the Do-Not-Call list as skipped, leaving an audit entry in call history
+   */
+  private async skipDncContact(
+    run: ActiveRun,
+    cc: CampaignContact & { contact: Contact },
+    dncEntry: DncEntry,
+  ): Promise<void> {
+    const notes = `Skipped: DNC${dncEntry.reason ? ` (${dncEntry.reason})` : ""}`;
+
+    await storage.createCallHistory({
+      contactId: cc.contactId,
+      campaignId: run.campaignId,
+      status: "skipped",
+      outcome: "skipped_dnc",
+      disposition: "dnc_skipped",
+      notes,
+    });
+    await storage.updateCampaignContact(run.campaignId, cc.contactId, {
+      status: "skipped",
+      calledAt: new Date(),
+      notes,
+      lastOutcome: "skipped_dnc",
+      disposition: "dnc_skipped",
+      nextAttemptAt: null,
+    });
+
+    console.log(`[Campaign] Skipping ${cc.contact.name} (${cc.contact.phone}) - on Do-Not-Call list`);
+  }
+
+  /**
+   * Record the attempt's outcome in call history, adding an entry for dials that never connected
+   * so every attempt shows up in campaign reports
+   */
+  private async saveAttemptHistory(
+    run: ActiveRun,
+    cc: CampaignContact & { contact: Contact },
+    call: ActiveCall,
+    outcome: DialOutcome,
+    disposition: string | null,
+    statusMessage: string,
+  ): Promise<void> {
+    try {
+      if (outcome === 'interrupted') {
+        // Not a real attempt, but a call that was answered still gets its timings
+        if (call.callHistoryId && call.timings) {
+          await storage.updateCallHistory(call.callHistoryId, call.timings);
+        }
+        return;
+      }
+
+      const status = HISTORY_STATUS_BY_OUTCOME[outcome];
+      if (call.callHistoryId) {
+        await storage.updateCallHistory(call.callHistoryId, { status, outcome, disposition, ...call.timings });
+      } else {
+        const history = await storage.createCallHistory({
+          contactId: cc.contactId,
+          campaignId: run.campaignId,
+          status,
+          outcome,
+          disposition,
+          notes: statusMessage,
+        });
+        call.callHistoryId = history.id;
+      }
+    } catch (error) {
+      console.error(`[CampaignRunner] Failed to save call history for ${cc.contactId}:`, error);
+    }
+  }
+
+  /**
+   * Persist a dial outcome on the campaign contact, scheduling a retry when the campaign's rules allow
+   */
+  private async recordOutcome(
+    run: ActiveRun,
+    campaign: Campaign,
+    cc: CampaignContact & { contact: Contact },
+    attempt: number,
+    outcome: DialOutcome,
+    disposition: string | null,
+    statusMessage: string,
+  ): Promise<void> {
+    if (outcome === 'interrupted') {
+      // Not a real attempt - put the contact back as it was
+      await storage.updateCampaignContact(run.campaignId, cc.contactId, {
+        status: "pending",
+        notes: statusMessage,
+        attempts: cc.attempts,
+        nextAttemptAt: cc.nextAttemptAt,
+      });
+      console.log(`[Campaign] Final status: pending - ${statusMessage}`);
+      return;
+    }
+
+    const retryPolicy = getRetryPolicy(campaign);
+    let status: 'completed' | 'failed' | 'pending' = outcome === 'completed' ? "completed" : "failed";
+    let nextAttemptAt: Date | null = null;
+    let notes = statusMessage;
+
+    if (outcome !== 'completed' && shouldRetry(retryPolicy, outcome, attempt)) {
+      status = "pending";
+      nextAttemptAt = getNextAttemptAt(retryPolicy, attempt);
+      notes = `${statusMessage} - retry ${attempt + 1}/${retryPolicy.maxAttempts} after ${nextAttemptAt.toLocaleString()}`;
+    }
+
+    await storage.updateCampaignContact(run.campaignId, cc.contactId, {
+      status,
+      notes,
+      lastOutcome: outcome,
+      disposition,
+      nextAttemptAt,
+    });
+
+    console.log(`[Campaign] Final status: ${status} (${outcome}) - ${notes}`);
+  }
+
+  /**
+   * Clean up the audio handler for a call, save its recording and the rest of
+   * its transcript, put the contact on the DNC list if they asked not to be
+   * called again, and start extracting the call's data from the transcript
+   */
+  private async saveCallArtifacts(
+    audioHandler: AudioStreamHandler | null,
+    transcriptWriter: LiveTranscriptWriter | null,
+    callHistoryId: string | null,
+    contact: Contact,
+  ): Promise<void> {
+    if (!audioHandler) return;
+
+    if (!callHistoryId) {
+      await audioHandler.cleanup();
+      return;
+    }
+
+    try {
+      const recordingPath = await audioHandler.cleanup();
+      // Cleanup completes the last agent line; wait for the final turn updates
+      await transcriptWriter?.flush();
+
+      if (recordingPath) {
+        const durationSeconds = audioHandler.getRecordingDurationSeconds();
+        const { storageBackend, recordingUrl } = await storeRecording(recordingPath);
+        await storage.createCallRecording({
+          callHistoryId,
+          recordingUrl,
+          storageBackend,
+          durationSeconds: durationSeconds === null ? null : Math.round(durationSeconds),
+          startedAt: audioHandler.getRecordingStartedAt(),
+        });
+
+        console.log(
+          `Recording saved to ${recordingUrl} (${storageBackend}) with ${audioHandler.getTranscript().length} transcript entries`,
+        );
+      }
+    } catch (error) {
+      console.error("Failed to save recording/transcript:", error);
+    }
+
+    try {
+      const transcript = audioHandler.getTranscript();
+      const optOut = findOptOut(transcript);
+      const llm = optOut ? getLlm() : null;
+      let confirmed = true;
+      if (optOut && llm) {
+        // Without an answer the request is honoured as heard
+        confirmed = await confirmOptOut(llm, transcript, optOut).catch((error) => {
+          console.error("Failed to confirm opt-out, honouring it:", error);
+          return true;
+        });
+        if (!confirmed) {
+          console.log(`[DNC] Not an opt-out after all: "${optOut.phrase}"`);
+        }
+      }
+      if (optOut && confirmed) {
+        await recordOptOut(contact, callHistoryId, optOut.phrase);
+      }
+    } catch (error) {
+      console.error("Failed to record opt-out:", error);
+    }
+
+    // Runs in the background so the next call doesn't wait for the LLM
+    const transcript = audioHandler.getTranscript();
+    if (transcript.length > 0 && getExtractionLlm()) {
+      extractCallInteractions({ id: callHistoryId, contactId: contact.id }, transcript)
+        .catch((error) => console.error("Failed to extract call data:", error));
+    }
+  }
+
+  /**
+   * Persist the end of a run and settle the campaign status
+   */
+  private async finish(run: ActiveRun): Promise<void> {
+    if (run.state === 'detached') {
+      // Leave campaign status and run record as-is so recover() picks them up
+      console.log(`[CampaignRunner] ${run.campaignName} detached for recovery`);
+      return;
+    }
+
+    if (run.state === 'stopping') {
+      await storage.resetCampaignContactsByStatus(run.campaignId, 'calling', 'pending');
+      await storage.closeOpenCampaignRuns(run.campaignId, 'stopped');
+      console.log(`[CampaignRunner] ${run.campaignName} stopped by user`);
+      return;
+    }
+
+    // Check current campaign status - only mark as completed if not waiting for login
+    const currentCampaign = await storage.getCampaign(run.campaignId);
+    if (currentCampaign?.status === "waiting_for_login") {
+      // Keep the campaign in waiting_for_login status so user can restart later
+      await storage.closeOpenCampaignRuns(run.campaignId, 'interrupted');
+      console.log(`Campaign ${run.campaignName} paused (waiting for login)`);
+      return;
+    }
+
+    await storage.closeOpenCampaignRuns(run.campaignId, 'completed');
+    await storage.updateCampaign(run.campaignId, { status: "completed" });
+    campaignWebSocket.broadcastCampaignStatusUpdate(run.campaignId, "completed");
+    console.log(`Campaign ${run.campaignName} completed`);
+  }
+
+  /**
+   * Hold the loop while paused
+   * Returns false once the run should exit
+   */
+  private async waitWhilePaused(run: ActiveRun): Promise<boolean> {
+    while (run.state === 'paused') {
+      await this.sleep(run, Number.POSITIVE_INFINITY);
+    }
+    return run.state === 'running';
+  }
+
+  /**
+   * Mark the campaign as waiting and sleep until the earliest pending contact is both
+   * due for its next attempt and inside its calling window
+   * Sleeps are capped so window/retry edits and DST shifts are picked up
+   */
+  private async waitForNextEligibleContact(
+    run: ActiveRun,
+    campaign: Campaign,
+    pending: Array<CampaignContact & { contact: Contact }>,
+  ): Promise<void> {
+    const window = getCallingWindow(campaign);
+    const now = new Date();
+    const openings = pending
+      .map((cc) => {
+        const dueAt = cc.nextAttemptAt && cc.nextAttemptAt > now ? cc.nextAttemptAt : now;
+        return getNextWindowOpening(window, resolveContactTimezone(cc.contact, campaign), dueAt);
+      })
+      .filter((opening): opening is Date => opening !== undefined)
+      .map((opening) => opening.getTime());
+    const opensAt = openings.length > 0 ? Math.min(...openings) : undefined;
+
+    // Someone is due but outside their hours → waiting on the window; otherwise on retry delays
+    const status = pending.some((cc) => isAttemptDue(cc.nextAttemptAt, now)) ? "waiting_for_window" : "waiting_for_retry";
+
+    if (campaign.status !== status) {
+      await storage.updateCampaign(run.campaignId, { status });
+      campaignWebSocket.broadcastCampaignStatusUpdate(run.campaignId, status);
+      console.log(
+        opensAt !== undefined
+          ? `[CampaignRunner] ${run.campaignName}: no contact can be dialed yet (${status}) - next at ${new Date(opensAt).toISOString()}`
+          : `[CampaignRunner] ${run.campaignName}: calling window never opens - check the campaign's hours and days`,
+      );
+    }
+
+    const waitMs = opensAt !== undefined ? Math.min(opensAt - now.getTime(), WINDOW_RECHECK_MS) : WINDOW_RECHECK_MS;
+    await this.sleep(run, Math.max(waitMs, 0));
+  }
+
+  /**
+   * Wait for the given time, returning early if the run is woken by pause/resume/stop
+   */
+  private sleep(run: ActiveRun, ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = Number.isFinite(ms) ? setTimeout(() => done(), ms) : null;
+      const done = () => {
+        if (timer) clearTimeout(timer);
+        if (run.wake === done) run.wake = null;
+        resolve();
+      };
+      run.wake = done;
+    });
+  }
+
+  private wake(run: ActiveRun): void {
+    if (run.wake) {
+      run.wake();
+    }
+  }
+}
+
+// Singleton instance
+export const campaignRunner = new CampaignRunner();
@@ -0,0 +1,117 @@
+/**
+ * Contact CSV import - parsing, column mapping and the import plan
+ */
+
+import { afterEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Contact, ImportColumnTarget, ImportJob } from "@shared/schema";
+
+// The plan looks up existing contacts through storage, stubbed per test - the pool never connects
+process.env.DATABASE_URL ??= "postgres://localhost/contact-import-test";
+const { parseCsv, planContactImport, suggestMapping } = await import("./contact-import");
+const { storage } = await import("./storage");
+
+afterEach(() => mock.restoreAll());
+
+function importJob(csv: string): ImportJob {
+  const [header] = parseCsv(csv);
+  return {
+    id: "job-1",
+    fileName: "contacts.csv",
+    status: "draft",
+    csv,
+    headers: header.cells,
+    mapping: suggestMapping(header.cells),
+    tagIds: null,
+    campaignId: null,
+    totalRows: 0,
+    importedCount: 0,
+    mergedCount: 0,
+    failedCount: 0,
+    errors: null,
+    createdAt: new Date(),
+    completedAt: null,
+  };
+}
+
+function existingContacts(contacts: Array<Pick<Contact, "id" | "phone">>): void {
+  mock.method(storage, "getContactsByPhones", async () => contacts as Contact[]);
+}
+
+const MAPPING: ImportColumnTarget[] = ["name", "phone", "notes"];
+
+test("quoted fields keep commas, escaped quotes and newlines", () => {
+  const rows = parseCsv('name,notes\n"Smith, Ann","Said ""call back""\nafter lunch"\nBob,hi\n');
+  assert.deepEqual(rows, [
+    { lineNumber: 1, cells: ["name", "notes"] },
+    { lineNumber: 2, cells: ["Smith, Ann", 'Said "call back"\nafter lunch'] },
+    { lineNumber: 4, cells: ["Bob", "hi"] },
+  ]);
+});
+
+test("a byte order mark, CRLF line endings and blank lines are dropped", () => {
+  const rows = parseCsv("\uFEFFname,phone\r\n\r\nAnn , 2125550101\r\nBob,2125550102");
+  assert.deepEqual(rows, [
+    { lineNumber: 1, cells: ["name", "phone"] },
+    { lineNumber: 3, cells: ["Ann", "2125550101"] },
+    { lineNumber: 4, cells: ["Bob", "2125550102"] },
+  ]);
+});
+
+test("an empty trailing cell is kept", () => {
+  assert.deepEqual(parseCsv("a,b,\n")[0].cells, ["a", "b", ""]);
+});
+
+test("headers map to contact fields by name, anything else to a custom field", () => {
+  assert.deepEqual(
+    suggestMapping(["First Name", "Last-Name", "Mobile Phone", "E-mail", "Favourite color", ""]),
+    ["first_name", "last_name", "phone", "email", "custom:Favourite color", "ignore"],
+  );
+});
+
+test("a field is suggested for the first matching column only", () => {
+  assert.deepEqual(suggestMapping(["Phone", "Cell"]), ["phone", "custom:Cell"]);
+});
+
+test("rows create contacts with normalized phone numbers", async () => {
+  existingContacts([]);
+  const plan = await planContactImport(importJob("name,phone,notes\nAnn,(212) 555-0101,VIP\n"), MAPPING);
+
+  assert.equal(plan.toCreate, 1);
+  assert.equal(plan.rows[0].action, "create");
+  assert.equal(plan.rows[0].contact?.phone, "+12125550101");
+});
+
+test("invalid phone numbers and missing names fail their row only", async () => {
+  existingContacts([]);
+  const plan = await planContactImport(importJob("name,phone,notes\nAnn,12345,\n,2125550102,\nBob,2125550103,\n"), MAPPING);
+
+  assert.deepEqual(plan.rows.map((row) => row.action), ["error", "error", "create"]);
+  assert.match(plan.rows[0].errors[0], /Invalid phone number "12345"/);
+  assert.match(plan.rows[1].errors[0], /^name:/);
+  assert.equal(plan.failed, 2);
+});
+
+test("a number repeated within the file folds into its first row", async () => {
+  existingContacts([]);
+  const plan = await planContactImport(
+    importJob("name,phone,notes\nAnn,212-555-0101,First\nAnnie,+1 212 555 0101,Second\n"),
+    MAPPING,
+  );
+
+  assert.deepEqual(plan.rows.map((row) => row.action), ["create", "merge"]);
+  assert.equal(plan.rows[0].contact?.name, "Ann");
+  assert.equal(plan.rows[0].contact?.notes, "First\n\nSecond");
+  assert.equal(plan.rows[1].existingContactId, null);
+  assert.equal(plan.toCreate, 1);
+  assert.equal(plan.toMerge, 1);
+});
+
+test("a number that already belongs to a contact merges into it", async () => {
+  existingContacts([{ id: "contact-1", phone: "+12125550101" }]);
+  const plan = await planContactImport(importJob("name,phone,notes\nAnn,2125550101,\n"), MAPPING);
+
+  assert.equal(plan.rows[0].action, "merge");
+  assert.equal(plan.rows[0].existingContactId, "contact-1");
+  assert.equal(plan.toCreate, 0);
+});
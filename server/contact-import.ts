@@ -0,0 +1,345 @@
+/**
+ * Contact CSV Import
+ *
+ * An import runs in three steps, each backed by the same import job record:
+ * 1. upload  - the CSV is parsed, columns are mapped to contact fields by
+ *              header name, and a draft job is saved with the file contents
+ * 2. preview - a dry run with the chosen mapping reports, per row, whether it
+ *              would create a contact, merge into an existing one, or fail
+ * 3. commit  - the same plan is applied, tags and campaign membership are
+ *              added, and the job keeps the counts and row errors for review;
+ *              the file contents are cleared
+ */
+
+import {
+  insertContactSchema,
+  type Contact,
+  type ContactImportField,
+  type ImportColumnTarget,
+  type ImportJob,
+  type ImportOptions,
+  type ImportRowError,
+  type InsertContact,
+} from "@shared/schema";
+import { ZodError } from "zod";
+import { storage } from "./storage";
+import { mergeDuplicateContact, normalizePhoneNumber } from "./phone-numbers";
+
+export interface CsvRow {
+  lineNumber: number; // Line the row starts on (quoted fields may span lines)
+  cells: string[];
+}
+
+export type ImportRowAction = 'create' | 'merge' | 'error';
+
+// The contact a row describes, before validation; first/last name are joined into name
+type ContactDraft = Partial<Pick<InsertContact, Exclude<ContactImportField, 'first_name' | 'last_name'> | 'customFields'>>;
+
+export interface ImportPreviewRow {
+  lineNumber: number;
+  action: ImportRowAction;
+  contact: InsertContact | null;
+  existingContactId: string | null; // Set when action is 'merge'
+  errors: string[];
+}
+
+export interface ImportPlan {
+  rows: ImportPreviewRow[];
+  toCreate: number;
+  toMerge: number;
+  failed: number;
+}
+
+/**
+ * Header names recognized for each contact field (compared lowercase, without punctuation)
+ */
+const HEADER_ALIASES: Record<Exclude<ImportColumnTarget, 'ignore' | `custom:${string}`>, string[]> = {
+  name: ["name", "full name", "fullname", "contact", "contact name"],
+  first_name: ["first name", "firstname", "first", "given name"],
+  last_name: ["last name", "lastname", "last", "surname", "family name"],
+  phone: ["phone", "phone number", "mobile", "mobile phone", "cell", "cell phone", "telephone", "tel", "number"],
+  email: ["email", "e mail", "email address"],
+  company: ["company", "company name", "organization", "organisation", "business", "employer"],
+  notes: ["notes", "note", "comments", "comment", "description"],
+  timezone: ["timezone", "time zone", "tz"],
+};
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF, newlines inside quotes)
+ * Blank lines are skipped
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== "") {
+      rows.push({ lineNumber: rowStart, cells: cells.map((c) => c.trim()) });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  const input = text.replace(/^\uFEFF/, ""); // Byte order mark from Excel exports
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowStart = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || cells.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Map each column to a contact field by its header; unrecognized columns become custom fields
+ */
+export function suggestMapping(headers: string[]): ImportColumnTarget[] {
+  const used = new Set<ImportColumnTarget>();
+
+  return headers.map((header): ImportColumnTarget => {
+    const normalized = normalizeHeader(header);
+    if (!normalized) return 'ignore';
+
+    for (const [field, aliases] of Object.entries(HEADER_ALIASES)) {
+      const target = field as ImportColumnTarget;
+      if (!used.has(target) && aliases.includes(normalized)) {
+        used.add(target);
+        return target;
+      }
+    }
+    return `custom:${header.trim()}`;
+  });
+}
+
+function isCustomTarget(target: ImportColumnTarget): target is `custom:${string}` {
+  return target.startsWith("custom:");
+}
+
+/**
+ * Build the contact a row describes under the given mapping
+ */
+function rowToContact(cells: string[], mapping: ImportColumnTarget[]): ContactDraft {
+  const contact: ContactDraft = {};
+  const customFields: Record<string, string> = {};
+  let firstName = "";
+  let lastName = "";
+
+  mapping.forEach((target, index) => {
+    const value = cells[index] ?? "";
+    if (!value || target === 'ignore') return;
+
+    if (isCustomTarget(target)) {
+      customFields[target.slice("custom:".length)] = value;
+    } else if (target === 'first_name') {
+      firstName = value;
+    } else if (target === 'last_name') {
+      lastName = value;
+    } else {
+      contact[target] = value;
+    }
+  });
+
+  if (!contact.name && (firstName || lastName)) {
+    contact.name = [firstName, lastName].filter(Boolean).join(" ");
+  }
+  if (Object.keys(customFields).length > 0) {
+    contact.customFields = customFields;
+  }
+  return contact;
+}
+
+/**
+ * Why a mapping cannot be used for the job's columns, if it cannot
+ */
+export function checkMapping(mapping: ImportColumnTarget[], headers: string[]): string | undefined {
+  if (mapping.length !== headers.length) {
+    return `Expected a mapping for each of the ${headers.length} columns`;
+  }
+  if (!mapping.includes('phone')) {
+    return "Map a column to Phone";
+  }
+  if (!mapping.includes('name') && !mapping.includes('first_name') && !mapping.includes('last_name')) {
+    return "Map a column to Name (or First/Last name)";
+  }
+  const fields = mapping.filter((target) => target !== 'ignore');
+  const repeated = fields.find((target, index) => fields.indexOf(target) !== index);
+  if (repeated) {
+    return `More than one column is mapped to ${repeated.replace(/^custom:/, "custom field ")}`;
+  }
+  return undefined;
+}
+
+/**
+ * Why the tags or campaign an import adds contacts to cannot be used, if they cannot
+ */
+export async function checkImportTargets(options: ImportOptions): Promise<string | undefined> {
+  if (options.tagIds.length > 0) {
+    const tagIds = new Set((await storage.getAllTags()).map((tag) => tag.id));
+    const missing = options.tagIds.find((tagId) => !tagIds.has(tagId));
+    if (missing) {
+      return `Tag ${missing} not found`;
+    }
+  }
+  if (options.campaignId && !(await storage.getCampaign(options.campaignId))) {
+    return "Campaign not found";
+  }
+  return undefined;
+}
+
+function describeValidationError(error: unknown): string[] {
+  if (error instanceof ZodError) {
+    return error.errors.map((e) => `${e.path.join(".") || "row"}: ${e.message}`);
+  }
+  return [error instanceof Error ? error.message : "Validation failed"];
+}
+
+/**
+ * Validate every row and decide whether it creates or merges a contact - nothing is written
+ */
+export async function planContactImport(job: ImportJob, mapping: ImportColumnTarget[]): Promise<ImportPlan> {
+  const [, ...dataRows] = parseCsv(job.csv);
+  const rows: ImportPreviewRow[] = [];
+  const firstRowByPhone = new Map<string, ImportPreviewRow>();
+
+  for (const row of dataRows) {
+    try {
+      const validated = insertContactSchema.parse(rowToContact(row.cells, mapping));
+      const phone = normalizePhoneNumber(validated.phone);
+      if (!phone) {
+        throw new Error(`Invalid phone number "${validated.phone}"`);
+      }
+
+      const contact = { ...validated, phone };
+      const earlier = firstRowByPhone.get(phone);
+      if (earlier) {
+        // Repeated number within the file - fold into the first row with it
+        earlier.contact = mergeDuplicateContact(earlier.contact!, contact);
+        rows.push({ lineNumber: row.lineNumber, action: 'merge', contact, existingContactId: null, errors: [] });
+        continue;
+      }
+
+      const preview: ImportPreviewRow = {
+        lineNumber: row.lineNumber,
+        action: 'create',
+        contact,
+        existingContactId: null,
+        errors: [],
+      };
+      firstRowByPhone.set(phone, preview);
+      rows.push(preview);
+    } catch (error) {
+      rows.push({
+        lineNumber: row.lineNumber,
+        action: 'error',
+        contact: null,
+        existingContactId: null,
+        errors: describeValidationError(error),
+      });
+    }
+  }
+
+  // Numbers that already belong to a contact merge into it
+  const existing = await storage.getContactsByPhones(Array.from(firstRowByPhone.keys()));
+  for (const contact of existing) {
+    const preview = firstRowByPhone.get(contact.phone)!;
+    preview.action = 'merge';
+    preview.existingContactId = contact.id;
+  }
+
+  return {
+    rows,
+    toCreate: rows.filter((r) => r.action === 'create').length,
+    toMerge: rows.filter((r) => r.action === 'merge').length,
+    failed: rows.filter((r) => r.action === 'error').length,
+  };
+}
+
+/**
+ * Apply an import plan, then tag the contacts and add them to the campaign
+ */
+export async function commitContactImport(job: ImportJob, options: ImportOptions): Promise<ImportJob> {
+  const plan = await planContactImport(job, options.mapping);
+  const touched: Contact[] = [];
+
+  // Rows that merged into an earlier row of the same file were already folded in
+  const primaryRows = plan.rows.filter((r) => r.contact && (r.action === 'create' || r.existingContactId));
+
+  for (const row of primaryRows.filter((r) => r.existingContactId)) {
+    const existing = await storage.getContact(row.existingContactId!);
+    if (!existing) continue;
+    const updated = await storage.updateContact(existing.id, mergeDuplicateContact(existing, row.contact!));
+    if (updated) touched.push(updated);
+  }
+
+  const toCreate = primaryRows.filter((r) => r.action === 'create').map((r) => r.contact!);
+  const created = toCreate.length > 0 ? await storage.bulkCreateContacts(toCreate) : [];
+  touched.push(...created);
+
+  for (const contact of touched) {
+    for (const tagId of options.tagIds) {
+      await storage.addTagToContact(contact.id, tagId);
+    }
+  }
+  if (options.campaignId) {
+    await storage.addContactsToCampaign(options.campaignId, touched.map((c) => c.id));
+  }
+
+  const errors: ImportRowError[] = plan.rows
+    .filter((r) => r.action === 'error')
+    .map((r) => ({ lineNumber: r.lineNumber, errors: r.errors }));
+
+  console.log(
+    `[ContactImport] ${job.fileName}: ${created.length} created, ${plan.toMerge} merged, ${errors.length} failed`,
+  );
+
+  const updated = await storage.updateImportJob(job.id, {
+    status: 'completed',
+    csv: '', // The contacts are saved; the file need not be kept
+    mapping: options.mapping,
+    tagIds: options.tagIds.join(",") || null,
+    campaignId: options.campaignId || null,
+    importedCount: created.length,
+    mergedCount: plan.toMerge,
+    failedCount: errors.length,
+    errors,
+    completedAt: new Date(),
+  });
+  return updated!;
+}
@@ -0,0 +1,120 @@
+/**
+ * Call Dispositions
+ *
+ * A disposition says how a call went from the caller's point of view. The
+ * campaign loop sets a system disposition on every attempt, derived from the
+ * dial outcome and what happened during the call; users can overwrite it by
+ * hand with a system disposition or one they defined (e.g. 'interested').
+ *
+ * The disposition of a campaign call is also kept on its campaign contact,
+ * as long as the call is that contact's latest attempt in the campaign.
+ */
+
+import {
+  systemDispositions,
+  type CallHistory,
+  type CallOutcome,
+  type DispositionOption,
+  type SystemDisposition,
+} from "@shared/schema";
+import { storage } from "./storage";
+import type { CallTimings } from "./call-timings";
+
+export const SYSTEM_DISPOSITION_LABELS: Record<SystemDisposition, string> = {
+  answered_human: 'Answered - human',
+  answered_machine: 'Answered - machine',
+  no_answer: 'No answer',
+  busy: 'Busy',
+  invalid_number: 'Invalid number',
+  rejected: 'Rejected',
+  hung_up_early: 'Hung up early',
+  ai_error: 'AI error',
+  dnc_skipped: 'DNC skipped',
+};
+
+// An answered call shorter than this is a hang-up rather than a conversation
+const HUNG_UP_EARLY_SECONDS = 10;
+
+/**
+ * What the campaign loop knows about an attempt besides its outcome
+ */
+export interface AttemptDetails {
+  timings: CallTimings | null;
+  aiError: boolean; // The AI conversation failed to start or broke off
+  invalidNumber: boolean; // The contact's number could not be dialed at all
+}
+
+/**
+ * The system disposition for a finished attempt, or null when nothing is known
+ * about why it failed
+ */
+export function getAutomaticDisposition(outcome: CallOutcome, details: AttemptDetails): SystemDisposition | null {
+  if (details.invalidNumber) return 'invalid_number';
+  if (details.aiError) return 'ai_error';
+
+  switch (outcome) {
+    case 'completed': {
+      const talkSeconds = details.timings?.talkSeconds;
+      return talkSeconds != null && talkSeconds < HUNG_UP_EARLY_SECONDS ? 'hung_up_early' : 'answered_human';
+    }
+    case 'voicemail':
+      return 'answered_machine';
+    case 'no_answer':
+      return 'no_answer';
+    case 'busy':
+      return 'busy';
+    case 'failed_to_connect':
+      return 'rejected';
+    case 'skipped_dnc':
+      return 'dnc_skipped';
+    case 'failed':
+      return null;
+  }
+}
+
+export function isSystemDisposition(code: string): code is SystemDisposition {
+  return (systemDispositions as readonly string[]).includes(code);
+}
+
+/**
+ * Whether a code names a system or user-defined disposition
+ */
+export async function isKnownDisposition(code: string): Promise<boolean> {
+  return isSystemDisposition(code) || !!(await storage.getDispositionByCode(code));
+}
+
+/**
+ * Every disposition a call can be given, system ones first
+ */
+export async function listDispositionOptions(): Promise<DispositionOption[]> {
+  const custom = await storage.getAllDispositions();
+  return [
+    ...systemDispositions.map((code) => ({ code, label: SYSTEM_DISPOSITION_LABELS[code], color: null, id: null })),
+    ...custom.map(({ id, code, label, color }) => ({ code, label, color, id })),
+  ];
+}
+
+/**
+ * Set a call's disposition by hand, carrying it over to the campaign contact
+ * when the call is the contact's latest attempt in its campaign
+ */
+export async function setCallDisposition(callId: string, disposition: string | null): Promise<CallHistory | undefined> {
+  const call = await storage.updateCallHistory(callId, { disposition });
+  if (call?.campaignId) {
+    const latest = await storage.getLatestCampaignCall(call.campaignId, call.contactId);
+    if (latest?.id === call.id) {
+      await storage.updateCampaignContact(call.campaignId, call.contactId, { disposition });
+    }
+  }
+  return call;
+}
+
+/**
+ * Code for a user-defined disposition, e.g. "Callback requested" → 'callback_requested'
+ */
+export function toDispositionCode(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
@@ -0,0 +1,71 @@
+/**
+ * Do-Not-Call List
+ *
+ * Numbers on the DNC list are never dialed - neither by /api/dial/automated
+ * nor by the campaign loop. Blocked attempts are recorded as 'skipped' call
+ * history so every refusal is auditable.
+ *
+ * Numbers get on the list by manual entry, CSV import, the API, or
+ * automatically when a contact asks not to be called again during a call
+ * (see opt-out.ts).
+ */
+
+import { dncSources, type Contact, type DncEntry } from "@shared/schema";
+import { storage } from "./storage";
+import { normalizePhoneNumber } from "./phone-numbers";
+
+export type DncSource = typeof dncSources[number];
+
+/**
+ * Canonical form of a phone number for DNC matching
+ * E.164 like contact numbers; bare digits for numbers that do not parse
+ */
+export function normalizeDncPhone(phone: string): string {
+  return normalizePhoneNumber(phone) ?? phone.replace(/\D/g, "");
+}
+
+/**
+ * The DNC entry blocking a phone number, if it is listed
+ */
+export async function findDncEntry(phone: string): Promise<DncEntry | undefined> {
+  const normalized = normalizeDncPhone(phone);
+  if (!normalized) return undefined;
+  return storage.getDncEntryByPhone(normalized);
+}
+
+/**
+ * Put a phone number on the DNC list (no-op if it is already there)
+ */
+export async function addToDnc(
+  phone: string,
+  source: DncSource,
+  reason?: string,
+  contactId?: string,
+): Promise<DncEntry> {
+  return storage.createDncEntry({
+    phone: normalizeDncPhone(phone),
+    source,
+    reason: reason || null,
+    contactId: contactId || null,
+  });
+}
+
+/**
+ * Honor an opt-out heard during a call: list the contact's number and note
+ * the opt-out on the call's captured interactions
+ */
+export async function recordOptOut(contact: Contact, callHistoryId: string, phrase: string): Promise<DncEntry> {
+  const entry = await addToDnc(contact.phone, 'transcript', `Contact said "${phrase}"`, contact.id);
+
+  await storage.createCallInteraction({
+    callHistoryId,
+    contactId: contact.id,
+    field: 'opt_in_status',
+    value: 'opted_out',
+    confidence: 'high',
+    source: 'user_transcript',
+  });
+
+  console.log(`[DNC] ${contact.name} (${contact.phone}) opted out: "${phrase}"`);
+  return entry;
+}
@@ -1,5 +1,7 @@
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
+import { z } from 'zod';
+import { END_CALL_TOOL } from './end-of-call';
 
 /**
  * Simplified ElevenLabs Conversational AI Client
@@ -24,6 +26,22 @@ export interface ConversationalAIConfig {
   dynamicVariables?: Record<string, string>;
 }
 
+/**
+ * Character timings of an agent audio chunk, in ms from the chunk's start
+ */
+export interface AudioAlignment {
+  chars: string[];
+  charStartTimesMs: number[];
+  charDurationsMs: number[];
+}
+
+// The alignment of an audio event as the API sends it
+const alignmentMessageSchema = z.object({
+  chars: z.array(z.string()),
+  char_start_times_ms: z.array(z.number()),
+  char_durations_ms: z.array(z.number()),
+});
+
 interface ConversationMessage {
   type: string;
   [key: string]: any;
@@ -72,7 +90,9 @@ export class ElevenLabsConversationalClient extends EventEmitter {
       try {
         this.intentionalDisconnect = false;
         
-        const wsUrl = `wss://api.elevenlabs.io/v1/convai/conversation?agent_id=${this.config.agentId}`;
+        // ELEVENLABS_WS_URL points the client at a stand-in server (see fake-elevenlabs.ts)
+        const baseUrl = process.env.ELEVENLABS_WS_URL || 'wss://api.elevenlabs.io';
+        const wsUrl = `${baseUrl}/v1/convai/conversation?agent_id=${this.config.agentId}`;
         
         this.log('Connecting to ElevenLabs WebSocket with authentication');
         
@@ -177,6 +197,7 @@ export class ElevenLabsConversationalClient extends EventEmitter {
           this.emit('audio_chunk', {
             chunk: message.audio_event.audio_base_64,
             chunkId: message.audio_event.event_id,
+            alignment: this.parseAlignment(message.audio_event.alignment),
           });
         }
         
@@ -191,7 +212,8 @@ export class ElevenLabsConversationalClient extends EventEmitter {
         // User's speech transcribed by ElevenLabs' STT
         if (message.user_transcription_event) {
           const transcript = message.user_transcription_event.user_transcript;
-          const isFinal = message.user_transcription_event.is_final;
+          // Sent once the user's turn is over; is_final is usually absent
+          const isFinal = message.user_transcription_event.is_final !== false;
           const confidence = message.user_transcription_event.confidence;
           
           if (isFinal && transcript) {
@@ -209,6 +231,16 @@ export class ElevenLabsConversationalClient extends EventEmitter {
         }
         break;
 
+      case 'tentative_user_transcript':
+        // Partial transcript while the user is still speaking
+        if (message.tentative_user_transcription_event?.user_transcript) {
+          this.emit('user_transcript', {
+            text: message.tentative_user_transcription_event.user_transcript,
+            isFinal: false,
+          });
+        }
+        break;
+
       case 'agent_response':
         // AI's text response
         if (message.agent_response_event) {
@@ -220,21 +252,6 @@ export class ElevenLabsConversationalClient extends EventEmitter {
             console.log('[ElevenLabs] ✓ Conversation started (first AI response detected)');
           }
           
-          // Detect conversation end keywords for auto-hangup
-          const endKeywords = [
-            'goodbye', 'god bless', 'have a great', 'have a blessed',
-            'thank you so much', 'take care', 'talk to you', 'speak with you later'
-          ];
-          
-          const textLower = agentText.toLowerCase();
-          const hasEndKeyword = endKeywords.some(keyword => textLower.includes(keyword));
-          
-          if (hasEndKeyword && !this.conversationEnded) {
-            this.conversationEnded = true;
-            console.log('[ElevenLabs] 🎬 Conversation ending detected:', agentText.substring(0, 100));
-            this.emit('conversation_ending');
-          }
-          
           this.emit('agent_response', {
             text: agentText,
           });
@@ -257,6 +274,13 @@ export class ElevenLabsConversationalClient extends EventEmitter {
         }
         break;
 
+      case 'client_tool_call':
+        // The agent called one of its client tools
+        if (message.client_tool_call) {
+          this.handleClientToolCall(message.client_tool_call);
+        }
+        break;
+
       case 'agent_response_correction':
         // AI corrected its previous response
         this.log('AI response correction');
@@ -274,6 +298,57 @@ export class ElevenLabsConversationalClient extends EventEmitter {
     }
   }
 
+  /**
+   * Character timings of an audio chunk, relative to the chunk's start (when the agent sends them)
+   */
+  private parseAlignment(alignment: unknown): AudioAlignment | undefined {
+    const parsed = alignmentMessageSchema.safeParse(alignment);
+    if (!parsed.success) {
+      return undefined;
+    }
+    return {
+      chars: parsed.data.chars,
+      charStartTimesMs: parsed.data.char_start_times_ms,
+      charDurationsMs: parsed.data.char_durations_ms,
+    };
+  }
+
+  private handleClientToolCall(toolCall: { tool_name: string; tool_call_id: string }): void {
+    this.log(`🔧 Client tool call: ${toolCall.tool_name}`);
+
+    if (toolCall.tool_name === END_CALL_TOOL) {
+      this.sendToolResult(toolCall.tool_call_id, 'The call will be hung up after your last message.', false);
+      this.endConversation(`Agent called the ${END_CALL_TOOL} tool`);
+      return;
+    }
+
+    // Answer anyway so the agent doesn't wait for a result that never comes
+    console.warn(`[ElevenLabs] Unknown client tool: ${toolCall.tool_name}`);
+    this.sendToolResult(toolCall.tool_call_id, `Unknown tool: ${toolCall.tool_name}`, true);
+  }
+
+  private sendToolResult(toolCallId: string, result: string, isError: boolean): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+    this.ws.send(JSON.stringify({
+      type: 'client_tool_result',
+      tool_call_id: toolCallId,
+      result,
+      is_error: isError,
+    }));
+  }
+
+  /**
+   * Mark the conversation as over: stop sending caller audio and emit 'conversation_ending' (once)
+   */
+  endConversation(reason: string): void {
+    if (this.conversationEnded) return;
+
+    this.conversationEnded = true;
+    console.log(`[ElevenLabs] 🎬 Conversation ending detected: ${reason}`);
+    this.emit('conversation_ending', { reason });
+  }
+
   private sendDynamicVariables(variables: Record<string, string>): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       console.error('[ElevenLabs] Cannot send dynamic variables: WebSocket not open');
@@ -339,6 +414,23 @@ export class ElevenLabsConversationalClient extends EventEmitter {
     }
   }
 
+  /**
+   * Send text as if the caller had said it, e.g. to ask the agent to wrap up
+   */
+  sendUserMessage(text: string): void {
+    if (!this.isConnected || !this.ws) {
+      console.warn('[ElevenLabs] Cannot send message: not connected');
+      return;
+    }
+
+    try {
+      this.ws.send(JSON.stringify({ type: 'user_message', text }));
+      this.log('Sent user message', { text });
+    } catch (error) {
+      console.error('[ElevenLabs] Failed to send user message:', error);
+    }
+  }
+
   private flushAudioQueue(): void {
     if (this.audioQueue.length === 0) {
       return;
@@ -0,0 +1,32 @@
+/**
+ * End-call phrases - which agent lines close the conversation
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findEndCallKeyword, parseEndCallKeywords } from "./end-of-call";
+
+const KEYWORDS = parseEndCallKeywords("Goodbye, take care,\ntalk to you soon");
+
+test("phrases are comma or newline separated and lowercased", () => {
+  assert.deepEqual(KEYWORDS, ["goodbye", "take care", "talk to you soon"]);
+  assert.deepEqual(parseEndCallKeywords(null), []);
+  assert.deepEqual(parseEndCallKeywords(" , "), []);
+});
+
+test("a line whose last sentence ends with a phrase ends the call", () => {
+  assert.equal(findEndCallKeyword("Thanks for your time. Goodbye!", KEYWORDS), "goodbye");
+  assert.equal(findEndCallKeyword("Alright, you take care", KEYWORDS), "take care");
+  assert.equal(findEndCallKeyword("Great, talk to you soon...", KEYWORDS), "talk to you soon");
+});
+
+test("a phrase in the middle of a line does not end the call", () => {
+  assert.equal(findEndCallKeyword("I'm calling to talk to you soon about the event on Friday.", KEYWORDS), null);
+  assert.equal(findEndCallKeyword("Take care of the forms first. Then we can book your seat.", KEYWORDS), null);
+  assert.equal(findEndCallKeyword("Did you say goodbye? Sorry, the line cut out", KEYWORDS), null);
+  assert.equal(findEndCallKeyword("My colleague said goodbyes are hard", KEYWORDS), null);
+});
+
+test("no phrases, no match", () => {
+  assert.equal(findEndCallKeyword("Goodbye!", []), null);
+});
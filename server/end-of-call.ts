@@ -0,0 +1,94 @@
+/**
+ * End-of-Conversation Detection
+ *
+ * Decides when the AI agent has closed the conversation, so the call can be
+ * hung up once its goodbye has played:
+ * - end_call tool: the agent calls the end_call client tool (configured on the
+ *   ElevenLabs agent). Always honoured, whatever the agent's detection mode.
+ * - classifier:    with detection mode 'classifier', an LLM reads the last turns
+ *   after each agent line and answers whether the conversation is over
+ *   (needs an LLM endpoint, see llm.ts)
+ * - keywords:      with detection mode 'keywords', for agents without the tool,
+ *   a line whose last sentence ends with one of the agent's end-call phrases
+ *   ("..., goodbye!") closes it. Phrases earlier in a line ("I'm calling to
+ *   talk to you about...") do not.
+ */
+
+import type { ConversationTurn } from "./audio-handler";
+import { getLlm, type Llm } from "./llm";
+
+export const END_CALL_TOOL = 'end_call';
+
+const CLASSIFIER_TURNS = 6; // Turns of context given to the classifier
+
+const CLASSIFIER_PROMPT =
+  "You monitor phone calls made by an AI agent. Given the latest turns of a call, decide whether the agent's last line " +
+  "closes the conversation - a goodbye with nothing left to discuss - so the call can be hung up. Polite phrases such " +
+  "as \"thank you so much\" or \"take care\" in the middle of a conversation do not end it. Reply with only END or CONTINUE.";
+
+/**
+ * Split an agent's end-call phrases (comma or newline separated) into lowercase keywords
+ */
+export function parseEndCallKeywords(text: string | null | undefined): string[] {
+  return (text ?? '')
+    .split(/[,\n]/)
+    .map((keyword) => keyword.trim().toLowerCase())
+    .filter((keyword) => keyword.length > 0);
+}
+
+// Lowercase words separated by single spaces, punctuation dropped
+function words(text: string): string {
+  return text.toLowerCase().replace(/[’‘]/g, "'").replace(/[^a-z0-9']+/g, ' ').trim();
+}
+
+/**
+ * The keyword the text's last sentence ends with, or null
+ */
+export function findEndCallKeyword(text: string, keywords: string[]): string | null {
+  const sentences = text.split(/[.!?]+/).map(words).filter(Boolean);
+  const last = sentences[sentences.length - 1];
+  if (!last) return null;
+
+  return keywords.find((keyword) => {
+    const phrase = words(keyword);
+    return phrase.length > 0 && (last === phrase || last.endsWith(` ${phrase}`));
+  }) ?? null;
+}
+
+export class EndOfCallClassifier {
+  private llm: Llm;
+
+  constructor(llm: Llm) {
+    this.llm = llm;
+  }
+
+  /**
+   * A classifier on the configured LLM, or null without one
+   */
+  static fromEnv(): EndOfCallClassifier | null {
+    const llm = getLlm();
+    return llm ? new EndOfCallClassifier(llm) : null;
+  }
+
+  /**
+   * Whether the conversation is over after the last of these turns
+   */
+  async isConversationOver(turns: ConversationTurn[]): Promise<boolean> {
+    const transcript = turns
+      .slice(-CLASSIFIER_TURNS)
+      .map((turn) => `${turn.speaker === 'agent' ? 'Agent' : 'Callee'}: ${turn.message}`)
+      .join('\n');
+
+    const completion = await this.llm.client.chat.completions.create({
+      model: this.llm.model,
+      temperature: 0,
+      max_completion_tokens: 5,
+      messages: [
+        { role: 'system', content: CLASSIFIER_PROMPT },
+        { role: 'user', content: transcript },
+      ],
+    });
+    const verdict = completion.choices[0]?.message?.content?.trim().toUpperCase() ?? '';
+    return verdict.startsWith('END');
+  }
+}
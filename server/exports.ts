@@ -0,0 +1,233 @@
+/**
+ * Data Exports
+ *
+ * Builds flat rows for contacts, call history, campaign results and call
+ * interactions, and sends them as a CSV or JSON download. Each builder takes
+ * the same filters as the page the export is started from, so the file holds
+ * what the user was looking at.
+ */
+
+import type { Response } from "express";
+import type { CallHistory, CallInteraction, Contact } from "@shared/schema";
+import { storage } from "./storage";
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportRow = Record<string, string | number | null>;
+
+export interface ContactExportFilters {
+  search?: string; // Matches name, phone, email or company, like the contacts list search
+}
+
+export interface CallExportFilters {
+  campaignId?: string;
+  contactId?: string;
+  status?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface CampaignResultFilters {
+  status?: string; // Campaign contact status
+}
+
+const TRANSCRIPT_SUMMARY_LENGTH = 500;
+
+export function parseExportFormat(value: unknown): ExportFormat | undefined {
+  if (value === undefined || value === 'csv') return 'csv';
+  if (value === 'json') return 'json';
+  return undefined;
+}
+
+function escapeCsvValue(value: string | number | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(columns: string[], rows: ExportRow[]): string {
+  const lines = rows.map((row) => columns.map((column) => escapeCsvValue(row[column] ?? null)).join(","));
+  return [columns.join(","), ...lines].join("\r\n");
+}
+
+/**
+ * Send rows as a file download; CSV columns keep the given order
+ */
+export function sendExport(
+  res: Response,
+  format: ExportFormat,
+  fileName: string,
+  columns: string[],
+  rows: ExportRow[],
+): void {
+  const date = new Date().toISOString().slice(0, 10);
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}-${date}.${format}"`);
+
+  if (format === 'json') {
+    res.setHeader("Content-Type", "application/json");
+    res.send(JSON.stringify(rows, null, 2));
+  } else {
+    res.setHeader("Content-Type", "text/csv");
+    res.send(toCsv(columns, rows));
+  }
+}
+
+function matchesSearch(contact: Contact, search: string): boolean {
+  const query = search.toLowerCase();
+  return [contact.name, contact.phone, contact.email, contact.company]
+    .some((value) => value?.toLowerCase().includes(query));
+}
+
+async function getContactsById(): Promise<Map<string, Contact>> {
+  const allContacts = await storage.getAllContacts();
+  return new Map(allContacts.map((contact) => [contact.id, contact]));
+}
+
+export const CONTACT_EXPORT_COLUMNS = [
+  "id", "name", "phone", "email", "company", "timezone", "tags", "notes", "custom_fields", "created_at",
+];
+
+export async function buildContactExport(filters: ContactExportFilters): Promise<ExportRow[]> {
+  const allContacts = await storage.getAllContacts();
+  const contactList = filters.search
+    ? allContacts.filter((contact) => matchesSearch(contact, filters.search!))
+    : allContacts;
+
+  const tagsByContact = new Map<string, string[]>();
+  for (const { contactId, tag } of await storage.getAllContactTags()) {
+    tagsByContact.set(contactId, [...(tagsByContact.get(contactId) ?? []), tag.name]);
+  }
+
+  return contactList.map((contact) => ({
+    id: contact.id,
+    name: contact.name,
+    phone: contact.phone,
+    email: contact.email,
+    company: contact.company,
+    timezone: contact.timezone,
+    tags: (tagsByContact.get(contact.id) ?? []).sort().join(", "),
+    notes: contact.notes,
+    custom_fields: contact.customFields ? JSON.stringify(contact.customFields) : null,
+    created_at: contact.createdAt.toISOString(),
+  }));
+}
+
+function matchesCallFilters(call: CallHistory, filters: CallExportFilters): boolean {
+  if (filters.campaignId && call.campaignId !== filters.campaignId) return false;
+  if (filters.contactId && call.contactId !== filters.contactId) return false;
+  if (filters.status && call.status !== filters.status) return false;
+  if (filters.from && call.calledAt < filters.from) return false;
+  if (filters.to && call.calledAt > filters.to) return false;
+  return true;
+}
+
+export const CALL_EXPORT_COLUMNS = [
+  "id", "called_at", "contact_name", "contact_phone", "campaign", "status", "outcome", "disposition", "dialed_at", "answered_at", "ended_at",
+  "ring_seconds", "talk_seconds", "notes", "transcript_summary",
+];
+
+export async function buildCallExport(filters: CallExportFilters): Promise<ExportRow[]> {
+  const calls = (await storage.getAllCallHistory()).filter((call) => matchesCallFilters(call, filters));
+  const callIds = calls.map((call) => call.id);
+
+  const [contactsById, allCampaigns, transcripts] = await Promise.all([
+    getContactsById(),
+    storage.getAllCampaigns(),
+    storage.getTranscriptsForCalls(callIds),
+  ]);
+  const campaignNames = new Map(allCampaigns.map((campaign) => [campaign.id, campaign.name]));
+
+  // Turns arrive in timestamp order; the summary is the opening of the conversation
+  const turnsByCall = new Map<string, string[]>();
+  for (const turn of transcripts) {
+    const turns = turnsByCall.get(turn.callHistoryId) ?? [];
+    turns.push(`${turn.speaker === 'agent' ? 'Agent' : 'Contact'}: ${turn.message}`);
+    turnsByCall.set(turn.callHistoryId, turns);
+  }
+
+  return calls.map((call) => {
+    const contact = contactsById.get(call.contactId);
+    const transcript = (turnsByCall.get(call.id) ?? []).join(" | ");
+    return {
+      id: call.id,
+      called_at: call.calledAt.toISOString(),
+      contact_name: contact?.name ?? null,
+      contact_phone: contact?.phone ?? null,
+      campaign: call.campaignId ? campaignNames.get(call.campaignId) ?? null : null,
+      status: call.status,
+      outcome: call.outcome,
+      disposition: call.disposition,
+      dialed_at: call.dialedAt?.toISOString() ?? null,
+      answered_at: call.answeredAt?.toISOString() ?? null,
+      ended_at: call.endedAt?.toISOString() ?? null,
+      ring_seconds: call.ringSeconds,
+      talk_seconds: call.talkSeconds,
+      notes: call.notes,
+      transcript_summary: transcript.length > TRANSCRIPT_SUMMARY_LENGTH
+        ? `${transcript.slice(0, TRANSCRIPT_SUMMARY_LENGTH - 3)}...`
+        : transcript || null,
+    };
+  });
+}
+
+export const CAMPAIGN_RESULT_COLUMNS = [
+  "contact_name", "contact_phone", "contact_email", "company", "status", "outcome", "disposition", "attempts", "called_at",
+  "next_attempt_at", "notes",
+];
+
+export async function buildCampaignResultExport(
+  campaignId: string,
+  filters: CampaignResultFilters,
+): Promise<ExportRow[]> {
+  const results = await storage.getCampaignContacts(campaignId);
+
+  return results
+    .filter((result) => !filters.status || result.status === filters.status)
+    .map((result) => ({
+      contact_name: result.contact.name,
+      contact_phone: result.contact.phone,
+      contact_email: result.contact.email,
+      company: result.contact.company,
+      status: result.status,
+      outcome: result.lastOutcome,
+      disposition: result.disposition,
+      attempts: result.attempts,
+      called_at: result.calledAt?.toISOString() ?? null,
+      next_attempt_at: result.nextAttemptAt?.toISOString() ?? null,
+      notes: result.notes,
+    }));
+}
+
+export const INTERACTION_EXPORT_COLUMNS = [
+  "captured_at", "call_id", "contact_name", "contact_phone", "campaign", "field", "value", "confidence", "source",
+];
+
+export async function buildInteractionExport(filters: { campaignId?: string }): Promise<ExportRow[]> {
+  const [interactions, calls, contactsById, allCampaigns] = await Promise.all([
+    storage.getAllCallInteractions(),
+    storage.getAllCallHistory(),
+    getContactsById(),
+    storage.getAllCampaigns(),
+  ]);
+  const callsById = new Map(calls.map((call) => [call.id, call]));
+  const campaignNames = new Map(allCampaigns.map((campaign) => [campaign.id, campaign.name]));
+
+  const inCampaign = (interaction: CallInteraction) =>
+    !filters.campaignId || callsById.get(interaction.callHistoryId)?.campaignId === filters.campaignId;
+
+  return interactions.filter(inCampaign).map((interaction) => {
+    const call = callsById.get(interaction.callHistoryId);
+    const contact = contactsById.get(interaction.contactId ?? call?.contactId ?? "");
+    return {
+      captured_at: interaction.capturedAt.toISOString(),
+      call_id: interaction.callHistoryId,
+      contact_name: contact?.name ?? null,
+      contact_phone: contact?.phone ?? null,
+      campaign: call?.campaignId ? campaignNames.get(call.campaignId) ?? null : null,
+      field: interaction.field,
+      value: interaction.value,
+      confidence: interaction.confidence,
+      source: interaction.source,
+    };
+  });
+}
@@ -0,0 +1,338 @@
+/**
+ * Fake ElevenLabs Conversational AI Server
+ *
+ * A local WebSocket stand-in for wss://api.elevenlabs.io/v1/convai/conversation
+ * that speaks the same message protocol as ElevenLabsConversationalClient:
+ * - server → client: conversation_initiation_metadata, audio (with character
+ *   alignment), agent_response, tentative_user_transcript, user_transcript,
+ *   interruption, client_tool_call, ping, pong
+ * - client → server: conversation_initiation_client_data, user_audio_chunk,
+ *   user_message, client_tool_result, ping
+ *
+ * Each connection plays a fixed script. Agent turns are sent immediately
+ * (text + tone audio sized to the text); user turns are transcribed tentatively
+ * halfway and complete once enough caller audio has arrived. The default script ends with a goodbye and an end_call
+ * tool call so the auto-hangup path is exercised.
+ *
+ * Run standalone:
+ *   npm run fake:elevenlabs
+ * and start the app with ELEVENLABS_WS_URL=ws://localhost:8765
+ */
+
+import { WebSocketServer, WebSocket } from 'ws';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+
+export type FakeConversationStep =
+  | { type: 'agent'; text: string } // agent_response + audio
+  | { type: 'user'; text: string } // tentative_user_transcript halfway, user_transcript after userTurnMs of caller audio
+  | { type: 'interruption' }
+  | { type: 'end_call' }; // client_tool_call for the end_call tool
+
+export interface FakeElevenLabsConfig {
+  port: number;
+  script: FakeConversationStep[];
+  userTurnMs: number; // Caller audio needed to complete a user turn
+  msPerCharacter: number; // Length of agent audio per character of text
+  pingIntervalMs: number;
+}
+
+const DEFAULT_SCRIPT: FakeConversationStep[] = [
+  { type: 'agent', text: "Hi {{contactName}}, this is {{agentName}}. Do you have a quick minute?" },
+  { type: 'user', text: "Sure, what's this about?" },
+  { type: 'agent', text: "I'm calling to let you know about an upcoming event in your area." },
+  { type: 'interruption' },
+  { type: 'user', text: "Sorry, I'm actually busy right now." },
+  { type: 'agent', text: "No problem at all. Thank you so much for your time, goodbye!" },
+  { type: 'end_call' },
+];
+
+const DEFAULT_CONFIG: FakeElevenLabsConfig = {
+  port: 8765,
+  script: DEFAULT_SCRIPT,
+  userTurnMs: 1500,
+  msPerCharacter: 50,
+  pingIntervalMs: 5000,
+};
+
+const SAMPLE_RATE = 16000;
+const BYTES_PER_MS = 32; // 16kHz * 2 bytes per sample / 1000
+const AUDIO_CHUNK_MS = 250;
+const CLIENT_DATA_TIMEOUT_MS = 500; // Start the script even if no dynamic variables arrive
+
+// The fields of client messages the fake reads
+const clientMessageSchema = z.object({
+  type: z.string().optional(),
+  user_audio_chunk: z.string().optional(), // Base64 caller audio; sent without a type
+  dynamic_variables: z.record(z.string()).optional(),
+  text: z.string().optional(),
+  result: z.string().optional(),
+});
+
+/**
+ * One scripted conversation over one client connection
+ */
+class FakeConversation {
+  private ws: WebSocket;
+  private config: FakeElevenLabsConfig;
+  private conversationId: string;
+  private variables: Record<string, string> = {};
+  private stepIndex: number = 0;
+  private started: boolean = false;
+  private userAudioMs: number = 0;
+  private tentativeSent: boolean = false;
+  private eventId: number = 0;
+  private pingInterval: NodeJS.Timeout | null = null;
+  private startTimer: NodeJS.Timeout | null = null;
+
+  constructor(ws: WebSocket, config: FakeElevenLabsConfig, conversationId: string) {
+    this.ws = ws;
+    this.config = config;
+    this.conversationId = conversationId;
+
+    ws.on('message', (data: Buffer) => this.handleMessage(data));
+    ws.on('close', () => this.close());
+
+    this.send({
+      type: 'conversation_initiation_metadata',
+      conversation_initiation_metadata_event: {
+        conversation_id: conversationId,
+        agent_output_audio_format: 'pcm_16000',
+        user_input_audio_format: 'pcm_16000',
+      },
+    });
+
+    this.startTimer = setTimeout(() => this.startScript(), CLIENT_DATA_TIMEOUT_MS);
+    this.pingInterval = setInterval(() => {
+      this.send({ type: 'ping', ping_event: { event_id: this.nextEventId(), ping_ms: null } });
+    }, config.pingIntervalMs);
+  }
+
+  close(): void {
+    if (this.startTimer) {
+      clearTimeout(this.startTimer);
+      this.startTimer = null;
+    }
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+
+  private handleMessage(data: Buffer): void {
+    let json: unknown;
+    try {
+      json = JSON.parse(data.toString());
+    } catch (error) {
+      console.error('[FakeElevenLabs] Failed to parse client message:', error);
+      return;
+    }
+    const parsed = clientMessageSchema.safeParse(json);
+    if (!parsed.success) {
+      console.error('[FakeElevenLabs] Unexpected client message:', parsed.error.message);
+      return;
+    }
+    const message = parsed.data;
+
+    if (message.user_audio_chunk) {
+      this.handleUserAudio(message.user_audio_chunk);
+      return;
+    }
+
+    switch (message.type) {
+      case 'conversation_initiation_client_data':
+        this.variables = message.dynamic_variables || {};
+        console.log(`[FakeElevenLabs] ${this.conversationId}: dynamic variables`, this.variables);
+        this.startScript();
+        break;
+      case 'ping':
+        this.send({ type: 'pong' });
+        break;
+      case 'pong':
+        break;
+      case 'user_message':
+        // Whatever the message, answer with a goodbye and drop the rest of the script
+        console.log(`[FakeElevenLabs] ${this.conversationId}: user message "${message.text}"`);
+        this.stepIndex = this.config.script.length;
+        this.speak("Thanks for your time today, goodbye!");
+        this.callEndCallTool();
+        break;
+      case 'client_tool_result':
+        console.log(`[FakeElevenLabs] ${this.conversationId}: tool result "${message.result}"`);
+        break;
+      default:
+        console.log(`[FakeElevenLabs] ${this.conversationId}: ignoring client message ${message.type}`);
+    }
+  }
+
+  private handleUserAudio(audioBase64: string): void {
+    const step = this.config.script[this.stepIndex];
+    if (!this.started || step?.type !== 'user') return;
+
+    this.userAudioMs += Buffer.from(audioBase64, 'base64').length / BYTES_PER_MS;
+    if (!this.tentativeSent && this.userAudioMs >= this.config.userTurnMs / 2) {
+      this.tentativeSent = true;
+      const words = step.text.split(' ');
+      this.send({
+        type: 'tentative_user_transcript',
+        tentative_user_transcription_event: { user_transcript: words.slice(0, Math.ceil(words.length / 2)).join(' ') },
+      });
+    }
+    if (this.userAudioMs < this.config.userTurnMs) return;
+
+    this.userAudioMs = 0;
+    this.tentativeSent = false;
+    this.send({
+      type: 'user_transcript',
+      user_transcription_event: { user_transcript: step.text, is_final: true, confidence: 1 },
+    });
+    this.stepIndex++;
+    this.runSteps();
+  }
+
+  private startScript(): void {
+    if (this.started) return;
+    this.started = true;
+    if (this.startTimer) {
+      clearTimeout(this.startTimer);
+      this.startTimer = null;
+    }
+    this.runSteps();
+  }
+
+  /**
+   * Play script steps until the next user turn (or the end of the script)
+   */
+  private runSteps(): void {
+    while (this.stepIndex < this.config.script.length) {
+      const step = this.config.script[this.stepIndex];
+      if (step.type === 'user') return;
+
+      if (step.type === 'agent') {
+        this.speak(this.fillVariables(step.text));
+      } else if (step.type === 'end_call') {
+        this.callEndCallTool();
+      } else {
+        this.send({ type: 'interruption', interruption_event: { event_id: this.nextEventId() } });
+      }
+      this.stepIndex++;
+    }
+    console.log(`[FakeElevenLabs] ${this.conversationId}: script finished`);
+  }
+
+  private speak(text: string): void {
+    this.send({ type: 'agent_response', agent_response_event: { agent_response: text } });
+
+    const { msPerCharacter } = this.config;
+    const totalMs = text.length * msPerCharacter;
+    let offsetSamples = 0;
+    for (let ms = 0; ms < totalMs; ms += AUDIO_CHUNK_MS) {
+      const chunkMs = Math.min(AUDIO_CHUNK_MS, totalMs - ms);
+      const chunk = Buffer.alloc(chunkMs * BYTES_PER_MS);
+      for (let i = 0; i < chunk.length / 2; i++) {
+        const t = (offsetSamples + i) / SAMPLE_RATE;
+        chunk.writeInt16LE(Math.round(Math.sin(2 * Math.PI * 300 * t) * 4000), i * 2);
+      }
+      offsetSamples += chunk.length / 2;
+
+      // Every character takes msPerCharacter; a chunk carries the characters starting within it
+      const firstChar = Math.ceil(ms / msPerCharacter);
+      const chars = text.slice(firstChar, Math.ceil((ms + chunkMs) / msPerCharacter)).split('');
+      this.send({
+        type: 'audio',
+        audio_event: {
+          audio_base_64: chunk.toString('base64'),
+          event_id: this.nextEventId(),
+          alignment: {
+            chars,
+            char_start_times_ms: chars.map((_, i) => (firstChar + i) * msPerCharacter - ms),
+            char_durations_ms: chars.map(() => msPerCharacter),
+          },
+        },
+      });
+    }
+  }
+
+  private callEndCallTool(): void {
+    this.send({
+      type: 'client_tool_call',
+      client_tool_call: { tool_name: 'end_call', tool_call_id: `tool_${this.nextEventId()}`, parameters: {} },
+    });
+  }
+
+  private fillVariables(text: string): string {
+    return text.replace(/\{\{(\w+)\}\}/g, (match, name) => this.variables[name] ?? match);
+  }
+
+  private nextEventId(): number {
+    return ++this.eventId;
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+}
+
+export class FakeElevenLabsServer {
+  private config: FakeElevenLabsConfig;
+  private wss: WebSocketServer | null = null;
+  private conversations: Set<FakeConversation> = new Set();
+  private conversationCount: number = 0;
+
+  constructor(config?: Partial<FakeElevenLabsConfig>) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.wss = new WebSocketServer({ port: this.config.port, path: '/v1/convai/conversation' });
+      this.wss.once('listening', () => resolve());
+      this.wss.once('error', reject);
+    });
+
+    this.wss!.on('connection', (ws, req) => {
+      const agentId = new URL(req.url || '', 'ws://localhost').searchParams.get('agent_id');
+      const conversationId = `fake_conv_${++this.conversationCount}`;
+      console.log(`[FakeElevenLabs] Connection for agent ${agentId} → ${conversationId}`);
+
+      const conversation = new FakeConversation(ws, this.config, conversationId);
+      this.conversations.add(conversation);
+      ws.on('close', () => this.conversations.delete(conversation));
+    });
+
+    console.log(`[FakeElevenLabs] Listening on ws://localhost:${this.config.port}`);
+  }
+
+  async stop(): Promise<void> {
+    this.conversations.forEach((conversation) => conversation.close());
+    this.conversations.clear();
+
+    if (this.wss) {
+      const wss = this.wss;
+      this.wss = null;
+      wss.clients.forEach((client) => client.terminate());
+      await new Promise<void>((resolve) => wss.close(() => resolve()));
+    }
+  }
+}
+
+// Standalone entry point
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const server = new FakeElevenLabsServer({
+    port: parseInt(process.env.FAKE_ELEVENLABS_PORT || '8765', 10),
+  });
+
+  server.start().catch((error) => {
+    console.error('[FakeElevenLabs] Failed to start:', error);
+    process.exit(1);
+  });
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
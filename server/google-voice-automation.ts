@@ -1,14 +1,17 @@
 import { chromium, type BrowserContext, type Page } from 'playwright';
 import path from 'path';
-import { CallStateMonitor, CallState, type CallStateChange, type CallMonitorConfig } from './call-state-monitor.js';
-import { CallStateDetector, createCallDetector, type TimeoutConfig } from './call-state-detector.js';
+import { CallStateEngine, type CallStateConfig } from './call-state-engine.js';
+import { GoogleVoiceAudioStream } from './google-voice-audio.js';
+import { getWindowsAudioDevices } from './audio-config.js';
+import type { TelephonyProvider, CallStateSource, CallAudioStream } from './telephony.js';
 
 interface GoogleVoiceConfig {
   email: string;
   password: string;
 }
 
-class GoogleVoiceDialer {
+class GoogleVoiceDialer implements TelephonyProvider {
+  readonly name = 'google_voice' as const;
   private context: BrowserContext | null = null;
   private page: Page | null = null;
   private isLoggedIn: boolean = false;
@@ -649,10 +652,12 @@ class GoogleVoiceDialer {
               await element.fill(phoneNumber);
               await this.page.waitForTimeout(500);
               
-              // Verify the number was entered (normalize both by removing non-digits)
+              // Verify the number was entered (normalize both by removing non-digits
+              // and the +1 country code, which Google Voice may not display)
+              const toDigits = (n: string) => n.replace(/[^\d]/g, '').replace(/^1(\d{10})$/, '$1');
               const value = await element.inputValue();
-              const valueDigits = value.replace(/[^\d]/g, '');
-              const phoneDigits = phoneNumber.replace(/[^\d]/g, '');
+              const valueDigits = toDigits(value);
+              const phoneDigits = toDigits(phoneNumber);
               
               // Require exact match (both must be non-empty and equal)
               if (valueDigits.length > 0 && valueDigits === phoneDigits) {
@@ -855,6 +860,13 @@ class GoogleVoiceDialer {
     }
   }
 
+  /**
+   * TelephonyProvider: dial a number from the Google Voice web client
+   */
+  async dial(phoneNumber: string): Promise<boolean> {
+    return await this.dialNumber(phoneNumber);
+  }
+
   async hangup() {
     if (!this.page) return;
 
@@ -875,23 +887,26 @@ class GoogleVoiceDialer {
   }
 
   /**
-   * Create a call state monitor for the current page (LEGACY - use createCallDetector instead)
+   * TelephonyProvider: call state comes from the page's DOM, call timer and console,
+   * plus call audio (see call-state-engine.ts)
    */
-  createCallStateMonitor(config?: Partial<CallMonitorConfig>): CallStateMonitor {
+  createCallStateSource(config?: Partial<CallStateConfig>): CallStateSource {
     if (!this.page) {
       throw new Error('Browser not initialized');
     }
-    return new CallStateMonitor(this.page, config);
+    return new CallStateEngine(this.page, () => this.hangup(), config);
   }
 
   /**
-   * Create a robust call state detector for the current page (NEW - state machine based)
+   * TelephonyProvider: call audio is routed through Virtual Audio Cable
+   * (browser captures Line 1, SoX plays AI audio to Line 2)
    */
-  createCallDetector(config?: Partial<TimeoutConfig>): CallStateDetector {
+  createAudioStream(callId: string): CallAudioStream {
     if (!this.page) {
       throw new Error('Browser not initialized');
     }
-    return createCallDetector(this.page, config);
+    const { playbackDevice } = getWindowsAudioDevices();
+    return new GoogleVoiceAudioStream(this.page, callId, playbackDevice);
   }
 
   async close() {
@@ -3,12 +3,15 @@ import { validateEnv } from "./config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { campaignRunner } from "./campaign-runner";
+import { recordingRetention } from "./recording-retention";
+import { storage } from "./storage";
 
 // Validate environment variables on startup
 validateEnv();
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: "20mb" })); // CSV imports are posted as JSON
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -68,12 +71,38 @@ app.use((req, res, next) => {
   const port = parseInt(process.env.PORT || '5000', 10);
   server.listen(port, "0.0.0.0", () => {
     log(`serving on port ${port}`);
+
+    // Re-attach campaigns that were running when the server last went down
+    campaignRunner.recover().catch((error) => {
+      console.error('[CampaignRunner] Recovery failed:', error);
+    });
+
+    // Delete recordings the retention policy no longer allows to keep
+    recordingRetention.start();
+
+    // Recordings saved before durations were numeric only have the legacy text
+    storage.backfillRecordingDurations()
+      .then((count) => {
+        if (count > 0) console.log(`[Recordings] Converted ${count} legacy recording durations`);
+      })
+      .catch((error) => console.error('[Recordings] Duration backfill failed:', error));
+
+    // Imports run before their files were cleared still hold the uploaded CSV
+    storage.clearRunImportFiles()
+      .then((count) => {
+        if (count > 0) console.log(`[ContactImport] Cleared the files of ${count} finished imports`);
+      })
+      .catch((error) => console.error('[ContactImport] Clearing finished import files failed:', error));
   });
 
   // Graceful shutdown handlers to clean up resources
   const shutdown = async () => {
     log('Shutting down gracefully...');
     
+    // Detach campaign runs so they are recovered on next boot
+    await campaignRunner.shutdown();
+    recordingRetention.stop();
+
     // Import and shutdown WebSocket server
     const { campaignWebSocket } = await import('./websocket');
     campaignWebSocket.shutdown();
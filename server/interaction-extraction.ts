@@ -0,0 +1,132 @@
+/**
+ * Call Data Extraction
+ *
+ * After a call, its transcript is read by an LLM that fills the structured
+ * fields shown as "AI Insights" (call_interactions):
+ * - interest_level:      high | medium | low
+ * - callback_preference: when the contact wants to be called back, in their words
+ * - concerns:            objections or worries the contact raised
+ * - opt_in_status:       yes | no | opted_out
+ * each with a confidence and the source of the evidence.
+ *
+ * Any OpenAI-compatible chat completions endpoint works (see llm.ts); these
+ * override the OPENAI_* settings for extraction only:
+ * - EXTRACTION_BASE_URL: e.g. http://localhost:11434/v1 for a local model
+ * - EXTRACTION_API_KEY:  not needed with a base URL
+ * - EXTRACTION_MODEL
+ *
+ * Extracted rows record the model in extractedBy, so extraction can be re-run
+ * for a call without touching values captured during the call (e.g. opt-outs).
+ */
+
+import { z } from "zod";
+import type { CallHistory, CallInteraction, ConversationTranscript, InsertCallInteraction } from "@shared/schema";
+import { storage } from "./storage";
+import { getLlm, LLM_ENDPOINT_SETTINGS, type Llm } from "./llm";
+
+const EXTRACTED_FIELDS = ['interest_level', 'callback_preference', 'concerns', 'opt_in_status'] as const;
+type ExtractedField = typeof EXTRACTED_FIELDS[number];
+
+const FIELD_VALUE_SCHEMAS: Record<ExtractedField, z.ZodType<string>> = {
+  interest_level: z.enum(['high', 'medium', 'low']),
+  callback_preference: z.string().trim().min(1).max(200),
+  concerns: z.string().trim().min(1).max(1000),
+  opt_in_status: z.enum(['yes', 'no', 'opted_out']),
+};
+
+const extractedValueSchema = z.object({
+  value: z.string(),
+  confidence: z.enum(['high', 'medium', 'low']),
+  source: z.enum(['user_transcript', 'agent_inference', 'conversation_flow']),
+});
+
+const EXTRACTION_PROMPT = `You read transcripts of sales and outreach phone calls between an AI agent and a contact.
+Extract what the contact revealed and reply with a JSON object with exactly these keys:
+- "interest_level": how interested the contact is - "high", "medium" or "low"
+- "callback_preference": when the contact wants to be called back, in a few words (e.g. "Tomorrow after 5pm")
+- "concerns": objections or worries the contact raised, in one or two sentences
+- "opt_in_status": "yes" if the contact agreed to hear more or be contacted again, "no" if they declined, "opted_out" if they asked not to be called again
+Each key is either null (the call gives no evidence) or an object {"value": string, "confidence": "high" | "medium" | "low", "source": "user_transcript" | "agent_inference" | "conversation_flow"}.
+Use source "user_transcript" when the contact said it outright, "agent_inference" when it is inferred from what the contact said, and "conversation_flow" when it follows from how the call went (e.g. the contact hung up early).
+Do not guess - use null when unsure.`;
+
+type TranscriptTurn = Pick<ConversationTranscript, 'speaker' | 'message'>;
+
+export const NO_EXTRACTION_LLM_MESSAGE =
+  `No extraction LLM configured - set ${['EXTRACTION_BASE_URL', 'EXTRACTION_API_KEY', ...LLM_ENDPOINT_SETTINGS].join(' or ')}`;
+
+/**
+ * The LLM to extract with, or null when no endpoint is configured
+ */
+export function getExtractionLlm(): Llm | null {
+  return getLlm({
+    baseURL: process.env.EXTRACTION_BASE_URL,
+    apiKey: process.env.EXTRACTION_API_KEY,
+    model: process.env.EXTRACTION_MODEL,
+  });
+}
+
+/**
+ * The valid fields of an LLM reply; anything malformed is left out
+ */
+function parseExtraction(content: string): Array<Pick<InsertCallInteraction, 'field' | 'value' | 'confidence' | 'source'>> {
+  // Some local models wrap the JSON in prose or code fences
+  const json = content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1);
+  let reply: Record<string, unknown>;
+  try {
+    reply = JSON.parse(json);
+  } catch {
+    throw new Error(`LLM reply is not JSON: ${content.substring(0, 200)}`);
+  }
+
+  const fields = [];
+  for (const field of EXTRACTED_FIELDS) {
+    if (reply[field] == null) continue;
+
+    const extracted = extractedValueSchema.safeParse(reply[field]);
+    const value = extracted.success ? FIELD_VALUE_SCHEMAS[field].safeParse(extracted.data.value) : null;
+    if (!extracted.success || !value?.success) {
+      console.warn(`[Extraction] Ignoring invalid ${field}:`, reply[field]);
+      continue;
+    }
+    fields.push({ field, value: value.data, confidence: extracted.data.confidence, source: extracted.data.source });
+  }
+  return fields;
+}
+
+/**
+ * Extract a call's data from its transcript, replacing any earlier extraction
+ * Returns the new interactions (fields without evidence are not stored)
+ */
+export async function extractCallInteractions(
+  call: Pick<CallHistory, 'id' | 'contactId'>,
+  transcript: TranscriptTurn[],
+): Promise<CallInteraction[]> {
+  const llm = getExtractionLlm();
+  if (!llm) {
+    throw new Error(NO_EXTRACTION_LLM_MESSAGE);
+  }
+
+  const conversation = transcript
+    .map((turn) => `${turn.speaker === 'agent' ? 'Agent' : 'Contact'}: ${turn.message}`)
+    .join('\n');
+
+  const completion = await llm.client.chat.completions.create({
+    model: llm.model,
+    temperature: 0,
+    response_format: { type: 'json_object' },
+    messages: [
+      { role: 'system', content: EXTRACTION_PROMPT },
+      { role: 'user', content: conversation },
+    ],
+  });
+
+  const fields = parseExtraction(completion.choices[0]?.message?.content ?? '');
+  const interactions = await storage.replaceExtractedCallInteractions(
+    call.id,
+    fields.map((field) => ({ ...field, callHistoryId: call.id, contactId: call.contactId, extractedBy: llm.model })),
+  );
+
+  console.log(`[Extraction] Call ${call.id}: extracted ${interactions.map((i) => i.field).join(', ') || 'nothing'} with ${llm.model}`);
+  return interactions;
+}
@@ -0,0 +1,233 @@
+/**
+ * Live Call Monitoring
+ *
+ * Keeps track of the calls campaigns are dialing right now, so a supervisor
+ * can follow them as they happen: state transitions from the call state
+ * engine, the conversation's transcript turns and interruptions. Every change
+ * is emitted as an 'update' event (a LiveCallEvent), which the WebSocket
+ * server broadcasts on /ws; GET /api/live-calls returns the current snapshot
+ * for clients that connect mid-call.
+ *
+ * Listen-in: the call's audio is passed on to listeners as it is heard -
+ * caller audio as it arrives, AI audio as it is queued for playback (16kHz
+ * 16-bit mono PCM, tagged with its channel). When the caller interrupts, the
+ * AI audio the listener has queued but not played yet is dropped.
+ *
+ * An ended call stays in the snapshot for ENDED_CALL_LINGER_MS so the
+ * supervisor can see how it ended.
+ */
+
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import type { AudioStreamHandler, ConversationTurn } from "./audio-handler";
+import type { StateTransition } from "./call-state-engine";
+import type { CallAudioStream } from "./telephony";
+
+const ENDED_CALL_LINGER_MS = 60 * 1000;
+
+export type ListenChannel = 'caller' | 'agent';
+
+export interface LiveCallTransition {
+  state: string;
+  reason: string;
+  at: number;
+}
+
+export interface LiveCallInterruption {
+  offsetMs: number | null; // On the recording's timeline
+  at: number;
+}
+
+export interface LiveCall {
+  id: string;
+  campaignId: string;
+  campaignName: string;
+  contactId: string;
+  contactName: string;
+  phone: string;
+  callHistoryId: string | null; // Set once the dial succeeds
+  state: string;
+  startedAt: number;
+  endedAt: number | null;
+  transitions: LiveCallTransition[];
+  turns: ConversationTurn[];
+  interruptions: LiveCallInterruption[];
+  audioAvailable: boolean; // The call has an audio stream to listen in on
+}
+
+export type LiveCallEvent =
+  | { type: 'live_call_started'; call: LiveCall }
+  | { type: 'live_call_updated'; callId: string; callHistoryId: string | null; audioAvailable: boolean }
+  | { type: 'live_call_state'; callId: string; transition: LiveCallTransition }
+  | { type: 'live_call_turn'; callId: string; turn: ConversationTurn }
+  | { type: 'live_call_interruption'; callId: string; interruption: LiveCallInterruption }
+  | { type: 'live_call_ended'; callId: string; endedAt: number }
+  | { type: 'live_call_removed'; callId: string };
+
+/**
+ * Receives a call's audio for listen-in
+ */
+export interface CallListener {
+  audio(channel: ListenChannel, pcm: Buffer): void;
+  agentAudioCleared(): void; // The caller interrupted the AI
+  ended(): void;
+}
+
+class LiveCallMonitor extends EventEmitter {
+  private calls = new Map<string, LiveCall>();
+  private callListeners = new Map<string, Set<CallListener>>();
+
+  /**
+   * A campaign is dialing a contact; returns the live call's id
+   */
+  begin(details: Pick<LiveCall, 'campaignId' | 'campaignName' | 'contactId' | 'contactName' | 'phone'>): string {
+    const now = Date.now();
+    const call: LiveCall = {
+      ...details,
+      id: randomUUID(),
+      callHistoryId: null,
+      state: 'dialing',
+      startedAt: now,
+      endedAt: null,
+      transitions: [{ state: 'dialing', reason: 'Dialing', at: now }],
+      turns: [],
+      interruptions: [],
+      audioAvailable: false,
+    };
+    this.calls.set(call.id, call);
+    this.publish({ type: 'live_call_started', call });
+    return call.id;
+  }
+
+  setCallHistoryId(callId: string, callHistoryId: string): void {
+    const call = this.calls.get(callId);
+    if (!call) return;
+    call.callHistoryId = callHistoryId;
+    this.publishDetails(call);
+  }
+
+  recordTransition(callId: string, transition: StateTransition): void {
+    const call = this.calls.get(callId);
+    if (!call) return;
+
+    const entry: LiveCallTransition = { state: transition.toState, reason: transition.reason, at: transition.timestamp };
+    call.state = entry.state;
+    call.transitions.push(entry);
+    this.publish({ type: 'live_call_state', callId, transition: entry });
+  }
+
+  /**
+   * Pass the caller's audio on to listeners, from the moment the call's audio stream exists
+   */
+  attachAudioStream(callId: string, stream: CallAudioStream): void {
+    const call = this.calls.get(callId);
+    if (!call) return;
+
+    stream.on('inbound_audio', (chunk: Buffer) => this.sendAudio(callId, 'caller', chunk));
+    call.audioAvailable = true;
+    this.publishDetails(call);
+  }
+
+  /**
+   * Follow the AI conversation: transcript turns, interruptions and the AI's audio
+   */
+  attachAudioHandler(callId: string, handler: AudioStreamHandler): void {
+    if (!this.calls.has(callId)) return;
+
+    handler.on('transcript_turn', (turn: ConversationTurn) => this.recordTurn(callId, turn));
+    handler.on('agent_audio', (pcm: Buffer) => this.sendAudio(callId, 'agent', pcm));
+    handler.on('interruption', (offsetMs: number | null) => this.recordInterruption(callId, offsetMs));
+  }
+
+  /**
+   * The call is over: listeners are let go and the call is dropped from the snapshot after a while
+   */
+  end(callId: string): void {
+    const call = this.calls.get(callId);
+    if (!call || call.endedAt !== null) return;
+
+    call.endedAt = Date.now();
+    call.audioAvailable = false;
+    this.publish({ type: 'live_call_ended', callId, endedAt: call.endedAt });
+
+    this.callListeners.get(callId)?.forEach((listener) => listener.ended());
+    this.callListeners.delete(callId);
+
+    setTimeout(() => {
+      this.calls.delete(callId);
+      this.publish({ type: 'live_call_removed', callId });
+    }, ENDED_CALL_LINGER_MS).unref();
+  }
+
+  getCalls(): LiveCall[] {
+    return Array.from(this.calls.values());
+  }
+
+  getCall(callId: string): LiveCall | undefined {
+    return this.calls.get(callId);
+  }
+
+  /**
+   * Start listening in on a call; returns a function that stops listening,
+   * or null when the call is not live
+   */
+  listen(callId: string, listener: CallListener): (() => void) | null {
+    const call = this.calls.get(callId);
+    if (!call || call.endedAt !== null) return null;
+
+    let listeners = this.callListeners.get(callId);
+    if (!listeners) {
+      listeners = new Set();
+      this.callListeners.set(callId, listeners);
+    }
+    listeners.add(listener);
+    console.log(`[LiveCalls] Listening in on call ${callId} (${listeners.size} listeners)`);
+
+    return () => {
+      this.callListeners.get(callId)?.delete(listener);
+    };
+  }
+
+  private recordTurn(callId: string, turn: ConversationTurn): void {
+    const call = this.calls.get(callId);
+    if (!call) return;
+
+    // Updates to a turn replace it
+    const index = call.turns.findIndex((existing) => existing.id === turn.id);
+    if (index === -1) {
+      call.turns.push(turn);
+    } else {
+      call.turns[index] = turn;
+    }
+    this.publish({ type: 'live_call_turn', callId, turn });
+  }
+
+  private recordInterruption(callId: string, offsetMs: number | null): void {
+    const call = this.calls.get(callId);
+    if (!call) return;
+
+    const interruption: LiveCallInterruption = { offsetMs, at: Date.now() };
+    call.interruptions.push(interruption);
+    this.publish({ type: 'live_call_interruption', callId, interruption });
+    this.callListeners.get(callId)?.forEach((listener) => listener.agentAudioCleared());
+  }
+
+  private sendAudio(callId: string, channel: ListenChannel, pcm: Buffer): void {
+    this.callListeners.get(callId)?.forEach((listener) => listener.audio(channel, pcm));
+  }
+
+  private publishDetails(call: LiveCall): void {
+    this.publish({
+      type: 'live_call_updated',
+      callId: call.id,
+      callHistoryId: call.callHistoryId,
+      audioAvailable: call.audioAvailable,
+    });
+  }
+
+  private publish(event: LiveCallEvent): void {
+    this.emit('update', event);
+  }
+}
+
+export const liveCallMonitor = new LiveCallMonitor();
@@ -0,0 +1,64 @@
+/**
+ * Live Transcript Persistence
+ *
+ * Saves a call's conversation to conversation_transcripts while it happens
+ * rather than when the call ends: a turn is inserted as soon as the handler
+ * reports it ('transcript_turn') and updated in place as it changes - a
+ * tentative contact line becoming final, an agent line's offsets and word
+ * timings filling in as its audio plays, an interruption cutting it short.
+ *
+ * Writes are chained so they reach the database in the order they happened.
+ */
+
+import type { InsertConversationTranscript } from "@shared/schema";
+import type { AudioStreamHandler, ConversationTurn } from "./audio-handler";
+import { storage } from "./storage";
+
+export class LiveTranscriptWriter {
+  private callHistoryId: string;
+  private rowIds = new Map<number, string>(); // Turn id → conversation_transcripts id
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(callHistoryId: string) {
+    this.callHistoryId = callHistoryId;
+  }
+
+  attach(handler: AudioStreamHandler): void {
+    handler.on('transcript_turn', (turn: ConversationTurn) => this.write(turn));
+  }
+
+  /**
+   * Resolves once every turn reported so far is saved
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  private write(turn: ConversationTurn): void {
+    this.writes = this.writes
+      .then(() => this.save(turn))
+      .catch((error) => {
+        console.error(`[Transcript] Failed to save turn ${turn.id} of call ${this.callHistoryId}:`, error);
+      });
+  }
+
+  private async save(turn: ConversationTurn): Promise<void> {
+    const values: Omit<InsertConversationTranscript, 'callHistoryId'> = {
+      speaker: turn.speaker,
+      message: turn.message,
+      timestamp: turn.timestamp,
+      startMs: turn.startMs,
+      endMs: turn.endMs,
+      status: turn.status,
+      words: turn.words ?? null,
+    };
+
+    const rowId = this.rowIds.get(turn.id);
+    if (rowId) {
+      await storage.updateConversationTranscript(rowId, values);
+    } else {
+      const row = await storage.createConversationTranscript({ callHistoryId: this.callHistoryId, ...values });
+      this.rowIds.set(turn.id, row.id);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * LLM Client
+ *
+ * The end-of-call classifier, opt-out confirmation and call data extraction
+ * all talk to an OpenAI-compatible chat completions endpoint:
+ * - OPENAI_BASE_URL: e.g. http://localhost:11434/v1 for a local model
+ *   (defaults to api.openai.com)
+ * - OPENAI_API_KEY:  not needed with a base URL
+ * - OPENAI_MODEL:    defaults to gpt-4o-mini
+ * A feature may override these with its own settings (see interaction-extraction.ts).
+ */
+
+import OpenAI from "openai";
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+// Either one configures the endpoint - for messages about a missing LLM
+export const LLM_ENDPOINT_SETTINGS = ['OPENAI_API_KEY', 'OPENAI_BASE_URL'];
+
+export interface Llm {
+  client: OpenAI;
+  model: string;
+}
+
+/**
+ * The configured LLM, or null when no endpoint is configured
+ */
+export function getLlm(overrides: { baseURL?: string; apiKey?: string; model?: string } = {}): Llm | null {
+  const baseURL = overrides.baseURL || process.env.OPENAI_BASE_URL;
+  const apiKey = overrides.apiKey || process.env.OPENAI_API_KEY;
+  if (!apiKey && !baseURL) return null;
+
+  return {
+    // Local endpoints ignore the key, but the client requires one
+    client: new OpenAI({ apiKey: apiKey || 'not-needed', baseURL }),
+    model: overrides.model || process.env.OPENAI_MODEL || DEFAULT_MODEL,
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Opt-out detection - what counts as asking not to be called again
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ConversationTurn } from "./audio-handler";
+import { findOptOut, findOptOutPhrase } from "./opt-out";
+
+function turn(id: number, speaker: ConversationTurn['speaker'], message: string, status: ConversationTurn['status'] = 'final'): ConversationTurn {
+  return { id, speaker, message, timestamp: new Date(), startMs: null, endMs: null, status };
+}
+
+test("requests not to be called again are opt-outs", () => {
+  const requests = [
+    "Stop calling me.",
+    "Please stop calling this number!",
+    "No, don't call me again.",
+    "Don’t ever call here again",
+    "Okay look, can you please take me off your list?",
+    "Remove my number from your calling list, thanks.",
+    "Put me on your do not call list",
+    "I'd like you to stop calling me",
+    "I don't want any more calls.",
+    "I don't want you calling me anymore",
+    "No more calls, please.",
+    "Unsubscribe",
+  ];
+  for (const request of requests) {
+    assert.ok(findOptOutPhrase(request), request);
+  }
+});
+
+test("the phrase is the sentence that asked", () => {
+  assert.equal(findOptOutPhrase("I'm busy. Stop calling me, please. Bye."), "Stop calling me");
+});
+
+test("mentions of calling that are not requests are not opt-outs", () => {
+  const mentions = [
+    "My bank won't stop calling me.",
+    "Don't call me before noon",
+    "I never call back unknown numbers.",
+    "Can you remove me from the meeting invite?",
+    "Sure, please call me again next week.",
+    "Did you say do not call?",
+    "The unsubscribe link didn't work",
+  ];
+  for (const mention of mentions) {
+    assert.equal(findOptOutPhrase(mention), undefined, mention);
+  }
+});
+
+test("only the contact's final turns are read", () => {
+  assert.equal(findOptOut([
+    turn(1, 'agent', "Would you like me to stop calling you?"),
+    turn(2, 'contact', "Stop calling", 'tentative'),
+    turn(3, 'contact', "Stop calling so late, please call before dinner."),
+  ]), undefined);
+
+  const transcript = [turn(1, 'agent', "Hi there!"), turn(2, 'contact', "Take me off your list.")];
+  assert.deepEqual(findOptOut(transcript), { turn: transcript[1], phrase: "Take me off your list" });
+});
@@ -0,0 +1,106 @@
+/**
+ * Opt-Out Detection
+ *
+ * Finds a contact asking not to be called again in a call's transcript, so
+ * their number can go on the DNC list (see dnc.ts):
+ * - only the contact's final turns are read - tentative transcripts are
+ *   partial guesses that the final one may contradict
+ * - each sentence of a turn is matched as a whole against opt-out requests
+ *   ("stop calling me", "take me off your list, please"), so mentions such as
+ *   "my bank won't stop calling" or "don't call me before noon" do not count
+ * - when an LLM is configured (see llm.ts), it confirms the request
+ *   in the context of the conversation before anything is written
+ */
+
+import type { ConversationTurn } from "./audio-handler";
+import type { Llm } from "./llm";
+
+const CONFIRM_TURNS = 6; // Turns of context given to the LLM, up to the opt-out
+
+// Fillers a request may open with: "okay look, can you please ..."
+const LEAD = String.raw`^(?:(?:ok(?:ay)?|look|listen|no|so|and|just|please|sir|ma'am|hey)\s+)*` +
+  String.raw`(?:(?:can|could|would|will) you\s+|i(?: want| need|'d like| would like) you to\s+)?(?:please\s+|just\s+)*`;
+// ...and close with: "... please", "... thanks"
+const TAIL = String.raw`(?:\s+(?:please|thanks|thank you|ok(?:ay)?|alright|now))*$`;
+
+const WHO = String.raw`(?:me|us|here|this number|my number)`;
+const AGAIN = String.raw`(?:\s+(?:again|anymore|ever again))?`;
+const LIST = String.raw`(?:your|the|this|my)\s+(?:(?:do not call|call(?:ing)?|contact|mailing)\s+)?list`;
+
+const OPT_OUT_REQUESTS = [
+  String.raw`(?:stop|quit) calling(?:\s+${WHO})?${AGAIN}`,
+  String.raw`(?:don't|do not|never)(?:\s+ever)? call\s+${WHO}${AGAIN}`,
+  String.raw`(?:remove|take)\s+(?:me|my number)\s+(?:from|off(?: of)?)\s+${LIST}`,
+  String.raw`(?:put|add)\s+(?:me|my number)\s+(?:on|to)\s+${LIST}`,
+  String.raw`i (?:don't|do not) want (?:any more|to (?:get|receive) any more) calls`,
+  String.raw`i (?:don't|do not) want (?:you|anyone) (?:to )?call(?:ing)?\s+${WHO}${AGAIN}`,
+  String.raw`no more calls`,
+  String.raw`unsubscribe(?: me)?`,
+];
+
+const OPT_OUT_PATTERNS: RegExp[] = OPT_OUT_REQUESTS.map((request) => new RegExp(LEAD + request + TAIL, 'i'));
+
+const CONFIRM_PROMPT =
+  "You review phone calls made by an AI agent. Given the latest turns of a call, decide whether the contact's last line " +
+  "asks not to be called again. Complaints about other callers, hypotheticals, quotes and requests about when to call " +
+  "do not count. Reply with only OPT_OUT or NO.";
+
+export interface OptOut {
+  turn: ConversationTurn;
+  phrase: string; // The sentence that asked
+}
+
+/**
+ * The sentence of an utterance that asks not to be called again, if any
+ */
+export function findOptOutPhrase(text: string): string | undefined {
+  const sentences = text
+    .replace(/[’‘]/g, "'")
+    .split(/[.!?;,:]+/)
+    .map((sentence) => sentence.trim().replace(/\s+/g, ' '))
+    .filter(Boolean);
+
+  for (const sentence of sentences) {
+    if (OPT_OUT_PATTERNS.some((pattern) => pattern.test(sentence))) {
+      return sentence;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The contact's first final turn that asks not to be called again, if any
+ */
+export function findOptOut(transcript: ConversationTurn[]): OptOut | undefined {
+  for (const turn of transcript) {
+    if (turn.speaker !== 'contact' || turn.status !== 'final') continue;
+    const phrase = findOptOutPhrase(turn.message);
+    if (phrase) {
+      return { turn, phrase };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Ask the LLM whether an opt-out the patterns found is really one
+ */
+export async function confirmOptOut(llm: Llm, transcript: ConversationTurn[], optOut: OptOut): Promise<boolean> {
+  const end = transcript.indexOf(optOut.turn) + 1;
+  const conversation = transcript
+    .slice(Math.max(0, end - CONFIRM_TURNS), end)
+    .map((turn) => `${turn.speaker === 'agent' ? 'Agent' : 'Contact'}: ${turn.message}`)
+    .join('\n');
+
+  const completion = await llm.client.chat.completions.create({
+    model: llm.model,
+    temperature: 0,
+    max_completion_tokens: 5,
+    messages: [
+      { role: 'system', content: CONFIRM_PROMPT },
+      { role: 'user', content: conversation },
+    ],
+  });
+  const verdict = completion.choices[0]?.message?.content?.trim().toUpperCase() ?? '';
+  return verdict.startsWith('OPT_OUT');
+}
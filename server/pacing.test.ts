@@ -0,0 +1,98 @@
+/**
+ * Campaign pacing - delays between calls and the hourly/daily caps
+ */
+
+import { afterEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Campaign } from "@shared/schema";
+import { getDelayAfterCall, getPacingPolicy, getRateLimitWait, type PacingPolicy } from "./pacing";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const POLICY: PacingPolicy = {
+  delayAfterCompleted: { min: 180, max: 360 },
+  delayAfterFailed: { min: 30, max: 60 },
+  maxCallsPerHour: null,
+  maxCallsPerDay: null,
+  jitter: "uniform",
+};
+
+afterEach(() => mock.restoreAll());
+
+function minutesAgo(now: Date, minutes: number): Date {
+  return new Date(now.getTime() - minutes * MINUTE_MS);
+}
+
+test("a campaign's pacing settings become its policy", () => {
+  const policy = getPacingPolicy({
+    delayAfterCompletedMin: 10,
+    delayAfterCompletedMax: 20,
+    delayAfterFailedMin: 5,
+    delayAfterFailedMax: 8,
+    maxCallsPerHour: 30,
+    maxCallsPerDay: null,
+    pacingJitter: "normal",
+  } as Campaign);
+  assert.deepEqual(policy, {
+    delayAfterCompleted: { min: 10, max: 20 },
+    delayAfterFailed: { min: 5, max: 8 },
+    maxCallsPerHour: 30,
+    maxCallsPerDay: null,
+    jitter: "normal",
+  });
+});
+
+test("failed calls use the failed range, everything else the completed range", () => {
+  mock.method(Math, "random", () => 0);
+  assert.equal(getDelayAfterCall(POLICY, "failed"), 30 * 1000);
+  assert.equal(getDelayAfterCall(POLICY, "completed"), 180 * 1000);
+  assert.equal(getDelayAfterCall(POLICY, "pending"), 180 * 1000);
+});
+
+test("uniform jitter spans the whole range", () => {
+  mock.method(Math, "random", () => 0.999);
+  assert.equal(getDelayAfterCall(POLICY, "completed"), Math.round(359.82 * 1000));
+});
+
+test("normal jitter stays inside the range", () => {
+  const policy: PacingPolicy = { ...POLICY, jitter: "normal" };
+  for (let i = 0; i < 1000; i++) {
+    const delay = getDelayAfterCall(policy, "completed");
+    assert.ok(delay >= 180 * 1000 && delay <= 360 * 1000, `${delay}`);
+  }
+});
+
+test("no jitter always waits the minimum", () => {
+  assert.equal(getDelayAfterCall({ ...POLICY, jitter: "none" }, "completed"), 180 * 1000);
+});
+
+test("a range entered backwards is read the right way round", () => {
+  const policy: PacingPolicy = { ...POLICY, delayAfterCompleted: { min: 60, max: 10 }, jitter: "none" };
+  assert.equal(getDelayAfterCall(policy, "completed"), 10 * 1000);
+});
+
+test("without caps a call may always be placed", () => {
+  const now = new Date();
+  const calls = Array.from({ length: 100 }, (_, i) => minutesAgo(now, 100 - i));
+  assert.equal(getRateLimitWait(POLICY, calls, now), 0);
+});
+
+test("under the hourly cap a call may be placed now", () => {
+  const now = new Date();
+  const calls = [minutesAgo(now, 50), minutesAgo(now, 10)];
+  assert.equal(getRateLimitWait({ ...POLICY, maxCallsPerHour: 3 }, calls, now), 0);
+});
+
+test("at the hourly cap the wait lasts until the oldest call in the hour ages out", () => {
+  const now = new Date();
+  const calls = [minutesAgo(now, 90), minutesAgo(now, 50), minutesAgo(now, 20), minutesAgo(now, 10)];
+  assert.equal(getRateLimitWait({ ...POLICY, maxCallsPerHour: 3 }, calls, now), 10 * MINUTE_MS);
+});
+
+test("the longer of the hourly and daily waits applies", () => {
+  const now = new Date();
+  const calls = [minutesAgo(now, 23 * 60), minutesAgo(now, 30)];
+  const policy: PacingPolicy = { ...POLICY, maxCallsPerHour: 1, maxCallsPerDay: 2 };
+  assert.equal(getRateLimitWait(policy, calls, now), HOUR_MS);
+});
@@ -0,0 +1,94 @@
+/**
+ * Campaign Pacing
+ *
+ * Controls how fast a campaign dials:
+ * - a delay after each call, drawn from a [min, max] range that differs for
+ *   completed and failed calls
+ * - optional caps on calls per rolling hour / rolling day
+ *
+ * The defaults (3-6 minutes uniform after every call, no caps) match the
+ * original hard-coded behavior.
+ */
+
+import { pacingJitterModes, type Campaign } from "@shared/schema";
+
+export type PacingJitter = typeof pacingJitterModes[number];
+
+export interface PacingPolicy {
+  delayAfterCompleted: { min: number; max: number }; // Seconds
+  delayAfterFailed: { min: number; max: number }; // Seconds
+  maxCallsPerHour: number | null;
+  maxCallsPerDay: number | null;
+  jitter: PacingJitter;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * The pacing policy configured on a campaign
+ */
+export function getPacingPolicy(campaign: Campaign): PacingPolicy {
+  return {
+    delayAfterCompleted: { min: campaign.delayAfterCompletedMin, max: campaign.delayAfterCompletedMax },
+    delayAfterFailed: { min: campaign.delayAfterFailedMin, max: campaign.delayAfterFailedMax },
+    maxCallsPerHour: campaign.maxCallsPerHour,
+    maxCallsPerDay: campaign.maxCallsPerDay,
+    jitter: campaign.pacingJitter as PacingJitter,
+  };
+}
+
+/**
+ * Draw a value in [0, 1] according to the jitter mode
+ */
+function sampleJitter(jitter: PacingJitter): number {
+  switch (jitter) {
+    case 'none':
+      return 0;
+    case 'normal': {
+      // Average of three uniforms - bell-shaped around the midpoint, never outside [0, 1]
+      return (Math.random() + Math.random() + Math.random()) / 3;
+    }
+    case 'uniform':
+    default:
+      return Math.random();
+  }
+}
+
+/**
+ * Delay before the next call, in milliseconds
+ * Failed calls use the failed range; everything else uses the completed range
+ */
+export function getDelayAfterCall(policy: PacingPolicy, outcome: 'completed' | 'failed' | 'pending'): number {
+  const range = outcome === 'failed' ? policy.delayAfterFailed : policy.delayAfterCompleted;
+  const min = Math.min(range.min, range.max);
+  const max = Math.max(range.min, range.max);
+  return Math.round((min + (max - min) * sampleJitter(policy.jitter)) * 1000);
+}
+
+/**
+ * How long to wait before another call fits under the hourly/daily caps
+ * callTimes are the campaign's calls over (at least) the last 24 hours, oldest first
+ * Returns 0 when a call may be placed now
+ */
+export function getRateLimitWait(policy: PacingPolicy, callTimes: Date[], now: Date = new Date()): number {
+  let wait = 0;
+
+  const windows: Array<[number | null, number]> = [
+    [policy.maxCallsPerHour, HOUR_MS],
+    [policy.maxCallsPerDay, DAY_MS],
+  ];
+
+  for (const [limit, windowMs] of windows) {
+    if (!limit) continue;
+
+    const inWindow = callTimes.filter((t) => now.getTime() - t.getTime() < windowMs);
+    if (inWindow.length < limit) continue;
+
+    // The call that must age out before another one is allowed
+    const blocking = inWindow[inWindow.length - limit];
+    wait = Math.max(wait, blocking.getTime() + windowMs - now.getTime());
+  }
+
+  return wait;
+}
@@ -0,0 +1,120 @@
+/**
+ * Phone numbers - E.164 normalization and merging duplicate contacts
+ */
+
+import { afterEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { InsertContact } from "@shared/schema";
+import { getDefaultPhoneCountry, mergeDuplicateContact, normalizePhoneNumber } from "./phone-numbers";
+
+const DEFAULT_PHONE_COUNTRY = process.env.DEFAULT_PHONE_COUNTRY;
+
+afterEach(() => {
+  mock.restoreAll();
+  if (DEFAULT_PHONE_COUNTRY === undefined) {
+    delete process.env.DEFAULT_PHONE_COUNTRY;
+  } else {
+    process.env.DEFAULT_PHONE_COUNTRY = DEFAULT_PHONE_COUNTRY;
+  }
+});
+
+test("US numbers in any common format normalize to the same E.164 string", () => {
+  const formats = ["(212) 555-0101", "212.555.0101", "212 555 0101", "1-212-555-0101", "+1 (212) 555-0101", "0012125550101"];
+  for (const format of formats) {
+    assert.equal(normalizePhoneNumber(format, "US"), "+12125550101", format);
+  }
+});
+
+test("an extension is dropped", () => {
+  assert.equal(normalizePhoneNumber("212-555-0101 x123", "US"), "+12125550101");
+  assert.equal(normalizePhoneNumber("212-555-0101 ext. 45", "US"), "+12125550101");
+});
+
+test("numbers that cannot be dialed are invalid", () => {
+  const invalid = [
+    "",
+    "555-0101", // No area code
+    "112-555-0101", // Area codes start with 2-9
+    "212-155-0101", // So do exchanges
+    "+1 112 555 0101",
+    "+12", // Too short
+    "+1234567890123456", // Too long
+    "212-555-0101 or later",
+    "call me",
+  ];
+  for (const input of invalid) {
+    assert.equal(normalizePhoneNumber(input, "US"), undefined, input);
+  }
+});
+
+test("national numbers of other countries drop their trunk prefix", () => {
+  assert.equal(normalizePhoneNumber("020 7946 0958", "GB"), "+442079460958");
+  assert.equal(normalizePhoneNumber("07700 900123", "GB"), "+447700900123");
+  assert.equal(normalizePhoneNumber("02 9374 4000", "AU"), "+61293744000");
+});
+
+test("a country code written without the + is recognized", () => {
+  assert.equal(normalizePhoneNumber("44 20 7946 0958", "GB"), "+442079460958");
+});
+
+test("national numbers of the wrong length are invalid", () => {
+  assert.equal(normalizePhoneNumber("020 7946", "GB"), undefined);
+  assert.equal(normalizePhoneNumber("0", "GB"), undefined);
+});
+
+test("international numbers keep their own country whatever the default", () => {
+  assert.equal(normalizePhoneNumber("+44 20 7946 0958", "US"), "+442079460958");
+  assert.equal(normalizePhoneNumber("+1 212 555 0101", "GB"), "+12125550101");
+});
+
+test("the default country comes from DEFAULT_PHONE_COUNTRY", () => {
+  process.env.DEFAULT_PHONE_COUNTRY = "gb";
+  assert.equal(getDefaultPhoneCountry(), "GB");
+  assert.equal(normalizePhoneNumber("020 7946 0958"), "+442079460958");
+
+  delete process.env.DEFAULT_PHONE_COUNTRY;
+  assert.equal(getDefaultPhoneCountry(), "US");
+});
+
+test("an unsupported default country falls back to US", () => {
+  mock.method(console, "warn", () => {});
+  process.env.DEFAULT_PHONE_COUNTRY = "ZZ";
+  assert.equal(getDefaultPhoneCountry(), "US");
+});
+
+test("a duplicate fills the existing contact's empty fields and appends different notes", () => {
+  const existing: InsertContact = {
+    name: "Ann Smith",
+    phone: "+12125550101",
+    email: "",
+    company: "Acme",
+    notes: "Prefers mornings",
+    timezone: null,
+    customFields: { source: "webinar" },
+  };
+  const duplicate: InsertContact = {
+    name: "Annie",
+    phone: "+12125550101",
+    email: "ann@example.com",
+    company: "Other Co",
+    notes: "Asked about pricing",
+    timezone: "America/New_York",
+    customFields: { source: "import", city: "NYC" },
+  };
+
+  assert.deepEqual(mergeDuplicateContact(existing, duplicate), {
+    name: "Ann Smith",
+    phone: "+12125550101",
+    email: "ann@example.com",
+    company: "Acme",
+    notes: "Prefers mornings\n\nAsked about pricing",
+    timezone: "America/New_York",
+    customFields: { source: "webinar", city: "NYC" },
+  });
+});
+
+test("the same note is not appended twice", () => {
+  const contact: InsertContact = { name: "Ann", phone: "+12125550101", notes: "VIP" };
+  assert.equal(mergeDuplicateContact(contact, { ...contact }).notes, "VIP");
+  assert.equal(mergeDuplicateContact({ ...contact, notes: null }, { ...contact, notes: null }).notes, null);
+});
@@ -0,0 +1,142 @@
+/**
+ * Phone Numbers
+ *
+ * Contact phone numbers are stored in E.164 form (+15551234567) so that the
+ * dialer, DNC matching and duplicate detection all see one canonical string.
+ *
+ * Numbers written without a country code ("(555) 123-4567", "020 7946 0958")
+ * are read as national numbers of the default country, set with
+ * DEFAULT_PHONE_COUNTRY (ISO 3166 alpha-2, defaults to US).
+ */
+
+import type { Contact, InsertContact } from "@shared/schema";
+
+interface CountryNumbering {
+  callingCode: string;
+  nationalLengths: number[]; // Significant digits after the calling code
+  trunkPrefix?: string; // Dropped from national numbers, e.g. the leading 0 in the UK
+}
+
+const COUNTRY_NUMBERING: Record<string, CountryNumbering> = {
+  US: { callingCode: "1", nationalLengths: [10] },
+  CA: { callingCode: "1", nationalLengths: [10] },
+  PR: { callingCode: "1", nationalLengths: [10] },
+  MX: { callingCode: "52", nationalLengths: [10] },
+  GB: { callingCode: "44", nationalLengths: [9, 10], trunkPrefix: "0" },
+  IE: { callingCode: "353", nationalLengths: [7, 8, 9], trunkPrefix: "0" },
+  FR: { callingCode: "33", nationalLengths: [9], trunkPrefix: "0" },
+  DE: { callingCode: "49", nationalLengths: [6, 7, 8, 9, 10, 11], trunkPrefix: "0" },
+  ES: { callingCode: "34", nationalLengths: [9] },
+  IT: { callingCode: "39", nationalLengths: [6, 7, 8, 9, 10, 11] },
+  NL: { callingCode: "31", nationalLengths: [9], trunkPrefix: "0" },
+  AU: { callingCode: "61", nationalLengths: [9], trunkPrefix: "0" },
+  NZ: { callingCode: "64", nationalLengths: [8, 9, 10], trunkPrefix: "0" },
+  IN: { callingCode: "91", nationalLengths: [10], trunkPrefix: "0" },
+  BR: { callingCode: "55", nationalLengths: [10, 11], trunkPrefix: "0" },
+  PH: { callingCode: "63", nationalLengths: [10], trunkPrefix: "0" },
+};
+
+// Characters people use to format numbers - anything else makes the number invalid
+const FORMATTING_CHARACTERS = /[\s\-().\/]/g;
+
+/**
+ * The country national numbers are read in
+ */
+export function getDefaultPhoneCountry(): string {
+  const country = (process.env.DEFAULT_PHONE_COUNTRY || "US").toUpperCase();
+  if (!COUNTRY_NUMBERING[country]) {
+    console.warn(`[PhoneNumbers] Unsupported DEFAULT_PHONE_COUNTRY "${country}", using US`);
+    return "US";
+  }
+  return country;
+}
+
+/**
+ * NANP numbers: area code and exchange both start with 2-9
+ */
+function isValidNanpNumber(national: string): boolean {
+  return /^[2-9]\d{2}[2-9]\d{6}$/.test(national);
+}
+
+/**
+ * Validate an international number (digits after the +)
+ */
+function normalizeInternational(digits: string): string | undefined {
+  if (!/^[1-9]\d{7,14}$/.test(digits)) {
+    return undefined;
+  }
+  if (digits.startsWith("1") && !(digits.length === 11 && isValidNanpNumber(digits.slice(1)))) {
+    return undefined;
+  }
+  return `+${digits}`;
+}
+
+/**
+ * Normalize a phone number to E.164, or undefined if it is not a valid number
+ */
+export function normalizePhoneNumber(
+  input: string,
+  country: string = getDefaultPhoneCountry(),
+): string | undefined {
+  // Drop an extension ("x123", "ext. 123") - it cannot be dialed automatically
+  const withoutExtension = input.trim().replace(/\s*(x|ext\.?|extension)\s*\d+$/i, "");
+  const compact = withoutExtension.replace(FORMATTING_CHARACTERS, "");
+
+  if (compact.startsWith("+")) {
+    return /^\+\d+$/.test(compact) ? normalizeInternational(compact.slice(1)) : undefined;
+  }
+  if (!/^\d+$/.test(compact)) {
+    return undefined;
+  }
+  // 00 is the international call prefix outside North America
+  if (compact.startsWith("00")) {
+    return normalizeInternational(compact.slice(2));
+  }
+
+  const numbering = COUNTRY_NUMBERING[country] ?? COUNTRY_NUMBERING.US;
+  let national = compact;
+
+  if (numbering.callingCode === "1") {
+    if (national.length === 11 && national.startsWith("1")) {
+      national = national.slice(1);
+    }
+    return isValidNanpNumber(national) ? `+1${national}` : undefined;
+  }
+
+  if (numbering.trunkPrefix && national.startsWith(numbering.trunkPrefix)) {
+    national = national.slice(numbering.trunkPrefix.length);
+  } else if (
+    national.startsWith(numbering.callingCode) &&
+    numbering.nationalLengths.includes(national.length - numbering.callingCode.length)
+  ) {
+    // Country code written without the +
+    national = national.slice(numbering.callingCode.length);
+  }
+
+  if (!numbering.nationalLengths.includes(national.length) || national.startsWith("0")) {
+    return undefined;
+  }
+  return `+${numbering.callingCode}${national}`;
+}
+
+/**
+ * Fold a duplicate contact's details into the existing contact with the same number
+ * The existing name is kept; empty fields are filled and differing notes are appended
+ */
+export function mergeDuplicateContact(existing: Contact | InsertContact, duplicate: InsertContact): InsertContact {
+  const notes = [existing.notes, duplicate.notes]
+    .filter((note, index, all): note is string => !!note && all.indexOf(note) === index)
+    .join("\n\n");
+
+  return {
+    name: existing.name,
+    phone: existing.phone,
+    email: existing.email || duplicate.email || undefined,
+    company: existing.company || duplicate.company || null,
+    notes: notes || null,
+    timezone: existing.timezone || duplicate.timezone || null,
+    customFields: existing.customFields || duplicate.customFields
+      ? { ...duplicate.customFields, ...existing.customFields }
+      : null,
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Recording Retention
+ *
+ * A background job that deletes the recordings the retention policy no longer
+ * allows to keep. The audio is removed from its storage backend; the
+ * call_recordings row stays, with recordingUrl cleared and deletedAt /
+ * deletionReason set, so the call history still shows that a recording existed.
+ *
+ * Policy (environment, all optional - without any, recordings are kept):
+ * - RECORDING_RETENTION_DAYS:    delete recordings older than this many days
+ * - RECORDING_KEEP_DISPOSITIONS: comma-separated disposition codes; recordings of
+ *   calls with any other disposition are deleted once the call is a day old,
+ *   which leaves time to set a disposition by hand
+ * - RECORDING_REDACT_ON_OPT_OUT: 'true' deletes every recording of a contact
+ *   who is on the Do-Not-Call list
+ *
+ * The job runs when the server starts and then every
+ * RECORDING_RETENTION_INTERVAL_MINUTES (default 60). Each run also evicts
+ * cached recording downloads and encodings that have not been used for a day.
+ */
+
+import type { RecordingDeletionReason, RecordingStorageBackend, RetainedCallRecording } from "@shared/schema";
+import { storage } from "./storage";
+import { deleteRecordingAudio } from "./recordings";
+import { evictRecordingCache, getDefaultRecordingStorageBackend } from "./recording-storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DISPOSITION_GRACE_MS = DAY_MS; // Time to set a disposition by hand before keepDispositions applies
+const CACHE_MAX_IDLE_MS = DAY_MS;
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+export interface RetentionPolicy {
+  retentionDays: number | null; // Null keeps recordings regardless of age
+  keepDispositions: string[] | null; // Null keeps recordings regardless of disposition
+  redactOnOptOut: boolean;
+}
+
+export interface RetentionRunSummary {
+  startedAt: Date;
+  finishedAt: Date;
+  checked: number;
+  deleted: Record<RecordingDeletionReason, number>;
+  failed: number; // Recordings whose audio could not be deleted; retried next run
+  cacheFilesEvicted: number;
+}
+
+export interface RetentionStatus {
+  policy: RetentionPolicy | null; // Null when the settings are invalid (see policyError)
+  policyError: string | null;
+  storageBackend: RecordingStorageBackend | null; // Where new recordings are saved
+  running: boolean;
+  lastRun: RetentionRunSummary | null;
+  lastError: string | null;
+}
+
+function parsePositiveNumber(name: string): number | null {
+  const value = process.env[name]?.trim();
+  if (!value) return null;
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`${name} must be a positive number, got "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * The retention policy configured in the environment
+ * Throws on invalid settings, so a typo never deletes recordings it shouldn't
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  const keepDispositions = (process.env.RECORDING_KEEP_DISPOSITIONS ?? '')
+    .split(',')
+    .map((code) => code.trim())
+    .filter((code) => code.length > 0);
+
+  return {
+    retentionDays: parsePositiveNumber('RECORDING_RETENTION_DAYS'),
+    keepDispositions: keepDispositions.length > 0 ? keepDispositions : null,
+    redactOnOptOut: process.env.RECORDING_REDACT_ON_OPT_OUT === 'true',
+  };
+}
+
+/**
+ * Why the policy no longer allows keeping a recording, or null to keep it
+ */
+function getDeletionReason(
+  recording: RetainedCallRecording,
+  policy: RetentionPolicy,
+  now: number,
+): RecordingDeletionReason | null {
+  const age = now - recording.calledAt.getTime();
+
+  if (policy.redactOnOptOut && recording.contactOptedOut) {
+    return 'opt_out';
+  }
+  if (policy.retentionDays !== null && age > policy.retentionDays * DAY_MS) {
+    return 'retention_period';
+  }
+  if (
+    policy.keepDispositions !== null &&
+    age > DISPOSITION_GRACE_MS &&
+    !policy.keepDispositions.includes(recording.disposition ?? '')
+  ) {
+    return 'disposition';
+  }
+  return null;
+}
+
+class RecordingRetentionJob {
+  private interval: NodeJS.Timeout | null = null;
+  private currentRun: Promise<RetentionRunSummary> | null = null;
+  private lastRun: RetentionRunSummary | null = null;
+  private lastError: string | null = null;
+
+  /**
+   * Run now and then on the configured interval
+   */
+  start(): void {
+    if (this.interval) return;
+
+    let intervalMinutes = DEFAULT_INTERVAL_MINUTES;
+    try {
+      intervalMinutes = parsePositiveNumber('RECORDING_RETENTION_INTERVAL_MINUTES') ?? DEFAULT_INTERVAL_MINUTES;
+    } catch (error) {
+      console.error(`[Retention] ${(error as Error).message}; running every ${DEFAULT_INTERVAL_MINUTES} minutes`);
+    }
+
+    const runInBackground = () => {
+      this.run().catch(() => {
+        // Already logged and kept as lastError
+      });
+    };
+    this.interval = setInterval(runInBackground, intervalMinutes * 60 * 1000);
+    runInBackground();
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Enforce the policy once; a run already in progress is shared rather than started twice
+   */
+  run(): Promise<RetentionRunSummary> {
+    if (!this.currentRun) {
+      this.currentRun = this.enforce()
+        .then((summary) => {
+          this.lastRun = summary;
+          this.lastError = null;
+          return summary;
+        })
+        .catch((error) => {
+          console.error('[Retention] Run failed:', error);
+          this.lastError = error instanceof Error ? error.message : String(error);
+          throw error;
+        })
+        .finally(() => {
+          this.currentRun = null;
+        });
+    }
+    return this.currentRun;
+  }
+
+  getStatus(): RetentionStatus {
+    let policy: RetentionPolicy | null = null;
+    let policyError: string | null = null;
+    try {
+      policy = getRetentionPolicy();
+    } catch (error) {
+      policyError = (error as Error).message;
+    }
+
+    let storageBackend: RecordingStorageBackend | null = null;
+    try {
+      storageBackend = getDefaultRecordingStorageBackend();
+    } catch (error) {
+      policyError ??= (error as Error).message;
+    }
+
+    return {
+      policy,
+      policyError,
+      storageBackend,
+      running: this.currentRun !== null,
+      lastRun: this.lastRun,
+      lastError: this.lastError,
+    };
+  }
+
+  private async enforce(): Promise<RetentionRunSummary> {
+    const startedAt = new Date();
+    const policy = getRetentionPolicy();
+    const recordings = await storage.getRetainedCallRecordings();
+
+    const deleted: Record<RecordingDeletionReason, number> = { retention_period: 0, disposition: 0, opt_out: 0 };
+    let failed = 0;
+
+    for (const recording of recordings) {
+      const reason = getDeletionReason(recording, policy, startedAt.getTime());
+      if (!reason) continue;
+
+      try {
+        await deleteRecordingAudio(recording);
+        await storage.updateCallRecording(recording.id, {
+          recordingUrl: null,
+          deletedAt: new Date(),
+          deletionReason: reason,
+        });
+        deleted[reason]++;
+      } catch (error) {
+        console.error(`[Retention] Failed to delete recording ${recording.id} (${reason}):`, error);
+        failed++;
+      }
+    }
+
+    const cacheFilesEvicted = await evictRecordingCache(CACHE_MAX_IDLE_MS);
+
+    const summary: RetentionRunSummary = {
+      startedAt,
+      finishedAt: new Date(),
+      checked: recordings.length,
+      deleted,
+      failed,
+      cacheFilesEvicted,
+    };
+    const deletedCount = deleted.retention_period + deleted.disposition + deleted.opt_out;
+    if (deletedCount > 0 || failed > 0) {
+      console.log(
+        `[Retention] Deleted ${deletedCount} of ${recordings.length} recordings ` +
+        `(age ${deleted.retention_period}, disposition ${deleted.disposition}, opt-out ${deleted.opt_out}), ${failed} failed`,
+      );
+    }
+    return summary;
+  }
+}
+
+export const recordingRetention = new RecordingRetentionJob();
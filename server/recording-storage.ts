@@ -0,0 +1,320 @@
+/**
+ * Recording Storage Backends
+ *
+ * CallRecorder always writes to the local recordings/ directory while a call
+ * runs. Once the call is over the file is handed to the configured backend:
+ * - local: the file stays where it was written (recordingUrl is its path)
+ * - s3:    the file is uploaded to an S3-compatible bucket and removed locally
+ *          (recordingUrl is the object key). MinIO works as a local stand-in.
+ *
+ * RECORDING_STORAGE picks the backend for new recordings (default local); rows
+ * remember their own backend, so older recordings stay readable after a switch.
+ *
+ * S3 settings:
+ * - S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY (required)
+ * - S3_REGION:   default us-east-1
+ * - S3_ENDPOINT: e.g. http://localhost:9000 for MinIO; path-style URLs are used
+ *   with a custom endpoint, virtual-hosted AWS URLs without one
+ * - S3_PREFIX:   key prefix, default recordings/
+ *
+ * Requests are signed with AWS Signature Version 4. Playback, encoding and
+ * waveforms need a local file, so S3 recordings are downloaded into
+ * recordings/cache on first use; the retention job evicts unused copies.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { recordingStorageBackends, type RecordingStorageBackend } from "@shared/schema";
+
+export const LOCAL_RECORDINGS_DIR = path.join(process.cwd(), 'recordings');
+export const RECORDING_CACHE_DIR = path.join(LOCAL_RECORDINGS_DIR, 'cache');
+
+export interface RecordingStorage {
+  readonly backend: RecordingStorageBackend;
+  /**
+   * Take over a finished recording written locally; returns its recordingUrl
+   */
+  save(localPath: string): Promise<string>;
+  /**
+   * A local file with the recording's audio, or null if it no longer exists
+   */
+  getLocalFile(recordingUrl: string): Promise<string | null>;
+  /**
+   * Delete the recording's audio (no-op if it is already gone)
+   */
+  delete(recordingUrl: string): Promise<void>;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.promises.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function removeFile(filePath: string): Promise<void> {
+  await fs.promises.rm(filePath, { force: true });
+}
+
+/**
+ * The file a local recordingUrl points at, or null if it lies outside the recordings directory
+ * (rows can come from the API, so a path is never trusted to be read or deleted as is)
+ */
+function resolveLocalRecordingPath(recordingUrl: string): string | null {
+  const filePath = path.resolve(LOCAL_RECORDINGS_DIR, recordingUrl);
+  const relative = path.relative(LOCAL_RECORDINGS_DIR, filePath);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return null;
+  }
+  return filePath;
+}
+
+class LocalRecordingStorage implements RecordingStorage {
+  readonly backend = 'local' as const;
+
+  async save(localPath: string): Promise<string> {
+    return localPath;
+  }
+
+  async getLocalFile(recordingUrl: string): Promise<string | null> {
+    const filePath = resolveLocalRecordingPath(recordingUrl);
+    if (!filePath) {
+      console.warn(`[RecordingStorage] Refusing to read ${recordingUrl}: outside ${LOCAL_RECORDINGS_DIR}`);
+      return null;
+    }
+    return (await fileExists(filePath)) ? filePath : null;
+  }
+
+  async delete(recordingUrl: string): Promise<void> {
+    const filePath = resolveLocalRecordingPath(recordingUrl);
+    if (!filePath) {
+      console.warn(`[RecordingStorage] Not deleting ${recordingUrl}: outside ${LOCAL_RECORDINGS_DIR}`);
+      return;
+    }
+    await removeFile(filePath);
+  }
+}
+
+interface S3Config {
+  bucket: string;
+  region: string;
+  endpoint: string | null;
+  prefix: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// S3 URI-encodes every byte but unreserved characters, keeping '/' between key segments
+function encodeKey(key: string): string {
+  return key
+    .split('/')
+    .map((segment) => encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+}
+
+class S3RecordingStorage implements RecordingStorage {
+  readonly backend = 's3' as const;
+  private config: S3Config;
+
+  constructor(config: S3Config) {
+    this.config = config;
+  }
+
+  static fromEnv(): S3RecordingStorage {
+    const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3 recording storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    return new S3RecordingStorage({
+      bucket: S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT?.replace(/\/+$/, '') || null,
+      prefix: process.env.S3_PREFIX ?? 'recordings/',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+    });
+  }
+
+  async save(localPath: string): Promise<string> {
+    const key = `${this.config.prefix}${path.basename(localPath)}`;
+    const body = await fs.promises.readFile(localPath);
+    await this.request('PUT', key, body, { 'content-type': 'audio/wav' });
+    await removeFile(localPath);
+    console.log(`[RecordingStorage] Uploaded ${localPath} to s3://${this.config.bucket}/${key}`);
+    return key;
+  }
+
+  async getLocalFile(recordingUrl: string): Promise<string | null> {
+    const cachePath = this.getCachePath(recordingUrl);
+    if (await fileExists(cachePath)) {
+      // Keep it from being evicted while it is in use
+      const now = new Date();
+      await fs.promises.utimes(cachePath, now, now);
+      return cachePath;
+    }
+
+    const response = await this.request('GET', recordingUrl, undefined, {}, [404]);
+    if (response.status === 404) return null;
+
+    await fs.promises.mkdir(path.dirname(cachePath), { recursive: true });
+    const tempPath = `${cachePath}.partial`;
+    await fs.promises.writeFile(tempPath, Buffer.from(await response.arrayBuffer()));
+    await fs.promises.rename(tempPath, cachePath);
+    return cachePath;
+  }
+
+  async delete(recordingUrl: string): Promise<void> {
+    await this.request('DELETE', recordingUrl);
+    await removeFile(this.getCachePath(recordingUrl));
+  }
+
+  private getCachePath(key: string): string {
+    return path.join(RECORDING_CACHE_DIR, path.basename(key));
+  }
+
+  private getObjectUrl(key: string): URL {
+    const { bucket, region, endpoint } = this.config;
+    return endpoint
+      ? new URL(`${endpoint}/${encodeURIComponent(bucket)}/${encodeKey(key)}`)
+      : new URL(`https://${bucket}.s3.${region}.amazonaws.com/${encodeKey(key)}`);
+  }
+
+  /**
+   * Send a signed request for an object; statuses other than 2xx and `allowedStatuses` throw
+   */
+  private async request(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {},
+    allowedStatuses: number[] = [],
+  ): Promise<Response> {
+    const url = this.getObjectUrl(key);
+    const headers = this.sign(method, url, body ?? Buffer.alloc(0), extraHeaders);
+    const response = await fetch(url, { method, headers, body });
+
+    if (!response.ok && !allowedStatuses.includes(response.status)) {
+      const detail = (await response.text()).match(/<Message>(.*?)<\/Message>/)?.[1];
+      throw new Error(`S3 ${method} ${key} failed: ${response.status}${detail ? ` ${detail}` : ''}`);
+    }
+    return response;
+  }
+
+  /**
+   * Headers for a request, including its AWS Signature Version 4 authorization
+   */
+  private sign(method: string, url: URL, body: Buffer, extraHeaders: Record<string, string>): Record<string, string> {
+    const { region, accessKeyId, secretAccessKey } = this.config;
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': sha256Hex(body),
+      'x-amz-date': amzDate,
+    };
+    const names = Object.keys(headers).map((name) => name.toLowerCase()).sort();
+    const signedHeaders = names.join(';');
+    const canonicalHeaders = names.map((name) => `${name}:${String(headers[name]).trim()}\n`).join('');
+
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, headers['x-amz-content-sha256']].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${secretAccessKey}`, date), region),
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host, ...requestHeaders } = headers; // fetch sets Host itself
+    return {
+      ...requestHeaders,
+      authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+}
+
+const instances = new Map<RecordingStorageBackend, RecordingStorage>();
+
+/**
+ * The backend new recordings are saved to (RECORDING_STORAGE, default local)
+ */
+export function getDefaultRecordingStorageBackend(): RecordingStorageBackend {
+  const backend = process.env.RECORDING_STORAGE || 'local';
+  if (!(recordingStorageBackends as readonly string[]).includes(backend)) {
+    throw new Error(`Unknown RECORDING_STORAGE: ${backend} (expected ${recordingStorageBackends.join(' or ')})`);
+  }
+  return backend as RecordingStorageBackend;
+}
+
+/**
+ * The storage for a backend, defaulting to the one new recordings are saved to
+ */
+export function getRecordingStorage(backend: RecordingStorageBackend = getDefaultRecordingStorageBackend()): RecordingStorage {
+  let storage = instances.get(backend);
+  if (!storage) {
+    switch (backend) {
+      case 'local':
+        storage = new LocalRecordingStorage();
+        break;
+      case 's3':
+        storage = S3RecordingStorage.fromEnv();
+        break;
+      default:
+        throw new Error(`Unknown recording storage backend: ${backend}`);
+    }
+    instances.set(backend, storage);
+  }
+  return storage;
+}
+
+/**
+ * Hand a finished local recording to the configured backend
+ * If that fails the recording stays on local disk rather than being lost
+ */
+export async function storeRecording(localPath: string): Promise<{ storageBackend: RecordingStorageBackend; recordingUrl: string }> {
+  try {
+    const storage = getRecordingStorage();
+    return { storageBackend: storage.backend, recordingUrl: await storage.save(localPath) };
+  } catch (error) {
+    console.error(`[RecordingStorage] Failed to store ${localPath}, keeping it on local disk:`, error);
+    return { storageBackend: 'local', recordingUrl: localPath };
+  }
+}
+
+/**
+ * Remove cached downloads and encodings that have not been used for a while
+ * Returns how many files were removed
+ */
+export async function evictRecordingCache(maxIdleMs: number): Promise<number> {
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(RECORDING_CACHE_DIR);
+  } catch {
+    return 0;
+  }
+
+  let removed = 0;
+  for (const name of names) {
+    const filePath = path.join(RECORDING_CACHE_DIR, name);
+    const stats = await fs.promises.stat(filePath).catch(() => null);
+    if (stats?.isFile() && Date.now() - stats.mtimeMs > maxIdleMs) {
+      await removeFile(filePath);
+      removed++;
+    }
+  }
+  return removed;
+}
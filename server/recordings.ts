@@ -0,0 +1,137 @@
+/**
+ * Call Recording Playback
+ *
+ * Recordings are the stereo WAVs written by CallRecorder (caller left, AI agent
+ * right), kept by a storage backend (see recording-storage.ts). For the browser
+ * they are served:
+ * - as recorded (wav), or encoded to mp3 / opus with ffmpeg on first request
+ *   and kept in the recording cache, so every format supports Range requests
+ * - as waveform peaks per channel, for drawing the player
+ */
+
+import fs from "fs";
+import path from "path";
+import type { CallRecording, RecordingStorageBackend } from "@shared/schema";
+import { AudioTranscoder } from "./audio-transcoder";
+import { getRecordingStorage, RECORDING_CACHE_DIR } from "./recording-storage";
+
+export const recordingFormats = ['wav', 'mp3', 'opus'] as const;
+export type RecordingFormat = typeof recordingFormats[number];
+
+export const RECORDING_CONTENT_TYPES: Record<RecordingFormat, string> = {
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  opus: 'audio/ogg',
+};
+
+const WAVEFORM_BUCKETS = 800;
+
+export interface RecordingWaveform {
+  durationSeconds: number;
+  channels: string[]; // 'caller', 'agent' (or 'mixed' for older mono recordings)
+  peaks: number[][]; // Per channel, the loudest sample of each bucket (0-1)
+}
+
+const transcoder = new AudioTranscoder();
+const encodings = new Map<string, Promise<void>>(); // Encodes in progress, by output path
+
+export function isRecordingFormat(format: string): format is RecordingFormat {
+  return (recordingFormats as readonly string[]).includes(format);
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.promises.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getEncodedPath(recordingUrl: string, format: Exclude<RecordingFormat, 'wav'>): string {
+  return path.join(RECORDING_CACHE_DIR, `${path.basename(recordingUrl).replace(/\.wav$/i, '')}.${format}`);
+}
+
+/**
+ * A local copy of the recording as recorded, or null if its audio is gone
+ */
+function getLocalWav(recording: CallRecording): Promise<string | null> {
+  if (!recording.recordingUrl) return Promise.resolve(null);
+  return getRecordingStorage(recording.storageBackend as RecordingStorageBackend).getLocalFile(recording.recordingUrl);
+}
+
+/**
+ * Absolute path of the recording in the requested format, or null if the recording's file is missing
+ */
+export async function getRecordingFile(recording: CallRecording, format: RecordingFormat): Promise<string | null> {
+  const wavPath = await getLocalWav(recording);
+  if (!wavPath) return null;
+  if (format === 'wav') return wavPath;
+
+  const outputPath = getEncodedPath(wavPath, format);
+  if (await fileExists(outputPath)) {
+    // Keep it from being evicted from the cache while it is in use
+    const now = new Date();
+    await fs.promises.utimes(outputPath, now, now);
+    return outputPath;
+  }
+
+  // Concurrent requests share one encode; write to a temp name so a half-written file is never served
+  let encoding = encodings.get(outputPath);
+  if (!encoding) {
+    const tempPath = `${outputPath}.partial`;
+    encoding = fs.promises
+      .mkdir(RECORDING_CACHE_DIR, { recursive: true })
+      .then(() => transcoder.encodeWav(wavPath, tempPath, format))
+      .then(() => fs.promises.rename(tempPath, outputPath))
+      .finally(() => encodings.delete(outputPath));
+    encodings.set(outputPath, encoding);
+    console.log(`[Recordings] Encoding ${wavPath} to ${format}`);
+  }
+  await encoding;
+  return outputPath;
+}
+
+/**
+ * Waveform peaks of a recording, or null if its file is missing or unreadable
+ */
+export async function getRecordingWaveform(recording: CallRecording): Promise<RecordingWaveform | null> {
+  const wavPath = await getLocalWav(recording);
+  if (!wavPath) return null;
+  const wav = await transcoder.readWav(wavPath);
+  if (!wav || wav.byteRate === 0) return null;
+
+  const frameBytes = wav.channels * 2;
+  const frames = Math.floor(wav.pcm.length / frameBytes);
+  const bucketFrames = Math.max(1, Math.ceil(frames / WAVEFORM_BUCKETS));
+  const peaks: number[][] = Array.from({ length: wav.channels }, () => []);
+
+  for (let start = 0; start < frames; start += bucketFrames) {
+    const end = Math.min(frames, start + bucketFrames);
+    for (let channel = 0; channel < wav.channels; channel++) {
+      let peak = 0;
+      for (let frame = start; frame < end; frame++) {
+        peak = Math.max(peak, Math.abs(wav.pcm.readInt16LE(frame * frameBytes + channel * 2)));
+      }
+      peaks[channel].push(Math.round((peak / 32768) * 1000) / 1000);
+    }
+  }
+
+  return {
+    durationSeconds: wav.pcm.length / wav.byteRate,
+    channels: wav.channels === 2 ? ['caller', 'agent'] : ['mixed'],
+    peaks,
+  };
+}
+
+/**
+ * Delete a recording's audio from its backend, along with any encoded copies
+ */
+export async function deleteRecordingAudio(recording: CallRecording): Promise<void> {
+  if (!recording.recordingUrl) return;
+
+  await getRecordingStorage(recording.storageBackend as RecordingStorageBackend).delete(recording.recordingUrl);
+  for (const format of ['mp3', 'opus'] as const) {
+    await fs.promises.rm(getEncodedPath(recording.recordingUrl, format), { force: true });
+  }
+}
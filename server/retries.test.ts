@@ -0,0 +1,68 @@
+/**
+ * Campaign retry rules - which outcomes are retried, and when
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Campaign } from "@shared/schema";
+import { getNextAttemptAt, getRetryPolicy, isAttemptDue, shouldRetry, type RetryPolicy } from "./retries";
+
+const MINUTE_MS = 60 * 1000;
+
+const POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  delayMinutes: 60,
+  backoff: "fixed",
+  outcomes: ["no_answer", "busy"],
+};
+
+test("a campaign's retry settings become its policy", () => {
+  const policy = getRetryPolicy({
+    maxAttempts: 4,
+    retryDelayMinutes: 30,
+    retryBackoff: "exponential",
+    retryOutcomes: "no_answer,voicemail,",
+  } as Campaign);
+  assert.deepEqual(policy, { maxAttempts: 4, delayMinutes: 30, backoff: "exponential", outcomes: ["no_answer", "voicemail"] });
+});
+
+test("an unknown backoff is fixed", () => {
+  const policy = getRetryPolicy({ maxAttempts: 1, retryDelayMinutes: 5, retryBackoff: "linear", retryOutcomes: "" } as Campaign);
+  assert.equal(policy.backoff, "fixed");
+  assert.deepEqual(policy.outcomes, []);
+});
+
+test("only the campaign's retry outcomes are retried", () => {
+  assert.equal(shouldRetry(POLICY, "no_answer", 1), true);
+  assert.equal(shouldRetry(POLICY, "busy", 1), true);
+  assert.equal(shouldRetry(POLICY, "voicemail", 1), false);
+  assert.equal(shouldRetry(POLICY, "completed", 1), false);
+  assert.equal(shouldRetry(POLICY, "skipped_dnc", 1), false);
+});
+
+test("maxAttempts counts the first call", () => {
+  assert.equal(shouldRetry(POLICY, "no_answer", 2), true);
+  assert.equal(shouldRetry(POLICY, "no_answer", 3), false);
+  assert.equal(shouldRetry({ ...POLICY, maxAttempts: 1 }, "no_answer", 1), false);
+});
+
+test("fixed backoff waits the same delay after every attempt", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+  assert.deepEqual(getNextAttemptAt(POLICY, 1, now), new Date(now.getTime() + 60 * MINUTE_MS));
+  assert.deepEqual(getNextAttemptAt(POLICY, 3, now), new Date(now.getTime() + 60 * MINUTE_MS));
+});
+
+test("exponential backoff doubles the delay after every attempt", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+  const policy: RetryPolicy = { ...POLICY, backoff: "exponential" };
+  const delays = [1, 2, 3, 4].map((attempts) => (getNextAttemptAt(policy, attempts, now).getTime() - now.getTime()) / MINUTE_MS);
+  assert.deepEqual(delays, [60, 120, 240, 480]);
+});
+
+test("a contact is due once its next attempt time has come", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+  assert.equal(isAttemptDue(null, now), true);
+  assert.equal(isAttemptDue(new Date(now.getTime() - 1), now), true);
+  assert.equal(isAttemptDue(now, now), true);
+  assert.equal(isAttemptDue(new Date(now.getTime() + 1), now), false);
+});
@@ -0,0 +1,55 @@
+/**
+ * Campaign Retry Rules
+ *
+ * A contact whose call ends with a retryable outcome (no answer, busy,
+ * voicemail, failed to connect) goes back to 'pending' with a nextAttemptAt
+ * timestamp until it has used up the campaign's maxAttempts.
+ *
+ * Backoff is either fixed (retryDelayMinutes between attempts) or
+ * exponential (retryDelayMinutes doubled after every attempt).
+ */
+
+import { retryableOutcomes, type Campaign, type CallOutcome } from "@shared/schema";
+
+export type RetryableOutcome = typeof retryableOutcomes[number];
+
+export interface RetryPolicy {
+  maxAttempts: number; // Includes the first call
+  delayMinutes: number;
+  backoff: 'fixed' | 'exponential';
+  outcomes: RetryableOutcome[];
+}
+
+/**
+ * The retry rules configured on a campaign
+ */
+export function getRetryPolicy(campaign: Campaign): RetryPolicy {
+  return {
+    maxAttempts: campaign.maxAttempts,
+    delayMinutes: campaign.retryDelayMinutes,
+    backoff: campaign.retryBackoff === 'exponential' ? 'exponential' : 'fixed',
+    outcomes: campaign.retryOutcomes.split(',').filter(Boolean) as RetryableOutcome[],
+  };
+}
+
+/**
+ * Whether a contact should be dialed again after `attempts` attempts ending in `outcome`
+ */
+export function shouldRetry(policy: RetryPolicy, outcome: CallOutcome, attempts: number): boolean {
+  return attempts < policy.maxAttempts && (policy.outcomes as string[]).includes(outcome);
+}
+
+/**
+ * When the next attempt is due after `attempts` attempts
+ */
+export function getNextAttemptAt(policy: RetryPolicy, attempts: number, now: Date = new Date()): Date {
+  const multiplier = policy.backoff === 'exponential' ? Math.pow(2, Math.max(attempts - 1, 0)) : 1;
+  return new Date(now.getTime() + policy.delayMinutes * multiplier * 60000);
+}
+
+/**
+ * Whether a pending contact's retry delay (if any) has elapsed
+ */
+export function isAttemptDue(nextAttemptAt: Date | null, now: Date = new Date()): boolean {
+  return !nextAttemptAt || nextAttemptAt.getTime() <= now.getTime();
+}
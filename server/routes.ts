@@ -1,45 +1,95 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import {
   insertContactSchema,
   insertCallHistorySchema,
   insertTagSchema,
+  insertDispositionSchema,
+  callDispositionSchema,
   insertCampaignSchema,
   insertAiAgentSchema,
   insertCallRecordingSchema,
   insertConversationTranscriptSchema,
+  insertDncEntrySchema,
+  dncImportRowSchema,
+  insertImportJobSchema,
+  importOptionsSchema,
+  analyticsQuerySchema,
+  voicemailAudioUploadSchema,
+  telephonyProviders,
+  type Contact,
+  type ImportJob,
+  type InsertContact,
+  type InsertDncEntry,
+  type DncImportRow,
+  type DncImportFailure,
 } from "@shared/schema";
-import {
-  automatedDial,
-  getDialer,
-  closeDialer,
-} from "./google-voice-automation";
-import { AudioStreamHandler } from "./audio-handler";
+import { ZodError } from "zod";
+import { getTelephonyProvider, type TelephonyProviderName } from "./telephony";
 import { getWindowsAudioDevices } from "./audio-config";
-import { CallState, type CallStateChange } from "./call-state-monitor";
-import { type StateTransition } from "./call-state-detector";
 import { campaignWebSocket } from "./websocket";
+import { campaignRunner } from "./campaign-runner";
+import { findDncEntry, normalizeDncPhone } from "./dnc";
+import { mergeDuplicateContact, normalizePhoneNumber } from "./phone-numbers";
+import { checkImportTargets, checkMapping, commitContactImport, parseCsv, planContactImport, suggestMapping } from "./contact-import";
+import { buildCampaignReport } from "./campaign-report";
+import { isKnownDisposition, listDispositionOptions, setCallDisposition, toDispositionCode } from "./dispositions";
+import { getVoicemailAudioPath, saveVoicemailAudio } from "./voicemail";
+import { extractCallInteractions, getExtractionLlm, NO_EXTRACTION_LLM_MESSAGE } from "./interaction-extraction";
+import { getRecordingFile, getRecordingWaveform, isRecordingFormat, RECORDING_CONTENT_TYPES } from "./recordings";
+import { recordingRetention } from "./recording-retention";
+import { liveCallMonitor } from "./live-calls";
+import {
+  buildCallExport,
+  buildCampaignResultExport,
+  buildContactExport,
+  buildInteractionExport,
+  CALL_EXPORT_COLUMNS,
+  CAMPAIGN_RESULT_COLUMNS,
+  CONTACT_EXPORT_COLUMNS,
+  INTERACTION_EXPORT_COLUMNS,
+  parseExportFormat,
+  sendExport,
+} from "./exports";
+
+// Rows returned by an import preview - errors are always returned in full
+const IMPORT_PREVIEW_ROWS = 100;
 
 /**
- * Generate a random delay between 3-6 minutes (180000-360000ms)
- * This creates natural spacing between calls to avoid detection and rate limiting
+ * An import job without the uploaded file, for API responses
  */
-function getRandomCallDelay(): number {
-  const minDelay = 3 * 60 * 1000; // 3 minutes in milliseconds
-  const maxDelay = 6 * 60 * 1000; // 6 minutes in milliseconds
-  const randomDelay =
-    Math.floor(Math.random() * (maxDelay - minDelay + 1)) + minDelay;
-  return randomDelay;
+function withoutCsv({ csv, ...job }: ImportJob) {
+  return job;
 }
 
+// Rows returned by the analytics leaderboards
+const TOP_CONTACTS_LIMIT = 5;
+const RECENT_CALLS_LIMIT = 50;
+
 /**
- * Format milliseconds to human-readable time
+ * Bad filters are the caller's fault (400); anything else is a query failure (500)
  */
-function formatDelay(ms: number): string {
-  const minutes = Math.floor(ms / 60000);
-  const seconds = Math.floor((ms % 60000) / 1000);
-  return `${minutes}m ${seconds}s`;
+function sendAnalyticsError(res: Response, error: unknown, message: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({ error: error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ") });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+function queryString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
+
+/**
+ * A date query parameter: undefined when absent, null when it cannot be parsed
+ */
+function queryDate(value: unknown): Date | null | undefined {
+  const text = queryString(value);
+  if (!text) return undefined;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -69,8 +119,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       console.log("Creating contact with data:", req.body);
       const validated = insertContactSchema.parse(req.body);
+      const phone = normalizePhoneNumber(validated.phone);
+      if (!phone) {
+        return res.status(400).json({ error: `Invalid phone number "${validated.phone}"` });
+      }
       console.log("Validated contact data:", validated);
-      const contact = await storage.createContact(validated);
+
+      const [existing] = await storage.getContactsByPhones([phone]);
+      if (existing) {
+        if (!req.body.merge) {
+          return res.status(409).json({
+            error: "A contact with this phone number already exists",
+            contact: existing,
+          });
+        }
+        const merged = await storage.updateContact(existing.id, mergeDuplicateContact(existing, { ...validated, phone }));
+        console.log("Contact merged into existing contact:", merged);
+        return res.json(merged);
+      }
+
+      const contact = await storage.createContact({ ...validated, phone });
       console.log("Contact created successfully:", contact);
       res.status(201).json(contact);
     } catch (error) {
@@ -86,7 +154,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/contacts/:id", async (req, res) => {
     try {
       const validated = insertContactSchema.parse(req.body);
-      const contact = await storage.updateContact(req.params.id, validated);
+      const phone = normalizePhoneNumber(validated.phone);
+      if (!phone) {
+        return res.status(400).json({ error: `Invalid phone number "${validated.phone}"` });
+      }
+
+      const duplicate = (await storage.getContactsByPhones([phone])).find((c) => c.id !== req.params.id);
+      if (duplicate) {
+        return res.status(409).json({
+          error: `${duplicate.name} already has this phone number`,
+          contact: duplicate,
+        });
+      }
+
+      const contact = await storage.updateContact(req.params.id, { ...validated, phone });
       if (!contact) {
         return res.status(404).json({ error: "Contact not found" });
       }
@@ -130,6 +211,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/calls", async (req, res) => {
     try {
       const validated = insertCallHistorySchema.parse(req.body);
+      if (validated.disposition && !(await isKnownDisposition(validated.disposition))) {
+        return res.status(400).json({ error: `Unknown disposition: ${validated.disposition}` });
+      }
       const call = await storage.createCallHistory(validated);
       res.status(201).json(call);
     } catch (error) {
@@ -137,18 +221,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/calls/:id/disposition", async (req, res) => {
+    try {
+      const { disposition } = callDispositionSchema.parse(req.body);
+      if (disposition && !(await isKnownDisposition(disposition))) {
+        return res.status(400).json({ error: `Unknown disposition: ${disposition}` });
+      }
+      const call = await setCallDisposition(req.params.id, disposition);
+      if (!call) {
+        return res.status(404).json({ error: "Call not found" });
+      }
+      res.json(call);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid disposition" });
+      }
+      console.error("Error updating call disposition:", error);
+      res.status(500).json({ error: "Failed to update call disposition" });
+    }
+  });
+
   app.post("/api/dial/automated", async (req, res) => {
     try {
-      const { contactId, phoneNumber } = req.body;
+      const { contactId, phoneNumber: rawPhoneNumber, provider: providerName = 'google_voice' } = req.body;
 
-      if (!phoneNumber) {
+      if (!rawPhoneNumber) {
         return res.status(400).json({ error: "Phone number is required" });
       }
 
-      console.log(`Initiating automated dial for ${phoneNumber}`);
+      const phoneNumber = normalizePhoneNumber(rawPhoneNumber);
+      if (!phoneNumber) {
+        return res.status(400).json({ error: `Invalid phone number "${rawPhoneNumber}"` });
+      }
+
+      if (!telephonyProviders.includes(providerName)) {
+        return res.status(400).json({ error: `Unknown telephony provider: ${providerName}` });
+      }
+
+      const dncEntry = await findDncEntry(phoneNumber);
+      if (dncEntry) {
+        console.log(`Refusing automated dial for ${phoneNumber}: on Do-Not-Call list`);
+        const notes = `Skipped: DNC${dncEntry.reason ? ` (${dncEntry.reason})` : ""}`;
+        const call = contactId
+          ? await storage.createCallHistory({ contactId, status: "skipped", disposition: "dnc_skipped", notes })
+          : undefined;
+
+        return res.status(403).json({
+          success: false,
+          skipped: "dnc",
+          error: "Number is on the Do-Not-Call list",
+          message: notes,
+          call,
+        });
+      }
+
+      console.log(`Initiating automated dial for ${phoneNumber} via ${providerName}`);
 
       // Perform the automated dial
-      const success = await automatedDial(phoneNumber);
+      const provider = await getTelephonyProvider(providerName as TelephonyProviderName);
+      const success = await provider.dial(phoneNumber);
 
       if (!success) {
         return res.status(500).json({
@@ -195,7 +326,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const results = {
-        successful: [] as any[],
+        // Keyed by normalized phone - repeated numbers within the file are merged
+        successful: new Map<string, InsertContact>(),
         failed: [] as any[],
       };
 
@@ -205,10 +337,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         try {
           const validated = insertContactSchema.parse(dataWithoutLineNumber);
-          results.successful.push(validated);
+          const phone = normalizePhoneNumber(validated.phone);
+          if (!phone) {
+            throw new Error(`Invalid phone number "${validated.phone}"`);
+          }
+
+          const earlier = results.successful.get(phone);
+          results.successful.set(
+            phone,
+            earlier
+              ? mergeDuplicateContact(earlier, { ...validated, phone })
+              : { ...validated, phone },
+          );
         } catch (error) {
           let errorMessage = "Validation failed";
-          if (error instanceof Error) {
+          if (error instanceof ZodError) {
+            errorMessage = error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+          } else if (error instanceof Error) {
             errorMessage = error.message;
           }
 
@@ -220,15 +365,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      // Numbers that already belong to a contact are merged into it
+      const existing = await storage.getContactsByPhones(Array.from(results.successful.keys()));
+      const merged: Contact[] = [];
+      for (const contact of existing) {
+        const updated = await storage.updateContact(
+          contact.id,
+          mergeDuplicateContact(contact, results.successful.get(contact.phone)!),
+        );
+        if (updated) merged.push(updated);
+        results.successful.delete(contact.phone);
+      }
+
       const created =
-        results.successful.length > 0
-          ? await storage.bulkCreateContacts(results.successful)
+        results.successful.size > 0
+          ? await storage.bulkCreateContacts(Array.from(results.successful.values()))
           : [];
 
       res.status(201).json({
         imported: created.length,
+        merged: merged.length,
         failed: results.failed.length,
         contacts: created,
+        mergedContacts: merged,
         errors: results.failed,
       });
     } catch (error) {
@@ -236,6 +395,373 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Contact import routes
+  app.get("/api/imports", async (_req, res) => {
+    try {
+      const jobs = await storage.getAllImportJobs();
+      res.json(jobs.map(withoutCsv));
+    } catch (error) {
+      console.error("Error fetching import jobs:", error);
+      res.status(500).json({ error: "Failed to fetch import jobs" });
+    }
+  });
+
+  app.get("/api/imports/:id", async (req, res) => {
+    try {
+      const job = await storage.getImportJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Import job not found" });
+      }
+      res.json(withoutCsv(job));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch import job" });
+    }
+  });
+
+  app.post("/api/imports", async (req, res) => {
+    try {
+      const { fileName, csv } = req.body;
+      if (typeof csv !== "string" || typeof fileName !== "string") {
+        return res.status(400).json({ error: "Expected a fileName and the CSV contents" });
+      }
+
+      const [headerRow, ...dataRows] = parseCsv(csv);
+      if (!headerRow || dataRows.length === 0) {
+        return res.status(400).json({ error: "The CSV file needs a header row and at least one data row" });
+      }
+
+      const headers = headerRow.cells;
+      const job = await storage.createImportJob(insertImportJobSchema.parse({
+        fileName,
+        csv,
+        headers,
+        mapping: suggestMapping(headers),
+        totalRows: dataRows.length,
+      }));
+
+      res.status(201).json({
+        ...withoutCsv(job),
+        sampleRows: dataRows.slice(0, 5).map((row) => row.cells),
+      });
+    } catch (error) {
+      console.error("Failed to create import job:", error);
+      res.status(500).json({ error: "Failed to read CSV file" });
+    }
+  });
+
+  app.post("/api/imports/:id/preview", async (req, res) => {
+    try {
+      const job = await storage.getImportJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Import job not found" });
+      }
+
+      const options = importOptionsSchema.parse(req.body);
+      const mappingError = checkMapping(options.mapping, job.headers);
+      if (mappingError) {
+        return res.status(400).json({ error: mappingError });
+      }
+
+      const plan = await planContactImport(job, options.mapping);
+      res.json({
+        toCreate: plan.toCreate,
+        toMerge: plan.toMerge,
+        failed: plan.failed,
+        rows: plan.rows.slice(0, IMPORT_PREVIEW_ROWS),
+        errors: plan.rows
+          .filter((row) => row.action === "error")
+          .map((row) => ({ lineNumber: row.lineNumber, errors: row.errors })),
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid import options" });
+      }
+      console.error("Failed to preview import:", error);
+      res.status(500).json({ error: "Failed to preview import" });
+    }
+  });
+
+  app.post("/api/imports/:id/commit", async (req, res) => {
+    const job = await storage.getImportJob(req.params.id).catch(() => undefined);
+    if (!job) {
+      return res.status(404).json({ error: "Import job not found" });
+    }
+    if (job.status !== "draft") {
+      return res.status(409).json({ error: "This import has already been run" });
+    }
+
+    try {
+      const options = importOptionsSchema.parse(req.body);
+      const mappingError = checkMapping(options.mapping, job.headers) ?? await checkImportTargets(options);
+      if (mappingError) {
+        return res.status(400).json({ error: mappingError });
+      }
+
+      const completed = await commitContactImport(job, options);
+      res.json(withoutCsv(completed));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid import options" });
+      }
+      console.error("Failed to import contacts:", error);
+      await storage.updateImportJob(job.id, { status: "failed", csv: "", completedAt: new Date() }).catch(() => undefined);
+      res.status(500).json({ error: "Failed to import contacts" });
+    }
+  });
+
+  // Do-Not-Call list routes
+  app.get("/api/dnc", async (_req, res) => {
+    try {
+      const entries = await storage.getAllDncEntries();
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching DNC list:", error);
+      res.status(500).json({ error: "Failed to fetch Do-Not-Call list" });
+    }
+  });
+
+  app.post("/api/dnc", async (req, res) => {
+    try {
+      const validated = insertDncEntrySchema.parse(req.body);
+      const phone = normalizeDncPhone(validated.phone);
+      if (!phone) {
+        return res.status(400).json({ error: "Invalid phone number" });
+      }
+      const entry = await storage.createDncEntry({ ...validated, phone });
+      res.status(201).json(entry);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid Do-Not-Call entry" });
+    }
+  });
+
+  app.delete("/api/dnc/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteDncEntry(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Do-Not-Call entry not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete Do-Not-Call entry" });
+    }
+  });
+
+  app.post("/api/dnc/import", async (req, res) => {
+    try {
+      const { entries: entriesData } = req.body;
+      if (!Array.isArray(entriesData)) {
+        return res.status(400).json({ error: "Expected an array of entries" });
+      }
+
+      const results = {
+        successful: new Map<string, InsertDncEntry>(),
+        failed: [] as DncImportFailure[],
+      };
+
+      entriesData.forEach((entryData: unknown, index: number) => {
+        const parsed = dncImportRowSchema.safeParse(entryData);
+        // Malformed rows are numbered by position, after the header line
+        const row: DncImportRow = parsed.success ? parsed.data : { row: index + 2, phone: "" };
+
+        try {
+          const validated = insertDncEntrySchema.parse({ source: "import", phone: row.phone, reason: row.reason });
+          const phone = normalizeDncPhone(validated.phone);
+          if (!phone) {
+            throw new Error("Invalid phone number");
+          }
+          // Duplicates within the file collapse to the first occurrence
+          if (!results.successful.has(phone)) {
+            results.successful.set(phone, { ...validated, phone });
+          }
+        } catch (error) {
+          results.failed.push({
+            row: row.row,
+            phone: row.phone,
+            error: error instanceof Error ? error.message : "Validation failed",
+          });
+        }
+      });
+
+      const created = await storage.bulkCreateDncEntries(Array.from(results.successful.values()));
+
+      res.status(201).json({
+        imported: created.length,
+        alreadyListed: results.successful.size - created.length,
+        failed: results.failed.length,
+        entries: created,
+        errors: results.failed,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to import Do-Not-Call list" });
+    }
+  });
+
+  app.get("/api/dnc/export", async (_req, res) => {
+    try {
+      const entries = await storage.getAllDncEntries();
+      const escape = (value: string | null) => `"${(value ?? "").replace(/"/g, '""')}"`;
+      const rows = entries.map((entry) =>
+        [entry.phone, entry.reason, entry.source, entry.createdAt.toISOString()].map(escape).join(","),
+      );
+
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", 'attachment; filename="do-not-call.csv"');
+      res.send(["phone,reason,source,added_at", ...rows].join("\n"));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to export Do-Not-Call list" });
+    }
+  });
+
+  // Exports live under /api/exports so they cannot collide with /api/contacts/:id and similar routes
+  app.get("/api/exports/contacts", async (req, res) => {
+    try {
+      const format = parseExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({ error: "format must be csv or json" });
+      }
+
+      const rows = await buildContactExport({ search: queryString(req.query.q) });
+      sendExport(res, format, "contacts", CONTACT_EXPORT_COLUMNS, rows);
+    } catch (error) {
+      console.error("Error exporting contacts:", error);
+      res.status(500).json({ error: "Failed to export contacts" });
+    }
+  });
+
+  app.get("/api/exports/calls", async (req, res) => {
+    try {
+      const format = parseExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({ error: "format must be csv or json" });
+      }
+      const from = queryDate(req.query.from);
+      const to = queryDate(req.query.to);
+      if (from === null || to === null) {
+        return res.status(400).json({ error: "from and to must be dates" });
+      }
+
+      const rows = await buildCallExport({
+        campaignId: queryString(req.query.campaignId),
+        contactId: queryString(req.query.contactId),
+        status: queryString(req.query.status),
+        from,
+        to,
+      });
+      sendExport(res, format, "call-history", CALL_EXPORT_COLUMNS, rows);
+    } catch (error) {
+      console.error("Error exporting call history:", error);
+      res.status(500).json({ error: "Failed to export call history" });
+    }
+  });
+
+  app.get("/api/exports/campaigns/:id", async (req, res) => {
+    try {
+      const format = parseExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({ error: "format must be csv or json" });
+      }
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+
+      const rows = await buildCampaignResultExport(campaign.id, { status: queryString(req.query.status) });
+      const fileName = `campaign-${campaign.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || campaign.id}`;
+      sendExport(res, format, fileName, CAMPAIGN_RESULT_COLUMNS, rows);
+    } catch (error) {
+      console.error("Error exporting campaign results:", error);
+      res.status(500).json({ error: "Failed to export campaign results" });
+    }
+  });
+
+  app.get("/api/exports/interactions", async (req, res) => {
+    try {
+      const format = parseExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({ error: "format must be csv or json" });
+      }
+
+      const rows = await buildInteractionExport({ campaignId: queryString(req.query.campaignId) });
+      sendExport(res, format, "call-interactions", INTERACTION_EXPORT_COLUMNS, rows);
+    } catch (error) {
+      console.error("Error exporting call interactions:", error);
+      res.status(500).json({ error: "Failed to export call interactions" });
+    }
+  });
+
+  // Analytics endpoints all accept from, to, campaignId and timezone (see analyticsQuerySchema)
+  app.get("/api/analytics/summary", async (req, res) => {
+    try {
+      const query = analyticsQuerySchema.parse(req.query);
+      res.json(await storage.getCallSummary(query));
+    } catch (error) {
+      sendAnalyticsError(res, error, "Failed to load call summary");
+    }
+  });
+
+  app.get("/api/analytics/volume", async (req, res) => {
+    try {
+      const query = analyticsQuerySchema.parse(req.query);
+      res.json(await storage.getCallVolume(query));
+    } catch (error) {
+      sendAnalyticsError(res, error, "Failed to load call volume");
+    }
+  });
+
+  app.get("/api/analytics/by-campaign", async (req, res) => {
+    try {
+      const query = analyticsQuerySchema.parse(req.query);
+      res.json(await storage.getCallsByCampaign(query));
+    } catch (error) {
+      sendAnalyticsError(res, error, "Failed to load calls by campaign");
+    }
+  });
+
+  app.get("/api/analytics/by-agent", async (req, res) => {
+    try {
+      const query = analyticsQuerySchema.parse(req.query);
+      res.json(await storage.getCallsByAgent(query));
+    } catch (error) {
+      sendAnalyticsError(res, error, "Failed to load calls by agent");
+    }
+  });
+
+  app.get("/api/analytics/by-outcome", async (req, res) => {
+    try {
+      const query = analyticsQuerySchema.parse(req.query);
+      res.json(await storage.getCallsByOutcome(query));
+    } catch (error) {
+      sendAnalyticsError(res, error, "Failed to load calls by outcome");
+    }
+  });
+
+  app.get("/api/analytics/by-hour", async (req, res) => {
+    try {
+      const query = analyticsQuerySchema.parse(req.query);
+      res.json(await storage.getCallsByHour(query));
+    } catch (error) {
+      sendAnalyticsError(res, error, "Failed to load calls by hour");
+    }
+  });
+
+  app.get("/api/analytics/top-contacts", async (req, res) => {
+    try {
+      const query = analyticsQuerySchema.parse(req.query);
+      res.json(await storage.getTopCalledContacts(query, TOP_CONTACTS_LIMIT));
+    } catch (error) {
+      sendAnalyticsError(res, error, "Failed to load top contacts");
+    }
+  });
+
+  app.get("/api/analytics/recent-calls", async (req, res) => {
+    try {
+      const query = analyticsQuerySchema.parse(req.query);
+      res.json(await storage.getRecentCalls(query, RECENT_CALLS_LIMIT));
+    } catch (error) {
+      sendAnalyticsError(res, error, "Failed to load recent calls");
+    }
+  });
+
   app.get("/api/tags", async (_req, res) => {
     try {
       const allTags = await storage.getAllTags();
@@ -268,6 +794,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/dispositions", async (_req, res) => {
+    try {
+      const options = await listDispositionOptions();
+      res.json(options);
+    } catch (error) {
+      console.error("Error fetching dispositions:", error);
+      res.status(500).json({ error: "Failed to fetch dispositions" });
+    }
+  });
+
+  app.post("/api/dispositions", async (req, res) => {
+    try {
+      const validated = insertDispositionSchema.parse({
+        ...req.body,
+        code: req.body.code ?? toDispositionCode(String(req.body.label ?? "")),
+      });
+      if (await storage.getDispositionByCode(validated.code)) {
+        return res.status(409).json({ error: `Disposition "${validated.code}" already exists` });
+      }
+      const disposition = await storage.createDisposition(validated);
+      res.status(201).json(disposition);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors.map((e) => e.message).join("; ") });
+      }
+      console.error("Error creating disposition:", error);
+      res.status(500).json({ error: "Failed to create disposition" });
+    }
+  });
+
+  // Calls keep the code of a deleted disposition
+  app.delete("/api/dispositions/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteDisposition(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Disposition not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete disposition" });
+    }
+  });
+
   app.get("/api/contacts/:id/tags", async (req, res) => {
     try {
       const contactTags = await storage.getContactTags(req.params.id);
@@ -395,18 +964,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/calls/:id/recording", async (req, res) => {
     try {
       const recording = await storage.getCallRecording(req.params.id);
-      res.json(recording);
+      res.json(recording ?? null);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch call recording" });
     }
   });
 
+  // The recording's audio: ?format=wav|mp3|opus (default wav), ?download=1 to save it
+  // sendFile answers Range requests, so players can seek
+  app.get("/api/calls/:id/recording/audio", async (req, res) => {
+    try {
+      const format = typeof req.query.format === "string" ? req.query.format : "wav";
+      if (!isRecordingFormat(format)) {
+        return res.status(400).json({ error: `Unknown audio format: ${format}` });
+      }
+      const recording = await storage.getCallRecording(req.params.id);
+      const filePath = recording ? await getRecordingFile(recording, format) : null;
+      if (!filePath) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+
+      if (req.query.download) {
+        res.attachment(`call-${req.params.id}.${format}`);
+      }
+      res.type(RECORDING_CONTENT_TYPES[format]);
+      res.sendFile(filePath, (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ error: "Recording not found" });
+        }
+      });
+    } catch (error) {
+      console.error("Error serving call recording:", error);
+      res.status(500).json({ error: "Failed to serve call recording" });
+    }
+  });
+
+  app.get("/api/calls/:id/recording/waveform", async (req, res) => {
+    try {
+      const recording = await storage.getCallRecording(req.params.id);
+      const waveform = recording ? await getRecordingWaveform(recording) : null;
+      if (!waveform) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+      res.json(waveform);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to read call recording" });
+    }
+  });
+
   app.post("/api/calls/:id/recording", async (req, res) => {
     try {
       const validated = insertCallRecordingSchema.parse({
         ...req.body,
         callHistoryId: req.params.id,
       });
+      // Local recording files are only ever named by the server (the campaign runner)
+      if (validated.storageBackend === 'local' && validated.recordingUrl) {
+        return res.status(400).json({ error: "recordingUrl can only name an object in remote storage" });
+      }
       const recording = await storage.createCallRecording(validated);
       res.status(201).json(recording);
     } catch (error) {
@@ -414,6 +1029,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Calls being dialed right now; changes follow as live_call_* messages on /ws
+  app.get("/api/live-calls", (_req, res) => {
+    res.json(liveCallMonitor.getCalls());
+  });
+
+  app.get("/api/live-calls/:id", (req, res) => {
+    const call = liveCallMonitor.getCall(req.params.id);
+    if (!call) {
+      return res.status(404).json({ error: "Call is not live" });
+    }
+    res.json(call);
+  });
+
+  // Recording retention policy, storage backend and the last cleanup run
+  app.get("/api/recordings/retention", async (_req, res) => {
+    res.json(recordingRetention.getStatus());
+  });
+
+  app.post("/api/recordings/retention/run", async (_req, res) => {
+    try {
+      const summary = await recordingRetention.run();
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to enforce recording retention" });
+    }
+  });
+
   app.get("/api/calls/:id/transcripts", async (req, res) => {
     try {
       const transcripts = await storage.getConversationTranscripts(
@@ -447,6 +1089,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // (Re-)extract a call's data from its saved transcript
+  app.post("/api/calls/:id/interactions/extract", async (req, res) => {
+    try {
+      if (!getExtractionLlm()) {
+        return res.status(503).json({ error: NO_EXTRACTION_LLM_MESSAGE });
+      }
+      const call = await storage.getCallHistoryById(req.params.id);
+      if (!call) {
+        return res.status(404).json({ error: "Call not found" });
+      }
+      const transcript = await storage.getConversationTranscripts(call.id);
+      if (transcript.length === 0) {
+        return res.status(400).json({ error: "Call has no transcript" });
+      }
+
+      await extractCallInteractions(call, transcript);
+      res.json(await storage.getCallInteractions(call.id));
+    } catch (error) {
+      console.error("Error extracting call data:", error);
+      res.status(500).json({ error: "Failed to extract call data" });
+    }
+  });
+
   // Campaign routes
   app.get("/api/campaigns", async (_req, res) => {
     try {
@@ -504,6 +1169,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Voicemail recording played to answering machines (voicemailAction 'audio_file')
+  app.post("/api/campaigns/:id/voicemail-audio", async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+
+      const { fileName, data } = voicemailAudioUploadSchema.parse(req.body);
+      let durationSeconds: number | null;
+      try {
+        durationSeconds = await saveVoicemailAudio(campaign.id, Buffer.from(data, 'base64'));
+      } catch (error) {
+        console.error("Error converting voicemail audio:", error);
+        return res.status(400).json({ error: "Could not read the audio file" });
+      }
+
+      const updated = await storage.updateCampaign(campaign.id, { voicemailAudioFile: fileName });
+      res.json({ campaign: updated, durationSeconds });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid voicemail audio" });
+      }
+      console.error("Error uploading voicemail audio:", error);
+      res.status(500).json({ error: "Failed to upload voicemail audio" });
+    }
+  });
+
+  app.get("/api/campaigns/:id/voicemail-audio", async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign?.voicemailAudioFile) {
+        return res.status(404).json({ error: "Voicemail audio not found" });
+      }
+      res.sendFile(getVoicemailAudioPath(campaign.id), (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ error: "Voicemail audio not found" });
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch voicemail audio" });
+    }
+  });
+
   app.get("/api/campaigns/:id/contacts", async (req, res) => {
     try {
       const campaignContacts = await storage.getCampaignContacts(req.params.id);
@@ -526,504 +1235,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Bulk dial endpoint - process all contacts in a campaign
+  // Bulk dial endpoint - hand the campaign to the runner, which dials in the background
   app.post("/api/campaigns/:id/dial", async (req, res) => {
     try {
-      const campaignId = req.params.id;
-      const campaign = await storage.getCampaign(campaignId);
+      const campaign = await storage.getCampaign(req.params.id);
 
       if (!campaign) {
         return res.status(404).json({ error: "Campaign not found" });
       }
 
-      // Get all campaign contacts
-      const campaignContacts = await storage.getCampaignContacts(campaignId);
-
-      // If restarting a completed/failed/paused campaign, reset failed contacts to pending
-      if (
-        campaign.status === "completed" ||
-        campaign.status === "failed" ||
-        campaign.status === "paused" ||
-        campaign.status === "waiting_for_login"
-      ) {
-        const failedContacts = campaignContacts.filter(
-          (cc) => cc.status === "failed",
-        );
-
-        if (failedContacts.length > 0) {
-          console.log(
-            `Resetting ${failedContacts.length} failed contacts to pending for campaign restart`,
-          );
-          for (const contact of failedContacts) {
-            await storage.updateCampaignContactStatus(
-              campaignId,
-              contact.contactId,
-              "pending",
-            );
-          }
-          // Refresh campaign contacts after reset
-          const updatedContacts = await storage.getCampaignContacts(campaignId);
-          const pendingContacts = updatedContacts.filter(
-            (cc) => cc.status === "pending",
-          );
-
-          if (pendingContacts.length === 0) {
-            return res.json({
-              success: true,
-              message: "No contacts to dial",
-              totalProcessed: 0,
-            });
-          }
-        } else {
-          // Check for pending contacts
-          const pendingContacts = campaignContacts.filter(
-            (cc) => cc.status === "pending",
-          );
-
-          if (pendingContacts.length === 0) {
-            return res.json({
-              success: true,
-              message: "No pending contacts to dial",
-              totalProcessed: 0,
-            });
-          }
-        }
+      if (campaignRunner.isRunning(campaign.id)) {
+        return res.status(409).json({ error: "Campaign is already running" });
       }
 
-      // Get pending contacts after any potential reset
-      const finalContacts = await storage.getCampaignContacts(campaignId);
-      const pendingContacts = finalContacts.filter(
-        (cc) => cc.status === "pending",
-      );
+      const result = await campaignRunner.start(campaign);
 
-      if (pendingContacts.length === 0) {
+      if (!result.started) {
         return res.json({
           success: true,
-          message: "No pending contacts to dial",
+          message: result.message,
           totalProcessed: 0,
         });
       }
 
-      // Update campaign status to active
-      await storage.updateCampaign(campaignId, { status: "active" });
-      // Broadcast real-time update
-      campaignWebSocket.broadcastCampaignStatusUpdate(campaignId, "active");
-
-      // Process dial requests asynchronously
       res.json({
         success: true,
-        message: `Started dialing ${pendingContacts.length} contacts`,
-        totalContacts: pendingContacts.length,
+        message: result.message,
+        totalContacts: result.totalContacts,
       });
-
-      // Process calls in the background
-      (async () => {
-        let aiAgent: any = null;
-        let audioDevices: any = null;
-        let dialer: any = null;
-
-        try {
-          // Check if campaign has AI agent assigned
-          if (campaign.agentId) {
-            aiAgent = await storage.getAiAgent(campaign.agentId);
-            console.log(`Campaign using AI Agent: ${aiAgent?.name}`);
-          }
-
-          // Initialize dialer with audio devices if AI agent is present
-          if (aiAgent && process.env.ELEVENLABS_API_KEY) {
-            audioDevices = getWindowsAudioDevices();
-            // Don't pass audio devices to Playwright - let browser use Windows default devices
-            // This prevents Playwright from creating fake virtual devices
-            dialer = await getDialer(
-              undefined,  // Browser will use Windows default microphone
-              undefined,  // Browser will use Windows default speaker
-              {
-                loginRequiredCallback: async () => {
-                  console.log(
-                    `[Campaign] Login required for: ${campaign.name}`,
-                  );
-                  await storage.updateCampaign(campaignId, {
-                    status: "waiting_for_login",
-                  });
-                  campaignWebSocket.broadcastLoginRequired(
-                    campaignId,
-                    campaign.name,
-                  );
-                  campaignWebSocket.broadcastCampaignStatusUpdate(
-                    campaignId,
-                    "waiting_for_login",
-                  );
-                },
-                loginSuccessCallback: async () => {
-                  await storage.updateCampaign(campaignId, {
-                    status: "active",
-                  });
-                  console.log(
-                    "[Campaign] Login successful, status updated to active",
-                  );
-                  campaignWebSocket.broadcastCampaignStatusUpdate(
-                    campaignId,
-                    "active",
-                  );
-                },
-                shouldContinueCallback: async () => {
-                  const currentCampaign = await storage.getCampaign(campaignId);
-                  return (
-                    currentCampaign?.status === "active" ||
-                    currentCampaign?.status === "waiting_for_login"
-                  );
-                },
-              },
-            );
-          } else if (!aiAgent) {
-            // Simple dialer without AI agent - pass callbacks during creation
-            dialer = await getDialer(undefined, undefined, {
-              loginRequiredCallback: async () => {
-                console.log(`[Campaign] Login required for: ${campaign.name}`);
-                await storage.updateCampaign(campaignId, {
-                  status: "waiting_for_login",
-                });
-                campaignWebSocket.broadcastLoginRequired(
-                  campaignId,
-                  campaign.name,
-                );
-                campaignWebSocket.broadcastCampaignStatusUpdate(
-                  campaignId,
-                  "waiting_for_login",
-                );
-              },
-              loginSuccessCallback: async () => {
-                await storage.updateCampaign(campaignId, {
-                  status: "active",
-                });
-                console.log(
-                  "[Campaign] Login successful, status updated to active",
-                );
-                campaignWebSocket.broadcastCampaignStatusUpdate(
-                  campaignId,
-                  "active",
-                );
-              },
-              shouldContinueCallback: async () => {
-                const currentCampaign = await storage.getCampaign(campaignId);
-                return (
-                  currentCampaign?.status === "active" ||
-                  currentCampaign?.status === "waiting_for_login"
-                );
-              },
-            });
-          }
-
-          for (const cc of pendingContacts) {
-            // Check if campaign has been stopped
-            const currentCampaign = await storage.getCampaign(campaignId);
-            if (!currentCampaign || currentCampaign.status !== "active") {
-              console.log(
-                `[Campaign] Campaign stopped or paused, exiting dial loop`,
-              );
-              break;
-            }
-
-            let audioHandler: AudioStreamHandler | null = null;
-            let callHistoryId: string | null = null;
-
-            try {
-              console.log(
-                `Dialing contact ${cc.contact.name} (${cc.contact.phone})`,
-              );
-
-              // Update status to calling
-              await storage.updateCampaignContactStatus(
-                campaignId,
-                cc.contactId,
-                "calling",
-              );
-
-              // Perform the automated dial
-              let success = false;
-              if (dialer) {
-                // Use dialer with audio support
-                success = await dialer.dialNumber(cc.contact.phone);
-              } else {
-                // Use simple automated dial
-                success = await automatedDial(cc.contact.phone);
-              }
-
-              // Create call history record
-              let callConnected = false;
-              let callEndReason = "unknown";
-
-              if (success) {
-                const callHistory = await storage.createCallHistory({
-                  contactId: cc.contactId,
-                  status: "completed",
-                  notes: `Campaign: ${campaign.name}`,
-                });
-                callHistoryId = callHistory.id;
-
-                // Start call state monitoring with SIMPLIFIED detector
-
-                if (dialer) {
-                  const callDetector = dialer.createCallDetector({
-                    initialWaitTime: 3000, // Wait 3 seconds before checking End call button
-                    connectedCheckInterval: 500, // Check every 500ms while connected
-                  });
-
-                  // Track call state changes
-                  let audioStarted = false; // Flag to ensure we only start audio once
-                  let cancelDelay: (() => void) | null = null; // Function to cancel the delay
-                  let isStillConnected = false; // Flag to track if call is still active
-                  
-                  const callEndPromise = new Promise<string>((resolve) => {
-                    callDetector.onStateChange(async (transition: StateTransition) => {
-                      console.log(
-                        `[Campaign] Call state: ${transition.toState} - ${transition.reason}`,
-                      );
-
-                      if (transition.toState === "connected") {
-                        callConnected = true;
-                        isStillConnected = true;
-                        
-                        // ✅ START AUDIO ONLY AFTER CALL CONNECTS
-                        if (!audioStarted && aiAgent && aiAgent.agentId) {
-                          audioStarted = true;
-                          const page = dialer.getPage();
-                          if (page) {
-                            const callId = `call_${Date.now()}_${cc.contactId}`;
-                            
-                            console.log(`[Campaign] Call connected! Waiting 8 seconds before starting AI...`);
-                            console.log(`[Campaign] 🔇 Post-connection delay gives recipient time to answer and prevents AI from speaking during ringing`);
-                            
-                            // Create a cancellable delay using Promise.race
-                            let delayTimer: NodeJS.Timeout;
-                            const delayPromise = new Promise<boolean>((delayResolve) => {
-                              delayTimer = setTimeout(() => delayResolve(true), 8000);
-                            });
-                            const cancelPromise = new Promise<boolean>((cancelResolve) => {
-                              cancelDelay = () => {
-                                clearTimeout(delayTimer);
-                                cancelResolve(false);
-                              };
-                            });
-                            
-                            // Wait for either delay to complete OR call to end
-                            const shouldContinue = await Promise.race([delayPromise, cancelPromise]);
-                            
-                            // Safety check: Only start AI if delay completed AND call is STILL connected
-                            if (!shouldContinue || !isStillConnected) {
-                              console.log(`[Campaign] ⚠️ Call ended during delay - skipping AI audio processing`);
-                              return;
-                            }
-                            
-                            console.log(`[Campaign] ✓ Delay complete. Starting AI audio processing...`);
-                            
-                            audioHandler = new AudioStreamHandler(
-                              page,
-                              {
-                                agentId: aiAgent.agentId, // ElevenLabs Conversational AI agent ID
-                                elevenLabsApiKey: process.env.ELEVENLABS_API_KEY,
-                                voiceId: aiAgent.voiceId || undefined, // Legacy field
-                                agentPersonality: aiAgent.personality || undefined,
-                                conversationScript: aiAgent.conversationScript || undefined,
-                                greeting: aiAgent.greeting || undefined,
-                                objectionHandling: aiAgent.objectionHandling || undefined,
-                                closingScript: aiAgent.closingScript || undefined,
-                                playbackDevice: audioDevices.playbackDevice, // Play AI audio to Line 2
-                                agentName: aiAgent.name, // AI agent name for dynamic variables
-                                contactName: cc.contact.name, // Contact name for dynamic variables
-                              },
-                              callId,
-                            );
-
-                            // Listen for auto-hangup request from AI when conversation ends
-                            audioHandler.on('request_hangup', async () => {
-                              console.log('[Campaign] 🎬 Auto-hangup requested by AI - ending call gracefully');
-                              try {
-                                await dialer.hangup();
-                                console.log('[Campaign] ✓ Call hung up successfully');
-                              } catch (error) {
-                                console.error('[Campaign] Error hanging up call:', error);
-                              }
-                            });
-
-                            await audioHandler.startAudioCapture();
-                            console.log(`AI audio processing started for call ${callId}`);
-                          }
-                        }
-                      } else if (transition.toState === "ended") {
-                        console.log("[Campaign] Call ended - stopping audio");
-                        
-                        // Mark call as disconnected to prevent AI from starting
-                        isStillConnected = false;
-                        
-                        // Cancel the 8-second delay if it's still waiting
-                        if (cancelDelay) {
-                          cancelDelay();
-                          console.log("[Campaign] ⚠️ Cancelled AI startup - call ended during delay");
-                        }
-
-                        // IMMEDIATELY stop audio processing
-                        if (audioHandler) {
-                          console.log("[Campaign] Stopping audio handler...");
-                          await audioHandler.stopCapture();
-                        }
-
-                        resolve("ended");
-                      } else if (transition.toState === "failed") {
-                        console.log("[Campaign] Call failed - stopping audio");
-                        
-                        // Mark call as disconnected to prevent AI from starting
-                        isStillConnected = false;
-                        
-                        // Cancel the 8-second delay if it's still waiting
-                        if (cancelDelay) {
-                          cancelDelay();
-                          console.log("[Campaign] ⚠️ Cancelled AI startup - call failed during delay");
-                        }
-
-                        // IMMEDIATELY stop audio processing
-                        if (audioHandler) {
-                          console.log("[Campaign] Stopping audio handler...");
-                          await audioHandler.stopCapture();
-                        }
-
-                        // Click hangup button to clean up UI
-                        await dialer.hangup();
-
-                        resolve("failed");
-                      }
-                    });
-                  });
-
-                  // Start monitoring - detector waits 3s then checks for End call button
-                  await callDetector.start();
-
-                  // NOTE: Audio processing now starts automatically when call reaches CONNECTED state
-                  // See state change callback above where audioHandler is initialized
-
-                  // Wait for call to end (or fail)
-                  callEndReason = await callEndPromise;
-                  console.log(
-                    `[Campaign] Call ended with reason: ${callEndReason}`,
-                  );
-
-                  // Stop monitoring (detector auto-stops on terminal states, but call it anyway for cleanup)
-                  await callDetector.stop();
-                } else {
-                  // No dialer - simple automated dial without monitoring
-                  // Wait a default duration
-                  await new Promise((resolve) => setTimeout(resolve, 30000));
-                }
-              }
-
-              // Determine final status based on call end reason (not initial success)
-              let finalStatus: "completed" | "failed" | "pending" = "failed";
-              let statusMessage = "Call failed";
-
-              if (dialer && callEndReason) {
-                // Use call end reason to determine actual outcome
-                if (callEndReason === "ended" && callConnected) {
-                  finalStatus = "completed";
-                  statusMessage = "Call completed successfully";
-                } else if (callEndReason === "failed") {
-                  finalStatus = "failed";
-                  statusMessage = "Call failed to connect - no End call button detected";
-                } else {
-                  finalStatus = "failed";
-                  statusMessage = `Call ended: ${callEndReason}`;
-                }
-              } else if (success) {
-                // No dialer/monitoring - use initial success result
-                finalStatus = "completed";
-                statusMessage = "Call completed successfully";
-              }
-
-              // Update status based on actual call outcome
-              await storage.updateCampaignContactStatus(
-                campaignId,
-                cc.contactId,
-                finalStatus,
-                statusMessage,
-              );
-
-              console.log(
-                `[Campaign] Final status: ${finalStatus} - ${statusMessage}`,
-              );
-            } catch (error) {
-              console.error(`Failed to dial contact ${cc.contactId}:`, error);
-              await storage.updateCampaignContactStatus(
-                campaignId,
-                cc.contactId,
-                "failed",
-                error instanceof Error ? error.message : "Unknown error",
-              );
-            } finally {
-              // Clean up audio handler for this call and save recording
-              if (audioHandler !== null && callHistoryId) {
-                try {
-                  const recordingPath = await (audioHandler as AudioStreamHandler).cleanup();
-
-                  if (recordingPath) {
-                    await storage.createCallRecording({
-                      callHistoryId: callHistoryId,
-                      recordingUrl: recordingPath,
-                      duration: "30",
-                    });
-
-                    const transcript = (audioHandler as AudioStreamHandler).getTranscript();
-                    for (const turn of transcript) {
-                      await storage.createConversationTranscript({
-                        callHistoryId: callHistoryId,
-                        speaker: turn.speaker,
-                        message: turn.message,
-                      });
-                    }
-
-                    console.log(
-                      `Recording saved to ${recordingPath} with ${transcript.length} transcript entries`,
-                    );
-                  }
-                } catch (error) {
-                  console.error("Failed to save recording/transcript:", error);
-                }
-              } else if (audioHandler !== null) {
-                await (audioHandler as AudioStreamHandler).cleanup();
-              }
-
-              // Generate random delay between 3-6 minutes for natural spacing between all calls
-              // This applies to both successful and failed calls for consistent, robust behavior
-              const delayBeforeNext = getRandomCallDelay();
-              console.log(
-                `[Campaign] Waiting ${formatDelay(delayBeforeNext)} before next call...`,
-              );
-              await new Promise((resolve) =>
-                setTimeout(resolve, delayBeforeNext),
-              );
-            }
-          }
-        } finally {
-          // Close dialer if we created one
-          if (dialer) {
-            await closeDialer();
-          }
-
-          // Check current campaign status - only mark as completed if not waiting for login
-          const currentCampaign = await storage.getCampaign(campaignId);
-          if (currentCampaign?.status === "waiting_for_login") {
-            // Keep the campaign in waiting_for_login status so user can restart later
-            console.log(`Campaign ${campaign.name} paused (waiting for login)`);
-          } else {
-            // Mark campaign as completed
-            await storage.updateCampaign(campaignId, { status: "completed" });
-            // Broadcast real-time update
-            campaignWebSocket.broadcastCampaignStatusUpdate(
-              campaignId,
-              "completed",
-            );
-            console.log(`Campaign ${campaign.name} completed`);
-          }
-        }
-      })();
     } catch (error) {
       console.error("Campaign dial failed:", error);
       res.status(500).json({
@@ -1033,43 +1272,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Stop campaign endpoint
-  app.post("/api/campaigns/:id/stop", async (req, res) => {
+  // Pause campaign endpoint - the current call finishes, then dialing holds
+  app.post("/api/campaigns/:id/pause", async (req, res) => {
     try {
-      const campaignId = req.params.id;
-      const campaign = await storage.getCampaign(campaignId);
+      const campaign = await storage.getCampaign(req.params.id);
 
       if (!campaign) {
         return res.status(404).json({ error: "Campaign not found" });
       }
 
-      // Reset any "calling" contacts back to "pending" so they can be retried
-      const campaignContacts = await storage.getCampaignContacts(campaignId);
-      const callingContacts = campaignContacts.filter(cc => cc.status === 'calling');
-      
-      if (callingContacts.length > 0) {
-        console.log(`[Campaign] Resetting ${callingContacts.length} calling contacts to pending`);
-        for (const contact of callingContacts) {
-          await storage.updateCampaignContactStatus(
-            campaignId,
-            contact.contactId,
-            "pending",
-          );
-        }
+      const paused = await campaignRunner.pause(campaign.id);
+      if (!paused) {
+        return res.status(409).json({ error: "Campaign is not running" });
       }
 
-      // Update campaign status to paused
-      await storage.updateCampaign(campaignId, {
-        status: "paused",
+      res.json({
+        success: true,
+        message: "Campaign paused",
       });
-      // Broadcast real-time update
-      campaignWebSocket.broadcastCampaignStatusUpdate(campaignId, "paused");
+    } catch (error) {
+      console.error("Failed to pause campaign:", error);
+      res.status(500).json({ error: "Failed to pause campaign" });
+    }
+  });
 
-      console.log(`[Campaign] ${campaign.name} stopped by user`);
+  // Resume campaign endpoint
+  app.post("/api/campaigns/:id/resume", async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
 
-      // Close the browser to stop the automation completely
-      await closeDialer();
-      console.log("[Campaign] Browser closed");
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+
+      const resumed = await campaignRunner.resume(campaign);
+      if (!resumed) {
+        return res.status(409).json({ error: "Campaign is not paused" });
+      }
+
+      res.json({
+        success: true,
+        message: "Campaign resumed",
+      });
+    } catch (error) {
+      console.error("Failed to resume campaign:", error);
+      res.status(500).json({ error: "Failed to resume campaign" });
+    }
+  });
+
+  // Stop campaign endpoint - hangs up the current call and ends the run
+  app.post("/api/campaigns/:id/stop", async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+
+      await campaignRunner.stop(campaign);
 
       res.json({
         success: true,
@@ -1081,6 +1341,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/campaigns/:id/run", async (req, res) => {
+    try {
+      const run = await storage.getLatestCampaignRun(req.params.id);
+      res.json(run ?? null);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch campaign run" });
+    }
+  });
+
+  app.get("/api/campaigns/:id/report", async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+      res.json(await buildCampaignReport(campaign));
+    } catch (error) {
+      console.error("Error building campaign report:", error);
+      res.status(500).json({ error: "Failed to build campaign report" });
+    }
+  });
+
   // Reset campaign contacts endpoint (for restarting completed campaigns)
   app.post("/api/campaigns/:id/reset", async (req, res) => {
     try {
@@ -1091,6 +1373,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Campaign not found" });
       }
 
+      if (campaignRunner.isRunning(campaignId)) {
+        return res.status(409).json({ error: "Stop the campaign before resetting it" });
+      }
+
       // Get all campaign contacts
       const campaignContacts = await storage.getCampaignContacts(campaignId);
       
@@ -1101,11 +1387,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Reset all contacts to pending status
       console.log(`[Campaign] Resetting ${campaignContacts.length} contacts to pending for restart`);
       for (const contact of campaignContacts) {
-        await storage.updateCampaignContactStatus(
-          campaignId,
-          contact.contactId,
-          "pending",
-        );
+        await storage.updateCampaignContact(campaignId, contact.contactId, {
+          status: "pending",
+          attempts: 0,
+          nextAttemptAt: null,
+          lastOutcome: null,
+        });
       }
 
       // Update campaign status to draft so it can be started again
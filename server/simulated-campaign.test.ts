@@ -0,0 +1,122 @@
+/**
+ * End-to-end: a whole campaign run headlessly
+ *
+ * Dials a scripted campaign through the real campaign runner, with the
+ * simulated provider as the phone line and the fake ElevenLabs server as the
+ * AI agent - no browser, audio devices or API keys. Results are read back
+ * from the database.
+ *
+ * Needs a scratch Postgres database with the schema pushed (npm run db:push);
+ * set E2E_DATABASE_URL to run it. The test writes campaigns, contacts and calls
+ * to that database, so never point it at one with real data.
+ */
+
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { FakeElevenLabsServer } from "./fake-elevenlabs";
+
+const E2E_DATABASE_URL = process.env.E2E_DATABASE_URL;
+const FAKE_ELEVENLABS_PORT = 8799;
+const CAMPAIGN_TIMEOUT_MS = 120 * 1000;
+
+// Dialed in this order, one contact per scripted outcome
+const SCRIPT = [
+  { outcome: "connected", phone: "(212) 555-0101", expected: "completed" },
+  { outcome: "no_answer", phone: "(212) 555-0102", expected: "no_answer" },
+  { outcome: "busy", phone: "(212) 555-0103", expected: "busy" },
+  { outcome: "voicemail", phone: "(212) 555-0104", expected: "voicemail" },
+] as const;
+
+let fakeElevenLabs: FakeElevenLabsServer | null = null;
+
+before(async () => {
+  if (!E2E_DATABASE_URL) return;
+
+  process.env.DATABASE_URL = E2E_DATABASE_URL;
+  process.env.ELEVENLABS_API_KEY = "e2e";
+  process.env.ELEVENLABS_WS_URL = `ws://localhost:${FAKE_ELEVENLABS_PORT}`;
+  process.env.SIMULATED_CALL_OUTCOMES = SCRIPT.map((step) => step.outcome).join(",");
+
+  fakeElevenLabs = new FakeElevenLabsServer({ port: FAKE_ELEVENLABS_PORT, userTurnMs: 500, msPerCharacter: 10 });
+  await fakeElevenLabs.start();
+});
+
+after(async () => {
+  if (!E2E_DATABASE_URL) return;
+
+  await fakeElevenLabs?.stop();
+  const { closeAllTelephonyProviders } = await import("./telephony");
+  await closeAllTelephonyProviders();
+  const { pool } = await import("./db");
+  await pool.end();
+});
+
+test("a scripted campaign dials every contact and records each outcome", {
+  skip: !E2E_DATABASE_URL && "set E2E_DATABASE_URL to a scratch database to run",
+  timeout: CAMPAIGN_TIMEOUT_MS + 10 * 1000,
+}, async () => {
+  // Imported here so DATABASE_URL is set before the database connects
+  const { storage } = await import("./storage");
+  const { campaignRunner } = await import("./campaign-runner");
+
+  const suffix = Date.now();
+  const agent = await storage.createAiAgent({
+    name: `E2E agent ${suffix}`,
+    personality: "Friendly",
+    agentId: "e2e-agent",
+    conversationScript: "Invite the contact to the event",
+  });
+  const campaign = await storage.createCampaign({
+    name: `E2E campaign ${suffix}`,
+    agentId: agent.id,
+    telephonyProvider: "simulated",
+    // Always inside the calling window, no pause between calls, one attempt each
+    callingHoursStart: "00:00",
+    callingHoursEnd: "24:00",
+    callingDays: "sun,mon,tue,wed,thu,fri,sat",
+    delayAfterCompletedMin: 0,
+    delayAfterCompletedMax: 0,
+    delayAfterFailedMin: 0,
+    delayAfterFailedMax: 0,
+    pacingJitter: "none",
+    maxAttempts: 1,
+    voicemailAction: "hang_up",
+  });
+
+  // Contacts are dialed oldest first, so in script order
+  const contactIds: string[] = [];
+  for (const step of SCRIPT) {
+    const contact = await storage.createContact({ name: `E2E ${step.outcome} ${suffix}`, phone: step.phone });
+    contactIds.push(contact.id);
+  }
+  await storage.addContactsToCampaign(campaign.id, contactIds);
+
+  const result = await campaignRunner.start(campaign);
+  assert.equal(result.started, true, result.message);
+  assert.equal(result.totalContacts, SCRIPT.length);
+
+  // The run is detached a moment before the campaign is marked completed
+  const deadline = Date.now() + CAMPAIGN_TIMEOUT_MS;
+  while ((await storage.getCampaign(campaign.id))?.status !== "completed") {
+    assert.ok(Date.now() < deadline, "Campaign did not finish in time");
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  assert.equal(campaignRunner.isRunning(campaign.id), false);
+
+  const run = await storage.getLatestCampaignRun(campaign.id);
+  assert.equal(run?.status, "completed");
+  assert.equal(run?.callsAttempted, SCRIPT.length);
+
+  const campaignContacts = await storage.getCampaignContacts(campaign.id);
+  for (const [index, step] of SCRIPT.entries()) {
+    const cc = campaignContacts.find((c) => c.contactId === contactIds[index]);
+    assert.equal(cc?.lastOutcome, step.expected, `${step.outcome} contact`);
+  }
+
+  // The answered call held the scripted AI conversation
+  const answered = await storage.getLatestCampaignCall(campaign.id, contactIds[0]);
+  assert.ok(answered);
+  const transcript = await storage.getConversationTranscripts(answered.id);
+  assert.ok(transcript.some((turn) => turn.speaker === "agent"), "Agent turns were transcribed");
+  assert.ok(transcript.some((turn) => turn.speaker === "contact"), "Caller turns were transcribed");
+});
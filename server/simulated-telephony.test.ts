@@ -0,0 +1,70 @@
+/**
+ * Simulated provider - scripted outcomes and the call state config it is given
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CallState } from "./call-state-engine";
+import { SimulatedTelephonyProvider, type SimulatedCallOutcome } from "./simulated-telephony";
+
+// Timings scaled down so every case runs in well under a second
+const FAST_TIMINGS = {
+  ringDurationMs: 20,
+  ringTimeoutMs: 60,
+  busyDelayMs: 10,
+  callDurationMs: 100,
+  greetingDurationMs: 50,
+  frameMs: 10,
+};
+
+/**
+ * Dial one scripted call and wait for its last state
+ */
+async function runCall(
+  outcome: SimulatedCallOutcome,
+  config: Parameters<SimulatedTelephonyProvider['createCallStateSource']>[0] = {},
+): Promise<{ state: CallState; reason: string }> {
+  const provider = new SimulatedTelephonyProvider({ ...FAST_TIMINGS, outcomes: [outcome] });
+  await provider.dial("+12125550100");
+  const source = provider.createCallStateSource(config);
+
+  const ended = new Promise<{ state: CallState; reason: string }>((resolve) => {
+    source.onStateChange((transition) => {
+      if (![CallState.DIALING, CallState.CONNECTED].includes(transition.toState)) {
+        resolve({ state: transition.toState, reason: transition.reason });
+      }
+    });
+  });
+  await source.start();
+  const result = await ended;
+  await provider.close();
+  return result;
+}
+
+test("connected calls end when the callee hangs up", async () => {
+  const { state, reason } = await runCall("connected");
+  assert.equal(state, CallState.ENDED);
+  assert.match(reason, /hung up/);
+});
+
+test("no_answer, busy and voicemail play out their script", async () => {
+  assert.equal((await runCall("no_answer")).state, CallState.NO_ANSWER);
+  assert.equal((await runCall("busy")).state, CallState.BUSY);
+  assert.equal((await runCall("voicemail")).state, CallState.ENDED);
+});
+
+test("a call still going at maxCallDuration is hung up", async () => {
+  const { state, reason } = await runCall("connected", { maxCallDuration: 30 });
+  assert.equal(state, CallState.ENDED);
+  assert.match(reason, /Maximum call duration/);
+});
+
+test("a pickup later than ringingTimeout is NO_ANSWER", async () => {
+  assert.equal((await runCall("connected", { ringingTimeout: 10 })).state, CallState.NO_ANSWER);
+});
+
+test("no_answer gives up at ringingTimeout when it is shorter than the scripted ring", async () => {
+  const started = Date.now();
+  assert.equal((await runCall("no_answer", { ringingTimeout: 10 })).state, CallState.NO_ANSWER);
+  assert.ok(Date.now() - started < FAST_TIMINGS.ringTimeoutMs);
+});
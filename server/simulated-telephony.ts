@@ -0,0 +1,334 @@
+/**
+ * Simulated Telephony Provider
+ *
+ * An in-process phone line that needs no browser, audio devices or carrier.
+ * Each dialed call plays out a scripted outcome:
+ * - connected: rings, callee answers with a short "hello", then hangs up after callDurationMs
+ * - no_answer: rings until ringTimeoutMs, then NO_ANSWER
+ * - voicemail: answers, plays a greeting followed by a beep, then hangs up after callDurationMs
+ * - busy: fails with BUSY shortly after dialing
+ *
+ * Outcomes are taken from SIMULATED_CALL_OUTCOMES (comma-separated) in dial
+ * order, wrapping around when the list is exhausted. Defaults to "connected".
+ *
+ * The call state config a caller passes to createCallStateSource() applies
+ * like it does to a real call: a pickup later than ringingTimeout is
+ * NO_ANSWER, and a call still going at maxCallDuration is hung up.
+ *
+ * Useful for running campaigns on machines without Google Voice / VAC, e.g. CI on Linux.
+ */
+
+import { EventEmitter } from 'events';
+import { CallState, DEFAULT_CALL_STATE_CONFIG, type CallStateConfig, type StateTransition } from './call-state-engine';
+import type { TelephonyProvider, CallStateSource, CallAudioStream } from './telephony';
+
+export const simulatedCallOutcomes = ['connected', 'no_answer', 'voicemail', 'busy'] as const;
+export type SimulatedCallOutcome = typeof simulatedCallOutcomes[number];
+
+export interface SimulatedTelephonyConfig {
+  outcomes: SimulatedCallOutcome[]; // Cycled in dial order
+  ringDurationMs: number; // Time from dial to CONNECTED (connected / voicemail)
+  ringTimeoutMs: number; // Time from dial to NO_ANSWER
+  busyDelayMs: number; // Time from dial to BUSY
+  callDurationMs: number; // Time CONNECTED before the callee hangs up
+  greetingDurationMs: number; // Length of the voicemail greeting before the beep
+  frameMs: number; // Size of each inbound audio frame
+}
+
+const DEFAULT_CONFIG: SimulatedTelephonyConfig = {
+  outcomes: ['connected'],
+  ringDurationMs: 2000,
+  ringTimeoutMs: 6000,
+  busyDelayMs: 1000,
+  callDurationMs: 20000,
+  greetingDurationMs: 5000,
+  frameMs: 128, // Matches the 2048-sample chunks captured in the browser
+};
+
+const SAMPLE_RATE = 16000;
+const BYTES_PER_MS = 32; // 16kHz * 2 bytes per sample / 1000
+const HELLO_DURATION_MS = 600;
+const BEEP_DURATION_MS = 500;
+
+/**
+ * Parse SIMULATED_CALL_OUTCOMES, skipping unknown entries
+ */
+function outcomesFromEnv(): SimulatedCallOutcome[] | undefined {
+  const raw = process.env.SIMULATED_CALL_OUTCOMES;
+  if (!raw) return undefined;
+
+  const outcomes: SimulatedCallOutcome[] = [];
+  for (const entry of raw.split(',').map((s) => s.trim()).filter(Boolean)) {
+    if ((simulatedCallOutcomes as readonly string[]).includes(entry)) {
+      outcomes.push(entry as SimulatedCallOutcome);
+    } else {
+      console.warn(`[SimulatedTelephony] Ignoring unknown outcome "${entry}" in SIMULATED_CALL_OUTCOMES`);
+    }
+  }
+  return outcomes.length > 0 ? outcomes : undefined;
+}
+
+/**
+ * Fill a PCM buffer with a sine tone (or silence when frequency is 0)
+ */
+function fillTone(buffer: Buffer, frequency: number, amplitude: number, startSample: number): void {
+  for (let i = 0; i < buffer.length / 2; i++) {
+    const t = (startSample + i) / SAMPLE_RATE;
+    const sample = frequency > 0 ? Math.round(Math.sin(2 * Math.PI * frequency * t) * amplitude) : 0;
+    buffer.writeInt16LE(sample, i * 2);
+  }
+}
+
+/**
+ * Call state for one simulated call
+ */
+export class SimulatedCallStateSource implements CallStateSource {
+  readonly outcome: SimulatedCallOutcome;
+  private config: SimulatedTelephonyConfig;
+  private callStateConfig: CallStateConfig;
+  private currentState: CallState = CallState.IDLE;
+  private stateChangeCallbacks: Array<(transition: StateTransition) => void> = [];
+  private transitionHistory: StateTransition[] = [];
+  private timers: NodeJS.Timeout[] = [];
+
+  constructor(config: SimulatedTelephonyConfig, outcome: SimulatedCallOutcome, callStateConfig?: Partial<CallStateConfig>) {
+    this.config = config;
+    this.outcome = outcome;
+    this.callStateConfig = { ...DEFAULT_CALL_STATE_CONFIG, ...callStateConfig };
+  }
+
+  async start(): Promise<void> {
+    this.transitionTo(CallState.DIALING, `Call initiated (scripted outcome: ${this.outcome})`);
+
+    switch (this.outcome) {
+      case 'connected':
+      case 'voicemail':
+        if (this.config.ringDurationMs >= this.callStateConfig.ringingTimeout) {
+          this.scheduleNoAnswer(this.callStateConfig.ringingTimeout);
+          break;
+        }
+
+        this.schedule(this.config.ringDurationMs, () => {
+          const who = this.outcome === 'voicemail' ? "Voicemail" : "Simulated callee";
+          this.transitionTo(CallState.CONNECTED, `${who} answered`);
+
+          this.schedule(this.config.callDurationMs, () => {
+            this.transitionTo(CallState.ENDED, `${who} hung up`);
+            this.stop();
+          });
+          this.schedule(this.callStateConfig.maxCallDuration, () => {
+            this.transitionTo(CallState.ENDED, "Maximum call duration reached");
+            this.stop();
+          });
+        });
+        break;
+      case 'no_answer':
+        this.scheduleNoAnswer(Math.min(this.config.ringTimeoutMs, this.callStateConfig.ringingTimeout));
+        break;
+      case 'busy':
+        this.schedule(this.config.busyDelayMs, () => {
+          this.transitionTo(CallState.BUSY, "Line busy");
+          this.stop();
+        });
+        break;
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers = [];
+  }
+
+  /**
+   * End the call from our side
+   */
+  hangup(): void {
+    if (this.currentState === CallState.DIALING) {
+      this.transitionTo(CallState.FAILED, "Hung up before answer");
+    } else if (this.currentState === CallState.CONNECTED) {
+      this.transitionTo(CallState.ENDED, "Hung up by caller");
+    }
+    this.stop();
+  }
+
+  onStateChange(callback: (transition: StateTransition) => void): void {
+    this.stateChangeCallbacks.push(callback);
+  }
+
+  getState(): CallState {
+    return this.currentState;
+  }
+
+  getHistory(): StateTransition[] {
+    return [...this.transitionHistory];
+  }
+
+  private schedule(ms: number, fn: () => void): void {
+    this.timers.push(setTimeout(fn, ms));
+  }
+
+  private scheduleNoAnswer(ms: number): void {
+    this.schedule(ms, () => {
+      this.transitionTo(CallState.NO_ANSWER, "No answer");
+      this.stop();
+    });
+  }
+
+  private transitionTo(newState: CallState, reason: string): void {
+    if (newState === this.currentState) return;
+
+    const transition: StateTransition = {
+      timestamp: Date.now(),
+      fromState: this.currentState,
+      toState: newState,
+      reason,
+    };
+
+    this.transitionHistory.push(transition);
+    this.currentState = newState;
+    console.log(`[SimulatedTelephony] ${transition.fromState} → ${newState} (${reason})`);
+
+    for (const callback of this.stateChangeCallbacks) {
+      try {
+        callback(transition);
+      } catch (error) {
+        console.error("[SimulatedTelephony] Error in state change callback:", error);
+      }
+    }
+  }
+}
+
+/**
+ * Audio for one simulated call - outbound is "played" in real time
+ *
+ * Inbound audio depends on the outcome: a live callee says a short "hello"
+ * then stays silent; voicemail plays a greeting then a beep then silence.
+ * Like the Google Voice stream, inbound chunks are flagged as gated while
+ * outbound audio is playing.
+ */
+export class SimulatedAudioStream extends EventEmitter implements CallAudioStream {
+  private config: SimulatedTelephonyConfig;
+  private outcome: SimulatedCallOutcome;
+  private inboundTimer: NodeJS.Timeout | null = null;
+  private inboundSamples: number = 0;
+  private outboundTimer: NodeJS.Timeout | null = null;
+  private outboundQueueMs: number = 0;
+
+  constructor(config: SimulatedTelephonyConfig, outcome: SimulatedCallOutcome) {
+    super();
+    this.config = config;
+    this.outcome = outcome;
+  }
+
+  async start(): Promise<void> {
+    this.inboundTimer = setInterval(() => {
+      const frame = this.nextInboundFrame();
+      this.emit('inbound_audio', frame, { gated: this.outboundTimer !== null });
+    }, this.config.frameMs);
+  }
+
+  async stop(): Promise<void> {
+    if (this.inboundTimer) {
+      clearInterval(this.inboundTimer);
+      this.inboundTimer = null;
+    }
+    this.clearOutbound();
+  }
+
+  playOutbound(chunk: Buffer): void {
+    this.outboundQueueMs += chunk.length / BYTES_PER_MS;
+    if (this.outboundTimer) {
+      clearTimeout(this.outboundTimer);
+    }
+    this.outboundTimer = setTimeout(() => {
+      this.outboundTimer = null;
+      this.outboundQueueMs = 0;
+      this.emit('outbound_drained');
+    }, this.outboundQueueMs);
+  }
+
+  clearOutbound(): void {
+    if (this.outboundTimer) {
+      clearTimeout(this.outboundTimer);
+      this.outboundTimer = null;
+    }
+    this.outboundQueueMs = 0;
+  }
+
+  private nextInboundFrame(): Buffer {
+    const frame = Buffer.alloc(this.config.frameMs * BYTES_PER_MS);
+    const elapsedMs = (this.inboundSamples / SAMPLE_RATE) * 1000;
+
+    if (this.outcome === 'voicemail') {
+      if (elapsedMs < this.config.greetingDurationMs) {
+        fillTone(frame, 220, 6000, this.inboundSamples);
+      } else if (elapsedMs < this.config.greetingDurationMs + BEEP_DURATION_MS) {
+        fillTone(frame, 1000, 12000, this.inboundSamples);
+      }
+    } else if (elapsedMs < HELLO_DURATION_MS) {
+      fillTone(frame, 180, 6000, this.inboundSamples);
+    }
+
+    this.inboundSamples += frame.length / 2;
+    return frame;
+  }
+}
+
+export class SimulatedTelephonyProvider implements TelephonyProvider {
+  readonly name = 'simulated' as const;
+  private config: SimulatedTelephonyConfig;
+  private activeCall: SimulatedCallStateSource | null = null;
+  private dialCount: number = 0;
+  private nextOutcome: SimulatedCallOutcome = 'connected';
+
+  constructor(config?: Partial<SimulatedTelephonyConfig>) {
+    this.config = { ...DEFAULT_CONFIG, outcomes: outcomesFromEnv() ?? DEFAULT_CONFIG.outcomes, ...config };
+  }
+
+  async dial(phoneNumber: string): Promise<boolean> {
+    const outcomes = this.config.outcomes;
+    this.nextOutcome = outcomes[this.dialCount % outcomes.length];
+    this.dialCount++;
+    console.log(`[SimulatedTelephony] Dialing ${phoneNumber} (scripted outcome: ${this.nextOutcome})`);
+    return true;
+  }
+
+  async hangup(): Promise<void> {
+    if (this.activeCall) {
+      this.activeCall.hangup();
+    }
+  }
+
+  createCallStateSource(config?: Partial<CallStateConfig>): CallStateSource {
+    this.activeCall = new SimulatedCallStateSource(this.config, this.nextOutcome, config);
+    return this.activeCall;
+  }
+
+  createAudioStream(): CallAudioStream {
+    return new SimulatedAudioStream(this.config, this.activeCall?.outcome ?? this.nextOutcome);
+  }
+
+  async close(): Promise<void> {
+    if (this.activeCall) {
+      await this.activeCall.stop();
+      this.activeCall = null;
+    }
+  }
+}
+
+// Singleton instance
+let simulatedInstance: SimulatedTelephonyProvider | null = null;
+
+export function getSimulatedProvider(): SimulatedTelephonyProvider {
+  if (!simulatedInstance) {
+    simulatedInstance = new SimulatedTelephonyProvider();
+  }
+  return simulatedInstance;
+}
+
+export async function closeSimulatedProvider(): Promise<void> {
+  if (simulatedInstance) {
+    await simulatedInstance.close();
+    simulatedInstance = null;
+  }
+}
@@ -5,10 +5,14 @@ import {
   contactTags,
   campaigns,
   campaignContacts,
+  campaignRuns,
   aiAgents,
   callRecordings,
   conversationTranscripts,
   callInteractions,
+  dncEntries,
+  importJobs,
+  dispositions,
   type Contact, 
   type InsertContact, 
   type CallHistory, 
@@ -21,21 +25,43 @@ import {
   type InsertCampaign,
   type CampaignContact,
   type InsertCampaignContact,
+  type CampaignRun,
+  type InsertCampaignRun,
   type AiAgent,
   type InsertAiAgent,
   type CallRecording,
   type InsertCallRecording,
+  type RetainedCallRecording,
   type ConversationTranscript,
   type InsertConversationTranscript,
   type CallInteraction,
-  type InsertCallInteraction
+  type InsertCallInteraction,
+  type DncEntry,
+  type InsertDncEntry,
+  type ImportJob,
+  type InsertImportJob,
+  type Disposition,
+  type InsertDisposition,
+  type AnalyticsQuery,
+  type CallSummary,
+  type CallVolumePoint,
+  type CampaignCallStats,
+  type AgentCallStats,
+  type OutcomeCount,
+  type HourlyCallStats,
+  type TopCalledContact,
+  type RecentCall,
+  type CampaignDialStats,
+  type InterestLevelCount
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, inArray, and } from "drizzle-orm";
+import { eq, desc, inArray, and, gte, lte, ne, isNotNull, isNull, or, exists, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 
 export interface IStorage {
   getAllContacts(): Promise<Contact[]>;
   getContact(id: string): Promise<Contact | undefined>;
+  getContactsByPhones(phones: string[]): Promise<Contact[]>;
   createContact(contact: InsertContact): Promise<Contact>;
   updateContact(id: string, contact: InsertContact): Promise<Contact | undefined>;
   deleteContact(id: string): Promise<boolean>;
@@ -43,30 +69,52 @@ export interface IStorage {
   
   getAllCallHistory(): Promise<CallHistory[]>;
   getCallHistory(contactId: string): Promise<CallHistory[]>;
+  getCallHistoryById(id: string): Promise<CallHistory | undefined>;
   createCallHistory(call: InsertCallHistory): Promise<CallHistory>;
+  updateCallHistory(id: string, updates: Partial<InsertCallHistory>): Promise<CallHistory | undefined>;
+  getLatestCampaignCall(campaignId: string, contactId: string): Promise<CallHistory | undefined>;
+  getCampaignCallTimes(campaignId: string, since: Date): Promise<Date[]>;
 
   getAllTags(): Promise<Tag[]>;
   createTag(tag: InsertTag): Promise<Tag>;
   deleteTag(id: string): Promise<boolean>;
   
   getContactTags(contactId: string): Promise<Tag[]>;
+  getAllContactTags(): Promise<{ contactId: string; tag: Tag }[]>;
   addTagToContact(contactId: string, tagId: string): Promise<void>;
   removeTagFromContact(contactId: string, tagId: string): Promise<void>;
 
+  getAllDispositions(): Promise<Disposition[]>;
+  getDispositionByCode(code: string): Promise<Disposition | undefined>;
+  createDisposition(disposition: InsertDisposition): Promise<Disposition>;
+  deleteDisposition(id: string): Promise<boolean>;
+
   getAllCampaigns(): Promise<Campaign[]>;
   getCampaign(id: string): Promise<Campaign | undefined>;
+  getCampaignsByStatus(statuses: string[]): Promise<Campaign[]>;
   createCampaign(campaign: InsertCampaign): Promise<Campaign>;
   updateCampaign(id: string, campaign: Partial<InsertCampaign>): Promise<Campaign | undefined>;
   deleteCampaign(id: string): Promise<boolean>;
   
   getCampaignContacts(campaignId: string): Promise<(CampaignContact & { contact: Contact })[]>;
   addContactsToCampaign(campaignId: string, contactIds: string[]): Promise<void>;
-  updateCampaignContactStatus(
-    campaignId: string, 
-    contactId: string, 
-    status: 'pending' | 'calling' | 'completed' | 'failed', 
-    notes?: string
+  getPendingCampaignContacts(campaignId: string): Promise<(CampaignContact & { contact: Contact })[]>;
+  updateCampaignContact(
+    campaignId: string,
+    contactId: string,
+    updates: Partial<CampaignContact>
   ): Promise<void>;
+  resetCampaignContactsByStatus(
+    campaignId: string,
+    fromStatus: 'pending' | 'calling' | 'completed' | 'failed' | 'skipped',
+    toStatus: 'pending' | 'calling' | 'completed' | 'failed' | 'skipped',
+    clearAttempts?: boolean
+  ): Promise<number>;
+
+  getLatestCampaignRun(campaignId: string): Promise<CampaignRun | undefined>;
+  createCampaignRun(run: InsertCampaignRun): Promise<CampaignRun>;
+  updateCampaignRun(id: string, updates: Partial<CampaignRun>): Promise<CampaignRun | undefined>;
+  closeOpenCampaignRuns(campaignId: string, status: 'completed' | 'stopped' | 'interrupted'): Promise<void>;
 
   getAllAiAgents(): Promise<AiAgent[]>;
   getAiAgent(id: string): Promise<AiAgent | undefined>;
@@ -76,12 +124,75 @@ export interface IStorage {
 
   getCallRecording(callHistoryId: string): Promise<CallRecording | undefined>;
   createCallRecording(recording: InsertCallRecording): Promise<CallRecording>;
+  updateCallRecording(id: string, updates: Partial<CallRecording>): Promise<CallRecording | undefined>;
+  getRetainedCallRecordings(): Promise<RetainedCallRecording[]>;
+  backfillRecordingDurations(): Promise<number>;
 
   getConversationTranscripts(callHistoryId: string): Promise<ConversationTranscript[]>;
+  getTranscriptsForCalls(callHistoryIds: string[]): Promise<ConversationTranscript[]>;
   createConversationTranscript(transcript: InsertConversationTranscript): Promise<ConversationTranscript>;
+  updateConversationTranscript(id: string, updates: Partial<InsertConversationTranscript>): Promise<ConversationTranscript | undefined>;
 
   getCallInteractions(callHistoryId: string): Promise<CallInteraction[]>;
+  getAllCallInteractions(): Promise<CallInteraction[]>;
   createCallInteraction(interaction: InsertCallInteraction): Promise<CallInteraction>;
+  replaceExtractedCallInteractions(callHistoryId: string, interactions: InsertCallInteraction[]): Promise<CallInteraction[]>;
+
+  getAllDncEntries(): Promise<DncEntry[]>;
+  getDncEntryByPhone(phone: string): Promise<DncEntry | undefined>;
+  createDncEntry(entry: InsertDncEntry): Promise<DncEntry>;
+  bulkCreateDncEntries(entries: InsertDncEntry[]): Promise<DncEntry[]>;
+  deleteDncEntry(id: string): Promise<boolean>;
+
+  getAllImportJobs(): Promise<ImportJob[]>;
+  getImportJob(id: string): Promise<ImportJob | undefined>;
+  createImportJob(job: InsertImportJob): Promise<ImportJob>;
+  updateImportJob(id: string, updates: Partial<ImportJob>): Promise<ImportJob | undefined>;
+  clearRunImportFiles(): Promise<number>;
+
+  getCallSummary(query: AnalyticsQuery): Promise<CallSummary>;
+  getCallVolume(query: AnalyticsQuery): Promise<CallVolumePoint[]>;
+  getCallsByCampaign(query: AnalyticsQuery): Promise<CampaignCallStats[]>;
+  getCallsByAgent(query: AnalyticsQuery): Promise<AgentCallStats[]>;
+  getCallsByOutcome(query: AnalyticsQuery): Promise<OutcomeCount[]>;
+  getCallsByHour(query: AnalyticsQuery): Promise<HourlyCallStats[]>;
+  getTopCalledContacts(query: AnalyticsQuery, limit: number): Promise<TopCalledContact[]>;
+  getRecentCalls(query: AnalyticsQuery, limit: number): Promise<RecentCall[]>;
+
+  getCampaignDialStats(campaignId: string, sharedWithCampaignId?: string): Promise<CampaignDialStats>;
+  getCampaignInterestLevels(campaignId: string, sharedWithCampaignId?: string): Promise<InterestLevelCount[]>;
+  getCampaignOverlaps(campaignId: string): Promise<{ campaignId: string; sharedContacts: number }[]>;
+}
+
+// Aggregates shared by the analytics queries
+const callCounts = {
+  total: sql<number>`count(*)::int`,
+  completed: sql<number>`(count(*) filter (where ${callHistory.status} = 'completed'))::int`,
+  talkTimeSeconds: sql<number>`coalesce(sum(${callHistory.talkSeconds}), 0)::int`,
+};
+
+function analyticsConditions(query: AnalyticsQuery): SQL | undefined {
+  return and(
+    query.from ? gte(callHistory.calledAt, query.from) : undefined,
+    query.to ? lte(callHistory.calledAt, query.to) : undefined,
+    query.campaignId ? eq(callHistory.campaignId, query.campaignId) : undefined,
+  );
+}
+
+// Limits a campaign report to the contacts that are also in another campaign
+function sharedContactCondition(column: typeof callHistory.contactId | typeof campaignContacts.contactId, sharedWithCampaignId?: string) {
+  if (!sharedWithCampaignId) return undefined;
+  return inArray(
+    column,
+    db.select({ contactId: campaignContacts.contactId })
+      .from(campaignContacts)
+      .where(eq(campaignContacts.campaignId, sharedWithCampaignId)),
+  );
+}
+
+// called_at is stored in UTC; this is the same moment on the query timezone's clock
+function localCalledAt(query: AnalyticsQuery): SQL {
+  return sql`(${callHistory.calledAt} at time zone 'UTC' at time zone ${query.timezone})`;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -94,6 +205,11 @@ export class DatabaseStorage implements IStorage {
     return contact || undefined;
   }
 
+  async getContactsByPhones(phones: string[]): Promise<Contact[]> {
+    if (phones.length === 0) return [];
+    return await db.select().from(contacts).where(inArray(contacts.phone, phones));
+  }
+
   async createContact(insertContact: InsertContact): Promise<Contact> {
     const [contact] = await db
       .insert(contacts)
@@ -131,6 +247,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(callHistory.calledAt));
   }
 
+  async getCallHistoryById(id: string): Promise<CallHistory | undefined> {
+    const [call] = await db.select().from(callHistory).where(eq(callHistory.id, id));
+    return call || undefined;
+  }
+
   async createCallHistory(insertCall: InsertCallHistory): Promise<CallHistory> {
     const [call] = await db
       .insert(callHistory)
@@ -139,6 +260,40 @@ export class DatabaseStorage implements IStorage {
     return call;
   }
 
+  async updateCallHistory(id: string, updates: Partial<InsertCallHistory>): Promise<CallHistory | undefined> {
+    const [updated] = await db
+      .update(callHistory)
+      .set(updates)
+      .where(eq(callHistory.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getLatestCampaignCall(campaignId: string, contactId: string): Promise<CallHistory | undefined> {
+    const [call] = await db
+      .select()
+      .from(callHistory)
+      .where(and(eq(callHistory.campaignId, campaignId), eq(callHistory.contactId, contactId)))
+      .orderBy(desc(callHistory.calledAt))
+      .limit(1);
+    return call || undefined;
+  }
+
+  async getCampaignCallTimes(campaignId: string, since: Date): Promise<Date[]> {
+    const rows = await db
+      .select({ calledAt: callHistory.calledAt })
+      .from(callHistory)
+      .where(
+        and(
+          eq(callHistory.campaignId, campaignId),
+          gte(callHistory.calledAt, since),
+          ne(callHistory.status, 'skipped')
+        )
+      )
+      .orderBy(callHistory.calledAt);
+    return rows.map((row) => row.calledAt);
+  }
+
   async bulkCreateContacts(insertContacts: InsertContact[]): Promise<Contact[]> {
     if (insertContacts.length === 0) return [];
     const created = await db
@@ -165,6 +320,28 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount ? result.rowCount > 0 : false;
   }
 
+  async getAllDispositions(): Promise<Disposition[]> {
+    return await db.select().from(dispositions).orderBy(dispositions.label);
+  }
+
+  async getDispositionByCode(code: string): Promise<Disposition | undefined> {
+    const [disposition] = await db.select().from(dispositions).where(eq(dispositions.code, code));
+    return disposition || undefined;
+  }
+
+  async createDisposition(insertDisposition: InsertDisposition): Promise<Disposition> {
+    const [disposition] = await db
+      .insert(dispositions)
+      .values(insertDisposition)
+      .returning();
+    return disposition;
+  }
+
+  async deleteDisposition(id: string): Promise<boolean> {
+    const result = await db.delete(dispositions).where(eq(dispositions.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
   async getContactTags(contactId: string): Promise<Tag[]> {
     const result = await db
       .select({ tag: tags })
@@ -175,6 +352,13 @@ export class DatabaseStorage implements IStorage {
     return result.map(r => r.tag);
   }
 
+  async getAllContactTags(): Promise<{ contactId: string; tag: Tag }[]> {
+    return await db
+      .select({ contactId: contactTags.contactId, tag: tags })
+      .from(contactTags)
+      .innerJoin(tags, eq(contactTags.tagId, tags.id));
+  }
+
   async addTagToContact(contactId: string, tagId: string): Promise<void> {
     await db
       .insert(contactTags)
@@ -202,6 +386,14 @@ export class DatabaseStorage implements IStorage {
     return campaign || undefined;
   }
 
+  async getCampaignsByStatus(statuses: string[]): Promise<Campaign[]> {
+    if (statuses.length === 0) return [];
+    return await db
+      .select()
+      .from(campaigns)
+      .where(inArray(campaigns.status, statuses));
+  }
+
   async createCampaign(insertCampaign: InsertCampaign): Promise<Campaign> {
     const [campaign] = await db
       .insert(campaigns)
@@ -255,19 +447,36 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateCampaignContactStatus(
-    campaignId: string, 
-    contactId: string, 
-    status: 'pending' | 'calling' | 'completed' | 'failed', 
-    notes?: string
+  async getPendingCampaignContacts(campaignId: string): Promise<(CampaignContact & { contact: Contact })[]> {
+    const results = await db
+      .select({
+        campaignContact: campaignContacts,
+        contact: contacts,
+      })
+      .from(campaignContacts)
+      .innerJoin(contacts, eq(campaignContacts.contactId, contacts.id))
+      .where(
+        and(
+          eq(campaignContacts.campaignId, campaignId),
+          eq(campaignContacts.status, 'pending')
+        )
+      )
+      .orderBy(contacts.createdAt);
+
+    return results.map((r) => ({
+      ...r.campaignContact,
+      contact: r.contact,
+    }));
+  }
+
+  async updateCampaignContact(
+    campaignId: string,
+    contactId: string,
+    updates: Partial<CampaignContact>
   ): Promise<void> {
     await db
       .update(campaignContacts)
-      .set({
-        status,
-        notes,
-        calledAt: new Date(),
-      })
+      .set(updates)
       .where(
         and(
           eq(campaignContacts.campaignId, campaignId),
@@ -276,6 +485,67 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
+  async resetCampaignContactsByStatus(
+    campaignId: string,
+    fromStatus: 'pending' | 'calling' | 'completed' | 'failed' | 'skipped',
+    toStatus: 'pending' | 'calling' | 'completed' | 'failed' | 'skipped',
+    clearAttempts: boolean = false
+  ): Promise<number> {
+    const result = await db
+      .update(campaignContacts)
+      .set(
+        clearAttempts
+          ? { status: toStatus, attempts: 0, nextAttemptAt: null, lastOutcome: null }
+          : { status: toStatus }
+      )
+      .where(
+        and(
+          eq(campaignContacts.campaignId, campaignId),
+          eq(campaignContacts.status, fromStatus)
+        )
+      );
+    return result.rowCount ?? 0;
+  }
+
+  async getLatestCampaignRun(campaignId: string): Promise<CampaignRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(campaignRuns)
+      .where(eq(campaignRuns.campaignId, campaignId))
+      .orderBy(desc(campaignRuns.startedAt))
+      .limit(1);
+    return run || undefined;
+  }
+
+  async createCampaignRun(insertRun: InsertCampaignRun): Promise<CampaignRun> {
+    const [run] = await db
+      .insert(campaignRuns)
+      .values(insertRun)
+      .returning();
+    return run;
+  }
+
+  async updateCampaignRun(id: string, updates: Partial<CampaignRun>): Promise<CampaignRun | undefined> {
+    const [updated] = await db
+      .update(campaignRuns)
+      .set({ ...updates, lastActivityAt: new Date() })
+      .where(eq(campaignRuns.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async closeOpenCampaignRuns(campaignId: string, status: 'completed' | 'stopped' | 'interrupted'): Promise<void> {
+    await db
+      .update(campaignRuns)
+      .set({ status, endedAt: new Date(), currentContactId: null })
+      .where(
+        and(
+          eq(campaignRuns.campaignId, campaignId),
+          inArray(campaignRuns.status, ['running', 'paused'])
+        )
+      );
+  }
+
   async getAllAiAgents(): Promise<AiAgent[]> {
     return await db.select().from(aiAgents).orderBy(desc(aiAgents.createdAt));
   }
@@ -323,6 +593,64 @@ export class DatabaseStorage implements IStorage {
     return recording;
   }
 
+  async updateCallRecording(id: string, updates: Partial<CallRecording>): Promise<CallRecording | undefined> {
+    const [recording] = await db
+      .update(callRecordings)
+      .set(updates)
+      .where(eq(callRecordings.id, id))
+      .returning();
+    return recording || undefined;
+  }
+
+  async getRetainedCallRecordings(): Promise<RetainedCallRecording[]> {
+    // DNC entries match the contact they were recorded for, or its (normalized) phone
+    const optedOut = exists(
+      db.select({ id: dncEntries.id })
+        .from(dncEntries)
+        .where(or(eq(dncEntries.contactId, contacts.id), eq(dncEntries.phone, contacts.phone))),
+    );
+
+    const rows = await db
+      .select({
+        recording: callRecordings,
+        calledAt: callHistory.calledAt,
+        disposition: callHistory.disposition,
+        contactOptedOut: sql<boolean>`${optedOut}`,
+      })
+      .from(callRecordings)
+      .innerJoin(callHistory, eq(callRecordings.callHistoryId, callHistory.id))
+      .innerJoin(contacts, eq(callHistory.contactId, contacts.id))
+      .where(and(isNull(callRecordings.deletedAt), isNotNull(callRecordings.recordingUrl)))
+      .orderBy(callHistory.calledAt);
+
+    return rows.map((row) => ({
+      ...row.recording,
+      calledAt: row.calledAt,
+      disposition: row.disposition,
+      contactOptedOut: row.contactOptedOut,
+    }));
+  }
+
+  async backfillRecordingDurations(): Promise<number> {
+    // Legacy durations are seconds ("30"), m:ss or h:mm:ss
+    const duration = sql`trim(${callRecordings.duration})`;
+    const part = (index: number) => sql`split_part(${duration}, ':', ${sql.raw(String(index))})::int`;
+    const result = await db
+      .update(callRecordings)
+      .set({
+        durationSeconds: sql`CASE array_length(string_to_array(${duration}, ':'), 1)
+          WHEN 1 THEN ${part(1)}
+          WHEN 2 THEN ${part(1)} * 60 + ${part(2)}
+          ELSE ${part(1)} * 3600 + ${part(2)} * 60 + ${part(3)}
+        END`,
+      })
+      .where(and(
+        isNull(callRecordings.durationSeconds),
+        sql`${duration} ~ '^[0-9]+(:[0-9]{1,2}){0,2}$'`,
+      ));
+    return result.rowCount ?? 0;
+  }
+
   async getConversationTranscripts(callHistoryId: string): Promise<ConversationTranscript[]> {
     return await db
       .select()
@@ -331,6 +659,15 @@ export class DatabaseStorage implements IStorage {
       .orderBy(conversationTranscripts.timestamp);
   }
 
+  async getTranscriptsForCalls(callHistoryIds: string[]): Promise<ConversationTranscript[]> {
+    if (callHistoryIds.length === 0) return [];
+    return await db
+      .select()
+      .from(conversationTranscripts)
+      .where(inArray(conversationTranscripts.callHistoryId, callHistoryIds))
+      .orderBy(conversationTranscripts.timestamp);
+  }
+
   async createConversationTranscript(insertTranscript: InsertConversationTranscript): Promise<ConversationTranscript> {
     const [transcript] = await db
       .insert(conversationTranscripts)
@@ -339,6 +676,18 @@ export class DatabaseStorage implements IStorage {
     return transcript;
   }
 
+  async updateConversationTranscript(
+    id: string,
+    updates: Partial<InsertConversationTranscript>,
+  ): Promise<ConversationTranscript | undefined> {
+    const [transcript] = await db
+      .update(conversationTranscripts)
+      .set(updates)
+      .where(eq(conversationTranscripts.id, id))
+      .returning();
+    return transcript || undefined;
+  }
+
   async getCallInteractions(callHistoryId: string): Promise<CallInteraction[]> {
     return await db
       .select()
@@ -347,6 +696,13 @@ export class DatabaseStorage implements IStorage {
       .orderBy(callInteractions.capturedAt);
   }
 
+  async getAllCallInteractions(): Promise<CallInteraction[]> {
+    return await db
+      .select()
+      .from(callInteractions)
+      .orderBy(desc(callInteractions.capturedAt));
+  }
+
   async createCallInteraction(insertInteraction: InsertCallInteraction): Promise<CallInteraction> {
     const [interaction] = await db
       .insert(callInteractions)
@@ -354,6 +710,292 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return interaction;
   }
+
+  // Values captured during the call (extractedBy null) are kept
+  async replaceExtractedCallInteractions(callHistoryId: string, interactions: InsertCallInteraction[]): Promise<CallInteraction[]> {
+    // Together, so a failed insert leaves the previous extraction in place
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(callInteractions)
+        .where(and(eq(callInteractions.callHistoryId, callHistoryId), isNotNull(callInteractions.extractedBy)));
+      if (interactions.length === 0) return [];
+      return await tx.insert(callInteractions).values(interactions).returning();
+    });
+  }
+
+  async getAllDncEntries(): Promise<DncEntry[]> {
+    return await db.select().from(dncEntries).orderBy(desc(dncEntries.createdAt));
+  }
+
+  async getDncEntryByPhone(phone: string): Promise<DncEntry | undefined> {
+    const [entry] = await db.select().from(dncEntries).where(eq(dncEntries.phone, phone));
+    return entry || undefined;
+  }
+
+  async createDncEntry(insertEntry: InsertDncEntry): Promise<DncEntry> {
+    const [entry] = await db
+      .insert(dncEntries)
+      .values(insertEntry)
+      .onConflictDoNothing()
+      .returning();
+    // Already listed - keep the original entry (and its reason/source)
+    return entry || (await this.getDncEntryByPhone(insertEntry.phone))!;
+  }
+
+  async bulkCreateDncEntries(insertEntries: InsertDncEntry[]): Promise<DncEntry[]> {
+    if (insertEntries.length === 0) return [];
+    // Numbers already on the list are skipped and not returned
+    return await db
+      .insert(dncEntries)
+      .values(insertEntries)
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async deleteDncEntry(id: string): Promise<boolean> {
+    const result = await db.delete(dncEntries).where(eq(dncEntries.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async getAllImportJobs(): Promise<ImportJob[]> {
+    return await db.select().from(importJobs).orderBy(desc(importJobs.createdAt));
+  }
+
+  async getImportJob(id: string): Promise<ImportJob | undefined> {
+    const [job] = await db.select().from(importJobs).where(eq(importJobs.id, id));
+    return job || undefined;
+  }
+
+  async createImportJob(insertJob: InsertImportJob): Promise<ImportJob> {
+    const [job] = await db
+      .insert(importJobs)
+      .values(insertJob)
+      .returning();
+    return job;
+  }
+
+  async updateImportJob(id: string, updates: Partial<ImportJob>): Promise<ImportJob | undefined> {
+    const [updated] = await db
+      .update(importJobs)
+      .set(updates)
+      .where(eq(importJobs.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async clearRunImportFiles(): Promise<number> {
+    const result = await db
+      .update(importJobs)
+      .set({ csv: '' })
+      .where(and(ne(importJobs.status, 'draft'), ne(importJobs.csv, '')));
+    return result.rowCount ?? 0;
+  }
+
+  async getCallSummary(query: AnalyticsQuery): Promise<CallSummary> {
+    const [row] = await db
+      .select({
+        ...callCounts,
+        contactsCalled: sql<number>`count(distinct ${callHistory.contactId})::int`,
+        averageTalkTimeSeconds: sql<number>`coalesce(avg(${callHistory.talkSeconds}), 0)::float`,
+        averageRingSeconds: sql<number>`coalesce(avg(${callHistory.ringSeconds}), 0)::float`,
+      })
+      .from(callHistory)
+      .where(analyticsConditions(query));
+
+    return {
+      ...row,
+      successRate: row.total > 0 ? (row.completed / row.total) * 100 : 0,
+    };
+  }
+
+  // Local-time expressions are grouped by position: the same expression written twice
+  // binds the timezone twice, and Postgres does not treat the two as equal
+  async getCallVolume(query: AnalyticsQuery): Promise<CallVolumePoint[]> {
+    return await db
+      .select({
+        period: sql<string>`to_char(date_trunc(${query.interval}, ${localCalledAt(query)}), 'YYYY-MM-DD')`,
+        ...callCounts,
+      })
+      .from(callHistory)
+      .where(analyticsConditions(query))
+      .groupBy(sql`1`)
+      .orderBy(sql`1`);
+  }
+
+  async getCallsByCampaign(query: AnalyticsQuery): Promise<CampaignCallStats[]> {
+    return await db
+      .select({
+        campaignId: callHistory.campaignId,
+        campaignName: campaigns.name,
+        ...callCounts,
+      })
+      .from(callHistory)
+      .leftJoin(campaigns, eq(callHistory.campaignId, campaigns.id))
+      .where(analyticsConditions(query))
+      .groupBy(callHistory.campaignId, campaigns.name)
+      .orderBy(desc(callCounts.total));
+  }
+
+  // Calls are credited to the agent their campaign uses now - calls do not record an agent
+  async getCallsByAgent(query: AnalyticsQuery): Promise<AgentCallStats[]> {
+    return await db
+      .select({
+        agentId: aiAgents.id,
+        agentName: aiAgents.name,
+        ...callCounts,
+      })
+      .from(callHistory)
+      .leftJoin(campaigns, eq(callHistory.campaignId, campaigns.id))
+      .leftJoin(aiAgents, eq(campaigns.agentId, aiAgents.id))
+      .where(analyticsConditions(query))
+      .groupBy(aiAgents.id, aiAgents.name)
+      .orderBy(desc(callCounts.total));
+  }
+
+  async getCallsByOutcome(query: AnalyticsQuery): Promise<OutcomeCount[]> {
+    return await db
+      .select({
+        status: callHistory.status,
+        count: callCounts.total,
+      })
+      .from(callHistory)
+      .where(analyticsConditions(query))
+      .groupBy(callHistory.status)
+      .orderBy(desc(callCounts.total));
+  }
+
+  async getCallsByHour(query: AnalyticsQuery): Promise<HourlyCallStats[]> {
+    const rows = await db
+      .select({
+        hour: sql<number>`extract(hour from ${localCalledAt(query)})::int`,
+        ...callCounts,
+      })
+      .from(callHistory)
+      .where(analyticsConditions(query))
+      .groupBy(sql`1`);
+
+    // Every hour is returned so charts show quiet hours as zero
+    return Array.from({ length: 24 }, (_, hour) =>
+      rows.find((row) => row.hour === hour) ?? { hour, total: 0, completed: 0, talkTimeSeconds: 0 },
+    );
+  }
+
+  async getTopCalledContacts(query: AnalyticsQuery, limit: number): Promise<TopCalledContact[]> {
+    return await db
+      .select({
+        contactId: contacts.id,
+        name: contacts.name,
+        phone: contacts.phone,
+        callCount: callCounts.total,
+      })
+      .from(callHistory)
+      .innerJoin(contacts, eq(callHistory.contactId, contacts.id))
+      .where(analyticsConditions(query))
+      .groupBy(contacts.id, contacts.name, contacts.phone)
+      .orderBy(desc(callCounts.total))
+      .limit(limit);
+  }
+
+  async getRecentCalls(query: AnalyticsQuery, limit: number): Promise<RecentCall[]> {
+    const rows = await db
+      .select({
+        call: callHistory,
+        contactName: contacts.name,
+        contactPhone: contacts.phone,
+      })
+      .from(callHistory)
+      .innerJoin(contacts, eq(callHistory.contactId, contacts.id))
+      .where(analyticsConditions(query))
+      .orderBy(desc(callHistory.calledAt))
+      .limit(limit);
+
+    return rows.map((row) => ({
+      ...row.call,
+      contactName: row.contactName,
+      contactPhone: row.contactPhone,
+    }));
+  }
+
+  // Only attempts with a recorded outcome count - DNC skips are not dials
+  async getCampaignDialStats(campaignId: string, sharedWithCampaignId?: string): Promise<CampaignDialStats> {
+    const attempts = and(
+      eq(callHistory.campaignId, campaignId),
+      isNotNull(callHistory.outcome),
+      ne(callHistory.outcome, 'skipped_dnc'),
+      sharedContactCondition(callHistory.contactId, sharedWithCampaignId),
+    );
+
+    const [[membership], [reach], outcomes, [talkTime]] = await Promise.all([
+      db
+        .select({ contacts: sql<number>`count(*)::int` })
+        .from(campaignContacts)
+        .where(and(
+          eq(campaignContacts.campaignId, campaignId),
+          sharedContactCondition(campaignContacts.contactId, sharedWithCampaignId),
+        )),
+      db
+        .select({
+          dialedContacts: sql<number>`count(distinct ${callHistory.contactId})::int`,
+          connectedContacts: sql<number>`(count(distinct ${callHistory.contactId}) filter (where ${callHistory.outcome} = 'completed'))::int`,
+        })
+        .from(callHistory)
+        .where(attempts),
+      db
+        .select({
+          outcome: sql<string>`${callHistory.outcome}`,
+          count: sql<number>`count(*)::int`,
+        })
+        .from(callHistory)
+        .where(attempts)
+        .groupBy(callHistory.outcome)
+        .orderBy(desc(sql`count(*)`)),
+      db
+        .select({
+          talkTimeSeconds: sql<number>`coalesce(sum(${callHistory.talkSeconds}), 0)::int`,
+          timedCalls: sql<number>`count(${callHistory.talkSeconds})::int`,
+        })
+        .from(callHistory)
+        .where(and(attempts, eq(callHistory.outcome, 'completed'))),
+    ]);
+
+    return { ...membership, ...reach, outcomes, ...talkTime };
+  }
+
+  // Each contact counts once, at the interest level captured on their latest call
+  async getCampaignInterestLevels(campaignId: string, sharedWithCampaignId?: string): Promise<InterestLevelCount[]> {
+    const latest = await db
+      .selectDistinctOn([callHistory.contactId], { level: callInteractions.value })
+      .from(callInteractions)
+      .innerJoin(callHistory, eq(callInteractions.callHistoryId, callHistory.id))
+      .where(and(
+        eq(callHistory.campaignId, campaignId),
+        eq(callInteractions.field, 'interest_level'),
+        sharedContactCondition(callHistory.contactId, sharedWithCampaignId),
+      ))
+      .orderBy(callHistory.contactId, desc(callInteractions.capturedAt));
+
+    const counts = new Map<string, number>();
+    for (const { level } of latest) {
+      counts.set(level, (counts.get(level) ?? 0) + 1);
+    }
+    return Array.from(counts.entries()).map(([level, contacts]) => ({ level, contacts }));
+  }
+
+  async getCampaignOverlaps(campaignId: string): Promise<{ campaignId: string; sharedContacts: number }[]> {
+    const other = alias(campaignContacts, "other_campaign_contacts");
+    return await db
+      .select({
+        campaignId: other.campaignId,
+        sharedContacts: sql<number>`count(*)::int`,
+      })
+      .from(campaignContacts)
+      .innerJoin(other, and(
+        eq(other.contactId, campaignContacts.contactId),
+        ne(other.campaignId, campaignContacts.campaignId),
+      ))
+      .where(eq(campaignContacts.campaignId, campaignId))
+      .groupBy(other.campaignId);
+  }
 }
 
 export const storage = new DatabaseStorage();
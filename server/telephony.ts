@@ -0,0 +1,113 @@
+/**
+ * Telephony Provider Interface
+ *
+ * Everything the campaign engine needs from a phone line, independent of how
+ * the call is actually placed:
+ * - dial / hangup
+ * - call-state events (dialing → ringing → connected → ended/failed)
+ * - audio in (caller → AI) and audio out (AI → caller) as 16kHz mono PCM
+ *
+ * Implementations:
+ * - google_voice: Playwright-driven Google Voice web client (GoogleVoiceDialer)
+ * - simulated: in-process fake line for headless runs and tests
+ */
+
+import type { EventEmitter } from "events";
+import { telephonyProviders } from "@shared/schema";
+import type { CallState, CallStateConfig, StateTransition } from "./call-state-engine";
+import { getDialer, closeDialer } from "./google-voice-automation";
+import { getSimulatedProvider, closeSimulatedProvider } from "./simulated-telephony";
+
+export type TelephonyProviderName = typeof telephonyProviders[number];
+
+/**
+ * Callbacks a provider may use while it is being opened
+ * (e.g. Google Voice needs a manual login)
+ */
+export interface TelephonyCallbacks {
+  loginRequiredCallback?: () => void | Promise<void>;
+  loginSuccessCallback?: () => void | Promise<void>;
+  shouldContinueCallback?: () => Promise<boolean>;
+}
+
+/**
+ * Emits call-state transitions for the call that was just dialed
+ */
+export interface CallStateSource {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  onStateChange(callback: (transition: StateTransition) => void): void;
+  getState(): CallState;
+  getHistory(): StateTransition[];
+  reportAudio?(chunk: Buffer): void; // Inbound call audio, for sources that use it as a signal
+}
+
+/**
+ * Metadata attached to every inbound audio chunk
+ */
+export interface InboundAudioInfo {
+  gated: boolean; // True when the chunk was captured while AI audio was playing (likely echo)
+}
+
+/**
+ * Bidirectional audio for a connected call - all audio is raw 16kHz, 16-bit signed, mono PCM
+ *
+ * Events:
+ * - 'inbound_audio' (chunk: Buffer, info: InboundAudioInfo): caller audio
+ * - 'outbound_drained': all queued outbound audio has finished playing
+ */
+export interface CallAudioStream extends EventEmitter {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  playOutbound(chunk: Buffer): void;
+  clearOutbound(): void;
+}
+
+export interface TelephonyProvider {
+  readonly name: TelephonyProviderName;
+  dial(phoneNumber: string): Promise<boolean>;
+  hangup(): Promise<void>;
+  createCallStateSource(config?: Partial<CallStateConfig>): CallStateSource;
+  createAudioStream(callId: string): CallAudioStream;
+  close(): Promise<void>;
+}
+
+/**
+ * Get (and open if needed) the provider instance for the given name
+ */
+export async function getTelephonyProvider(
+  name: TelephonyProviderName,
+  callbacks?: TelephonyCallbacks,
+): Promise<TelephonyProvider> {
+  switch (name) {
+    case 'google_voice':
+      return await getDialer(undefined, undefined, callbacks);
+    case 'simulated':
+      return getSimulatedProvider();
+    default:
+      throw new Error(`Unknown telephony provider: ${name}`);
+  }
+}
+
+/**
+ * Close the provider instance for the given name, if one is open
+ */
+export async function closeTelephonyProvider(name: TelephonyProviderName): Promise<void> {
+  switch (name) {
+    case 'google_voice':
+      await closeDialer();
+      break;
+    case 'simulated':
+      await closeSimulatedProvider();
+      break;
+  }
+}
+
+/**
+ * Close every open provider - used on server shutdown
+ */
+export async function closeAllTelephonyProviders(): Promise<void> {
+  for (const name of telephonyProviders) {
+    await closeTelephonyProvider(name);
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Callee Greeting Detection
+ *
+ * People answer the phone with a short "hello?" and then wait for the caller
+ * to speak. GreetingDetector listens to the first inbound audio of a call and
+ * reports that moment - speech followed by a short pause - so the AI starts
+ * talking neither over the callee nor after an awkward silence. If nobody
+ * speaks within the agent's maximum wait, the AI starts anyway.
+ *
+ * Audio is the usual raw 16kHz, 16-bit signed, mono PCM, measured in 20ms
+ * frames with the same loudness threshold as answering-machine detection.
+ */
+
+import { EventEmitter } from "events";
+import { DEFAULT_AMD_CONFIG, frameRms } from "./answering-machine-detector";
+
+export interface GreetingDetectorConfig {
+  silenceThreshold: number; // Frame RMS below this is silence (int16 scale)
+  minSpeechMs: number; // Shorter bursts of sound (clicks, line noise) are not speech
+  endOfGreetingSilenceMs: number; // Pause after speech that ends the greeting
+}
+
+export const DEFAULT_GREETING_CONFIG: GreetingDetectorConfig = {
+  silenceThreshold: DEFAULT_AMD_CONFIG.silenceThreshold,
+  minSpeechMs: 200,
+  endOfGreetingSilenceMs: 500,
+};
+
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 20;
+const FRAME_BYTES = (SAMPLE_RATE / 1000) * FRAME_MS * 2;
+
+/**
+ * Feed inbound audio with push(); emits 'greeting' (reason: string) once
+ */
+export class GreetingDetector extends EventEmitter {
+  private config: GreetingDetectorConfig;
+  private pending: Buffer = Buffer.alloc(0);
+  private speechMs: number = 0;
+  private silenceMs: number = 0;
+  private done: boolean = false;
+
+  constructor(config?: Partial<GreetingDetectorConfig>) {
+    super();
+    this.config = { ...DEFAULT_GREETING_CONFIG, ...config };
+  }
+
+  /**
+   * Analyse a chunk of inbound audio (any length - it is split into 20ms frames)
+   */
+  push(chunk: Buffer): void {
+    if (this.done) return;
+
+    let buffer = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+    while (buffer.length >= FRAME_BYTES) {
+      this.analyseFrame(buffer.subarray(0, FRAME_BYTES));
+      buffer = buffer.subarray(FRAME_BYTES);
+      if (this.done) return;
+    }
+    this.pending = Buffer.from(buffer);
+  }
+
+  /**
+   * Resolve with why the AI may speak: the callee greeted us, maxWaitMs of wall time
+   * passed, or cancel() was called
+   */
+  waitForGreeting(maxWaitMs: number): Promise<string> {
+    if (this.done) return Promise.resolve("Greeting already over");
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => this.finish(`Nobody spoke within ${maxWaitMs}ms`), maxWaitMs);
+      this.once('greeting', (reason: string) => {
+        clearTimeout(timer);
+        resolve(reason);
+      });
+    });
+  }
+
+  /**
+   * Stop waiting, e.g. because the call ended
+   */
+  cancel(): void {
+    this.finish("Cancelled");
+  }
+
+  private analyseFrame(frame: Buffer): void {
+    if (frameRms(frame) >= this.config.silenceThreshold) {
+      this.speechMs += FRAME_MS;
+      this.silenceMs = 0;
+      return;
+    }
+
+    this.silenceMs += FRAME_MS;
+    if (this.speechMs < this.config.minSpeechMs) {
+      // Too short to be speech - forget it
+      this.speechMs = 0;
+    } else if (this.silenceMs >= this.config.endOfGreetingSilenceMs) {
+      this.finish(`Callee spoke for ${this.speechMs}ms then paused`);
+    }
+  }
+
+  private finish(reason: string): void {
+    if (this.done) return;
+    this.done = true;
+    this.emit('greeting', reason);
+  }
+}
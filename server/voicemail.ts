@@ -0,0 +1,146 @@
+/**
+ * Voicemail Drop
+ *
+ * A campaign with a voicemailAction other than 'off' screens every answered
+ * call with answering-machine detection (see answering-machine-detector.ts).
+ * When a machine picks up the campaign either:
+ * - hang_up:    hangs up straight away
+ * - audio_file: plays the uploaded recording after the beep, then hangs up
+ * - tts:        plays the campaign's voicemail message in the agent's voice
+ *
+ * Uploaded recordings are converted once, on upload, to 16kHz mono WAV in
+ * voicemail/<campaignId>.wav. TTS messages are synthesized per call because
+ * they may mention the contact by name.
+ */
+
+import fs from "fs";
+import path from "path";
+import { DEFAULT_VOICEMAIL_MESSAGE, voicemailActions, type AiAgent, type Campaign, type Contact } from "@shared/schema";
+import { AudioTranscoder } from "./audio-transcoder";
+import type { CallAudioStream } from "./telephony";
+
+export type VoicemailAction = typeof voicemailActions[number];
+
+const VOICEMAIL_DIR = path.join(process.cwd(), 'voicemail');
+
+const TTS_MODEL_ID = 'eleven_turbo_v2_5';
+const PLAYBACK_CHUNK_BYTES = 32000; // One second of 16kHz 16-bit mono
+const PLAYBACK_GRACE_MS = 5000; // Extra wait for playback to drain before hanging up anyway
+
+const transcoder = new AudioTranscoder();
+
+export function getVoicemailAudioPath(campaignId: string): string {
+  return path.join(VOICEMAIL_DIR, `${campaignId}.wav`);
+}
+
+/**
+ * Convert an uploaded recording and store it as the campaign's voicemail
+ * Returns its length in seconds
+ */
+export async function saveVoicemailAudio(campaignId: string, upload: Buffer): Promise<number | null> {
+  await fs.promises.mkdir(VOICEMAIL_DIR, { recursive: true });
+  const outputPath = getVoicemailAudioPath(campaignId);
+  await transcoder.convertToWav(upload, outputPath);
+  return await transcoder.getWavDurationSeconds(outputPath);
+}
+
+function fillTemplate(text: string, variables: Record<string, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => variables[name] ?? match);
+}
+
+function elevenLabsApiUrl(): string {
+  // ELEVENLABS_API_URL points TTS at a stand-in server, like ELEVENLABS_WS_URL does for conversations
+  return process.env.ELEVENLABS_API_URL || 'https://api.elevenlabs.io';
+}
+
+/**
+ * The voice the agent speaks with: its own voiceId, or the voice of its ElevenLabs agent
+ */
+async function getAgentVoiceId(agent: AiAgent, apiKey: string): Promise<string | null> {
+  if (agent.voiceId) return agent.voiceId;
+  if (!agent.agentId) return null;
+
+  const response = await fetch(`${elevenLabsApiUrl()}/v1/convai/agents/${agent.agentId}`, {
+    headers: { 'xi-api-key': apiKey },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to load ElevenLabs agent ${agent.agentId}: ${response.status}`);
+  }
+  const config = await response.json();
+  return config?.conversation_config?.tts?.voice_id ?? null;
+}
+
+/**
+ * Synthesize speech as raw 16kHz mono PCM, the format calls are played in
+ */
+async function synthesizeSpeech(text: string, voiceId: string, apiKey: string): Promise<Buffer> {
+  const response = await fetch(`${elevenLabsApiUrl()}/v1/text-to-speech/${voiceId}?output_format=pcm_16000`, {
+    method: 'POST',
+    headers: { 'xi-api-key': apiKey, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text, model_id: TTS_MODEL_ID }),
+  });
+  if (!response.ok) {
+    throw new Error(`ElevenLabs text-to-speech failed: ${response.status} ${await response.text()}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * The audio to leave on a contact's voicemail, or null to just hang up
+ * (action 'hang_up', or the message could not be prepared)
+ */
+export async function prepareVoicemailAudio(
+  campaign: Campaign,
+  agent: AiAgent | undefined,
+  contact: Contact,
+): Promise<Buffer | null> {
+  try {
+    switch (campaign.voicemailAction as VoicemailAction) {
+      case 'audio_file': {
+        const pcm = await transcoder.readWavPcm(getVoicemailAudioPath(campaign.id));
+        if (!pcm) console.warn(`[Voicemail] Campaign ${campaign.name} has no voicemail recording`);
+        return pcm;
+      }
+      case 'tts': {
+        const apiKey = process.env.ELEVENLABS_API_KEY;
+        if (!agent || !apiKey) {
+          console.warn(`[Voicemail] TTS voicemail needs an AI agent and ELEVENLABS_API_KEY`);
+          return null;
+        }
+        const voiceId = await getAgentVoiceId(agent, apiKey);
+        if (!voiceId) {
+          console.warn(`[Voicemail] Agent ${agent.name} has no voice to speak the voicemail with`);
+          return null;
+        }
+        const message = fillTemplate(campaign.voicemailMessage || DEFAULT_VOICEMAIL_MESSAGE, {
+          contactName: contact.name,
+          agentName: agent.name,
+        });
+        return await synthesizeSpeech(message, voiceId, apiKey);
+      }
+      default:
+        return null;
+    }
+  } catch (error) {
+    console.error(`[Voicemail] Failed to prepare voicemail for ${contact.name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Play a voicemail message and resolve once it has finished playing
+ */
+export async function playVoicemail(stream: CallAudioStream, pcm: Buffer): Promise<void> {
+  const drained = new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, (pcm.length / PLAYBACK_CHUNK_BYTES) * 1000 + PLAYBACK_GRACE_MS);
+    stream.once('outbound_drained', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+  for (let offset = 0; offset < pcm.length; offset += PLAYBACK_CHUNK_BYTES) {
+    stream.playOutbound(pcm.subarray(offset, offset + PLAYBACK_CHUNK_BYTES));
+  }
+  await drained;
+}
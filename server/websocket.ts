@@ -1,5 +1,11 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import type { Server } from 'http';
+import type { IncomingMessage, Server } from 'http';
+import { liveCallMonitor, type LiveCallEvent, type ListenChannel } from './live-calls';
+
+// Listen-in audio frames: one byte for the channel, then 16kHz 16-bit mono PCM
+const LISTEN_CHANNEL_BYTES: Record<ListenChannel, number> = { caller: 0, agent: 1 };
+// A listener this far behind (slow connection) skips audio until it catches up
+const LISTEN_MAX_BUFFERED_BYTES = 256 * 1024;
 
 interface CampaignStatusUpdate {
   type: 'campaign_status_update';
@@ -18,6 +24,7 @@ interface LoginRequiredAlert {
 class CampaignWebSocketServer {
   private wss: WebSocketServer | null = null;
   private clients: Set<WebSocket> = new Set();
+  private listenInClients: Set<WebSocket> = new Set();
   private cleanupInterval: NodeJS.Timeout | null = null;
 
   initialize(server: Server) {
@@ -26,7 +33,14 @@ class CampaignWebSocketServer {
       path: '/ws'
     });
 
-    this.wss.on('connection', (ws: WebSocket) => {
+    this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+      // /ws?listen=<live call id> carries a call's audio rather than updates
+      const listenCallId = new URL(req.url ?? '', 'http://localhost').searchParams.get('listen');
+      if (listenCallId) {
+        this.startListenIn(ws, listenCallId);
+        return;
+      }
+
       console.log('[WebSocket] Client connected');
       this.clients.add(ws);
 
@@ -44,6 +58,8 @@ class CampaignWebSocketServer {
       ws.send(JSON.stringify({ type: 'connected', timestamp: Date.now() }));
     });
 
+    liveCallMonitor.on('update', (event: LiveCallEvent) => this.broadcastLiveCallEvent(event));
+
     // Periodically clean up stale connections (every 30 seconds)
     this.cleanupInterval = setInterval(() => {
       this.cleanupStaleConnections();
@@ -136,6 +152,58 @@ class CampaignWebSocketServer {
     console.log(`[WebSocket] Login alert broadcast: ${campaignName} (sent to ${successCount} clients, ${failureCount} failed)`);
   }
 
+  /**
+   * Broadcast a change to a live call (state, transcript turn, interruption...)
+   * Sent often during a call, so unlike the campaign broadcasts it is not logged
+   */
+  broadcastLiveCallEvent(event: LiveCallEvent) {
+    const payload = JSON.stringify({ ...event, timestamp: Date.now() });
+
+    this.clients.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) {
+        try {
+          client.send(payload);
+        } catch (error) {
+          console.error('[WebSocket] Failed to send live call update:', error);
+        }
+      }
+    });
+  }
+
+  /**
+   * Stream a live call's audio to a listen-in connection until either side goes away
+   */
+  private startListenIn(ws: WebSocket, callId: string) {
+    const stopListening = liveCallMonitor.listen(callId, {
+      audio: (channel, pcm) => {
+        if (ws.readyState !== WebSocket.OPEN || ws.bufferedAmount > LISTEN_MAX_BUFFERED_BYTES) return;
+        ws.send(Buffer.concat([Buffer.from([LISTEN_CHANNEL_BYTES[channel]]), pcm]));
+      },
+      agentAudioCleared: () => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify({ type: 'agent_audio_cleared', timestamp: Date.now() }));
+        }
+      },
+      ended: () => ws.close(1000, 'Call ended'),
+    });
+
+    if (!stopListening) {
+      ws.close(4404, 'Call is not live');
+      return;
+    }
+
+    this.listenInClients.add(ws);
+    ws.on('close', () => {
+      stopListening();
+      this.listenInClients.delete(ws);
+    });
+    ws.on('error', (error) => {
+      console.error('[WebSocket] Listen-in error:', error);
+      stopListening();
+      this.listenInClients.delete(ws);
+    });
+  }
+
   /**
    * Get the number of connected clients
    */
@@ -161,6 +229,8 @@ class CampaignWebSocketServer {
       }
     });
     this.clients.clear();
+    this.listenInClients.forEach((client) => client.terminate());
+    this.listenInClients.clear();
 
     if (this.wss) {
       this.wss.close();
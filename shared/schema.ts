@@ -1,8 +1,96 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, primaryKey } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, primaryKey, integer, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const telephonyProviders = ['google_voice', 'simulated'] as const;
+
+// How the delay between calls is drawn from [min, max]
+export const pacingJitterModes = ['uniform', 'normal', 'none'] as const;
+
+// Result of a single dial attempt
+export const callOutcomes = ['completed', 'no_answer', 'busy', 'voicemail', 'failed_to_connect', 'failed', 'skipped_dnc'] as const;
+export type CallOutcome = typeof callOutcomes[number];
+
+// How an AI agent's closing of the conversation is detected besides its end_call tool
+// ('classifier' asks an LLM after each agent line, 'keywords' matches the agent's
+// end-call phrases for agents without the tool); see server/end-of-call.ts
+export const endCallDetectionModes = ['tool', 'classifier', 'keywords'] as const;
+export type EndCallDetection = typeof endCallDetectionModes[number];
+
+// What a campaign does when an answering machine picks up ('off' skips detection)
+export const voicemailActions = ['off', 'hang_up', 'audio_file', 'tts'] as const;
+
+// Spoken to answering machines by 'tts' campaigns without a message of their own
+export const DEFAULT_VOICEMAIL_MESSAGE =
+  "Hi {{contactName}}, this is {{agentName}}. Sorry we missed you - we'll try you again soon. Have a great day!";
+
+// Dispositions the dialer assigns automatically; users can define their own (see `dispositions`)
+export const systemDispositions = [
+  'answered_human',
+  'answered_machine',
+  'no_answer',
+  'busy',
+  'invalid_number',
+  'rejected',
+  'hung_up_early',
+  'ai_error',
+  'dnc_skipped',
+] as const;
+export type SystemDisposition = typeof systemDispositions[number];
+
+// Outcomes a campaign may be configured to retry
+export const retryableOutcomes = ['no_answer', 'busy', 'voicemail', 'failed_to_connect'] as const;
+
+// Where call recordings are kept; see server/recording-storage.ts
+export const recordingStorageBackends = ['local', 's3'] as const;
+export type RecordingStorageBackend = typeof recordingStorageBackends[number];
+
+// Why the retention job deleted a recording; see server/recording-retention.ts
+export const recordingDeletionReasons = ['retention_period', 'disposition', 'opt_out'] as const;
+export type RecordingDeletionReason = typeof recordingDeletionReasons[number];
+
+// A transcript turn while it is being spoken: 'tentative' until the contact's speech
+// is finally transcribed, 'interrupted' for agent lines the contact talked over
+export const transcriptTurnStatuses = ['tentative', 'final', 'interrupted'] as const;
+export type TranscriptTurnStatus = typeof transcriptTurnStatuses[number];
+
+// When a word of an agent line was played, in ms from the start of the call's recording
+export interface TranscriptWord {
+  word: string;
+  startMs: number;
+  endMs: number;
+}
+
+// How a number ended up on the Do-Not-Call list
+export const dncSources = ['manual', 'import', 'transcript', 'api'] as const;
+
+// Contact fields a CSV column can be imported into ('custom:<key>' targets a custom field)
+export const contactImportFields = ['name', 'first_name', 'last_name', 'phone', 'email', 'company', 'notes', 'timezone'] as const;
+export type ContactImportField = typeof contactImportFields[number];
+export type ImportColumnTarget = ContactImportField | `custom:${string}` | 'ignore';
+
+// A CSV row that could not be imported (lineNumber is 1-based, counting the header)
+export interface ImportRowError {
+  lineNumber: number;
+  errors: string[];
+}
+
+// Ordered as JavaScript weekdays (Sunday = 0)
+export const callingDays = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+export type CallingDay = typeof callingDays[number];
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM (24-hour)");
+
+const timezoneSchema = z.string().refine((timezone) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}, "Unknown timezone");
+
 export const contacts = pgTable("contacts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -10,15 +98,25 @@ export const contacts = pgTable("contacts", {
   email: text("email"),
   company: text("company"),
   notes: text("notes"),
+  timezone: text("timezone"), // IANA timezone, e.g. 'America/Chicago' - inferred from area code when empty
+  customFields: jsonb("custom_fields").$type<Record<string, string>>(), // Extra imported columns, keyed by field name
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const callHistory = pgTable("call_history", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   contactId: varchar("contact_id").notNull().references(() => contacts.id, { onDelete: "cascade" }),
+  campaignId: varchar("campaign_id").references(() => campaigns.id, { onDelete: "set null" }), // Set for campaign calls
   calledAt: timestamp("called_at").defaultNow().notNull(),
   notes: text("notes"),
-  status: text("status").notNull(), // 'completed', 'missed', 'voicemail', 'busy'
+  status: text("status").notNull(), // 'completed', 'missed', 'voicemail', 'busy', 'skipped'
+  outcome: text("outcome"), // CallOutcome of a campaign attempt; null for calls made outside campaigns
+  disposition: text("disposition"), // SystemDisposition or the code of a user-defined disposition
+  dialedAt: timestamp("dialed_at"), // Timings come from the call's state transitions, see server/call-timings.ts
+  answeredAt: timestamp("answered_at"),
+  endedAt: timestamp("ended_at"),
+  ringSeconds: integer("ring_seconds"),
+  talkSeconds: integer("talk_seconds"), // Null when the call was never answered
 });
 
 export const tags = pgTable("tags", {
@@ -45,6 +143,12 @@ export const aiAgents = pgTable("ai_agents", {
   greeting: text("greeting"), // Opening greeting
   objectionHandling: text("objection_handling"), // How to handle objections
   closingScript: text("closing_script"), // Closing statement
+  greetingWaitSeconds: integer("greeting_wait_seconds").notNull().default(8), // Longest wait for the callee's "hello" before speaking
+  maxTalkSeconds: integer("max_talk_seconds").notNull().default(600), // Longest conversation before the agent wraps up
+  maxSilenceSeconds: integer("max_silence_seconds").notNull().default(30), // Longest stretch where neither side speaks
+  maxNoTranscriptSeconds: integer("max_no_transcript_seconds").notNull().default(90), // Longest stretch without anything transcribed
+  endCallDetection: text("end_call_detection").notNull().default('tool'), // 'tool', 'classifier' or 'keywords'
+  endCallKeywords: text("end_call_keywords").default(''), // Comma-separated phrases that end the call in 'keywords' mode
   isActive: text("is_active").notNull().default('true'), // 'true' or 'false'
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -54,25 +158,77 @@ export const campaigns = pgTable("campaigns", {
   name: text("name").notNull(),
   description: text("description"),
   agentId: varchar("agent_id").references(() => aiAgents.id, { onDelete: "set null" }), // AI agent for this campaign
-  status: text("status").notNull().default('draft'), // 'draft', 'active', 'completed', 'paused', 'waiting_for_login'
+  telephonyProvider: text("telephony_provider").notNull().default('google_voice'), // 'google_voice', 'simulated'
+  status: text("status").notNull().default('draft'), // 'draft', 'active', 'completed', 'paused', 'stopped', 'waiting_for_login', 'waiting_for_window', 'waiting_for_retry'
+  callingHoursStart: text("calling_hours_start").notNull().default('09:00'), // Contact's local time, inclusive
+  callingHoursEnd: text("calling_hours_end").notNull().default('20:00'), // Contact's local time, exclusive
+  callingDays: text("calling_days").notNull().default('mon,tue,wed,thu,fri,sat'), // Comma-separated
+  timezone: text("timezone").notNull().default('America/New_York'), // Fallback when a contact's timezone is unknown
+  // Pacing - delays are in seconds; defaults wait 3-6 minutes after every call
+  delayAfterCompletedMin: integer("delay_after_completed_min").notNull().default(180),
+  delayAfterCompletedMax: integer("delay_after_completed_max").notNull().default(360),
+  delayAfterFailedMin: integer("delay_after_failed_min").notNull().default(180),
+  delayAfterFailedMax: integer("delay_after_failed_max").notNull().default(360),
+  maxCallsPerHour: integer("max_calls_per_hour"), // Null = unlimited
+  maxCallsPerDay: integer("max_calls_per_day"), // Null = unlimited
+  pacingJitter: text("pacing_jitter").notNull().default('uniform'), // 'uniform', 'normal', 'none'
+  // Retries - maxAttempts includes the first call
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  retryDelayMinutes: integer("retry_delay_minutes").notNull().default(60),
+  retryBackoff: text("retry_backoff").notNull().default('fixed'), // 'fixed', 'exponential' (doubles each attempt)
+  retryOutcomes: text("retry_outcomes").notNull().default('no_answer,busy,voicemail'), // Comma-separated
+  // Answering machines - see server/voicemail.ts
+  voicemailAction: text("voicemail_action").notNull().default('off'), // 'off', 'hang_up', 'audio_file', 'tts'
+  voicemailAudioFile: text("voicemail_audio_file"), // Name of the uploaded recording, stored as voicemail/<id>.wav
+  voicemailMessage: text("voicemail_message"), // TTS text; {{contactName}} and {{agentName}} are filled in
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const campaignRuns = pgTable("campaign_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").notNull().references(() => campaigns.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default('running'), // 'running', 'paused', 'completed', 'stopped', 'interrupted'
+  currentContactId: varchar("current_contact_id"), // Contact being dialed right now, if any
+  callsAttempted: integer("calls_attempted").notNull().default(0),
+  callsCompleted: integer("calls_completed").notNull().default(0),
+  callsFailed: integer("calls_failed").notNull().default(0),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  lastActivityAt: timestamp("last_activity_at").defaultNow().notNull(),
+  endedAt: timestamp("ended_at"),
+});
+
 export const campaignContacts = pgTable("campaign_contacts", {
   campaignId: varchar("campaign_id").notNull().references(() => campaigns.id, { onDelete: "cascade" }),
   contactId: varchar("contact_id").notNull().references(() => contacts.id, { onDelete: "cascade" }),
-  status: text("status").notNull().default('pending'), // 'pending', 'calling', 'completed', 'failed'
+  status: text("status").notNull().default('pending'), // 'pending', 'calling', 'completed', 'failed', 'skipped'
   calledAt: timestamp("called_at"),
   notes: text("notes"),
+  attempts: integer("attempts").notNull().default(0), // Dial attempts made so far
+  nextAttemptAt: timestamp("next_attempt_at"), // Pending retries are not dialed before this
+  lastOutcome: text("last_outcome"), // CallOutcome of the latest attempt
+  disposition: text("disposition"), // Disposition of the latest attempt, see callHistory.disposition
 }, (table) => ({
   pk: primaryKey({ columns: [table.campaignId, table.contactId] }),
 }));
 
+export const dispositions = pgTable("dispositions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(), // Stored on calls, e.g. 'callback_requested'
+  label: text("label").notNull(),
+  color: text("color").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const callRecordings = pgTable("call_recordings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   callHistoryId: varchar("call_history_id").notNull().references(() => callHistory.id, { onDelete: "cascade" }),
-  recordingUrl: text("recording_url"), // URL to audio recording
-  duration: text("duration"), // Call duration
+  recordingUrl: text("recording_url"), // File path (local) or object key (s3); null once deleted
+  storageBackend: text("storage_backend").notNull().default('local'), // RecordingStorageBackend holding the file
+  duration: text("duration"), // Legacy free-text length ("30", "2:05"); copied into durationSeconds on boot, dropped once every row is converted
+  durationSeconds: integer("duration_seconds"), // Length of the recording
+  startedAt: timestamp("started_at"), // Wall-clock time of the first sample, to line transcript turns up with playback
+  deletedAt: timestamp("deleted_at"), // Set when the retention job deleted the audio; the row is kept
+  deletionReason: text("deletion_reason"), // RecordingDeletionReason
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -82,6 +238,10 @@ export const conversationTranscripts = pgTable("conversation_transcripts", {
   speaker: text("speaker").notNull(), // 'agent' or 'contact'
   message: text("message").notNull(),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
+  startMs: integer("start_ms"), // Offsets from the start of the call's recording, to line the turn up with playback
+  endMs: integer("end_ms"),
+  status: text("status").notNull().default('final'), // TranscriptTurnStatus
+  words: jsonb("words").$type<TranscriptWord[]>(), // Word timings, when the AI provider sends them (agent lines only)
 });
 
 export const callInteractions = pgTable("call_interactions", {
@@ -92,9 +252,37 @@ export const callInteractions = pgTable("call_interactions", {
   value: text("value").notNull(),
   confidence: text("confidence"), // 'high', 'medium', 'low' - AI's confidence in this data
   source: text("source").notNull(), // 'user_transcript', 'agent_inference', 'conversation_flow'
+  extractedBy: text("extracted_by"), // LLM that extracted the value from the transcript; null if captured during the call
   capturedAt: timestamp("captured_at").defaultNow().notNull(),
 });
 
+export const dncEntries = pgTable("dnc_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  phone: text("phone").notNull().unique(), // Normalized, see server/dnc.ts
+  reason: text("reason"),
+  source: text("source").notNull(), // 'manual', 'import', 'transcript', 'api'
+  contactId: varchar("contact_id").references(() => contacts.id, { onDelete: "set null" }), // Contact that opted out, if known
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const importJobs = pgTable("import_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fileName: text("file_name").notNull(),
+  status: text("status").notNull().default('draft'), // 'draft', 'completed', 'failed'
+  csv: text("csv").notNull(), // Uploaded file contents, kept until the job is committed; cleared once it has run
+  headers: jsonb("headers").$type<string[]>().notNull(),
+  mapping: jsonb("mapping").$type<ImportColumnTarget[]>().notNull(), // Target for each column, by position
+  tagIds: text("tag_ids"), // Comma-separated tags applied to every imported contact
+  campaignId: varchar("campaign_id").references(() => campaigns.id, { onDelete: "set null" }), // Imported contacts are added to this campaign
+  totalRows: integer("total_rows").notNull().default(0),
+  importedCount: integer("imported_count").notNull().default(0),
+  mergedCount: integer("merged_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  errors: jsonb("errors").$type<ImportRowError[]>(), // Rows that were not imported
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
 export const insertContactSchema = createInsertSchema(contacts).omit({
   id: true,
   createdAt: true,
@@ -102,13 +290,25 @@ export const insertContactSchema = createInsertSchema(contacts).omit({
   phone: z.string().min(1, "Phone number is required"),
   name: z.string().min(1, "Name is required"),
   email: z.string().email().optional().or(z.literal("")),
+  timezone: timezoneSchema.nullable().optional().or(z.literal("")),
+  customFields: z.record(z.string()).nullable().optional(),
 });
 
+// Lowercase words joined by underscores, like the system dispositions
+const dispositionCodeSchema = z.string().regex(/^[a-z0-9]+(_[a-z0-9]+)*$/, "Disposition code must be lowercase letters, digits and underscores");
+
 export const insertCallHistorySchema = createInsertSchema(callHistory).omit({
   id: true,
   calledAt: true,
 }).extend({
-  status: z.enum(['completed', 'missed', 'voicemail', 'busy']),
+  status: z.enum(['completed', 'missed', 'voicemail', 'busy', 'skipped']),
+  outcome: z.enum(callOutcomes).nullable().optional(),
+  disposition: dispositionCodeSchema.nullable().optional(),
+});
+
+// Sets or clears a call's disposition by hand
+export const callDispositionSchema = z.object({
+  disposition: dispositionCodeSchema.nullable(),
 });
 
 export const insertTagSchema = createInsertSchema(tags).omit({
@@ -126,13 +326,61 @@ export const insertCampaignSchema = createInsertSchema(campaigns).omit({
   createdAt: true,
 }).extend({
   name: z.string().min(1, "Campaign name is required"),
-  status: z.enum(['draft', 'active', 'completed', 'paused', 'waiting_for_login']).default('draft'),
+  status: z.enum(['draft', 'active', 'completed', 'paused', 'stopped', 'waiting_for_login', 'waiting_for_window', 'waiting_for_retry']).default('draft'),
+  telephonyProvider: z.enum(telephonyProviders).default('google_voice'),
+  callingHoursStart: timeOfDaySchema.default('09:00'),
+  callingHoursEnd: timeOfDaySchema.default('20:00'),
+  callingDays: z.string()
+    .refine((days) => days.split(',').every((day) => (callingDays as readonly string[]).includes(day)), "Unknown calling day")
+    .default('mon,tue,wed,thu,fri,sat'),
+  timezone: timezoneSchema.default('America/New_York'),
+  delayAfterCompletedMin: z.number().int().min(0).default(180),
+  delayAfterCompletedMax: z.number().int().min(0).default(360),
+  delayAfterFailedMin: z.number().int().min(0).default(180),
+  delayAfterFailedMax: z.number().int().min(0).default(360),
+  maxCallsPerHour: z.number().int().positive().nullable().optional(),
+  maxCallsPerDay: z.number().int().positive().nullable().optional(),
+  pacingJitter: z.enum(pacingJitterModes).default('uniform'),
+  maxAttempts: z.number().int().min(1).max(20).default(3),
+  retryDelayMinutes: z.number().int().min(1).default(60),
+  retryBackoff: z.enum(['fixed', 'exponential']).default('fixed'),
+  retryOutcomes: z.string()
+    .refine((outcomes) => outcomes.split(',').filter(Boolean).every((o) => (retryableOutcomes as readonly string[]).includes(o)), "Unknown retry outcome")
+    .default('no_answer,busy,voicemail'),
+  voicemailAction: z.enum(voicemailActions).default('off'),
+  voicemailMessage: z.string().max(1000).nullable().optional(),
+});
+
+// A voicemail recording uploaded for a campaign, sent as base64 JSON like CSV imports
+export const voicemailAudioUploadSchema = z.object({
+  fileName: z.string().min(1),
+  data: z.string().min(1, "Audio file is empty"),
+});
+
+export const insertCampaignRunSchema = createInsertSchema(campaignRuns).omit({
+  id: true,
+  startedAt: true,
+  lastActivityAt: true,
+}).extend({
+  status: z.enum(['running', 'paused', 'completed', 'stopped', 'interrupted']).default('running'),
 });
 
 export const insertCampaignContactSchema = createInsertSchema(campaignContacts).omit({
   calledAt: true,
 }).extend({
-  status: z.enum(['pending', 'calling', 'completed', 'failed']).default('pending'),
+  status: z.enum(['pending', 'calling', 'completed', 'failed', 'skipped']).default('pending'),
+  lastOutcome: z.enum(callOutcomes).nullable().optional(),
+  disposition: dispositionCodeSchema.nullable().optional(),
+});
+
+export const insertDispositionSchema = createInsertSchema(dispositions).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  code: dispositionCodeSchema
+    .refine((code) => !(systemDispositions as readonly string[]).includes(code), "Code is reserved for a system disposition"),
+  label: z.string().trim().min(1, "Disposition label is required"),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, "Color must be a valid hex color"),
 });
 
 export const insertAiAgentSchema = createInsertSchema(aiAgents).omit({
@@ -142,19 +390,32 @@ export const insertAiAgentSchema = createInsertSchema(aiAgents).omit({
   name: z.string().min(1, "Agent name is required"),
   personality: z.string().min(1, "Personality description is required"),
   conversationScript: z.string().min(1, "Conversation script is required"),
+  greetingWaitSeconds: z.number().int().min(1).max(30).default(8),
+  maxTalkSeconds: z.number().int().min(30).max(3600).default(600),
+  maxSilenceSeconds: z.number().int().min(5).max(300).default(30),
+  maxNoTranscriptSeconds: z.number().int().min(10).max(600).default(90),
+  endCallDetection: z.enum(endCallDetectionModes).default('tool'),
+  endCallKeywords: z.string().max(1000).nullable().optional(),
   isActive: z.enum(['true', 'false']).default('true'),
 });
 
 export const insertCallRecordingSchema = createInsertSchema(callRecordings).omit({
   id: true,
+  duration: true,
   createdAt: true,
+  deletedAt: true,
+  deletionReason: true,
+}).extend({
+  storageBackend: z.enum(recordingStorageBackends).default('local'),
 });
 
 export const insertConversationTranscriptSchema = createInsertSchema(conversationTranscripts).omit({
   id: true,
-  timestamp: true,
 }).extend({
   speaker: z.enum(['agent', 'contact']),
+  timestamp: z.coerce.date().optional(), // When the turn was spoken; defaults to now
+  status: z.enum(transcriptTurnStatuses).default('final'),
+  words: z.array(z.object({ word: z.string(), startMs: z.number(), endMs: z.number() })).nullable().optional(),
 });
 
 export const insertCallInteractionSchema = createInsertSchema(callInteractions).omit({
@@ -164,6 +425,54 @@ export const insertCallInteractionSchema = createInsertSchema(callInteractions).
   field: z.enum(['interest_level', 'callback_preference', 'concerns', 'opt_in_status', 'notes', 'other']),
   confidence: z.enum(['high', 'medium', 'low']).optional(),
   source: z.enum(['user_transcript', 'agent_inference', 'conversation_flow']),
+  extractedBy: z.string().nullable().optional(),
+});
+
+export const insertDncEntrySchema = createInsertSchema(dncEntries).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  phone: z.string().min(1, "Phone number is required"),
+  source: z.enum(dncSources).default('manual'),
+});
+
+// One row of an uploaded DNC list, as sent to POST /api/dnc/import
+export const dncImportRowSchema = z.object({
+  row: z.number().int(), // Line in the CSV file; the header is line 1
+  phone: z.string(),
+  reason: z.string().optional(),
+});
+
+const importColumnTargetSchema = z.union([
+  z.enum(contactImportFields),
+  z.literal('ignore'),
+  z.string().regex(/^custom:.+$/, "Custom field needs a name") as z.ZodType<`custom:${string}`>,
+]);
+
+export const insertImportJobSchema = createInsertSchema(importJobs).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  status: z.enum(['draft', 'completed', 'failed']).default('draft'),
+  headers: z.array(z.string()),
+  mapping: z.array(importColumnTargetSchema),
+  errors: z.array(z.object({ lineNumber: z.number(), errors: z.array(z.string()) })).nullable().optional(),
+});
+
+// Column mapping and import options sent with a preview or commit
+export const importOptionsSchema = z.object({
+  mapping: z.array(importColumnTargetSchema),
+  tagIds: z.array(z.string()).default([]),
+  campaignId: z.string().nullable().optional(),
+});
+
+// Query string accepted by every /api/analytics endpoint
+export const analyticsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  campaignId: z.string().min(1).optional(),
+  interval: z.enum(['day', 'week']).default('day'), // Bucket size for call volume
+  timezone: timezoneSchema.default('UTC'), // Days and hours are counted in this timezone
 });
 
 export type Contact = typeof contacts.$inferSelect;
@@ -176,13 +485,135 @@ export type ContactTag = typeof contactTags.$inferSelect;
 export type InsertContactTag = z.infer<typeof insertContactTagSchema>;
 export type Campaign = typeof campaigns.$inferSelect;
 export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
+export type CampaignRun = typeof campaignRuns.$inferSelect;
+export type InsertCampaignRun = z.infer<typeof insertCampaignRunSchema>;
 export type CampaignContact = typeof campaignContacts.$inferSelect;
 export type InsertCampaignContact = z.infer<typeof insertCampaignContactSchema>;
+export type Disposition = typeof dispositions.$inferSelect;
+export type InsertDisposition = z.infer<typeof insertDispositionSchema>;
 export type AiAgent = typeof aiAgents.$inferSelect;
 export type InsertAiAgent = z.infer<typeof insertAiAgentSchema>;
 export type CallRecording = typeof callRecordings.$inferSelect;
 export type InsertCallRecording = z.infer<typeof insertCallRecordingSchema>;
+// A recording whose audio still exists, with what the retention policy looks at
+export type RetainedCallRecording = CallRecording & {
+  calledAt: Date;
+  disposition: string | null;
+  contactOptedOut: boolean; // The call's contact is on the Do-Not-Call list
+};
 export type ConversationTranscript = typeof conversationTranscripts.$inferSelect;
 export type InsertConversationTranscript = z.infer<typeof insertConversationTranscriptSchema>;
 export type CallInteraction = typeof callInteractions.$inferSelect;
 export type InsertCallInteraction = z.infer<typeof insertCallInteractionSchema>;
+export type DncEntry = typeof dncEntries.$inferSelect;
+export type InsertDncEntry = z.infer<typeof insertDncEntrySchema>;
+export type DncImportRow = z.infer<typeof dncImportRowSchema>;
+
+export interface DncImportFailure {
+  row: number;
+  phone: string;
+  error: string;
+}
+export type ImportJob = typeof importJobs.$inferSelect;
+export type InsertImportJob = z.infer<typeof insertImportJobSchema>;
+export type ImportOptions = z.infer<typeof importOptionsSchema>;
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+
+export interface CallCounts {
+  total: number;
+  completed: number;
+  talkTimeSeconds: number;
+}
+
+export interface CallSummary extends CallCounts {
+  successRate: number; // Percentage of calls completed
+  contactsCalled: number;
+  averageTalkTimeSeconds: number; // Over answered calls
+  averageRingSeconds: number;
+}
+
+export interface CallVolumePoint extends CallCounts {
+  period: string; // YYYY-MM-DD; the Monday of the week for weekly volume
+}
+
+export interface CampaignCallStats extends CallCounts {
+  campaignId: string | null; // Null for calls made outside a campaign
+  campaignName: string | null;
+}
+
+export interface AgentCallStats extends CallCounts {
+  agentId: string | null; // Null when the call's campaign has no agent
+  agentName: string | null;
+}
+
+export interface OutcomeCount {
+  status: string;
+  count: number;
+}
+
+export interface HourlyCallStats extends CallCounts {
+  hour: number; // 0-23
+}
+
+export interface TopCalledContact {
+  contactId: string;
+  name: string;
+  phone: string;
+  callCount: number;
+}
+
+export type RecentCall = CallHistory & { contactName: string; contactPhone: string };
+
+export interface CampaignOutcomeCount {
+  outcome: string; // CallOutcome
+  count: number;
+}
+
+export interface InterestLevelCount {
+  level: string; // 'high', 'medium', 'low'
+  contacts: number;
+}
+
+// Dial results for a campaign's contacts, optionally only those also in another campaign
+export interface CampaignDialStats {
+  contacts: number;
+  dialedContacts: number;
+  connectedContacts: number;
+  outcomes: CampaignOutcomeCount[]; // One count per dial attempt
+  talkTimeSeconds: number;
+  timedCalls: number; // Connected calls with a known talk time
+}
+
+export interface CampaignMetrics extends CampaignDialStats {
+  interestedContacts: number; // Latest interest level is high or medium
+  dials: number;
+  connects: number;
+  connectRate: number; // Percentage of dials that connected
+  averageTalkTimeSeconds: number;
+  interestLevels: InterestLevelCount[];
+}
+
+// Two campaigns with different agents, measured on the contacts they share
+export interface AgentComparison {
+  campaignId: string;
+  campaignName: string;
+  agentName: string | null;
+  sharedContacts: number;
+  thisCampaign: CampaignMetrics;
+  otherCampaign: CampaignMetrics;
+}
+
+export interface CampaignReport {
+  campaignId: string;
+  agentName: string | null;
+  metrics: CampaignMetrics;
+  comparisons: AgentComparison[];
+}
+
+// A disposition that can be put on a call - system ones have no id and cannot be deleted
+export interface DispositionOption {
+  code: string;
+  label: string;
+  color: string | null;
+  id: string | null;
+}